@@ -7,7 +7,8 @@ import { Button } from '@/app/components/ui/button';
 import { Input } from '@/app/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/app/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/app/components/ui/dialog';
-import { Search, Eye, RefreshCw, FileText } from 'lucide-react';
+import { Search, Eye, RefreshCw, FileText, CalendarClock, Scale } from 'lucide-react';
+import { toast } from 'sonner';
 
 const API_BASE = `https://${projectId}.supabase.co/functions/v1/make-server-34d8f37e`;
 
@@ -35,6 +36,38 @@ interface Installment {
   amount_due: number;
   amount_paid: number;
   status: string;
+  charges: InstallmentCharge[];
+  paid_components: { fees: number; interest: number; principal: number };
+  penalties_outstanding: number;
+}
+
+interface InstallmentCharge {
+  id: string;
+  type: 'LATE_FEE' | 'PENALTY_INTEREST';
+  amount: number;
+  status: 'ACCRUED' | 'PAID' | 'WAIVED';
+  accrued_on: string;
+  accrued_from: string | null;
+  accrued_to: string | null;
+  waived_by: string | null;
+  waiver_reason: string | null;
+}
+
+interface CreditDecision {
+  outcome: 'APPROVED' | 'DECLINED';
+  factors: {
+    netSalary: number;
+    salaryCapacity: number;
+    existingDeductions: number;
+    availableCapacity: number;
+    crbScore: number | null;
+    maxAmount: number;
+    requestedAmount: number;
+    bindingConstraint: string;
+  };
+  adverse_action_codes: string[];
+  adverse_action_reasons: string[];
+  decided_at: string;
 }
 
 const STATE_COLORS: Record<string, string> = {
@@ -47,6 +80,14 @@ const STATE_COLORS: Record<string, string> = {
   CLOSED: 'bg-emerald-100 text-emerald-800',
   DISPUTED: 'bg-red-100 text-red-800',
   CANCELLED: 'bg-gray-100 text-gray-800',
+  REFUNDED: 'bg-gray-100 text-gray-800',
+  DEFAULTED: 'bg-red-200 text-red-900',
+};
+
+const CHARGE_COLORS: Record<string, string> = {
+  ACCRUED: 'bg-orange-100 text-orange-800',
+  PAID: 'bg-green-100 text-green-800',
+  WAIVED: 'bg-gray-100 text-gray-800',
 };
 
 export function ContractsView() {
@@ -58,6 +99,8 @@ export function ContractsView() {
   const [selectedContract, setSelectedContract] = useState<Contract | null>(null);
   const [installments, setInstallments] = useState<Installment[]>([]);
   const [auditLogs, setAuditLogs] = useState<any[]>([]);
+  const [creditDecision, setCreditDecision] = useState<CreditDecision | null>(null);
+  const [waiverReason, setWaiverReason] = useState('');
 
   const fetchContracts = async () => {
     setLoading(true);
@@ -98,26 +141,23 @@ export function ContractsView() {
     }
   }, [searchTerm, contracts]);
 
-  const viewContractDetails = async (contract: Contract) => {
-    setSelectedContract(contract);
-    
-    // Fetch installments
+  const fetchInstallments = async (contractId: string) => {
     try {
-      const response = await fetch(`${API_BASE}/api/contracts`, {
+      const response = await fetch(`${API_BASE}/api/contracts/${contractId}/installments`, {
         headers: {
           'Authorization': `Bearer ${publicAnonKey}`,
         },
       });
-      // For now, we'll need to implement a separate endpoint for installments
-      // This is a placeholder
-      setInstallments([]);
+      const data = await response.json();
+      setInstallments(data.installments || []);
     } catch (error) {
       console.error('Error fetching installments:', error);
     }
+  };
 
-    // Fetch audit logs
+  const fetchAuditLogs = async (contractId: string) => {
     try {
-      const response = await fetch(`${API_BASE}/api/audit-logs/contract/${contract.id}`, {
+      const response = await fetch(`${API_BASE}/api/audit-logs/contract/${contractId}`, {
         headers: {
           'Authorization': `Bearer ${publicAnonKey}`,
         },
@@ -129,6 +169,64 @@ export function ContractsView() {
     }
   };
 
+  const fetchCreditDecision = async (contractId: string) => {
+    try {
+      const response = await fetch(`${API_BASE}/api/contracts/${contractId}/credit-decision`, {
+        headers: {
+          'Authorization': `Bearer ${publicAnonKey}`,
+        },
+      });
+      // Contracts created before decisions were recorded have none
+      setCreditDecision(response.ok ? await response.json() : null);
+    } catch (error) {
+      console.error('Error fetching credit decision:', error);
+    }
+  };
+
+  const viewContractDetails = async (contract: Contract) => {
+    setSelectedContract(contract);
+    setWaiverReason('');
+    setCreditDecision(null);
+    await Promise.all([
+      fetchInstallments(contract.id),
+      fetchAuditLogs(contract.id),
+      fetchCreditDecision(contract.id),
+    ]);
+  };
+
+  const waiveCharge = async (installment: Installment, charge: InstallmentCharge) => {
+    if (!selectedContract) return;
+    if (!waiverReason.trim()) {
+      toast.error('Please enter a waiver reason');
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `${API_BASE}/api/contracts/${selectedContract.id}/installments/${installment.installment_number}/charges/${charge.id}/waive`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${publicAnonKey}`,
+          },
+          body: JSON.stringify({ reason: waiverReason }),
+        }
+      );
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(`Waived UGX ${charge.amount.toLocaleString()} ${charge.type.replace(/_/g, ' ').toLowerCase()}`);
+        setWaiverReason('');
+        await Promise.all([fetchInstallments(selectedContract.id), fetchAuditLogs(selectedContract.id)]);
+      } else {
+        toast.error(data.details || data.error || 'Failed to waive penalty');
+      }
+    } catch (error) {
+      toast.error('Failed to waive penalty');
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -283,6 +381,125 @@ export function ContractsView() {
                                   </div>
                                 </div>
 
+                                {/* Credit Decision */}
+                                <div>
+                                  <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
+                                    <Scale className="w-4 h-4 mr-2" />
+                                    Credit Decision
+                                  </h4>
+                                  {!creditDecision ? (
+                                    <div className="text-sm text-gray-500">No credit decision recorded</div>
+                                  ) : (
+                                    <div className="grid grid-cols-2 gap-4 text-sm">
+                                      <div className="space-y-2">
+                                        <div>
+                                          <span className="text-gray-500">Outcome:</span>{' '}
+                                          <Badge className={creditDecision.outcome === 'APPROVED' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+                                            {creditDecision.outcome}
+                                          </Badge>
+                                        </div>
+                                        <div><span className="text-gray-500">Net Salary:</span> UGX {creditDecision.factors.netSalary.toLocaleString()}</div>
+                                        <div><span className="text-gray-500">Salary Capacity:</span> UGX {creditDecision.factors.salaryCapacity.toLocaleString()}/month</div>
+                                        <div><span className="text-gray-500">Existing Deductions:</span> UGX {creditDecision.factors.existingDeductions.toLocaleString()}/month</div>
+                                        <div><span className="text-gray-500">CRB Score:</span> {creditDecision.factors.crbScore ?? 'No check on file'}</div>
+                                      </div>
+                                      <div className="space-y-2">
+                                        <div><span className="text-gray-500">Requested:</span> UGX {creditDecision.factors.requestedAmount.toLocaleString()}</div>
+                                        <div><span className="text-gray-500">Maximum:</span> UGX {creditDecision.factors.maxAmount.toLocaleString()}</div>
+                                        <div><span className="text-gray-500">Limited by:</span> {creditDecision.factors.bindingConstraint.replace(/_/g, ' ')}</div>
+                                        <div><span className="text-gray-500">Decided:</span> {new Date(creditDecision.decided_at).toLocaleString()}</div>
+                                      </div>
+                                      {creditDecision.adverse_action_codes.length > 0 && (
+                                        <div className="col-span-2 space-y-1">
+                                          {creditDecision.adverse_action_codes.map((code, idx) => (
+                                            <div key={code} className="text-xs bg-red-50 rounded px-2 py-1">
+                                              <span className="font-medium">{code}</span> · {creditDecision.adverse_action_reasons[idx]}
+                                            </div>
+                                          ))}
+                                        </div>
+                                      )}
+                                    </div>
+                                  )}
+                                </div>
+
+                                {/* Installments & Penalties */}
+                                <div>
+                                  <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
+                                    <CalendarClock className="w-4 h-4 mr-2" />
+                                    Installments & Penalties
+                                  </h4>
+                                  {installments.length === 0 ? (
+                                    <div className="text-sm text-gray-500">No installments available</div>
+                                  ) : (
+                                    <div className="space-y-3">
+                                      {installments.map((installment) => (
+                                        <div key={installment.id} className="border rounded-lg p-3">
+                                          <div className="flex items-center justify-between text-sm">
+                                            <div>
+                                              <span className="font-medium">#{installment.installment_number}</span>{' '}
+                                              <span className="text-gray-500">due {new Date(installment.due_date).toLocaleDateString()}</span>
+                                            </div>
+                                            <div className="flex items-center gap-3">
+                                              <span>UGX {installment.amount_paid.toLocaleString()} / {installment.amount_due.toLocaleString()}</span>
+                                              <Badge variant="outline">{installment.status}</Badge>
+                                            </div>
+                                          </div>
+                                          {installment.amount_paid > 0 && (
+                                            <div className="mt-1 text-xs text-gray-500">
+                                              Paid: fees UGX {installment.paid_components.fees.toLocaleString()} · interest UGX {installment.paid_components.interest.toLocaleString()} · principal UGX {installment.paid_components.principal.toLocaleString()}
+                                            </div>
+                                          )}
+                                          {installment.charges.length > 0 && (
+                                            <div className="mt-2 space-y-1">
+                                              {installment.charges.map((charge) => (
+                                                <div key={charge.id} className="flex items-center justify-between text-xs bg-gray-50 rounded px-2 py-1">
+                                                  <div>
+                                                    <span className="font-medium">{charge.type.replace(/_/g, ' ')}</span>{' '}
+                                                    <span className="text-gray-500">
+                                                      {charge.accrued_from && charge.accrued_to
+                                                        ? `${new Date(charge.accrued_from).toLocaleDateString()} – ${new Date(charge.accrued_to).toLocaleDateString()}`
+                                                        : `accrued ${charge.accrued_on}`}
+                                                    </span>
+                                                    {charge.status === 'WAIVED' && charge.waiver_reason && (
+                                                      <span className="text-gray-500"> · waived by {charge.waived_by}: {charge.waiver_reason}</span>
+                                                    )}
+                                                  </div>
+                                                  <div className="flex items-center gap-2">
+                                                    <span>UGX {charge.amount.toLocaleString()}</span>
+                                                    <Badge className={CHARGE_COLORS[charge.status]}>{charge.status}</Badge>
+                                                    {charge.status === 'ACCRUED' && (
+                                                      <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        className="h-6 px-2 text-xs"
+                                                        onClick={() => waiveCharge(installment, charge)}
+                                                      >
+                                                        Waive
+                                                      </Button>
+                                                    )}
+                                                  </div>
+                                                </div>
+                                              ))}
+                                              {installment.penalties_outstanding > 0 && (
+                                                <div className="text-xs text-right text-orange-700">
+                                                  Penalties outstanding: UGX {installment.penalties_outstanding.toLocaleString()}
+                                                </div>
+                                              )}
+                                            </div>
+                                          )}
+                                        </div>
+                                      ))}
+                                      {installments.some((i) => i.charges.some((c) => c.status === 'ACCRUED')) && (
+                                        <Input
+                                          placeholder="Waiver reason (required to waive a penalty)"
+                                          value={waiverReason}
+                                          onChange={(e) => setWaiverReason(e.target.value)}
+                                        />
+                                      )}
+                                    </div>
+                                  )}
+                                </div>
+
                                 {/* Audit Trail */}
                                 <div>
                                   <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
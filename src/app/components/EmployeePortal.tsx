@@ -9,9 +9,32 @@ import {
   Users, FileCheck, CheckCircle2, AlertCircle, Upload,
   ArrowRight, Phone, Mail, Home, Calendar, Shield
 } from 'lucide-react';
+import { projectId, publicAnonKey } from '/utils/supabase/info';
+
+const API_BASE = `https://${projectId}.supabase.co/functions/v1/make-server-34d8f37e`;
 
 type OnboardingStep = 'WELCOME' | 'PERSONAL_INFO' | 'KYC' | 'CRB' | 'COMPLETE';
 
+interface CRBCheckResult {
+  id: string;
+  score: number;
+  risk_level: 'LOW' | 'MEDIUM' | 'HIGH' | 'VERY_HIGH';
+  risk_flags: string[];
+  overall_status: 'CLEAN' | 'WARNING' | 'HIGH_RISK';
+  expires_at: string;
+  from_cache: boolean;
+}
+
+interface CreditDecisionSummary {
+  contract_id: string | null; // Declined orders have no contract
+  decision_id?: string;
+  principal_amount: number;
+  outcome: 'APPROVED' | 'DECLINED';
+  factors: { maxAmount: number; bindingConstraint: string };
+  adverse_action_reasons: string[];
+  decided_at: string;
+}
+
 interface FormData {
   firstName: string;
   lastName: string;
@@ -40,7 +63,12 @@ export default function EmployeePortal() {
     nationalIdBack: null as File | null,
     profilePhoto: null as File | null,
   });
+  const [crbConsentGiven, setCrbConsentGiven] = useState(false);
+  const [customerPin, setCustomerPin] = useState('');
   const [crbSubmitted, setCrbSubmitted] = useState(false);
+  const [crbResult, setCrbResult] = useState<CRBCheckResult | null>(null);
+  const [crbError, setCrbError] = useState<string | null>(null);
+  const [creditDecisions, setCreditDecisions] = useState<CreditDecisionSummary[]>([]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -51,6 +79,67 @@ export default function EmployeePortal() {
     setKycDocuments(prev => ({ ...prev, [field]: file }));
   };
 
+  const authorizeCrbCheck = async () => {
+    setCrbSubmitted(true);
+    setCrbError(null);
+    // Consent and the check are tied to the customer signing in with their PIN
+    const headers = {
+      'Authorization': `Bearer ${publicAnonKey}`,
+      'Content-Type': 'application/json',
+      'X-Customer-Phone': formData.phone,
+      'X-Customer-Pin': customerPin,
+    };
+
+    try {
+      const consentResponse = await fetch(`${API_BASE}/api/crb/consent`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ consent_given: true, channel: 'EMPLOYEE_PORTAL' }),
+      });
+      const consent = await consentResponse.json();
+      if (!consentResponse.ok) {
+        throw new Error(consent.details || consent.error);
+      }
+
+      const checkResponse = await fetch(`${API_BASE}/api/crb/check`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({}),
+      });
+      const check = await checkResponse.json();
+      if (!checkResponse.ok) {
+        throw new Error(check.details || check.error);
+      }
+      setCrbResult(check);
+    } catch (error) {
+      console.error('Error running CRB check:', error);
+      setCrbError(error instanceof Error ? error.message : 'CRB check failed');
+      setCrbSubmitted(false);
+    }
+  };
+
+  const completeOnboarding = async () => {
+    setCurrentStep('COMPLETE');
+
+    // New employees have no decisions yet; returning ones see why past orders were limited
+    try {
+      const response = await fetch(
+        `${API_BASE}/api/customer/credit-decisions`,
+        {
+          headers: {
+            'Authorization': `Bearer ${publicAnonKey}`,
+            'X-Customer-Phone': formData.phone,
+            'X-Customer-Pin': customerPin,
+          },
+        }
+      );
+      const data = await response.json();
+      setCreditDecisions(response.ok ? data.decisions : []);
+    } catch (error) {
+      console.error('Error fetching credit decisions:', error);
+    }
+  };
+
   const progressSteps = ['Welcome', 'Personal Info', 'KYC', 'CRB', 'Complete'];
   const currentStepIndex = ['WELCOME', 'PERSONAL_INFO', 'KYC', 'CRB', 'COMPLETE'].indexOf(currentStep);
 
@@ -395,24 +484,85 @@ export default function EmployeePortal() {
                     </div>
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-900 mb-2">BNPL PIN *</label>
+                    <input
+                      type="password"
+                      inputMode="numeric"
+                      value={customerPin}
+                      onChange={(e) => setCustomerPin(e.target.value)}
+                      className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                  </div>
+
+                  <label className="flex items-start gap-3 p-4 border rounded-lg cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={crbConsentGiven}
+                      onChange={(e) => setCrbConsentGiven(e.target.checked)}
+                      className="mt-1"
+                    />
+                    <span className="text-sm text-gray-700">
+                      I authorise the platform to obtain my credit report from a licensed Credit Reference Bureau to assess my application for credit, and to share repayment information with the bureau.
+                    </span>
+                  </label>
+
+                  {crbError && (
+                    <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex gap-3">
+                      <AlertCircle className="text-red-600 flex-shrink-0" size={20} />
+                      <p className="text-sm text-red-700">{crbError}</p>
+                    </div>
+                  )}
+
                   <button
-                    onClick={() => {
-                      setCrbSubmitted(true);
-                      // Simulate CRB check
-                      setTimeout(() => setCurrentStep('COMPLETE'), 2000);
-                    }}
-                    className="w-full px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 font-semibold"
+                    onClick={authorizeCrbCheck}
+                    disabled={!crbConsentGiven || !customerPin}
+                    className="w-full px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     Authorize CRB Check
                   </button>
                 </div>
-              ) : (
+              ) : !crbResult ? (
                 <div className="text-center space-y-4 py-8">
                   <div className="inline-flex p-4 bg-green-100 rounded-full">
                     <CheckCircle2 size={40} className="text-green-600" />
                   </div>
                   <p className="text-gray-600">Verifying your CRB profile...</p>
                 </div>
+              ) : (
+                <div className="space-y-4">
+                  <div className="p-6 border rounded-lg text-center">
+                    <p className="text-sm text-gray-600">CRB Score</p>
+                    <p className="text-4xl font-bold text-gray-900">{crbResult.score}/1000</p>
+                    <p className={`text-sm font-semibold mt-1 ${
+                      crbResult.overall_status === 'CLEAN'
+                        ? 'text-green-600'
+                        : crbResult.overall_status === 'WARNING'
+                          ? 'text-yellow-600'
+                          : 'text-red-600'
+                    }`}>
+                      {crbResult.overall_status.replace('_', ' ')} · {crbResult.risk_level.replace('_', ' ')} risk
+                    </p>
+                  </div>
+
+                  {crbResult.risk_flags.length > 0 && (
+                    <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                      <p className="font-semibold text-gray-900 text-sm mb-2">Items on your credit report</p>
+                      <ul className="text-sm text-gray-600 space-y-1 ml-4">
+                        {crbResult.risk_flags.map((flag) => (
+                          <li key={flag}>• {flag.replace(/_/g, ' ').toLowerCase()}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  <button
+                    onClick={completeOnboarding}
+                    className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-semibold flex items-center justify-center gap-2"
+                  >
+                    Continue <ArrowRight size={18} />
+                  </button>
+                </div>
               )}
 
               <div className="flex gap-4 mt-8">
@@ -454,7 +604,9 @@ export default function EmployeePortal() {
                   <CheckCircle2 className="text-green-600 flex-shrink-0" size={24} />
                   <div>
                     <p className="font-semibold text-gray-900">CRB Checked</p>
-                    <p className="text-sm text-gray-600">Score: 820/1000 (Excellent!)</p>
+                    <p className="text-sm text-gray-600">
+                      {crbResult ? `Score: ${crbResult.score}/1000 (${crbResult.overall_status.replace('_', ' ')})` : 'Pending'}
+                    </p>
                   </div>
                 </div>
                 <div className="flex items-center gap-3 text-left">
@@ -466,6 +618,33 @@ export default function EmployeePortal() {
                 </div>
               </div>
 
+              <div className="p-6 rounded-lg border text-left space-y-3">
+                <p className="font-semibold text-gray-900">Your credit decisions</p>
+                {creditDecisions.length === 0 ? (
+                  <p className="text-sm text-gray-600">No credit decisions yet</p>
+                ) : (
+                  creditDecisions.map((decision) => (
+                    <div key={decision.contract_id ?? decision.decision_id} className="text-sm border-t pt-3">
+                      <p className="text-gray-900">
+                        UGX {decision.principal_amount.toLocaleString()} · {decision.outcome.toLowerCase()} on{' '}
+                        {new Date(decision.decided_at).toLocaleDateString()}
+                      </p>
+                      <p className="text-gray-600">
+                        Maximum UGX {decision.factors.maxAmount.toLocaleString()}, limited by{' '}
+                        {decision.factors.bindingConstraint.replace(/_/g, ' ').toLowerCase()}
+                      </p>
+                      {decision.adverse_action_reasons.length > 0 && (
+                        <ul className="text-gray-600 space-y-1 ml-4 mt-1">
+                          {decision.adverse_action_reasons.map((reason) => (
+                            <li key={reason}>• {reason}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+
               <div className="space-y-3 mt-8">
                 <button className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-semibold">
                   Go to Dashboard
@@ -12,6 +12,7 @@ const API_BASE = `https://${projectId}.supabase.co/functions/v1/make-server-34d8
 
 export function EmployerView() {
   const [employerId, setEmployerId] = useState('EMP-001');
+  const [apiKey, setApiKey] = useState('demo_employer_key');
   const [employeeData, setEmployeeData] = useState('');
   const [uploading, setUploading] = useState(false);
   const [result, setResult] = useState<any>(null);
@@ -42,11 +43,17 @@ export function EmployerView() {
         headers: {
           'Authorization': `Bearer ${publicAnonKey}`,
           'Content-Type': 'application/json',
+          'X-API-Key': apiKey,
+          'X-Tenant-Id': employerId,
         },
         body: JSON.stringify({ employer_id: employerId, employees }),
       });
 
       const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to upload employees');
+        return;
+      }
       setResult(data);
       toast.success(`Onboarded ${data.successful} employees successfully`);
     } catch (error) {
@@ -90,6 +97,16 @@ EMP003,11223344,Bob Johnson,+254734567890,45000`;
               />
             </div>
 
+            <div>
+              <Label htmlFor="employer-api-key">Employer API Key</Label>
+              <Input
+                id="employer-api-key"
+                type="password"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+              />
+            </div>
+
             <div>
               <Label htmlFor="employee-data">Employee Data (CSV Format)</Label>
               <Textarea
@@ -6,8 +6,7 @@
 import React, { useState } from 'react';
 import { ArrowRight, CheckCircle2, Clock } from 'lucide-react';
 import { ContractStateMachine } from '@/services/domain/StateMachine';
-
-type BNPLState = 'PRE_APPROVED' | 'ORDER_CREATED' | 'CUSTOMER_AUTHORIZED' | 'FUNDED' | 'IN_REPAYMENT' | 'CLOSED' | 'CANCELLED' | 'REFUNDED' | 'DEFAULTED';
+import type { BNPLContractState as BNPLState } from '@/services/domain/types';
 
 export function LiveStateMachineVisualizer() {
   const [currentState, setCurrentState] = useState<BNPLState>('PRE_APPROVED');
@@ -16,21 +15,22 @@ export function LiveStateMachineVisualizer() {
   >([
     {
       from: 'PRE_APPROVED' as BNPLState,
-      to: 'ORDER_CREATED' as BNPLState,
+      to: 'DEDUCTION_REQUESTED' as BNPLState,
       time: new Date(Date.now() - 5 * 60 * 1000),
     },
   ]);
 
   const states: BNPLState[] = [
     'PRE_APPROVED',
-    'ORDER_CREATED',
+    'DEDUCTION_REQUESTED',
     'CUSTOMER_AUTHORIZED',
-    'FUNDED',
+    'ESCROW_HELD',
+    'DISBURSED',
     'IN_REPAYMENT',
     'CLOSED',
   ];
 
-  const alternativeEnds: BNPLState[] = ['CANCELLED', 'REFUNDED', 'DEFAULTED'];
+  const alternativeEnds: BNPLState[] = ['DISPUTED', 'CANCELLED', 'REFUNDED', 'DEFAULTED'];
 
   const handleTransition = (targetState: BNPLState) => {
     // Check if transition is valid
@@ -122,7 +122,7 @@ export function LiveStateMachineVisualizer() {
         {!isTerminal && (
           <div>
             <p className="text-sm font-semibold text-gray-700 mb-3">Emergency Transitions</p>
-            <div className="grid grid-cols-3 gap-3">
+            <div className="grid grid-cols-4 gap-3">
               {alternativeEnds.map((endState) => {
                 const canTransition = ContractStateMachine.canTransition(currentState, endState);
                 return (
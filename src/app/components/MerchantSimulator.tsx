@@ -11,6 +11,12 @@ import { Badge } from '@/app/components/ui/badge';
 
 const API_BASE = `https://${projectId}.supabase.co/functions/v1/make-server-34d8f37e`;
 
+// Demo merchant's seeded key (legacy keys need the tenant id alongside)
+const MERCHANT_HEADERS = {
+  'X-API-Key': 'demo_merchant_key',
+  'X-Tenant-Id': 'MERCH-001',
+};
+
 export function MerchantSimulator() {
   const [policyNumber, setPolicyNumber] = useState('');
   const [amount, setAmount] = useState('10000');
@@ -29,6 +35,8 @@ export function MerchantSimulator() {
         headers: {
           'Authorization': `Bearer ${publicAnonKey}`,
           'Content-Type': 'application/json',
+          'Idempotency-Key': crypto.randomUUID(),
+          ...MERCHANT_HEADERS,
         },
         body: JSON.stringify({
           merchant_id: 'MERCH-001',
@@ -97,6 +105,9 @@ export function MerchantSimulator() {
         headers: {
           'Authorization': `Bearer ${publicAnonKey}`,
           'Content-Type': 'application/json',
+          // One release per order, however often the button is pressed
+          'Idempotency-Key': `confirm-delivery:${order.order_id}`,
+          ...MERCHANT_HEADERS,
         },
       });
 
@@ -182,11 +193,11 @@ export function MerchantSimulator() {
                     <span>UGX {order.payment_details.principal.toLocaleString()}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Interest (7%):</span>
+                    <span>Interest:</span>
                     <span>UGX {order.payment_details.interest.toLocaleString()}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Fees (5%):</span>
+                    <span>Fees:</span>
                     <span>UGX {(order.payment_details.operational_fee + order.payment_details.collection_fee).toLocaleString()}</span>
                   </div>
                   <div className="flex justify-between font-bold border-t border-blue-200 pt-1">
@@ -197,6 +208,12 @@ export function MerchantSimulator() {
                     <span>Monthly:</span>
                     <span>UGX {order.payment_details.installment_amount.toLocaleString()}</span>
                   </div>
+                  {order.payment_details.merchant_discount > 0 && (
+                    <div className="flex justify-between text-xs">
+                      <span>Merchant subsidy:</span>
+                      <span>UGX {order.payment_details.merchant_discount.toLocaleString()}</span>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DelinquencyEngine } from '../domain/DelinquencyEngine';
+import { bucketFor } from '../../../supabase/functions/_shared/delinquency';
+import { buildContract, createTestDependencies, TestDependencies } from '../repositories/testing';
+
+const asOf = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+describe('delinquency buckets', () => {
+  it('places days past due in the 1-30, 31-60, 61-90 and 90+ buckets', () => {
+    expect(bucketFor(0)).toBe('CURRENT');
+    expect(bucketFor(1)).toBe('DPD_1_30');
+    expect(bucketFor(30)).toBe('DPD_1_30');
+    expect(bucketFor(31)).toBe('DPD_31_60');
+    expect(bucketFor(60)).toBe('DPD_31_60');
+    expect(bucketFor(61)).toBe('DPD_61_90');
+    expect(bucketFor(90)).toBe('DPD_61_90');
+    expect(bucketFor(91)).toBe('DPD_90_PLUS');
+  });
+
+  it('ages a contract from its oldest unpaid installment', () => {
+    const contract = buildContract();
+    contract.installments[0].status = 'PAID';
+    contract.installments[0].paidAmount = 105_000;
+
+    const result = DelinquencyEngine.ageContract(contract, asOf('2026-04-10'));
+
+    // February's installment is the oldest unpaid one: 41 days late
+    expect(result.daysPastDue).toBe(41);
+    expect(result.bucket).toBe('DPD_31_60');
+    expect(result.pastDueAmount).toBe(210_000);
+  });
+
+  it('does not count an installment as overdue inside the grace period', () => {
+    const contract = buildContract();
+
+    const result = DelinquencyEngine.ageContract(contract, asOf('2026-02-03'), {
+      graceDays: 5,
+      defaultAfterDays: 90,
+      minimumArrearsForDefault: 1_000,
+    });
+
+    expect(result.bucket).toBe('CURRENT');
+    expect(result.pastDueAmount).toBe(0);
+    expect(contract.installments[0].status).toBe('PENDING');
+  });
+});
+
+describe('delinquency job', () => {
+  let deps: TestDependencies;
+
+  beforeEach(() => {
+    deps = createTestDependencies();
+  });
+
+  it('marks overdue installments and stores the past-due amount', async () => {
+    await deps.contractRepo.create(buildContract());
+
+    const run = await DelinquencyEngine.runDelinquencyJob(deps, asOf('2026-02-15'));
+
+    expect(run.installmentsMarkedOverdue).toBe(1);
+    expect(run.contracts[0]).toMatchObject({ daysPastDue: 15, bucket: 'DPD_1_30', defaulted: false });
+
+    const stored = await deps.contractRepo.get('CONTRACT-1');
+    expect(stored?.installments.map((i) => i.status)).toEqual(['OVERDUE', 'PENDING', 'PENDING']);
+    expect(stored?.pastDueAmount).toBe(105_000);
+  });
+
+  it('moves a disbursed contract into repayment once its first installment falls due', async () => {
+    await deps.contractRepo.create(buildContract({ state: 'DISBURSED' }));
+
+    await DelinquencyEngine.runDelinquencyJob(deps, asOf('2026-02-01'));
+
+    expect((await deps.contractRepo.get('CONTRACT-1'))?.state).toBe('IN_REPAYMENT');
+  });
+
+  it('defaults a contract more than 90 days past due and stops ageing it', async () => {
+    await deps.contractRepo.create(buildContract());
+
+    const run = await DelinquencyEngine.runDelinquencyJob(deps, asOf('2026-05-15'));
+
+    expect(run.contractsDefaulted).toBe(1);
+    expect(run.contracts[0]).toMatchObject({ daysPastDue: 104, bucket: 'DPD_90_PLUS', pastDueAmount: 315_000 });
+    expect((await deps.contractRepo.get('CONTRACT-1'))?.state).toBe('DEFAULTED');
+    expect(deps.auditLog.events.map((e) => e.type)).toContain('CONTRACT_DEFAULTED');
+
+    // Defaulted contracts are no longer active, so the next run leaves them alone
+    const next = await DelinquencyEngine.runDelinquencyJob(deps, asOf('2026-05-16'));
+    expect(next.contractsAged).toBe(0);
+  });
+
+  it('does not default on rounding residue', async () => {
+    const contract = buildContract();
+    contract.installments.forEach((i) => {
+      i.paidAmount = i.amount - 300;
+    });
+    await deps.contractRepo.create(contract);
+
+    const run = await DelinquencyEngine.runDelinquencyJob(deps, asOf('2026-05-15'));
+
+    expect(run.contracts[0].pastDueAmount).toBe(900);
+    expect(run.contractsDefaulted).toBe(0);
+  });
+
+  it('reports portfolio at risk weighted by outstanding balance', async () => {
+    await deps.contractRepo.create(buildContract());
+    await deps.contractRepo.create(
+      buildContract({ id: 'CONTRACT-2', employeeId: 'EMPLOYEE-2', totalDue: 105_000 })
+    );
+    const current = await deps.contractRepo.get('CONTRACT-2');
+    current!.installments.forEach((i) => {
+      i.dueDate = asOf('2026-06-30');
+    });
+    await deps.contractRepo.update(current!);
+
+    const run = await DelinquencyEngine.runDelinquencyJob(deps, asOf('2026-03-15'));
+
+    expect(run.portfolio.totalOutstanding).toBe(420_000);
+    expect(run.portfolio.par1).toBe(315_000);
+    expect(run.portfolio.par30).toBe(315_000);
+    expect(run.portfolio.par60).toBe(0);
+    expect(run.portfolio.par30Percentage).toBeCloseTo(75);
+  });
+});
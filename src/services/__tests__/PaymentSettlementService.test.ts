@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PaymentSettlementService } from '../api/PaymentSettlementService';
+import { GeneralLedger } from '../domain/GeneralLedger';
+import { LedgerAccountCode } from '../domain/types';
+import { buildContract, createTestDependencies, TestDependencies } from '../repositories/testing';
+
+const balanceOf = async (account: LedgerAccountCode, deps: TestDependencies) =>
+  (await GeneralLedger.getAccountBalance(account, deps)).balance;
+
+const refund = (refundAmount: number, idempotencyKey: string) => ({
+  contractId: 'CONTRACT-1',
+  orderId: 'ORDER-1',
+  refundAmount,
+  reason: 'CUSTOMER_REQUEST' as const,
+  idempotencyKey,
+});
+
+describe('merchant settlement', () => {
+  let deps: TestDependencies;
+
+  beforeEach(async () => {
+    deps = createTestDependencies();
+    await deps.contractRepo.create(buildContract());
+  });
+
+  it('pays the merchant the principal less half the processing fee, once per key', async () => {
+    const first = await PaymentSettlementService.settleMerchant('CONTRACT-1', 'settle-1', deps);
+    const repeat = await PaymentSettlementService.settleMerchant('CONTRACT-1', 'settle-1', deps);
+
+    expect(first.success).toBe(true);
+    expect(repeat.settlementId).toBe(first.settlementId);
+    expect(deps.paymentGateway.payouts).toEqual([{ amount: 292_500, account: 'MERCHANT', ref: 'PAY-1' }]);
+  });
+
+  it('books the lender funding, disbursement and fee in a balanced ledger', async () => {
+    await PaymentSettlementService.settleMerchant('CONTRACT-1', 'settle-1', deps);
+
+    expect(await balanceOf('LOANS_RECEIVABLE', deps)).toBe(315_000);
+    expect(await balanceOf('LENDER_CAPITAL', deps)).toBe(300_000);
+    expect(await balanceOf('PLATFORM_FEE_INCOME', deps)).toBe(7_500);
+    expect(await balanceOf('PROCESSING_FEE_INCOME', deps)).toBe(15_000);
+    expect((await PaymentSettlementService.verifyTrialBalance(deps)).balanced).toBe(true);
+  });
+
+  it('withholds outstanding clawbacks from the next payout', async () => {
+    await PaymentSettlementService.settleMerchant('CONTRACT-1', 'settle-1', deps);
+    await PaymentSettlementService.processRefund(refund(100_000, 'refund-1'), deps);
+    await deps.contractRepo.create(buildContract({ id: 'CONTRACT-2', employeeId: 'EMPLOYEE-2' }));
+
+    await PaymentSettlementService.settleMerchant('CONTRACT-2', 'settle-2', deps);
+
+    expect(deps.paymentGateway.payouts[1].amount).toBe(192_500);
+    const [clawback] = await deps.clawbackRepo.query({ merchantId: 'MERCHANT-1' });
+    expect(clawback).toMatchObject({ amount: 100_000, recoveredAmount: 100_000, status: 'RECOVERED' });
+    expect(await balanceOf('MERCHANT_RECEIVABLE', deps)).toBe(0);
+  });
+});
+
+describe('refunds', () => {
+  let deps: TestDependencies;
+
+  beforeEach(async () => {
+    deps = createTestDependencies();
+    await deps.contractRepo.create(buildContract());
+  });
+
+  it('re-amortizes the open installments over the reduced principal and fee', async () => {
+    const result = await PaymentSettlementService.processRefund(refund(100_000, 'refund-1'), deps);
+
+    expect(result.success).toBe(true);
+    const contract = await deps.contractRepo.get('CONTRACT-1');
+    expect(contract).toMatchObject({
+      orderAmount: 200_000,
+      processingFee: 10_000,
+      totalPayable: 210_000,
+      totalDue: 210_000,
+      installmentAmount: 70_000,
+    });
+    expect(contract?.installments.map((i) => i.amount)).toEqual([70_000, 70_000, 70_000]);
+  });
+
+  it('leaves paid installments alone and spreads the rest over what is still open', async () => {
+    const contract = buildContract();
+    contract.installments[0].status = 'PAID';
+    contract.installments[0].paidAmount = 105_000;
+    contract.totalPaid = 105_000;
+    contract.totalDue = 210_000;
+    await deps.contractRepo.update(contract);
+
+    await PaymentSettlementService.processRefund(refund(100_000, 'refund-1'), deps);
+
+    const stored = await deps.contractRepo.get('CONTRACT-1');
+    expect(stored?.totalDue).toBe(105_000);
+    expect(stored?.installments.map((i) => i.amount)).toEqual([105_000, 52_500, 52_500]);
+  });
+
+  it('applies a refund once per idempotency key', async () => {
+    const first = await PaymentSettlementService.processRefund(refund(100_000, 'refund-1'), deps);
+    const repeat = await PaymentSettlementService.processRefund(refund(100_000, 'refund-1'), deps);
+
+    expect(repeat.reversalId).toBe(first.reversalId);
+    expect((await deps.contractRepo.get('CONTRACT-1'))?.orderAmount).toBe(200_000);
+  });
+
+  it('rejects a refund larger than the order', async () => {
+    const result = await PaymentSettlementService.processRefund(refund(300_001, 'refund-1'), deps);
+
+    expect(result).toEqual({ success: false, error: 'Refund amount exceeds order amount' });
+  });
+
+  it('books nothing in the ledger when the merchant was never paid', async () => {
+    await PaymentSettlementService.processRefund(refund(300_000, 'refund-1'), deps);
+
+    expect(await deps.journalRepo.query({})).toEqual([]);
+    expect(await deps.clawbackRepo.query({ merchantId: 'MERCHANT-1' })).toEqual([]);
+  });
+
+  it('reverses a settled order fully, leaving only the merchant receivable', async () => {
+    await PaymentSettlementService.settleMerchant('CONTRACT-1', 'settle-1', deps);
+
+    await PaymentSettlementService.processRefund(refund(300_000, 'refund-1'), deps);
+
+    expect(await balanceOf('LOANS_RECEIVABLE', deps)).toBe(0);
+    expect(await balanceOf('LENDER_CAPITAL', deps)).toBe(0);
+    expect(await balanceOf('PROCESSING_FEE_INCOME', deps)).toBe(0);
+    expect(await balanceOf('MERCHANT_RECEIVABLE', deps)).toBe(300_000);
+    expect((await PaymentSettlementService.verifyTrialBalance(deps)).balanced).toBe(true);
+
+    const [clawback] = await deps.clawbackRepo.query({ merchantId: 'MERCHANT-1', outstanding: true });
+    expect(clawback).toMatchObject({ reason: 'REFUND', amount: 300_000, status: 'OUTSTANDING' });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  allocatePayment,
+  splitInstallment,
+  validateWaterfallOrder,
+  WaterfallInstallment,
+} from '../../../supabase/functions/_shared/waterfall';
+
+const installment = (installmentNumber: number, charges: WaterfallInstallment['charges'] = []): WaterfallInstallment => ({
+  installmentNumber,
+  due: { penalties: 0, fees: 5_000, interest: 10_000, principal: 85_000 },
+  paid: { penalties: 0, fees: 0, interest: 0, principal: 0 },
+  charges,
+});
+
+describe('payment waterfall', () => {
+  it('pays penalties, fees, interest then principal on the oldest installment first', () => {
+    const result = allocatePayment(
+      102_000,
+      [installment(2), installment(1, [{ id: 'LATE-1', outstanding: 2_000 }])],
+      1
+    );
+
+    expect(result.lines).toEqual([
+      {
+        installmentNumber: 1,
+        amounts: { penalties: 2_000, fees: 5_000, interest: 10_000, principal: 85_000 },
+        charges: [{ id: 'LATE-1', amount: 2_000 }],
+        total: 102_000,
+      },
+    ]);
+    expect(result.applied).toBe(102_000);
+    expect(result.unapplied).toBe(0);
+  });
+
+  it('holds an overpayment back from later installments by default', () => {
+    const result = allocatePayment(110_000, [installment(1), installment(2)], 1);
+
+    expect(result.lines.map((l) => l.installmentNumber)).toEqual([1]);
+    expect(result.applied).toBe(100_000);
+    expect(result.unapplied).toBe(10_000);
+  });
+
+  it('carries an overpayment into the next installment when the policy says so', () => {
+    const result = allocatePayment(110_000, [installment(1), installment(2)], 1, {
+      order: ['PENALTIES', 'FEES', 'INTEREST', 'PRINCIPAL'],
+      overpayment: 'APPLY_NEXT_INSTALLMENT',
+    });
+
+    expect(result.lines[1]).toMatchObject({
+      installmentNumber: 2,
+      amounts: { penalties: 0, fees: 5_000, interest: 5_000, principal: 0 },
+      total: 10_000,
+    });
+    expect(result.unapplied).toBe(0);
+  });
+
+  it('follows a configured component order within the installment', () => {
+    const result = allocatePayment(90_000, [installment(1, [{ id: 'LATE-1', outstanding: 2_000 }])], 1, {
+      order: ['PRINCIPAL', 'INTEREST', 'FEES', 'PENALTIES'],
+      overpayment: 'HOLD_AS_CREDIT',
+    });
+
+    expect(result.lines[0].amounts).toEqual({ penalties: 0, fees: 0, interest: 5_000, principal: 85_000 });
+    expect(result.lines[0].charges).toEqual([]);
+  });
+
+  it('never pays a component past what is still due on it', () => {
+    const partlyPaid = installment(1);
+    partlyPaid.paid = { penalties: 0, fees: 5_000, interest: 4_000, principal: 0 };
+
+    const result = allocatePayment(20_000, [partlyPaid], 1);
+
+    expect(result.lines[0].amounts).toEqual({ penalties: 0, fees: 0, interest: 6_000, principal: 14_000 });
+  });
+
+  it('splits an installment so its components add back up to the amount due', () => {
+    const split = splitInstallment(105_001, { interestRate: 0.02, feeRate: 0.015 }, 3);
+
+    expect(split.fees + split.interest + split.principal).toBe(105_001);
+    expect(split.interest).toBeGreaterThan(split.fees);
+  });
+
+  it('rejects an order that drops or repeats a component', () => {
+    expect(validateWaterfallOrder(['PENALTIES', 'FEES', 'INTEREST', 'PRINCIPAL'])).toBeNull();
+    expect(validateWaterfallOrder(['FEES', 'FEES', 'INTEREST', 'PRINCIPAL'])).toMatch(/exactly once/);
+    expect(validateWaterfallOrder(['FEES', 'INTEREST', 'PRINCIPAL'])).toMatch(/exactly once/);
+  });
+});
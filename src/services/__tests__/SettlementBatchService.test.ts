@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PaymentSettlementService } from '../api/PaymentSettlementService';
+import { SettlementBatchDependencies, SettlementBatchService } from '../api/SettlementBatchService';
+import { buildContract, createTestDependencies, TestDependencies } from '../repositories/testing';
+
+describe('settlement batches', () => {
+  let deps: TestDependencies & SettlementBatchDependencies;
+  let cutoffAt: Date;
+
+  beforeEach(async () => {
+    deps = createTestDependencies();
+    for (const id of ['CONTRACT-1', 'CONTRACT-2']) {
+      await deps.contractRepo.create(buildContract({ id }));
+      await PaymentSettlementService.settleMerchant(id, `settle-${id}`, deps, { batched: true });
+    }
+    cutoffAt = new Date(Date.now() + 60_000);
+  });
+
+  it('pays every queued instruction in one payout', async () => {
+    const result = await SettlementBatchService.runBatch('MERCHANT-1', cutoffAt, deps);
+
+    expect(result.success).toBe(true);
+    expect(result.batch).toMatchObject({ status: 'PAID', grossAmount: 585_000, netPayout: 585_000 });
+    expect(deps.paymentGateway.payouts).toEqual([{ amount: 585_000, account: 'MERCHANT', ref: 'PAY-1' }]);
+
+    const instructions = await deps.settlementRepo.query({ merchantId: 'MERCHANT-1' });
+    expect(instructions.map((i) => i.status)).toEqual(['COMPLETED', 'COMPLETED']);
+  });
+
+  it('nets fees and outstanding refunds against the payout', async () => {
+    await SettlementBatchService.updateFeeSchedule(
+      'MERCHANT-1',
+      { mdrRate: 0.01, perTransactionFee: 500, payoutFee: 1_000 },
+      deps
+    );
+    await deps.clawbackRepo.create({
+      id: 'CLAWBACK-1',
+      merchantId: 'MERCHANT-1',
+      contractId: 'CONTRACT-1',
+      reason: 'REFUND',
+      amount: 50_000,
+      recoveredAmount: 0,
+      status: 'OUTSTANDING',
+      recoveries: [],
+      createdAt: new Date(),
+    });
+
+    const { batch } = await SettlementBatchService.runBatch('MERCHANT-1', cutoffAt, deps);
+
+    // 585,000 gross - 5,850 MDR - 1,000 per-order fees - 50,000 refund - 1,000 payout fee
+    expect(batch).toMatchObject({ feeAmount: 7_850, clawbackAmount: 50_000, netPayout: 527_150, carriedForward: 0 });
+    expect(await deps.clawbackRepo.query({ merchantId: 'MERCHANT-1', outstanding: true })).toEqual([]);
+  });
+
+  it('never pays the same instructions twice', async () => {
+    const first = await SettlementBatchService.runBatch('MERCHANT-1', cutoffAt, deps);
+    const repeat = await SettlementBatchService.runBatch('MERCHANT-1', cutoffAt, deps);
+
+    expect(repeat.batch?.id).toBe(first.batch?.id);
+    expect(deps.paymentGateway.payouts).toHaveLength(1);
+  });
+
+  it('puts instructions back on the queue when the gateway fails, so a retry pays them', async () => {
+    deps.paymentGateway.failNext = true;
+
+    const failed = await SettlementBatchService.runBatch('MERCHANT-1', cutoffAt, deps);
+
+    expect(failed).toMatchObject({ success: false, error: 'Payment initiation failed' });
+    expect((await deps.batchRepo.get(failed.batch!.id))?.status).toBe('FAILED');
+    const queued = await deps.settlementRepo.query({ merchantId: 'MERCHANT-1' });
+    expect(queued.every((i) => i.status === 'PENDING' && !i.batchId)).toBe(true);
+
+    const retried = await SettlementBatchService.runBatch('MERCHANT-1', cutoffAt, deps);
+
+    expect(retried.success).toBe(true);
+    expect(retried.batch?.id).not.toBe(failed.batch?.id);
+    expect(deps.paymentGateway.payouts).toEqual([{ amount: 585_000, account: 'MERCHANT', ref: 'PAY-1' }]);
+  });
+
+  it('refuses to rerun a batch whose payout is still processing', async () => {
+    deps.paymentGateway.initiate = () => new Promise(() => {});
+    void SettlementBatchService.runBatch('MERCHANT-1', cutoffAt, deps);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const rerun = await SettlementBatchService.runBatch('MERCHANT-1', cutoffAt, deps);
+
+    expect(rerun.success).toBe(false);
+    expect(rerun.batch?.status).toBe('PROCESSING');
+  });
+});
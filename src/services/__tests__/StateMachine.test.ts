@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { ContractStateMachine } from '../domain/StateMachine';
+import { buildContract } from '../repositories/testing';
+
+describe('contract lifecycle guards', () => {
+  it('rejects transitions outside the lifecycle table', () => {
+    const contract = buildContract({ state: 'PRE_APPROVED' });
+
+    const result = ContractStateMachine.transitionState(contract, 'DISBURSED', 'Skip authorization');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Cannot move from PRE_APPROVED to DISBURSED/);
+    expect(contract.state).toBe('PRE_APPROVED');
+    expect(contract.stateTransitionHistory).toHaveLength(0);
+  });
+
+  it('will not disburse a contract that has no lender', () => {
+    const contract = buildContract({ state: 'CUSTOMER_AUTHORIZED', lenderId: '' });
+
+    const result = ContractStateMachine.transitionState(contract, 'DISBURSED', 'Funded');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/allocated to a lender/);
+  });
+
+  it('stamps fundedAt and records the transition on disbursement', () => {
+    const contract = buildContract({ state: 'CUSTOMER_AUTHORIZED' });
+
+    const result = ContractStateMachine.transitionState(contract, 'DISBURSED', 'Funded', 'LENDER-1');
+
+    expect(result.success).toBe(true);
+    expect(contract.fundedAt).toBeInstanceOf(Date);
+    expect(contract.stateTransitionHistory).toEqual([
+      expect.objectContaining({ fromState: 'CUSTOMER_AUTHORIZED', toState: 'DISBURSED', triggeredBy: 'LENDER-1' }),
+    ]);
+  });
+
+  it('will not close a contract with a balance outstanding', () => {
+    const contract = buildContract();
+
+    const result = ContractStateMachine.transitionState(contract, 'CLOSED', 'Paid off');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Cannot close contract with UGX 315000 outstanding');
+  });
+
+  it('closes a contract once every installment is paid', () => {
+    const contract = buildContract();
+    contract.installments.forEach((i) => {
+      i.status = 'PAID';
+      i.paidAmount = i.amount;
+    });
+
+    const result = ContractStateMachine.transitionState(contract, 'CLOSED', 'Paid off');
+
+    expect(result.success).toBe(true);
+    expect(contract.closedAt).toBeInstanceOf(Date);
+  });
+
+  it('treats defaulted, refunded, cancelled and closed contracts as terminal', () => {
+    for (const state of ['DEFAULTED', 'REFUNDED', 'CANCELLED', 'CLOSED'] as const) {
+      expect(ContractStateMachine.isTerminal(state)).toBe(true);
+      expect(ContractStateMachine.getValidNextStates(state)).toEqual([]);
+    }
+    expect(ContractStateMachine.isActive('DEFAULTED')).toBe(false);
+    expect(ContractStateMachine.isActive('IN_REPAYMENT')).toBe(true);
+  });
+
+  it('maps legacy state names onto the unified lifecycle', () => {
+    const contract = buildContract({ state: 'FUNDED' as any });
+    contract.stateTransitionHistory.push({
+      fromState: 'ORDER_CREATED' as any,
+      toState: 'FUNDED' as any,
+      reason: 'Legacy',
+      timestamp: new Date(),
+      triggeredBy: 'SYSTEM',
+    });
+
+    expect(ContractStateMachine.migrateLegacyState(contract)).toBe(true);
+    expect(contract.state).toBe('DISBURSED');
+    expect(contract.stateTransitionHistory[0]).toMatchObject({ fromState: 'DEDUCTION_REQUESTED', toState: 'DISBURSED' });
+  });
+});
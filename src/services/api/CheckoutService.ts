@@ -6,13 +6,14 @@
  *
  * Flow:
  * 1. Validate merchant & order
- * 2. Identify employee by phone
- * 3. Check existing contracts (cache-friendly)
- * 4. Run credit decision
- * 5. Allocate to lender
- * 6. Create contract (FUNDED state)
- * 7. Return auth token
- * 8. Async: Create Mifos loan, send notifications
+ * 2. Velocity controls (merchant volume, ticket size, orders per customer/device)
+ * 3. Identify employee by phone
+ * 4. Check existing contracts (cache-friendly)
+ * 5. Run credit decision (employer's resolved credit policy; both arms while a credit experiment is active)
+ * 6. Allocate to lender
+ * 7. Create contract (DISBURSED state)
+ * 8. Return auth token
+ * 9. Async: Create Mifos loan, send notifications
  */
 
 import { v4 as uuidv4 } from 'uuid';
@@ -25,22 +26,63 @@ import {
   CheckoutRequest,
   AuthorizationResponse,
   BNPLInstallment,
+  CRBCheckRequest,
+  CRBCheckResult,
+  CreditExperiment,
+  ExperimentDecision,
 } from './types';
 import { CreditEngine, CreditCheckInput } from './CreditEngine';
+import { CreditPolicyService, CreditPolicyResolverDependencies } from './CreditPolicyService';
+import { CreditExperimentEngine } from '../domain/CreditExperimentEngine';
 import { MultiLenderAllocationEngine, LenderAllocationContext } from './MultiLenderAllocationEngine';
 import { ContractStateMachine } from './StateMachine';
+import {
+  checkVelocity,
+  DEFAULT_VELOCITY_POLICY,
+  VelocityDecline,
+  VelocityDeclineCode,
+  VelocityEvent,
+  VelocityPolicy,
+  VelocitySubject,
+} from '../../../supabase/functions/_shared/velocity';
+import { AdverseActionCode } from '../../../supabase/functions/_shared/credit-decision';
 
-export interface CheckoutDependencies {
+export interface CheckoutDependencies extends CreditPolicyResolverDependencies {
   merchantRepo: { get: (id: string) => Promise<Merchant | null> };
   employeeRepo: { getByPhone: (phone: string) => Promise<Employee | null> };
   employerRepo: { get: (id: string) => Promise<Employer | null> };
   lenderRepo: { getAll: () => Promise<Lender[]> };
-  contractRepo: { create: (contract: BNPLContract) => Promise<BNPLContract> };
-  crbService: { check: (nationalId: string, phone: string) => Promise<{ score: number }> };
+  contractRepo: {
+    create: (contract: BNPLContract) => Promise<BNPLContract>;
+    getActiveByEmployee: (employeeId: string) => Promise<BNPLContract[]>;
+  };
+  crbService: {
+    // CRBAdapter.check bound to its provider and repos; fails without customer consent
+    check: (request: CRBCheckRequest) => Promise<{ success: boolean; result?: CRBCheckResult; error?: string }>;
+  };
+  velocityRepo: {
+    getEvents: (subject: VelocitySubject, id: string) => Promise<VelocityEvent[]>;
+    record: (subject: VelocitySubject, id: string, event: VelocityEvent) => Promise<void>;
+  };
+  velocityPolicy?: VelocityPolicy; // Platform defaults; merchant limits override volume and ticket size
+  creditExperimentRepo: { getActive: () => Promise<CreditExperiment | null> };
+  experimentDecisionRepo: {
+    create: (decision: ExperimentDecision) => Promise<ExperimentDecision>;
+    update: (decision: ExperimentDecision) => Promise<void>;
+  };
   idempotencyCache: { get: (key: string) => Promise<any>; set: (key: string, value: any) => Promise<void> };
   eventBus: { publish: (event: any) => Promise<void> }; // For async notifications, Mifos creation
 }
 
+export interface CheckoutResult {
+  success: boolean;
+  data?: AuthorizationResponse;
+  error?: string;
+  declineCode?: VelocityDeclineCode; // First velocity breach, when declined by velocity controls
+  declines?: VelocityDecline[];
+  adverseActionCodes?: AdverseActionCode[]; // When declined by the credit decision
+}
+
 export class CheckoutService {
   /**
    * Process merchant checkout (stateless, <1s target)
@@ -48,7 +90,7 @@ export class CheckoutService {
   public static async processCheckout(
     request: CheckoutRequest,
     deps: CheckoutDependencies
-  ): Promise<{ success: boolean; data?: AuthorizationResponse; error?: string }> {
+  ): Promise<CheckoutResult> {
     try {
       // Step 0: Idempotency check (cached)
       const cached = await deps.idempotencyCache.get(request.idempotencyKey);
@@ -83,6 +125,38 @@ export class CheckoutService {
         };
       }
 
+      // Step 2b: Velocity controls (rolling windows per merchant, phone and device)
+      const now = new Date();
+      const velocity = checkVelocity(
+        request.orderAmount,
+        {
+          merchant: await deps.velocityRepo.getEvents('MERCHANT', merchant.id),
+          customer: await deps.velocityRepo.getEvents('CUSTOMER', request.customerPhone),
+          device: request.deviceId ? await deps.velocityRepo.getEvents('DEVICE', request.deviceId) : [],
+        },
+        now,
+        this.merchantVelocityPolicy(merchant, deps.velocityPolicy)
+      );
+      if (!velocity.allowed) {
+        // Operations alert (don't block response)
+        deps.eventBus.publish({
+          type: 'VELOCITY_LIMIT_BREACHED',
+          merchantId: merchant.id,
+          customerPhone: request.customerPhone,
+          deviceId: request.deviceId,
+          amount: request.orderAmount,
+          declines: velocity.declines,
+          timestamp: now,
+        }).catch((err) => console.error('Event publish failed:', err));
+
+        return {
+          success: false,
+          error: `Order declined: ${velocity.declines.map((d) => d.message).join('; ')}`,
+          declineCode: velocity.declines[0].code,
+          declines: velocity.declines,
+        };
+      }
+
       // Step 3: Identify employee
       const employee = await deps.employeeRepo.getByPhone(request.customerPhone);
       if (!employee || !employee.isActive) {
@@ -101,14 +175,24 @@ export class CheckoutService {
         };
       }
 
-      // Step 5: Get active contracts (for deduction history)
-      // Note: In real system, would query: SELECT * FROM contracts WHERE employee_id = ? AND state IN ('FUNDED', 'IN_REPAYMENT')
-      const activeContracts: BNPLContract[] = []; // Would be populated from contractRepo
+      // Step 5: Get active contracts (existing deductions + payment history)
+      const activeContracts = await deps.contractRepo.getActiveByEmployee(employee.id);
 
-      // Step 6: CRB check (cached for 24h in real system)
-      const crbResult = await deps.crbService.check(employee.nationalId, request.customerPhone);
+      // Step 6: CRB check (cached for 24h by the adapter)
+      const crbCheck = await deps.crbService.check({
+        employeeId: employee.id,
+        nationalId: employee.nationalId,
+        phoneNumber: request.customerPhone,
+      });
+      if (!crbCheck.success || !crbCheck.result) {
+        return {
+          success: false,
+          error: `CRB check failed: ${crbCheck.error}`,
+        };
+      }
+      const crbResult = crbCheck.result;
 
-      // Step 7: Credit decision
+      // Step 7: Credit decision (against the employer's resolved credit policy)
       const creditCheckInput: CreditCheckInput = {
         employee,
         employer,
@@ -116,14 +200,22 @@ export class CheckoutService {
         requestedTenor: request.tenor,
         crbScore: crbResult.score,
         activeContracts,
+        policy: await CreditPolicyService.resolveForEmployer(employer.id, deps),
       };
 
-      const creditDecision = CreditEngine.makeDecision(creditCheckInput);
+      // Champion/challenger: both arms decide, the customer's arm is acted on
+      const experiment = await deps.creditExperimentRepo.getActive();
+      const experimentResult = experiment ? CreditExperimentEngine.decide(experiment, creditCheckInput) : null;
+      const creditDecision = experimentResult?.decision ?? CreditEngine.makeDecision(creditCheckInput);
+      const experimentDecision = experimentResult
+        ? await deps.experimentDecisionRepo.create({ ...experimentResult.experimentDecision, id: uuidv4(), contractId: null })
+        : null;
 
       if (!creditDecision.approved) {
         return {
           success: false,
           error: `Credit declined: ${creditDecision.reasoning}`,
+          adverseActionCodes: creditDecision.adverseActionCodes,
         };
       }
 
@@ -131,6 +223,7 @@ export class CheckoutService {
         return {
           success: false,
           error: `Approved amount (UGX ${creditDecision.approvedAmount}) less than requested (UGX ${request.orderAmount})`,
+          adverseActionCodes: creditDecision.adverseActionCodes,
         };
       }
 
@@ -155,7 +248,7 @@ export class CheckoutService {
         };
       }
 
-      // Step 10: Create BNPL contract (FUNDED state)
+      // Step 10: Create BNPL contract (DISBURSED state)
       const contract: BNPLContract = {
         id: uuidv4(),
         employeeId: employee.id,
@@ -169,11 +262,11 @@ export class CheckoutService {
         installmentAmount: Math.ceil(
           (request.orderAmount + creditDecision.processingFee) / (request.tenor / 30)
         ),
-        state: 'FUNDED', // Immediately funded
+        state: 'DISBURSED', // Immediately funded
         stateTransitionHistory: [
           {
             fromState: 'PRE_APPROVED',
-            toState: 'FUNDED',
+            toState: 'DISBURSED',
             reason: 'Merchant checkout approved',
             timestamp: new Date(),
             triggeredBy: 'CHECKOUT_SERVICE',
@@ -187,12 +280,23 @@ export class CheckoutService {
         totalPaid: 0,
         totalDue: request.orderAmount + creditDecision.processingFee,
         pastDueAmount: 0,
+        creditDecision: { ...creditDecision, assignedLenderId: allocation.lenderId },
         createdAt: new Date(),
         fundedAt: new Date(),
       };
 
-      // Step 11: Persist contract
+      // Step 11: Persist contract and count it against the velocity windows
       const savedContract = await deps.contractRepo.create(contract);
+      if (experimentDecision) {
+        await deps.experimentDecisionRepo.update({ ...experimentDecision, contractId: savedContract.id });
+      }
+
+      const velocityEvent: VelocityEvent = { amount: request.orderAmount, at: now };
+      await deps.velocityRepo.record('MERCHANT', merchant.id, velocityEvent);
+      await deps.velocityRepo.record('CUSTOMER', request.customerPhone, velocityEvent);
+      if (request.deviceId) {
+        await deps.velocityRepo.record('DEVICE', request.deviceId, velocityEvent);
+      }
 
       // Step 12: Create auth token (short-lived, for customer confirmation)
       const authToken = this.generateAuthToken(savedContract.id, employee.phoneNumber);
@@ -222,6 +326,8 @@ export class CheckoutService {
         employeeId: employee.id,
         amount: request.orderAmount,
         lenderId: allocation.lenderId,
+        policyVersion: creditDecision.policyVersion,
+        experimentArm: experimentDecision?.appliedArm,
         timestamp: new Date(),
       }).catch((err) => console.error('Event publish failed:', err));
 
@@ -238,6 +344,21 @@ export class CheckoutService {
     }
   }
 
+  /**
+   * Velocity policy with the merchant's own volume and ticket size limits applied
+   */
+  private static merchantVelocityPolicy(
+    merchant: Merchant,
+    policy: VelocityPolicy = DEFAULT_VELOCITY_POLICY
+  ): VelocityPolicy {
+    return {
+      ...policy,
+      merchantDailyVolume: merchant.dailyLimit,
+      merchantMonthlyVolume: merchant.monthlyVolume,
+      maxTicketSize: merchant.maxTicketSize ?? policy.maxTicketSize,
+    };
+  }
+
   /**
    * Generate installment schedule
    */
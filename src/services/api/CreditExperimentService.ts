@@ -0,0 +1,158 @@
+/**
+ * Credit Experiment Service
+ * Starts and stops champion/challenger credit experiments and reports their outcomes
+ *
+ * One experiment runs at a time. While it is ACTIVE, checkout decides every
+ * application under both arms (CreditExperimentEngine.decide) and records the
+ * pair; the outcomes report compares arms on approval rate, average limit and
+ * 30/60/90-day delinquency of the contracts each arm funded.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BNPLContract,
+  CreditExperiment,
+  CreditExperimentMode,
+  CreditPolicyRules,
+  ExperimentDecision,
+  ExperimentOutcomesReport,
+} from '../domain/types';
+import { CreditPolicyEngine } from '../domain/CreditPolicyEngine';
+import { CreditExperimentEngine } from '../domain/CreditExperimentEngine';
+
+export interface CreditExperimentDependencies {
+  creditExperimentRepo: {
+    get: (id: string) => Promise<CreditExperiment | null>;
+    getActive: () => Promise<CreditExperiment | null>;
+    create: (experiment: CreditExperiment) => Promise<CreditExperiment>;
+    update: (experiment: CreditExperiment) => Promise<void>;
+  };
+  experimentDecisionRepo: {
+    getByExperiment: (experimentId: string) => Promise<ExperimentDecision[]>;
+  };
+  contractRepo: { get: (id: string) => Promise<BNPLContract | null> };
+  auditLog: { record: (event: any) => Promise<void> };
+}
+
+export class CreditExperimentService {
+  /**
+   * Start an experiment (fails while another one is active)
+   */
+  public static async startExperiment(
+    input: {
+      name: string;
+      mode: CreditExperimentMode;
+      challengerPercentage?: number;
+      challengerRules: Partial<CreditPolicyRules>;
+    },
+    actor: string,
+    deps: CreditExperimentDependencies
+  ): Promise<{ success: boolean; experiment?: CreditExperiment; errors?: string[]; error?: string }> {
+    try {
+      const challengerPercentage = input.mode === 'SHADOW' ? 0 : input.challengerPercentage ?? 0;
+      if (input.mode === 'SPLIT' && (challengerPercentage <= 0 || challengerPercentage >= 100)) {
+        return { success: false, error: 'challengerPercentage must be between 1 and 99 for SPLIT experiments' };
+      }
+
+      const errors = CreditPolicyEngine.validateRules(input.challengerRules);
+      if (errors.length > 0) {
+        return { success: false, errors, error: 'Invalid challenger rules' };
+      }
+
+      const active = await deps.creditExperimentRepo.getActive();
+      if (active) {
+        return { success: false, error: `Experiment ${active.name} (${active.id}) is already active` };
+      }
+
+      const experiment: CreditExperiment = {
+        id: uuidv4(),
+        name: input.name,
+        mode: input.mode,
+        challengerPercentage,
+        challengerRules: input.challengerRules,
+        status: 'ACTIVE',
+        createdBy: actor,
+        createdAt: new Date(),
+      };
+      await deps.creditExperimentRepo.create(experiment);
+
+      await deps.auditLog.record({
+        type: 'CREDIT_EXPERIMENT_STARTED',
+        experimentId: experiment.id,
+        mode: experiment.mode,
+        challengerPercentage: experiment.challengerPercentage,
+        challengerRules: experiment.challengerRules,
+        actor,
+        timestamp: experiment.createdAt,
+      });
+
+      return { success: true, experiment };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  }
+
+  /**
+   * Stop an experiment; checkout reverts to the champion for everyone
+   */
+  public static async stopExperiment(
+    experimentId: string,
+    actor: string,
+    deps: CreditExperimentDependencies
+  ): Promise<{ success: boolean; experiment?: CreditExperiment; error?: string }> {
+    try {
+      const experiment = await deps.creditExperimentRepo.get(experimentId);
+      if (!experiment) {
+        return { success: false, error: `Experiment ${experimentId} not found` };
+      }
+      if (experiment.status === 'STOPPED') {
+        return { success: true, experiment };
+      }
+
+      experiment.status = 'STOPPED';
+      experiment.stoppedAt = new Date();
+      await deps.creditExperimentRepo.update(experiment);
+
+      await deps.auditLog.record({
+        type: 'CREDIT_EXPERIMENT_STOPPED',
+        experimentId: experiment.id,
+        actor,
+        timestamp: experiment.stoppedAt,
+      });
+
+      return { success: true, experiment };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  }
+
+  /**
+   * Outcomes per arm (stopped experiments keep reporting as their contracts age)
+   */
+  public static async getOutcomes(
+    experimentId: string,
+    deps: CreditExperimentDependencies,
+    asOf: Date = new Date()
+  ): Promise<{ success: boolean; report?: ExperimentOutcomesReport; error?: string }> {
+    try {
+      const experiment = await deps.creditExperimentRepo.get(experimentId);
+      if (!experiment) {
+        return { success: false, error: `Experiment ${experimentId} not found` };
+      }
+
+      const decisions = await deps.experimentDecisionRepo.getByExperiment(experimentId);
+      const contracts: BNPLContract[] = [];
+      for (const decision of decisions) {
+        if (!decision.contractId) continue;
+        const contract = await deps.contractRepo.get(decision.contractId);
+        if (contract) contracts.push(contract);
+      }
+
+      return { success: true, report: CreditExperimentEngine.outcomes(experiment, decisions, contracts, asOf) };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  }
+}
+
+export default CreditExperimentService;
@@ -0,0 +1,140 @@
+/**
+ * Credit Policy Service
+ * Publishes versioned credit policies and resolves them for credit decisions
+ *
+ * A policy is published per scope (PLATFORM, an organisation or an employer).
+ * Publishing creates the next version and retires the previous one; versions
+ * are never edited, so every CreditDecision.policyVersion can be traced back
+ * to the exact rules that produced it.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CreditPolicy,
+  CreditPolicyRules,
+  CreditPolicyScope,
+  Employer,
+  ResolvedCreditPolicy,
+} from '../domain/types';
+import { EmployerGroup, Organization } from '../domain/hierarchicalTypes';
+import { CreditPolicyEngine } from '../domain/CreditPolicyEngine';
+
+export interface CreditPolicyResolverDependencies {
+  creditPolicyRepo: {
+    getVersions: (scope: CreditPolicyScope, scopeId: string | null) => Promise<CreditPolicy[]>;
+  };
+  organizationRepo: { get: (id: string) => Promise<Organization | null> };
+  employerGroupRepo: { get: (id: string) => Promise<EmployerGroup | null> };
+}
+
+export interface CreditPolicyDependencies extends CreditPolicyResolverDependencies {
+  creditPolicyRepo: CreditPolicyResolverDependencies['creditPolicyRepo'] & {
+    create: (policy: CreditPolicy) => Promise<CreditPolicy>;
+    update: (policy: CreditPolicy) => Promise<void>;
+  };
+  employerRepo: { get: (id: string) => Promise<Employer | null> };
+  auditLog: { record: (event: any) => Promise<void> };
+}
+
+export class CreditPolicyService {
+  /**
+   * Publish the next policy version for a scope (retires the active one)
+   */
+  public static async publishPolicy(
+    input: {
+      scope: CreditPolicyScope;
+      scopeId: string | null;
+      rules: Partial<CreditPolicyRules>;
+      notes?: string;
+    },
+    actor: string,
+    deps: CreditPolicyDependencies
+  ): Promise<{ success: boolean; policy?: CreditPolicy; errors?: string[]; error?: string }> {
+    try {
+      if ((input.scope === 'PLATFORM') !== (input.scopeId === null)) {
+        return { success: false, error: 'scopeId is required for ORGANIZATION and EMPLOYER policies only' };
+      }
+      if (input.scope === 'ORGANIZATION' && !(await deps.organizationRepo.get(input.scopeId!))) {
+        return { success: false, error: `Organization ${input.scopeId} not found` };
+      }
+      if (input.scope === 'EMPLOYER' && !(await deps.employerRepo.get(input.scopeId!))) {
+        return { success: false, error: `Employer ${input.scopeId} not found` };
+      }
+
+      const errors = CreditPolicyEngine.validateRules(input.rules);
+      if (errors.length > 0) {
+        return { success: false, errors, error: 'Invalid credit policy' };
+      }
+
+      const versions = await deps.creditPolicyRepo.getVersions(input.scope, input.scopeId);
+      const now = new Date();
+
+      const policy: CreditPolicy = {
+        id: uuidv4(),
+        scope: input.scope,
+        scopeId: input.scopeId,
+        version: (versions[0]?.version ?? 0) + 1,
+        rules: input.rules,
+        status: 'ACTIVE',
+        notes: input.notes,
+        createdBy: actor,
+        createdAt: now,
+      };
+
+      for (const previous of versions.filter((v) => v.status === 'ACTIVE')) {
+        previous.status = 'RETIRED';
+        previous.retiredAt = now;
+        await deps.creditPolicyRepo.update(previous);
+      }
+      await deps.creditPolicyRepo.create(policy);
+
+      await deps.auditLog.record({
+        type: 'CREDIT_POLICY_PUBLISHED',
+        policyId: policy.id,
+        scope: policy.scope,
+        scopeId: policy.scopeId,
+        version: policy.version,
+        rules: policy.rules,
+        actor,
+        timestamp: now,
+      });
+
+      return { success: true, policy };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  }
+
+  /**
+   * Active policy for a scope, if one has been published
+   */
+  public static async getActivePolicy(
+    scope: CreditPolicyScope,
+    scopeId: string | null,
+    deps: CreditPolicyResolverDependencies
+  ): Promise<CreditPolicy | null> {
+    const versions = await deps.creditPolicyRepo.getVersions(scope, scopeId);
+    return versions.find((v) => v.status === 'ACTIVE') ?? null;
+  }
+
+  /**
+   * Effective policy for an employer's employees (platform → organisation → employer)
+   */
+  public static async resolveForEmployer(
+    employerId: string,
+    deps: CreditPolicyResolverDependencies
+  ): Promise<ResolvedCreditPolicy> {
+    const employerGroup = await deps.employerGroupRepo.get(employerId);
+    const organization = employerGroup ? await deps.organizationRepo.get(employerGroup.organizationId) : null;
+
+    return CreditPolicyEngine.resolve({
+      platform: await this.getActivePolicy('PLATFORM', null, deps),
+      organization,
+      organizationPolicy: organization ? await this.getActivePolicy('ORGANIZATION', organization.id, deps) : null,
+      employerGroup,
+      employerPolicy: await this.getActivePolicy('EMPLOYER', employerId, deps),
+    });
+  }
+}
+
+export default CreditPolicyService;
@@ -4,6 +4,8 @@
  * - Merchant settlement (disbursement to merchant)
  * - Payroll remittance (from employer)
  * - Refunds & reversals
+ * - Merchant clawbacks (negative balance netted against later settlements)
+ * - Queuing settlements for daily batches (see SettlementBatchService)
  * - Idempotency on all financial operations
  *
  * Design: Escrow/hold/release pattern
@@ -15,16 +17,40 @@
 import { v4 as uuidv4 } from 'uuid';
 import {
   BNPLContract,
+  BNPLInstallment,
   SettlementInstruction,
   RefundRequest,
+  RefundLineItem,
+  ClawbackRequest,
+  MerchantClawback,
+  MerchantSettlementHistory,
+  SettlementBatch,
   InternalLedgerEntry,
   PayrollRemittance,
   DeductionInstruction,
-} from './types';
+  TrialBalance,
+} from '../domain/types';
+import { GeneralLedger, LedgerDependencies } from '../domain/GeneralLedger';
+import { ContractStateMachine } from '../domain/StateMachine';
 
 export interface SettlementDependencies {
   contractRepo: { get: (id: string) => Promise<BNPLContract | null>; update: (contract: BNPLContract) => Promise<void> };
-  ledgerRepo: { create: (entry: InternalLedgerEntry) => Promise<InternalLedgerEntry> };
+  ledgerRepo: {
+    create: (entry: InternalLedgerEntry) => Promise<InternalLedgerEntry>;
+    query: (filter: { contractId: string }) => Promise<InternalLedgerEntry[]>;
+  };
+  journalRepo: LedgerDependencies['journalRepo'];
+  settlementRepo: {
+    create: (settlement: SettlementInstruction) => Promise<SettlementInstruction>;
+    update: (settlement: SettlementInstruction) => Promise<void>;
+    query: (filter: { merchantId: string }) => Promise<SettlementInstruction[]>;
+  };
+  batchRepo: { query: (filter: { merchantId: string }) => Promise<SettlementBatch[]> };
+  clawbackRepo: {
+    create: (clawback: MerchantClawback) => Promise<MerchantClawback>;
+    update: (clawback: MerchantClawback) => Promise<void>;
+    query: (filter: { merchantId: string; outstanding?: boolean }) => Promise<MerchantClawback[]>;
+  };
   paymentGateway: { initiate: (amount: number, account: string) => Promise<{ ref: string }> };
   idempotencyCache: { get: (key: string) => Promise<any>; set: (key: string, value: any) => Promise<void> };
   auditLog: { record: (event: any) => Promise<void> };
@@ -37,11 +63,16 @@ export class PaymentSettlementService {
    * 1. Order confirmed as delivered
    * 2. Payment received from employee/employer
    * 3. All holds released
+   *
+   * Outstanding clawbacks against the merchant are withheld from the payout.
+   * With `batched`, the instruction is queued for the merchant's next
+   * settlement batch (SettlementBatchService) instead of being paid out now.
    */
   public static async settleMerchant(
     contractId: string,
     idempotencyKey: string,
-    deps: SettlementDependencies
+    deps: SettlementDependencies,
+    options: { batched?: boolean } = {}
   ): Promise<{ success: boolean; settlementId?: string; error?: string }> {
     try {
       // Idempotency check
@@ -57,7 +88,7 @@ export class PaymentSettlementService {
       }
 
       // Verify contract is in settleable state
-      if (contract.state !== 'FUNDED' && contract.state !== 'IN_REPAYMENT') {
+      if (!ContractStateMachine.isActive(contract.state)) {
         return { success: false, error: `Cannot settle contract in ${contract.state} state` };
       }
 
@@ -66,12 +97,22 @@ export class PaymentSettlementService {
       const processingFee = contract.processingFee;
       const merchantReceives = settlementAmount - processingFee * 0.5; // Platform takes 50% of processing fee
 
+      // Net off what the merchant still owes from earlier clawbacks (batches net their own)
+      const clawbacks = options.batched
+        ? []
+        : await deps.clawbackRepo.query({ merchantId: contract.merchantId, outstanding: true });
+      const outstanding = clawbacks.reduce((sum, c) => sum + (c.amount - c.recoveredAmount), 0);
+      const clawbackRecovered = Math.min(outstanding, merchantReceives);
+      const payout = merchantReceives - clawbackRecovered;
+
       // Create settlement instruction
       const settlement: SettlementInstruction = {
         id: uuidv4(),
         merchantId: contract.merchantId,
         contractId,
-        amount: merchantReceives,
+        amount: payout,
+        grossAmount: merchantReceives,
+        clawbackRecovered,
         fees: {
           processingFee: contract.processingFee,
           collectionFee: 0, // Will be set if paid by installment
@@ -80,18 +121,51 @@ export class PaymentSettlementService {
         createdAt: new Date(),
       };
 
-      // Initiate payment to merchant (via payment gateway)
-      try {
-        const paymentResult = await deps.paymentGateway.initiate(merchantReceives, 'MERCHANT');
-        settlement.paymentGatewayRef = paymentResult.ref;
+      // Build and validate the journals before any money moves
+      const journals = {
+        disbursement: GeneralLedger.disbursementJournal(
+          contractId,
+          settlement.id,
+          settlementAmount,
+          merchantReceives,
+          processingFee * 0.5
+        ),
+        funding: GeneralLedger.lenderFundingJournal(contractId, settlement.id, settlementAmount),
+        fee: GeneralLedger.feeJournal(contractId, settlement.id, processingFee),
+        recovery:
+          clawbackRecovered > 0
+            ? GeneralLedger.clawbackRecoveryJournal(contractId, settlement.id, clawbackRecovered)
+            : null,
+      };
+      for (const journal of Object.values(journals)) {
+        const journalError = journal && GeneralLedger.validate(journal);
+        if (journalError) {
+          return { success: false, error: `Settlement journal rejected: ${journalError}` };
+        }
+      }
+
+      // Initiate payment to merchant (via payment gateway); nothing to send
+      // when clawbacks absorb the whole settlement
+      if (payout > 0 && !options.batched) {
+        try {
+          const paymentResult = await deps.paymentGateway.initiate(payout, 'MERCHANT');
+          settlement.paymentGatewayRef = paymentResult.ref;
+        } catch (err) {
+          settlement.status = 'FAILED';
+          console.error('Payment gateway error:', err);
+          return { success: false, error: 'Payment initiation failed' };
+        }
+      }
+      if (!options.batched) {
         settlement.status = 'COMPLETED';
         settlement.completedAt = new Date();
-      } catch (err) {
-        settlement.status = 'FAILED';
-        console.error('Payment gateway error:', err);
-        return { success: false, error: 'Payment initiation failed' };
       }
 
+      // Post balanced journals to the general ledger
+      await GeneralLedger.post(journals.funding, deps);
+      const disbursementJournal = await GeneralLedger.post(journals.disbursement, deps);
+      const feeJournal = await GeneralLedger.post(journals.fee, deps);
+
       // Create ledger entries (audit trail)
       const ledgerEntries: InternalLedgerEntry[] = [
         {
@@ -101,6 +175,7 @@ export class PaymentSettlementService {
           amount: merchantReceives,
           account: 'MERCHANT',
           reference: settlement.id,
+          journalEntryId: disbursementJournal.id,
           timestamp: new Date(),
         },
         {
@@ -110,20 +185,41 @@ export class PaymentSettlementService {
           amount: processingFee * 0.5, // Platform revenue
           account: 'PLATFORM',
           reference: settlement.id,
+          journalEntryId: feeJournal.id,
           timestamp: new Date(),
         },
       ];
 
+      if (journals.recovery) {
+        const recoveryJournal = await GeneralLedger.post(journals.recovery, deps);
+        ledgerEntries.push({
+          id: uuidv4(),
+          contractId,
+          type: 'CLAWBACK_RECOVERY',
+          amount: -clawbackRecovered, // Withheld from the merchant
+          account: 'MERCHANT',
+          reference: settlement.id,
+          journalEntryId: recoveryJournal.id,
+          timestamp: new Date(),
+        });
+
+        await this.applyRecovery(clawbacks, settlement.id, clawbackRecovered, deps);
+      }
+
       for (const entry of ledgerEntries) {
         await deps.ledgerRepo.create(entry);
       }
 
+      await deps.settlementRepo.create(settlement);
+
       // Audit log
       await deps.auditLog.record({
-        type: 'MERCHANT_SETTLEMENT',
+        type: options.batched ? 'MERCHANT_SETTLEMENT_QUEUED' : 'MERCHANT_SETTLEMENT',
         contractId,
         settlementId: settlement.id,
-        amount: merchantReceives,
+        amount: payout,
+        grossAmount: merchantReceives,
+        clawbackRecovered,
         timestamp: new Date(),
       });
 
@@ -164,8 +260,36 @@ export class PaymentSettlementService {
         return { success: false, error: 'Refund amount exceeds order amount' };
       }
 
-      // Create reversal ledger entry
+      if (request.items && request.items.length > 0) {
+        const itemsTotal = request.items.reduce((sum: number, item: RefundLineItem) => sum + item.amount, 0);
+        if (itemsTotal !== request.refundAmount) {
+          return { success: false, error: 'Refund amount does not match returned items' };
+        }
+      }
+
+      // Money already settled (or queued) to the merchant has to come back from them
+      const settledToMerchant = (await deps.ledgerRepo.query({ contractId: request.contractId })).some(
+        (e) => e.type === 'DISBURSEMENT' && e.account === 'MERCHANT'
+      );
+
+      // Partial refund: shrink principal and re-amortize the open installments
+      const isPartial = request.refundAmount < contract.orderAmount;
+      const feeBeforeRefund = contract.processingFee;
+      if (isPartial) {
+        this.reamortizeAfterRefund(contract, request.refundAmount);
+        await deps.contractRepo.update(contract);
+      }
+      // A full refund gives up the whole processing fee
+      const feeReduction = isPartial ? feeBeforeRefund - contract.processingFee : feeBeforeRefund;
+
+      // Nothing was booked before settlement, so there is nothing to reverse in the ledger
       const reversalId = uuidv4();
+      const reversalJournal = settledToMerchant
+        ? await GeneralLedger.post(
+            GeneralLedger.reversalJournal(request.contractId, reversalId, request.refundAmount, feeReduction),
+            deps
+          )
+        : null;
       const reversalEntry: InternalLedgerEntry = {
         id: uuidv4(),
         contractId: request.contractId,
@@ -173,17 +297,38 @@ export class PaymentSettlementService {
         amount: -request.refundAmount, // Negative for reversal
         account: 'MERCHANT',
         reference: reversalId,
+        journalEntryId: reversalJournal?.id,
         timestamp: new Date(),
       };
 
       await deps.ledgerRepo.create(reversalEntry);
 
+      // The reversal journal already booked the merchant receivable
+      if (settledToMerchant) {
+        await deps.clawbackRepo.create({
+          id: uuidv4(),
+          merchantId: contract.merchantId,
+          contractId: request.contractId,
+          reason: 'REFUND',
+          caseReference: reversalId,
+          amount: request.refundAmount,
+          recoveredAmount: 0,
+          status: 'OUTSTANDING',
+          recoveries: [],
+          createdAt: new Date(),
+        });
+      }
+
       // Audit log
       await deps.auditLog.record({
         type: 'REFUND_PROCESSED',
         contractId: request.contractId,
         reason: request.reason,
         amount: request.refundAmount,
+        partial: isPartial,
+        items: request.items,
+        remainingPrincipal: contract.orderAmount,
+        totalDue: contract.totalDue,
         reversalId,
         timestamp: new Date(),
       });
@@ -198,6 +343,160 @@ export class PaymentSettlementService {
     }
   }
 
+  /**
+   * Record a clawback (IDEMPOTENT)
+   * For a dispute or fraud case decided against the merchant after the
+   * settlement was paid out. The amount becomes a negative balance on the
+   * merchant account and is withheld from the merchant's next settlements.
+   */
+  public static async recordClawback(
+    request: ClawbackRequest,
+    deps: SettlementDependencies
+  ): Promise<{ success: boolean; clawbackId?: string; error?: string }> {
+    try {
+      // Idempotency check
+      const cached = await deps.idempotencyCache.get(request.idempotencyKey);
+      if (cached) {
+        return { success: true, clawbackId: cached.clawbackId };
+      }
+
+      const contract = await deps.contractRepo.get(request.contractId);
+      if (!contract) {
+        return { success: false, error: 'Contract not found' };
+      }
+
+      if (!(request.amount > 0)) {
+        return { success: false, error: 'Clawback amount must be greater than 0' };
+      }
+
+      // Only money that actually reached the merchant (net of refunds) can be clawed back
+      const ledger = await deps.ledgerRepo.query({ contractId: request.contractId });
+      const settled = ledger
+        .filter((e) => e.account === 'MERCHANT' && (e.type === 'DISBURSEMENT' || e.type === 'REVERSAL'))
+        .reduce((sum, e) => sum + e.amount, 0);
+      const clawedBack = (await deps.clawbackRepo.query({ merchantId: contract.merchantId }))
+        .filter((c) => c.contractId === request.contractId && c.reason !== 'REFUND') // Refunds are in the ledger already
+        .reduce((sum, c) => sum + c.amount, 0);
+
+      if (settled <= 0) {
+        return { success: false, error: 'Contract has not been settled to the merchant' };
+      }
+      if (request.amount > settled - clawedBack) {
+        return { success: false, error: 'Clawback amount exceeds the settled amount' };
+      }
+
+      const clawback: MerchantClawback = {
+        id: uuidv4(),
+        merchantId: contract.merchantId,
+        contractId: request.contractId,
+        reason: request.reason,
+        caseReference: request.caseReference,
+        amount: request.amount,
+        recoveredAmount: 0,
+        status: 'OUTSTANDING',
+        recoveries: [],
+        createdAt: new Date(),
+      };
+
+      const clawbackJournal = await GeneralLedger.post(
+        GeneralLedger.clawbackJournal(request.contractId, clawback.id, request.amount),
+        deps
+      );
+      await deps.ledgerRepo.create({
+        id: uuidv4(),
+        contractId: request.contractId,
+        type: 'CLAWBACK',
+        amount: -request.amount, // Owed back by the merchant
+        account: 'MERCHANT',
+        reference: clawback.id,
+        journalEntryId: clawbackJournal.id,
+        timestamp: new Date(),
+      });
+
+      await deps.clawbackRepo.create(clawback);
+
+      // Audit log
+      await deps.auditLog.record({
+        type: 'MERCHANT_CLAWBACK_RECORDED',
+        contractId: request.contractId,
+        merchantId: contract.merchantId,
+        clawbackId: clawback.id,
+        reason: request.reason,
+        caseReference: request.caseReference,
+        amount: request.amount,
+        timestamp: new Date(),
+      });
+
+      // Cache for idempotency
+      await deps.idempotencyCache.set(request.idempotencyKey, { clawbackId: clawback.id });
+
+      return { success: true, clawbackId: clawback.id };
+    } catch (error) {
+      console.error('Clawback error:', error);
+      return { success: false, error: 'Internal server error' };
+    }
+  }
+
+  /**
+   * Withhold a recovered amount against outstanding clawbacks, oldest first
+   */
+  public static async applyRecovery(
+    clawbacks: MerchantClawback[],
+    settlementId: string,
+    amount: number,
+    deps: SettlementDependencies
+  ): Promise<void> {
+    let remaining = amount;
+    for (const clawback of clawbacks) {
+      if (remaining <= 0) break;
+
+      const recovered = Math.min(remaining, clawback.amount - clawback.recoveredAmount);
+      if (recovered <= 0) continue;
+
+      const now = new Date();
+      clawback.recoveredAmount += recovered;
+      clawback.recoveries.push({ settlementId, amount: recovered, recoveredAt: now });
+      clawback.status = clawback.recoveredAmount >= clawback.amount ? 'RECOVERED' : 'PARTIALLY_RECOVERED';
+      if (clawback.status === 'RECOVERED') {
+        clawback.recoveredAt = now;
+      }
+
+      await deps.clawbackRepo.update(clawback);
+      remaining -= recovered;
+    }
+  }
+
+  /**
+   * Reduce principal by the refunded amount, scale the processing fee
+   * pro-rata and spread the new outstanding balance over open installments
+   */
+  private static reamortizeAfterRefund(contract: BNPLContract, refundAmount: number): void {
+    const newOrderAmount = contract.orderAmount - refundAmount;
+    const newProcessingFee = Math.ceil(contract.processingFee * (newOrderAmount / contract.orderAmount));
+
+    contract.orderAmount = newOrderAmount;
+    contract.processingFee = newProcessingFee;
+    contract.totalPayable = newOrderAmount + newProcessingFee;
+    contract.totalDue = Math.max(0, contract.totalPayable - contract.totalPaid);
+
+    const openInstallments = contract.installments.filter(
+      (i: BNPLInstallment) => i.status === 'PENDING' || i.status === 'OVERDUE'
+    );
+    if (openInstallments.length === 0) return;
+
+    const share = Math.ceil(contract.totalDue / openInstallments.length);
+    let remaining = contract.totalDue;
+    for (const installment of openInstallments) {
+      installment.amount = Math.min(share, remaining);
+      remaining -= installment.amount;
+      if (installment.amount === 0) {
+        installment.status = 'PAID';
+        installment.paidDate = new Date();
+      }
+    }
+    contract.installmentAmount = openInstallments[0].amount;
+  }
+
   /**
    * Post payroll remittance from employer
    * Matches deductions to contracts
@@ -220,7 +519,7 @@ export class PaymentSettlementService {
           }
 
           // Find matching installment (next due)
-          const nextDueInstallment = contract.installments.find((i) => i.status === 'PENDING');
+          const nextDueInstallment = contract.installments.find((i: BNPLInstallment) => i.status === 'PENDING');
           if (!nextDueInstallment) {
             console.warn(`No pending installment for contract ${deduction.contractId}`);
             continue;
@@ -235,17 +534,25 @@ export class PaymentSettlementService {
           contract.totalPaid += deduction.amount;
           contract.totalDue = Math.max(0, contract.totalDue - deduction.amount);
 
+          // First repayment moves a disbursed contract into repayment
+          if (contract.state === 'DISBURSED') {
+            ContractStateMachine.transitionState(contract, 'IN_REPAYMENT', 'First payroll deduction received');
+          }
+
           // Check if all installments paid (contract closed)
-          const allPaid = contract.installments.every((i) => i.status === 'PAID');
+          const allPaid = contract.installments.every((i: BNPLInstallment) => i.status === 'PAID');
           if (allPaid) {
-            contract.state = 'CLOSED';
-            contract.closedAt = new Date();
+            ContractStateMachine.transitionState(contract, 'CLOSED', 'All installments paid');
           }
 
           // Persist
           await deps.contractRepo.update(contract);
 
           // Ledger entry (repayment)
+          const repaymentJournal = await GeneralLedger.post(
+            GeneralLedger.repaymentJournal(deduction.contractId, remittance.id, deduction.amount),
+            deps
+          );
           const ledgerEntry: InternalLedgerEntry = {
             id: uuidv4(),
             contractId: deduction.contractId,
@@ -253,6 +560,7 @@ export class PaymentSettlementService {
             amount: deduction.amount,
             account: 'LENDER',
             reference: remittance.id,
+            journalEntryId: repaymentJournal.id,
             timestamp: new Date(),
           };
 
@@ -283,6 +591,68 @@ export class PaymentSettlementService {
     }
   }
 
+  /**
+   * Trial balance of the general ledger (reconciliation jobs assert `balanced`)
+   */
+  public static async getTrialBalance(
+    deps: SettlementDependencies,
+    asOf?: Date
+  ): Promise<TrialBalance> {
+    return GeneralLedger.getTrialBalance(deps, asOf);
+  }
+
+  /**
+   * Reconciliation check: the ledger must stay balanced after every posting.
+   * An out-of-balance trial balance is recorded in the audit log for investigation.
+   */
+  public static async verifyTrialBalance(
+    deps: SettlementDependencies,
+    asOf: Date = new Date()
+  ): Promise<{ balanced: boolean; trialBalance: TrialBalance }> {
+    const trialBalance = await GeneralLedger.getTrialBalance(deps, asOf);
+
+    if (!trialBalance.balanced) {
+      await deps.auditLog.record({
+        type: 'LEDGER_OUT_OF_BALANCE',
+        asOf,
+        totalDebits: trialBalance.totalDebits,
+        totalCredits: trialBalance.totalCredits,
+        timestamp: new Date(),
+      });
+    }
+
+    return { balanced: trialBalance.balanced, trialBalance };
+  }
+
+  /**
+   * Merchant settlement history: batch payouts, instructions and outstanding clawbacks
+   * `balance` is what the next batch owes the merchant before fees (negative
+   * while clawbacks exceed queued settlements)
+   */
+  public static async getMerchantSettlementHistory(
+    merchantId: string,
+    deps: SettlementDependencies
+  ): Promise<MerchantSettlementHistory> {
+    const batches = await deps.batchRepo.query({ merchantId });
+    const settlements = await deps.settlementRepo.query({ merchantId });
+    const clawbacks = await deps.clawbackRepo.query({ merchantId });
+
+    const pendingAmount = settlements
+      .filter((s) => s.status === 'PENDING')
+      .reduce((sum, s) => sum + s.amount, 0);
+    const outstandingClawbacks = clawbacks.reduce((sum, c) => sum + (c.amount - c.recoveredAmount), 0);
+
+    return {
+      merchantId,
+      batches,
+      settlements,
+      clawbacks,
+      pendingAmount,
+      outstandingClawbacks,
+      balance: pendingAmount - outstandingClawbacks,
+    };
+  }
+
   /**
    * Get settlement history for contract (for reconciliation)
    */
@@ -290,9 +660,7 @@ export class PaymentSettlementService {
     contractId: string,
     deps: SettlementDependencies
   ): Promise<InternalLedgerEntry[]> {
-    // In real system, query ledger repo for all entries for this contract
-    // return await deps.ledgerRepo.query({ contractId });
-    return [];
+    return deps.ledgerRepo.query({ contractId });
   }
 }
 
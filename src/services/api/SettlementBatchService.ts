@@ -0,0 +1,493 @@
+/**
+ * Settlement Batch Service
+ * One payout per merchant per day instead of one per contract
+ *
+ * At each cut-off, the settlement instructions a merchant has queued
+ * (PaymentSettlementService.settleMerchant with `batched`) are grouped into a
+ * batch that nets:
+ * - MDR and per-transaction fees from the merchant's fee schedule
+ * - Refunds and chargebacks still outstanding against the merchant
+ * - The payout (bank transfer) fee
+ *
+ * The net is paid out once and itemised in a CSV/PDF settlement report.
+ * Clawbacks larger than the batch are carried forward to the next one.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Merchant,
+  MerchantClawback,
+  SettlementBatch,
+  SettlementBatchLine,
+  SettlementFeeSchedule,
+  SettlementInstruction,
+} from '../domain/types';
+import { GeneralLedger } from '../domain/GeneralLedger';
+import { PaymentSettlementService, SettlementDependencies } from './PaymentSettlementService';
+
+export interface SettlementBatchDependencies extends SettlementDependencies {
+  batchRepo: SettlementDependencies['batchRepo'] & {
+    create: (batch: SettlementBatch) => Promise<SettlementBatch>;
+    update: (batch: SettlementBatch) => Promise<void>;
+    get: (id: string) => Promise<SettlementBatch | null>;
+  };
+  feeScheduleRepo: {
+    get: (merchantId: string) => Promise<SettlementFeeSchedule | null>;
+    save: (schedule: SettlementFeeSchedule) => Promise<void>;
+  };
+  merchantRepo: { getAll: () => Promise<Merchant[]> };
+}
+
+// Until a merchant has its own schedule, only the processing-fee share
+// retained on each settlement instruction applies
+export const DEFAULT_FEE_SCHEDULE: Pick<SettlementFeeSchedule, 'mdrRate' | 'perTransactionFee' | 'payoutFee'> = {
+  mdrRate: 0,
+  perTransactionFee: 0,
+  payoutFee: 0,
+};
+
+export class SettlementBatchService {
+  // Daily cut-off at 16:00 EAT (UTC+3)
+  public static readonly CUTOFF_HOUR_UTC = 13;
+
+  private static readonly PDF_LINES_PER_PAGE = 60;
+
+  /**
+   * Run the batch for every merchant at the latest cut-off (daily job)
+   */
+  public static async runDailyBatches(
+    deps: SettlementBatchDependencies,
+    asOf: Date = new Date()
+  ): Promise<{ cutoffAt: Date; batches: SettlementBatch[]; failed: string[] }> {
+    const cutoffAt = this.latestCutoff(asOf);
+    const batches: SettlementBatch[] = [];
+    const failed: string[] = [];
+
+    for (const merchant of await deps.merchantRepo.getAll()) {
+      const result = await this.runBatch(merchant.id, cutoffAt, deps);
+      if (result.batch) batches.push(result.batch);
+      if (!result.success) failed.push(merchant.id);
+    }
+
+    return { cutoffAt, batches, failed };
+  }
+
+  /**
+   * Settle a merchant's queued instructions up to the cut-off in one payout (IDEMPOTENT per merchant and cut-off)
+   * Returns no batch when nothing is queued
+   *
+   * The batch is saved as PROCESSING, claimed under the idempotency key and
+   * its instructions marked before the gateway is called, so a retry after a
+   * crash never pays the same instructions twice. A PROCESSING batch left by
+   * an interrupted run needs its payout confirmed with the gateway first.
+   */
+  public static async runBatch(
+    merchantId: string,
+    cutoffAt: Date,
+    deps: SettlementBatchDependencies
+  ): Promise<{ success: boolean; batch?: SettlementBatch; error?: string }> {
+    const idempotencyKey = `settlement-batch:${merchantId}:${cutoffAt.toISOString()}`;
+
+    try {
+      // Idempotency check (a failed batch can be retried)
+      const cached = await deps.idempotencyCache.get(idempotencyKey);
+      const existing = cached ? await deps.batchRepo.get(cached.batchId) : null;
+      if (existing?.status === 'PAID') {
+        return { success: true, batch: existing };
+      }
+      if (existing?.status === 'PROCESSING') {
+        return {
+          success: false,
+          batch: existing,
+          error: 'Settlement batch payout is still processing; confirm it with the payment gateway',
+        };
+      }
+
+      const instructions = (await deps.settlementRepo.query({ merchantId })).filter(
+        (s) => s.status === 'PENDING' && !s.batchId && s.createdAt <= cutoffAt
+      );
+      if (instructions.length === 0) {
+        return { success: true };
+      }
+
+      const clawbacks = (await deps.clawbackRepo.query({ merchantId, outstanding: true })).filter(
+        (c) => c.createdAt <= cutoffAt
+      );
+      const schedule = await this.getFeeSchedule(merchantId, deps);
+      const batch = this.buildBatch(merchantId, cutoffAt, instructions, clawbacks, schedule);
+
+      // Persist and claim the batch before any money moves
+      await deps.batchRepo.create(batch);
+      await deps.idempotencyCache.set(idempotencyKey, { batchId: batch.id });
+      for (const instruction of instructions) {
+        instruction.batchId = batch.id;
+        await deps.settlementRepo.update(instruction);
+      }
+
+      // Initiate payment to merchant (via payment gateway)
+      if (batch.netPayout > 0) {
+        try {
+          const paymentResult = await deps.paymentGateway.initiate(batch.netPayout, 'MERCHANT');
+          batch.paymentGatewayRef = paymentResult.ref;
+        } catch (err) {
+          // Instructions go back on the queue for the next run
+          console.error('Payment gateway error:', err);
+          batch.status = 'FAILED';
+          batch.failureReason = 'Payment initiation failed';
+          await deps.batchRepo.update(batch);
+          for (const instruction of instructions) {
+            instruction.batchId = undefined;
+            await deps.settlementRepo.update(instruction);
+          }
+          await deps.auditLog.record({
+            type: 'MERCHANT_SETTLEMENT_BATCH_FAILED',
+            merchantId,
+            batchId: batch.id,
+            netPayout: batch.netPayout,
+            timestamp: new Date(),
+          });
+          return { success: false, batch, error: 'Payment initiation failed' };
+        }
+      }
+      batch.status = 'PAID';
+      batch.paidAt = new Date();
+
+      await this.postBatchJournals(batch, deps);
+      await PaymentSettlementService.applyRecovery(clawbacks, batch.id, batch.clawbackAmount, deps);
+
+      for (const instruction of instructions) {
+        instruction.status = 'COMPLETED';
+        instruction.paymentGatewayRef = batch.paymentGatewayRef;
+        instruction.completedAt = batch.paidAt;
+        await deps.settlementRepo.update(instruction);
+      }
+
+      await deps.batchRepo.update(batch);
+
+      // Audit log
+      await deps.auditLog.record({
+        type: 'MERCHANT_SETTLEMENT_BATCH',
+        merchantId,
+        batchId: batch.id,
+        cutoffAt,
+        settlements: batch.settlementIds.length,
+        grossAmount: batch.grossAmount,
+        feeAmount: batch.feeAmount,
+        clawbackAmount: batch.clawbackAmount,
+        netPayout: batch.netPayout,
+        carriedForward: batch.carriedForward,
+        timestamp: new Date(),
+      });
+
+      return { success: true, batch };
+    } catch (error) {
+      console.error('Settlement batch error:', error);
+      return { success: false, error: 'Internal server error' };
+    }
+  }
+
+  /**
+   * Net queued instructions against fees and outstanding clawbacks (no persistence)
+   * Clawbacks are recovered oldest first, up to what the batch can cover
+   */
+  public static buildBatch(
+    merchantId: string,
+    cutoffAt: Date,
+    instructions: SettlementInstruction[],
+    clawbacks: MerchantClawback[],
+    schedule: Pick<SettlementFeeSchedule, 'mdrRate' | 'perTransactionFee' | 'payoutFee'>
+  ): SettlementBatch {
+    const id = uuidv4();
+    const lines: SettlementBatchLine[] = [];
+
+    let grossAmount = 0;
+    let feeAmount = 0;
+    for (const instruction of instructions) {
+      const amount = instruction.grossAmount ?? instruction.amount;
+      grossAmount += amount;
+      lines.push({
+        type: 'SETTLEMENT',
+        reference: instruction.id,
+        contractId: instruction.contractId,
+        description: 'Order settlement, net of processing fee share',
+        amount,
+      });
+
+      const mdr = Math.round(amount * schedule.mdrRate);
+      if (mdr > 0) {
+        feeAmount += mdr;
+        lines.push({
+          type: 'MDR_FEE',
+          reference: instruction.id,
+          contractId: instruction.contractId,
+          description: `Merchant discount rate ${(schedule.mdrRate * 100).toFixed(2)}%`,
+          amount: -mdr,
+        });
+      }
+
+      if (schedule.perTransactionFee > 0) {
+        feeAmount += schedule.perTransactionFee;
+        lines.push({
+          type: 'TRANSACTION_FEE',
+          reference: instruction.id,
+          contractId: instruction.contractId,
+          description: 'Per-transaction fee',
+          amount: -schedule.perTransactionFee,
+        });
+      }
+    }
+
+    let available = Math.max(0, grossAmount - feeAmount);
+    let clawbackAmount = 0;
+    let outstanding = 0;
+    for (const clawback of clawbacks) {
+      const owed = clawback.amount - clawback.recoveredAmount;
+      outstanding += owed;
+
+      const recovered = Math.min(owed, available);
+      if (recovered <= 0) continue;
+
+      available -= recovered;
+      clawbackAmount += recovered;
+      lines.push({
+        type: clawback.reason === 'REFUND' ? 'REFUND' : 'CHARGEBACK',
+        reference: clawback.id,
+        contractId: clawback.contractId,
+        description:
+          clawback.reason === 'REFUND'
+            ? 'Refund after settlement'
+            : `Chargeback (${clawback.reason}${clawback.caseReference ? ` ${clawback.caseReference}` : ''})`,
+        amount: -recovered,
+      });
+    }
+
+    const payoutFee = Math.min(schedule.payoutFee, available);
+    if (payoutFee > 0) {
+      feeAmount += payoutFee;
+      available -= payoutFee;
+      lines.push({ type: 'PAYOUT_FEE', reference: id, description: 'Payout transfer fee', amount: -payoutFee });
+    }
+
+    return {
+      id,
+      merchantId,
+      cutoffAt,
+      settlementIds: instructions.map((i) => i.id),
+      lines,
+      grossAmount,
+      feeAmount,
+      clawbackAmount,
+      netPayout: available,
+      carriedForward: outstanding - clawbackAmount,
+      status: 'PROCESSING',
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * Most recent cut-off at or before `asOf`
+   */
+  public static latestCutoff(asOf: Date = new Date()): Date {
+    const cutoff = new Date(asOf);
+    cutoff.setUTCHours(this.CUTOFF_HOUR_UTC, 0, 0, 0);
+    if (cutoff > asOf) {
+      cutoff.setUTCDate(cutoff.getUTCDate() - 1);
+    }
+    return cutoff;
+  }
+
+  /**
+   * Merchant fee schedule (defaults until one is set)
+   */
+  public static async getFeeSchedule(
+    merchantId: string,
+    deps: Pick<SettlementBatchDependencies, 'feeScheduleRepo'>
+  ): Promise<SettlementFeeSchedule> {
+    return (
+      (await deps.feeScheduleRepo.get(merchantId)) ?? {
+        merchantId,
+        ...DEFAULT_FEE_SCHEDULE,
+        updatedAt: new Date(0),
+      }
+    );
+  }
+
+  /**
+   * Update a merchant's fee schedule (applies from the next batch)
+   */
+  public static async updateFeeSchedule(
+    merchantId: string,
+    changes: Partial<Pick<SettlementFeeSchedule, 'mdrRate' | 'perTransactionFee' | 'payoutFee'>>,
+    deps: Pick<SettlementBatchDependencies, 'feeScheduleRepo' | 'auditLog'>
+  ): Promise<SettlementFeeSchedule> {
+    const current = await this.getFeeSchedule(merchantId, deps);
+    const updated: SettlementFeeSchedule = {
+      merchantId,
+      mdrRate: changes.mdrRate ?? current.mdrRate,
+      perTransactionFee: changes.perTransactionFee ?? current.perTransactionFee,
+      payoutFee: changes.payoutFee ?? current.payoutFee,
+      updatedAt: new Date(),
+    };
+
+    if (!(updated.mdrRate >= 0 && updated.mdrRate < 1)) {
+      throw new Error('mdrRate must be at least 0 and below 1');
+    }
+    if (!(updated.perTransactionFee >= 0) || !(updated.payoutFee >= 0)) {
+      throw new Error('Fees must be non-negative');
+    }
+
+    await deps.feeScheduleRepo.save(updated);
+    await deps.auditLog.record({
+      type: 'MERCHANT_FEE_SCHEDULE_UPDATED',
+      merchantId,
+      oldSchedule: current,
+      newSchedule: updated,
+      timestamp: new Date(),
+    });
+
+    return updated;
+  }
+
+  /**
+   * Itemised settlement report as CSV
+   */
+  public static toCsv(batch: SettlementBatch): string {
+    const header = ['batch_id', 'merchant_id', 'cutoff_at', 'type', 'reference', 'contract_id', 'description', 'amount'];
+    const row = (type: string, reference: string, contractId: string, description: string, amount: number) =>
+      [batch.id, batch.merchantId, batch.cutoffAt.toISOString(), type, reference, contractId, description, String(amount)]
+        .map((cell) => this.csvCell(cell))
+        .join(',');
+
+    return [
+      header.join(','),
+      ...batch.lines.map((l) => row(l.type, l.reference, l.contractId ?? '', l.description, l.amount)),
+      row('TOTAL_GROSS', batch.id, '', 'Settlements', batch.grossAmount),
+      row('TOTAL_FEES', batch.id, '', 'MDR, transaction and payout fees', -batch.feeAmount),
+      row('TOTAL_CLAWBACKS', batch.id, '', 'Refunds and chargebacks recovered', -batch.clawbackAmount),
+      row('NET_PAYOUT', batch.id, '', batch.paymentGatewayRef ? `Gateway ref ${batch.paymentGatewayRef}` : '', batch.netPayout),
+      row('CARRIED_FORWARD', batch.id, '', 'Clawbacks still outstanding', -batch.carriedForward),
+    ].join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Itemised settlement report as PDF
+   */
+  public static toPdf(batch: SettlementBatch): Uint8Array {
+    const money = (amount: number) => amount.toLocaleString('en-US').padStart(14);
+    const text = [
+      'SETTLEMENT REPORT',
+      '',
+      `Batch:     ${batch.id}`,
+      `Merchant:  ${batch.merchantId}`,
+      `Cut-off:   ${batch.cutoffAt.toISOString()}`,
+      `Status:    ${batch.status}${batch.paymentGatewayRef ? ` (gateway ref ${batch.paymentGatewayRef})` : ''}`,
+      '',
+      `${'TYPE'.padEnd(16)}${'REFERENCE'.padEnd(38)}${'AMOUNT (UGX)'.padStart(14)}`,
+      '-'.repeat(68),
+      ...batch.lines.flatMap((l) => [
+        `${l.type.padEnd(16)}${l.reference.padEnd(38)}${money(l.amount)}`,
+        `  ${l.description}${l.contractId ? ` - contract ${l.contractId}` : ''}`,
+      ]),
+      '-'.repeat(68),
+      `${'Gross settlements'.padEnd(54)}${money(batch.grossAmount)}`,
+      `${'Fees'.padEnd(54)}${money(-batch.feeAmount)}`,
+      `${'Refunds and chargebacks'.padEnd(54)}${money(-batch.clawbackAmount)}`,
+      `${'NET PAYOUT'.padEnd(54)}${money(batch.netPayout)}`,
+      `${'Clawbacks carried forward'.padEnd(54)}${money(batch.carriedForward)}`,
+    ];
+
+    return this.renderPdf(text);
+  }
+
+  /**
+   * Private helpers
+   */
+
+  private static async postBatchJournals(batch: SettlementBatch, deps: SettlementBatchDependencies): Promise<void> {
+    for (const line of batch.lines) {
+      const amount = -line.amount;
+
+      if (line.type === 'MDR_FEE' || line.type === 'TRANSACTION_FEE' || line.type === 'PAYOUT_FEE') {
+        const journal = await GeneralLedger.post(
+          GeneralLedger.merchantFeeJournal(line.contractId, batch.id, amount, `${line.description} withheld from settlement batch`),
+          deps
+        );
+        // Batch-level fees have no contract ledger to go on
+        if (line.contractId) {
+          await deps.ledgerRepo.create({
+            id: uuidv4(),
+            contractId: line.contractId,
+            type: 'FEE',
+            amount, // Platform revenue
+            account: 'PLATFORM',
+            reference: batch.id,
+            journalEntryId: journal.id,
+            timestamp: new Date(),
+          });
+        }
+      }
+
+      if ((line.type === 'REFUND' || line.type === 'CHARGEBACK') && line.contractId) {
+        const journal = await GeneralLedger.post(
+          GeneralLedger.clawbackRecoveryJournal(line.contractId, batch.id, amount),
+          deps
+        );
+        await deps.ledgerRepo.create({
+          id: uuidv4(),
+          contractId: line.contractId,
+          type: 'CLAWBACK_RECOVERY',
+          amount: -amount, // Withheld from the merchant
+          account: 'MERCHANT',
+          reference: batch.id,
+          journalEntryId: journal.id,
+          timestamp: new Date(),
+        });
+      }
+    }
+  }
+
+  private static csvCell(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  // Minimal single-font PDF (Courier, A4), no external dependencies
+  private static renderPdf(text: string[]): Uint8Array {
+    const escape = (line: string) =>
+      line.replace(/[^\x20-\x7e]/g, '?').replace(/([\\()])/g, '\\$1');
+
+    const pages: string[][] = [];
+    for (let i = 0; i < text.length; i += this.PDF_LINES_PER_PAGE) {
+      pages.push(text.slice(i, i + this.PDF_LINES_PER_PAGE));
+    }
+
+    // 1 catalog, 2 page tree, 3 font, then a page and content object per page
+    const objects: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>',
+    ];
+    pages.forEach((lines, i) => {
+      const stream = ['BT', '/F1 9 Tf', '12 TL', '40 800 Td', ...lines.map((l) => `(${escape(l)}) Tj T*`), 'ET'].join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`,
+        `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+      );
+    });
+
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(pdf.length);
+      pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return new TextEncoder().encode(pdf);
+  }
+}
+
+export default SettlementBatchService;
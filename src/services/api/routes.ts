@@ -23,7 +23,8 @@ export const merchantRoutes = {
    *   "orderAmount": 500000,     // UGX
    *   "orderDescription": "iPhone 14 Pro",
    *   "tenor": 90,              // Days
-   *   "idempotencyKey": "uuid"
+   *   "idempotencyKey": "uuid",
+   *   "deviceId": "pos_0042"    // Optional, counted by velocity controls
    * }
    * 
    * Response (Success):
@@ -36,6 +37,25 @@ export const merchantRoutes = {
    *   "authToken": "base64encoded",
    *   "expiresIn": 900
    * }
+   * 
+   * Response (Credit decline):
+   * {
+   *   "error": "Affordability too low",
+   *   "adverseActionCodes": ["EXCESSIVE_OBLIGATIONS", "CREDIT_BUREAU_RISK"]
+   *   // INSUFFICIENT_INCOME | EXCESSIVE_OBLIGATIONS | CREDIT_BUREAU_RISK | DELINQUENT_PAYMENT_HISTORY
+   *   // | CREDIT_LIMIT_REACHED | LOW_AFFORDABILITY_SCORE | ORDER_AMOUNT_OUT_OF_RANGE | TENOR_NOT_OFFERED | POLICY_RULE
+   * }
+   * 
+   * Response (Velocity decline):
+   * {
+   *   "error": "Order declined: Customer has placed 3 orders in the last hour (limit 3)",
+   *   "declineCode": "CUSTOMER_HOURLY_ORDERS_EXCEEDED",
+   *   // TICKET_SIZE_EXCEEDED | MERCHANT_DAILY_VOLUME_EXCEEDED | MERCHANT_MONTHLY_VOLUME_EXCEEDED
+   *   // | CUSTOMER_HOURLY_ORDERS_EXCEEDED | DEVICE_HOURLY_ORDERS_EXCEEDED
+   *   "declines": [
+   *     { "code": "CUSTOMER_HOURLY_ORDERS_EXCEEDED", "subject": "CUSTOMER", "limit": 3, "current": 3, "requested": 1, "window": "1H" }
+   *   ]
+   * }
    */
   checkoutAuthorize: {
     method: 'POST',
@@ -89,13 +109,52 @@ export const merchantRoutes = {
 
   /**
    * GET /api/merchant/settlements
-   * Get settlement history
+   * Get settlement batches, queued settlements and outstanding clawbacks
+   * 
+   * Response:
+   * {
+   *   "merchantId": "merch_123",
+   *   "batches": [  // Newest first, one per daily cut-off (16:00 EAT)
+   *     {
+   *       "id": "batch_852",
+   *       "cutoffAt": "2024-01-15T13:00:00Z",
+   *       "grossAmount": 990000,
+   *       "feeAmount": 21300,     // MDR, per-transaction and payout fees
+   *       "clawbackAmount": 120000,
+   *       "netPayout": 848700,
+   *       "carriedForward": 180000,
+   *       "status": "PAID"
+   *     }
+   *   ],
+   *   "settlements": [
+   *     { "id": "stl_456", "contractId": "contract_789", "amount": 495000, "status": "COMPLETED", "batchId": "batch_852" },
+   *     { "id": "stl_457", "contractId": "contract_790", "amount": 247500, "status": "PENDING" }  // Queued for the next batch
+   *   ],
+   *   "clawbacks": [
+   *     { "id": "clw_321", "contractId": "contract_654", "reason": "DISPUTE_LOST", "amount": 300000, "recoveredAmount": 120000, "status": "PARTIALLY_RECOVERED" }
+   *   ],
+   *   "pendingAmount": 247500,
+   *   "outstandingClawbacks": 180000,
+   *   "balance": 67500  // Pending minus outstanding clawbacks; negative when the merchant owes
+   * }
    */
   getSettlements: {
     method: 'GET',
     path: '/api/merchant/settlements?limit=50&offset=0',
     description: 'Get settlement history',
   },
+
+  /**
+   * GET /api/merchant/settlements/:batchId/report?format=csv|pdf
+   * Itemised settlement report for one batch: each settlement with its MDR
+   * and transaction fees, refunds and chargebacks withheld, payout fee and
+   * net payout
+   */
+  getSettlementReport: {
+    method: 'GET',
+    path: '/api/merchant/settlements/:batchId/report?format=csv',
+    description: 'Download settlement report',
+  },
 };
 
 // ============================================================================
@@ -198,6 +257,82 @@ export const customerRoutes = {
     path: '/api/customer/authorize-contract/:contractId',
     description: 'Confirm BNPL authorization',
   },
+
+  /**
+   * POST /api/customer/crb/consent
+   * Record explicit consent to a CRB check (required before checkout can pull a report)
+   * 
+   * Request:
+   * {
+   *   "consentGiven": true,
+   *   "channel": "EMPLOYEE_PORTAL"   // EMPLOYEE_PORTAL | USSD | CHECKOUT
+   * }
+   * 
+   * Response:
+   * {
+   *   "consentId": "consent_123",
+   *   "grantedAt": "2024-01-01T09:00:00Z",
+   *   "expiresAt": "2025-01-01T09:00:00Z"
+   * }
+   */
+  grantCrbConsent: {
+    method: 'POST',
+    path: '/api/customer/crb/consent',
+    description: 'Consent to CRB check',
+  },
+
+  /**
+   * DELETE /api/customer/crb/consent
+   * Revoke CRB consent (reports already pulled are kept for audit)
+   */
+  revokeCrbConsent: {
+    method: 'DELETE',
+    path: '/api/customer/crb/consent',
+    description: 'Revoke CRB consent',
+  },
+
+  /**
+   * GET /api/customer/crb
+   * Latest CRB result (cached for 24h; a new bureau pull only after expiresAt)
+   * 
+   * Response:
+   * {
+   *   "score": 720,
+   *   "riskFlags": ["RECENT_ENQUIRIES"],
+   *   // NO_CREDIT_HISTORY | LOW_SCORE | DEFAULT_HISTORY | MULTIPLE_ACTIVE_LOANS | RECENT_ENQUIRIES | FRAUD_ALERT
+   *   "overallStatus": "WARNING",      // CLEAN | WARNING | HIGH_RISK
+   *   "provider": "STUB",
+   *   "lastCheckDate": "2024-01-01T09:00:00Z",
+   *   "expiresAt": "2024-01-02T09:00:00Z",
+   *   "fromCache": true
+   * }
+   */
+  getCrbResult: {
+    method: 'GET',
+    path: '/api/customer/crb',
+    description: 'Get CRB result',
+  },
+
+  /**
+   * GET /api/customer/contracts/:contractId/credit-decision
+   * Why an order was approved or declined, in the customer's terms
+   * 
+   * Response:
+   * {
+   *   "outcome": "APPROVED",
+   *   "maxAmount": 850000,
+   *   "requestedAmount": 500000,
+   *   "bindingConstraint": "EXISTING_DEDUCTIONS",
+   *   // SALARY_CAPACITY | EXISTING_DEDUCTIONS | CRB_ADJUSTMENT | PAYMENT_HISTORY_ADJUSTMENT
+   *   // | DEDUCTION_LIMIT | CREDIT_LIMIT | POLICY_RULE
+   *   "adverseActionReasons": []      // Up to 4, most important first
+   * }
+   */
+  getCreditDecision: {
+    method: 'GET',
+    path: '/api/customer/contracts/:contractId/credit-decision',
+    description: 'Get credit decision reasons',
+  },
 };
 
 // ============================================================================
@@ -327,6 +462,34 @@ export const employerRoutes = {
     path: '/api/employer/contracts',
     description: 'Get contracts for employees',
   },
+
+  /**
+   * POST /api/employer/salary-updates
+   * Salary change feed (also accepted as a CSV/XLSX file at /salary-updates/import)
+   * Only changed salaries are applied; limits are recalculated against open
+   * contracts, and drops of 20%+ (or below open installments) go to review
+   * 
+   * Request:
+   * {
+   *   "updates": [
+   *     { "payrollEmployeeId": "EMP-0042", "netSalary": 1800000 }
+   *   ]
+   * }
+   * 
+   * Response:
+   * {
+   *   "batchId": "salary_batch_123",
+   *   "applied": 1,
+   *   "unchanged": 0,
+   *   "failed": 0,               // UNKNOWN_EMPLOYEE | INACTIVE_POLICY | INVALID
+   *   "flagged": 1
+   * }
+   */
+  submitSalaryUpdates: {
+    method: 'POST',
+    path: '/api/employer/salary-updates',
+    description: 'Submit salary changes',
+  },
 };
 
 // ============================================================================
@@ -486,6 +649,262 @@ export const adminRoutes = {
     description: 'Run reconciliation job',
   },
 
+  /**
+   * POST /api/admin/merchants/:merchantId/clawbacks
+   * Recover settled funds from a merchant after a dispute or fraud case is
+   * decided against them; withheld from the merchant's next settlements (IDEMPOTENT)
+   * 
+   * Request:
+   * {
+   *   "contractId": "contract_654",
+   *   "amount": 300000,       // UGX, up to the amount settled on the contract
+   *   "reason": "DISPUTE_LOST",  // DISPUTE_LOST | FRAUD | OTHER
+   *   "caseReference": "dispute_987",
+   *   "idempotencyKey": "uuid"
+   * }
+   * 
+   * Response:
+   * {
+   *   "clawbackId": "clw_321",
+   *   "status": "OUTSTANDING"
+   * }
+   */
+  recordClawback: {
+    method: 'POST',
+    path: '/api/admin/merchants/:merchantId/clawbacks',
+    description: 'Record merchant clawback',
+  },
+
+  /**
+   * POST /api/admin/settlements/run-batches
+   * Pay out every merchant's queued settlements up to the latest cut-off,
+   * net of fees and outstanding clawbacks (IDEMPOTENT per merchant and cut-off)
+   * 
+   * Response:
+   * {
+   *   "cutoffAt": "2024-01-15T13:00:00Z",
+   *   "batches": [{ "id": "batch_852", "merchantId": "merch_123", "netPayout": 848700, "status": "PAID" }],
+   *   "failed": []  // Merchants whose payout failed; their settlements stay queued
+   * }
+   */
+  runSettlementBatches: {
+    method: 'POST',
+    path: '/api/admin/settlements/run-batches',
+    description: 'Run daily settlement batches',
+  },
+
+  /**
+   * PUT /api/admin/merchants/:merchantId/fee-schedule
+   * Set the fees withheld from a merchant's settlement batches (from the next batch)
+   * 
+   * Request:
+   * {
+   *   "mdrRate": 0.015,          // Fraction of each settlement
+   *   "perTransactionFee": 500,  // UGX per settlement
+   *   "payoutFee": 2000          // UGX per batch payout
+   * }
+   */
+  updateFeeSchedule: {
+    method: 'PUT',
+    path: '/api/admin/merchants/:merchantId/fee-schedule',
+    description: 'Update merchant fee schedule',
+  },
+
+  /**
+   * GET /api/admin/crb/verifications/:verificationId
+   * CRB verification with the raw bureau report and the consent it ran under (audit)
+   */
+  getCrbVerification: {
+    method: 'GET',
+    path: '/api/admin/crb/verifications/:verificationId',
+    description: 'Get CRB verification and raw report',
+  },
+
+  /**
+   * POST /api/admin/credit-policies
+   * Publish the next credit policy version for a scope (the active version is retired)
+   * 
+   * Request:
+   * {
+   *   "scope": "EMPLOYER",             // PLATFORM | ORGANIZATION | EMPLOYER
+   *   "scopeId": "emp_123",            // null for PLATFORM
+   *   "rules": {                       // Only the rules this layer overrides
+   *     "deductionRatios": { "TIER_1": 0.35, "TIER_2": 0.25, "TIER_3": 0.15 },
+   *     "maxTenorDays": { "TIER_1": 90, "TIER_2": 90, "TIER_3": 60 },
+   *     "crbBands": [{ "minScore": 700, "adjustment": 1.0 }, { "minScore": 0, "adjustment": 0.6 }],
+   *     "declineRules": [
+   *       { "id": "OVERDUE", "fact": "overdueContracts", "operator": "GTE", "value": 1, "reason": "Existing contract overdue" }
+   *     ]
+   *   },
+   *   "notes": "Tighter limits after Q2 review"
+   * }
+   * 
+   * Response:
+   * {
+   *   "id": "policy_abc",
+   *   "scope": "EMPLOYER",
+   *   "scopeId": "emp_123",
+   *   "version": 3,
+   *   "status": "ACTIVE"
+   * }
+   */
+  publishCreditPolicy: {
+    method: 'POST',
+    path: '/api/admin/credit-policies',
+    description: 'Publish credit policy version',
+  },
+
+  /**
+   * GET /api/admin/credit-policies/:scope/:scopeId
+   * Every published version for a scope, newest first (scopeId "platform" for PLATFORM)
+   */
+  getCreditPolicyVersions: {
+    method: 'GET',
+    path: '/api/admin/credit-policies/:scope/:scopeId',
+    description: 'List credit policy versions',
+  },
+
+  /**
+   * GET /api/admin/employers/:employerId/credit-policy
+   * Effective rules for an employer's employees after every layer is applied
+   * 
+   * Response:
+   * {
+   *   "version": "PLATFORM@2/ORGANIZATION:org_1@config/EMPLOYER:emp_123@config/EMPLOYER:emp_123@3",
+   *   "policyIds": ["policy_p2", "policy_abc"],
+   *   "rules": { ... }
+   * }
+   */
+  getResolvedCreditPolicy: {
+    method: 'GET',
+    path: '/api/admin/employers/:employerId/credit-policy',
+    description: 'Get resolved credit policy',
+  },
+
+  /**
+   * POST /api/admin/credit-experiments
+   * Start a champion/challenger experiment (one active at a time)
+   * Customers are assigned to an arm by a hash of their id, so repeat applicants keep their arm
+   * 
+   * Request:
+   * {
+   *   "name": "Higher TIER_2 ratio",
+   *   "mode": "SPLIT",                 // SHADOW (challenger recorded only) | SPLIT
+   *   "challengerPercentage": 10,      // SPLIT only
+   *   "challengerRules": {             // Overrides on top of each employee's resolved policy
+   *     "deductionRatios": { "TIER_1": 0.40, "TIER_2": 0.35, "TIER_3": 0.20 }
+   *   }
+   * }
+   */
+  startCreditExperiment: {
+    method: 'POST',
+    path: '/api/admin/credit-experiments',
+    description: 'Start credit experiment',
+  },
+
+  /**
+   * POST /api/admin/credit-experiments/:experimentId/stop
+   * Stop an experiment; every customer is decided by the champion again
+   */
+  stopCreditExperiment: {
+    method: 'POST',
+    path: '/api/admin/credit-experiments/:experimentId/stop',
+    description: 'Stop credit experiment',
+  },
+
+  /**
+   * GET /api/admin/credit-experiments/:experimentId/outcomes
+   * Compare arms; approval rate and average limit cover every application,
+   * delinquency only the contracts funded on that arm's decision
+   * 
+   * Response:
+   * {
+   *   "experimentId": "exp_123",
+   *   "mode": "SPLIT",
+   *   "asOf": "2024-03-31T00:00:00Z",
+   *   "arms": [
+   *     { "arm": "CHAMPION", "applications": 1200, "approvals": 840, "approvalRate": 0.7, "averageLimit": 620000,
+   *       "fundedContracts": 760, "delinquencyRate30": 0.041, "delinquencyRate60": 0.022, "delinquencyRate90": 0.011 },
+   *     { "arm": "CHALLENGER", "applications": 1200, "approvals": 910, "approvalRate": 0.758, "averageLimit": 705000,
+   *       "fundedContracts": 88, "delinquencyRate30": 0.057, "delinquencyRate60": 0.034, "delinquencyRate90": 0 }
+   *   ]
+   * }
+   */
+  getCreditExperimentOutcomes: {
+    method: 'GET',
+    path: '/api/admin/credit-experiments/:experimentId/outcomes',
+    description: 'Get credit experiment outcomes',
+  },
+
+  /**
+   * GET /api/admin/contracts/:contractId/credit-decision
+   * Full decision record: every factor, policy version and adverse-action codes
+   * 
+   * Response:
+   * {
+   *   "approved": true,
+   *   "policyVersion": "PLATFORM@2/EMPLOYER:emp_123@3",
+   *   "factors": {
+   *     "netSalary": 2000000, "deductionRatio": 0.3, "salaryCapacity": 600000,
+   *     "existingDeductions": 250000, "availableCapacity": 350000, "tenorMonths": 3,
+   *     "crbScore": 720, "crbAdjustment": 0.9, "paymentHistoryAdjustment": 1,
+   *     "deductionLimit": null, "creditLimit": 1500000,
+   *     "maxAmount": 850000, "requestedAmount": 500000, "bindingConstraint": "EXISTING_DEDUCTIONS"
+   *   },
+   *   "adverseActionCodes": []
+   * }
+   */
+  getContractCreditDecision: {
+    method: 'GET',
+    path: '/api/admin/contracts/:contractId/credit-decision',
+    description: 'Get contract credit decision',
+  },
+
+  /**
+   * GET /api/admin/ledger/trial-balance
+   * Double-entry trial balance (reconciliation jobs assert balanced === true)
+   * 
+   * Response:
+   * {
+   *   "asOf": "2024-01-31T23:59:59Z",
+   *   "accounts": [
+   *     { "account": "LOANS_RECEIVABLE", "totalDebits": 520000, "totalCredits": 168000, "balance": 352000 }
+   *   ],
+   *   "totalDebits": 1040000,
+   *   "totalCredits": 1040000,
+   *   "balanced": true
+   * }
+   */
+  getTrialBalance: {
+    method: 'GET',
+    path: '/api/admin/ledger/trial-balance?asOf=2024-01-31',
+    description: 'Get general ledger trial balance',
+  },
+
+  /**
+   * POST /api/admin/ledger/verify
+   * Reconciliation check that the trial balance is still balanced;
+   * an out-of-balance ledger is recorded in the audit log
+   *
+   * Response:
+   * { "balanced": true, "trialBalance": { ... } }
+   */
+  verifyTrialBalance: {
+    method: 'POST',
+    path: '/api/admin/ledger/verify',
+    description: 'Verify the general ledger is balanced',
+  },
+
+  /**
+   * GET /api/admin/ledger/accounts/:accountCode
+   * Balance of a single chart-of-accounts entry
+   */
+  getAccountBalance: {
+    method: 'GET',
+    path: '/api/admin/ledger/accounts/:accountCode?asOf=2024-01-31',
+    description: 'Get ledger account balance',
+  },
+
   /**
    * GET /api/admin/audit-log
    * Get audit trail (compliance)
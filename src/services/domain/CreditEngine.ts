@@ -3,6 +3,9 @@
  * Real-time affordability checks and limit calculations
  * Inputs: net salary, existing deductions, employer rules, lender rules, CRB, active contracts
  * Output: approved amount, tenor, pricing, assigned lender
+ *
+ * Ratios, tenor caps, CRB bands and decline rules come from the resolved
+ * credit policy (see CreditPolicyEngine); each decision records its version.
  */
 
 import {
@@ -10,9 +13,19 @@ import {
   Employer,
   LenderProduct,
   CreditDecision,
+  CreditDeclineRule,
   BNPLContract,
   DeductionInstruction,
+  ResolvedCreditPolicy,
 } from './types';
+import { CreditPolicyEngine } from './CreditPolicyEngine';
+import {
+  adverseActionCodes,
+  identifyBindingConstraint,
+  MAX_ADVERSE_ACTION_REASONS,
+  AdverseActionCode,
+  DecisionFactors,
+} from '../../../supabase/functions/_shared/credit-decision';
 
 export interface CreditCheckInput {
   employee: Employee;
@@ -21,6 +34,7 @@ export interface CreditCheckInput {
   requestedTenor: number; // Days
   crbScore: number; // 0-1000
   activeContracts: BNPLContract[];
+  policy?: ResolvedCreditPolicy; // Platform defaults when not resolved by the caller
 }
 
 export class CreditEngine {
@@ -31,25 +45,28 @@ export class CreditEngine {
    *   Available = (Net Salary × Deduction Ratio) - Existing Deductions
    *
    * Constraint 2: Outstanding Deduction Limit
-   *   Total active deductions <= Net Salary × 0.30 (30% max)
+   *   Capped by the employee's deduction limit and the policy's credit limit
    *
    * Constraint 3: Tenor Matching
-   *   Maximum tenor = 6 months (180 days) for most tier 1/2
-   *   Maximum tenor = 3 months (90 days) for tier 3
+   *   Requested tenor capped at the policy's maximum for the risk tier
    *
    * Constraint 4: Risk Adjustment
-   *   CRB flags, payment history reduce capacity
+   *   Policy CRB bands and payment history reduce capacity
+   *
+   * Every intermediate value is returned in `factors` for explainability.
    */
   public static calculateAffordableAmount(input: CreditCheckInput): {
     maxAmount: number;
     monthlyPayment: number;
     affordinessScore: number;
+    factors: DecisionFactors;
   } {
-    const { employee, employer, requestedTenor, crbScore, activeContracts } = input;
+    const { employee, requestedTenor, crbScore, activeContracts } = input;
+    const rules = (input.policy ?? CreditPolicyEngine.resolve()).rules;
 
     // Base salary constraints
     const netSalary = employee.netSalary;
-    const deductionRatio = this.getDeductionRatio(employee.riskTier);
+    const deductionRatio = CreditPolicyEngine.deductionRatio(rules, employee.riskTier);
 
     // Calculate existing monthly deductions
     const existingMonthlyDeductions = this.calculateExistingDeductions(
@@ -58,39 +75,70 @@ export class CreditEngine {
     );
 
     // Available deduction capacity per month
-    const availableDeductionCapacity = netSalary * deductionRatio - existingMonthlyDeductions;
-
-    if (availableDeductionCapacity <= 0) {
-      return {
-        maxAmount: 0,
-        monthlyPayment: 0,
-        affordinessScore: 0,
-      };
-    }
+    const salaryCapacity = netSalary * deductionRatio;
+    const availableDeductionCapacity = salaryCapacity - existingMonthlyDeductions;
 
     // Tenor constraints
-    const maxTenor = this.getMaxTenor(employee.riskTier);
+    const maxTenor = CreditPolicyEngine.maxTenor(rules, employee.riskTier);
     const effectiveTenor = Math.min(requestedTenor, maxTenor);
 
+    // Risk adjustments
+    const crbAdjustment = CreditPolicyEngine.crbAdjustment(rules, crbScore);
+    const paymentHistoryAdjustment = this.getPaymentHistoryAdjustment(activeContracts);
+
     // Maximum amount based on monthly capacity and tenor
     // Assuming ~3% monthly interest (36% p.a.) and 1% processing fee
     const monthlyRate = 0.03;
-    const maxAmount = this.calculatePrincipal(
-      availableDeductionCapacity,
-      effectiveTenor / 30, // Convert days to months
-      monthlyRate
-    );
+    const salaryCapacityAmount = this.calculatePrincipal(salaryCapacity, effectiveTenor / 30, monthlyRate);
+    const maxAmount =
+      availableDeductionCapacity > 0
+        ? this.calculatePrincipal(
+            availableDeductionCapacity,
+            effectiveTenor / 30, // Convert days to months
+            monthlyRate
+          )
+        : 0;
 
     // CRB-based risk adjustment
-    const crbAdjustment = this.getCRBAdjustment(crbScore);
     const adjustedMaxAmount = maxAmount * crbAdjustment;
 
     // Payment history adjustment
-    const paymentHistoryAdjustment = this.getPaymentHistoryAdjustment(activeContracts);
     const finalMaxAmount = adjustedMaxAmount * paymentHistoryAdjustment;
 
-    // Cap to employee's deduction limit
-    const employerLimitAdjustedAmount = Math.min(finalMaxAmount, employee.deductionLimit);
+    // Cap to employee's deduction limit and the policy's credit limit
+    const employerLimitAdjustedAmount = Math.min(
+      finalMaxAmount,
+      employee.deductionLimit,
+      rules.maxCreditLimit ?? Infinity
+    );
+
+    const baseFactors = {
+      netSalary,
+      deductionRatio,
+      salaryCapacity: Math.round(salaryCapacity),
+      existingDeductions: Math.round(existingMonthlyDeductions),
+      availableCapacity: Math.round(Math.max(0, availableDeductionCapacity)),
+      tenorMonths: effectiveTenor / 30,
+      salaryCapacityAmount: Math.floor(salaryCapacityAmount),
+      capacityAmount: Math.floor(maxAmount),
+      crbScore,
+      crbAdjustment,
+      paymentHistoryAdjustment,
+      deductionLimit: employee.deductionLimit,
+      creditLimit: rules.maxCreditLimit,
+      maxAmount: Math.floor(employerLimitAdjustedAmount),
+      requestedAmount: input.requestedAmount,
+    };
+    const factors: DecisionFactors = { ...baseFactors, bindingConstraint: identifyBindingConstraint(baseFactors) };
+
+    if (availableDeductionCapacity <= 0) {
+      return {
+        maxAmount: 0,
+        monthlyPayment: 0,
+        affordinessScore: 0,
+        factors,
+      };
+    }
 
     // Calculate monthly payment
     const monthlyPayment = this.calculateMonthlyPayment(
@@ -109,23 +157,52 @@ export class CreditEngine {
       maxAmount: Math.floor(employerLimitAdjustedAmount),
       monthlyPayment: Math.ceil(monthlyPayment),
       affordinessScore: Math.round(affordinessScore),
+      factors,
     };
   }
 
   /**
    * Make a credit decision
+   * Adverse-action codes are set whenever the requested amount is not approved in full
    */
   public static makeDecision(
     input: CreditCheckInput,
     interestRate: number = 0.36, // 36% p.a.
     processingFee: number = 0.01 // 1%
   ): CreditDecision {
-    const { employee, requestedTenor, crbScore } = input;
-    const affordability = this.calculateAffordableAmount(input);
+    const { employee, requestedTenor } = input;
+    const policy = input.policy ?? CreditPolicyEngine.resolve();
+    const declineRule = this.findDeclineRule({ ...input, policy });
+    const affordability = this.calculateAffordableAmount({ ...input, policy });
+
+    if (declineRule) {
+      return {
+        employeeId: employee.id,
+        approved: false,
+        approvedAmount: 0,
+        tenor: requestedTenor,
+        interestRate,
+        processingFee: 0,
+        assignedLenderId: '',
+        reasoning: `Declined by policy rule ${declineRule.id}: ${declineRule.reason}.`,
+        factors: { ...affordability.factors, bindingConstraint: 'POLICY_RULE' },
+        adverseActionCodes: [this.declineRuleCode(declineRule)],
+        confidenceScore: 0,
+        policyVersion: policy.version,
+        declineRuleId: declineRule.id,
+        timestamp: new Date(),
+      };
+    }
 
-    const approved = affordability.maxAmount > 0 && affordability.affordinessScore >= 40;
+    const lowScore = affordability.affordinessScore < policy.rules.minAffordabilityScore;
+    const approved = affordability.maxAmount > 0 && !lowScore;
     const approvedAmount = approved ? affordability.maxAmount : 0;
 
+    const codes: AdverseActionCode[] = [
+      ...(affordability.maxAmount > 0 && lowScore ? ['LOW_AFFORDABILITY_SCORE' as const] : []),
+      ...adverseActionCodes(affordability.factors),
+    ];
+
     return {
       employeeId: employee.id,
       approved,
@@ -135,7 +212,10 @@ export class CreditEngine {
       processingFee: Math.ceil(approvedAmount * processingFee),
       assignedLenderId: '', // Will be set by allocation engine
       reasoning: this.generateReasoning(input, affordability, approved),
+      factors: affordability.factors,
+      adverseActionCodes: Array.from(new Set(codes)).slice(0, MAX_ADVERSE_ACTION_REASONS),
       confidenceScore: Math.min(100, affordability.affordinessScore),
+      policyVersion: policy.version,
       timestamp: new Date(),
     };
   }
@@ -144,22 +224,59 @@ export class CreditEngine {
    * Private helpers
    */
 
-  private static getDeductionRatio(riskTier: string): number {
-    const ratios: Record<string, number> = {
-      TIER_1: 0.40, // 40% of salary
-      TIER_2: 0.30, // 30% of salary
-      TIER_3: 0.20, // 20% of salary
-    };
-    return ratios[riskTier] || 0.20;
+  private static declineRuleCode(rule: CreditDeclineRule): AdverseActionCode {
+    if (rule.id === 'MIN_ORDER_AMOUNT' || rule.id === 'MAX_ORDER_AMOUNT') return 'ORDER_AMOUNT_OUT_OF_RANGE';
+    if (rule.id === 'TENOR_NOT_ALLOWED') return 'TENOR_NOT_OFFERED';
+    return 'POLICY_RULE';
   }
 
-  private static getMaxTenor(riskTier: string): number {
-    const tenors: Record<string, number> = {
-      TIER_1: 180, // 6 months
-      TIER_2: 120, // 4 months
-      TIER_3: 90, // 3 months
-    };
-    return tenors[riskTier] || 90;
+  /**
+   * Policy limits and decline rules checked before affordability
+   * (order amount range and allowed tenors are reported as built-in rules)
+   */
+  private static findDeclineRule(
+    input: CreditCheckInput & { policy: ResolvedCreditPolicy }
+  ): CreditDeclineRule | null {
+    const { rules } = input.policy;
+
+    if (input.requestedAmount < rules.minOrderAmount) {
+      return {
+        id: 'MIN_ORDER_AMOUNT',
+        fact: 'requestedAmount',
+        operator: 'LT',
+        value: rules.minOrderAmount,
+        reason: `Order amount below policy minimum of UGX ${rules.minOrderAmount}`,
+      };
+    }
+    if (rules.maxOrderAmount !== null && input.requestedAmount > rules.maxOrderAmount) {
+      return {
+        id: 'MAX_ORDER_AMOUNT',
+        fact: 'requestedAmount',
+        operator: 'GT',
+        value: rules.maxOrderAmount,
+        reason: `Order amount above policy maximum of UGX ${rules.maxOrderAmount}`,
+      };
+    }
+    if (rules.allowedTenorDays && !rules.allowedTenorDays.includes(input.requestedTenor)) {
+      return {
+        id: 'TENOR_NOT_ALLOWED',
+        fact: 'requestedTenor',
+        operator: 'EQ',
+        value: input.requestedTenor,
+        reason: `Tenor of ${input.requestedTenor} days not offered (allowed: ${rules.allowedTenorDays.join(', ')})`,
+      };
+    }
+
+    return CreditPolicyEngine.evaluateDeclineRules(rules, {
+      crbScore: input.crbScore,
+      netSalary: input.employee.netSalary,
+      requestedAmount: input.requestedAmount,
+      requestedTenor: input.requestedTenor,
+      activeContracts: input.activeContracts.length,
+      overdueContracts: input.activeContracts.filter((c) =>
+        c.installments.some((i) => i.status === 'OVERDUE')
+      ).length,
+    });
   }
 
   private static calculateExistingDeductions(
@@ -195,13 +312,6 @@ export class CreditEngine {
     return principal * (numerator / denominator);
   }
 
-  private static getCRBAdjustment(crbScore: number): number {
-    if (crbScore >= 800) return 1.0; // Excellent: no adjustment
-    if (crbScore >= 650) return 0.9; // Good
-    if (crbScore >= 500) return 0.7; // Fair
-    return 0.5; // Poor
-  }
-
   private static getPaymentHistoryAdjustment(activeContracts: BNPLContract[]): number {
     if (activeContracts.length === 0) return 1.0;
 
@@ -215,12 +325,13 @@ export class CreditEngine {
 
   private static generateReasoning(
     input: CreditCheckInput,
-    affordability: { maxAmount: number; monthlyPayment: number; affordinessScore: number },
+    affordability: { maxAmount: number; monthlyPayment: number; affordinessScore: number; factors: DecisionFactors },
     approved: boolean
   ): string {
+    const binding = affordability.factors.bindingConstraint.toLowerCase().replace(/_/g, ' ');
     if (!approved) {
-      return `Insufficient affordability. Max affordable: UGX ${affordability.maxAmount}. Score: ${affordability.affordinessScore}/100.`;
+      return `Insufficient affordability. Max affordable: UGX ${affordability.maxAmount}. Score: ${affordability.affordinessScore}/100. Limited by ${binding}.`;
     }
-    return `Approved. Salary: UGX ${input.employee.netSalary}. Max capacity: UGX ${affordability.maxAmount}. Tier: ${input.employee.riskTier}. CRB: ${input.crbScore}/1000.`;
+    return `Approved. Salary: UGX ${input.employee.netSalary}. Max capacity: UGX ${affordability.maxAmount}. Tier: ${input.employee.riskTier}. CRB: ${input.crbScore}/1000. Limited by ${binding}.`;
   }
 }
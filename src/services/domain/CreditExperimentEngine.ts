@@ -0,0 +1,141 @@
+/**
+ * Credit Experiment Engine
+ * Champion/challenger evaluation of credit strategies
+ *
+ * The champion is the employee's resolved credit policy; the challenger is the
+ * same policy with the experiment's rule overrides applied. Both are decided
+ * for every application so arms can be compared on the same population.
+ *
+ * Customers are bucketed by a hash of experiment and employee id, so a repeat
+ * applicant always lands in the same arm for the life of an experiment.
+ */
+
+import {
+  BNPLContract,
+  CreditDecision,
+  CreditExperiment,
+  ExperimentArm,
+  ExperimentArmOutcomes,
+  ExperimentDecision,
+  ExperimentOutcomesReport,
+} from './types';
+import { CreditEngine, CreditCheckInput } from './CreditEngine';
+import { CreditPolicyEngine } from './CreditPolicyEngine';
+import { DelinquencyEngine } from './DelinquencyEngine';
+
+const DELINQUENCY_THRESHOLDS = [30, 60, 90] as const;
+
+export class CreditExperimentEngine {
+  /**
+   * Stable 0-99 bucket for an employee within an experiment
+   */
+  public static bucket(experimentId: string, employeeId: string): number {
+    // FNV-1a (32-bit)
+    let hash = 0x811c9dc5;
+    for (const char of `${experimentId}:${employeeId}`) {
+      hash ^= char.charCodeAt(0);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash % 100;
+  }
+
+  /**
+   * Arm whose decision is acted on for this employee
+   */
+  public static assignArm(experiment: CreditExperiment, employeeId: string): ExperimentArm {
+    if (experiment.mode === 'SHADOW') return 'CHAMPION';
+    return this.bucket(experiment.id, employeeId) < experiment.challengerPercentage ? 'CHALLENGER' : 'CHAMPION';
+  }
+
+  /**
+   * Decide an application under both arms; `decision` is the one to act on
+   */
+  public static decide(
+    experiment: CreditExperiment,
+    input: CreditCheckInput
+  ): { decision: CreditDecision; experimentDecision: Omit<ExperimentDecision, 'id' | 'contractId'> } {
+    const championPolicy = input.policy ?? CreditPolicyEngine.resolve();
+    const challengerPolicy = CreditPolicyEngine.withOverrides(
+      championPolicy,
+      experiment.challengerRules,
+      `EXPERIMENT:${experiment.id}@CHALLENGER`
+    );
+
+    const champion = CreditEngine.makeDecision({ ...input, policy: championPolicy });
+    const challenger = CreditEngine.makeDecision({ ...input, policy: challengerPolicy });
+    const appliedArm = this.assignArm(experiment, input.employee.id);
+
+    return {
+      decision: appliedArm === 'CHALLENGER' ? challenger : champion,
+      experimentDecision: {
+        experimentId: experiment.id,
+        employeeId: input.employee.id,
+        requestedAmount: input.requestedAmount,
+        appliedArm,
+        champion,
+        challenger,
+        createdAt: new Date(),
+      },
+    };
+  }
+
+  /**
+   * Approval rate, average limit and 30/60/90-day delinquency per arm
+   * Delinquency only counts contracts funded on that arm's decision, so a
+   * SHADOW challenger reports null until the experiment moves to SPLIT.
+   */
+  public static outcomes(
+    experiment: CreditExperiment,
+    decisions: ExperimentDecision[],
+    contracts: BNPLContract[],
+    asOf: Date = new Date()
+  ): ExperimentOutcomesReport {
+    const contractsById = new Map(contracts.map((c) => [c.id, c]));
+    const arms: ExperimentArm[] = ['CHAMPION', 'CHALLENGER'];
+
+    return {
+      experimentId: experiment.id,
+      mode: experiment.mode,
+      asOf,
+      arms: arms.map((arm) => {
+        const armDecisions = decisions.map((d) => ({
+          requestedAmount: d.requestedAmount,
+          decision: arm === 'CHAMPION' ? d.champion : d.challenger,
+        }));
+        const approvals = armDecisions.filter((d) => this.isApproved(d.decision, d.requestedAmount)).length;
+
+        const funded = decisions
+          .filter((d) => d.appliedArm === arm && d.contractId)
+          .map((d) => contractsById.get(d.contractId!))
+          .filter((c): c is BNPLContract => c !== undefined);
+        const daysPastDue = funded.map((c) => DelinquencyEngine.getDaysInArrears(c, asOf));
+        const [rate30, rate60, rate90] = DELINQUENCY_THRESHOLDS.map((days) =>
+          funded.length > 0 ? daysPastDue.filter((dpd) => dpd >= days).length / funded.length : null
+        );
+
+        const outcomes: ExperimentArmOutcomes = {
+          arm,
+          applications: armDecisions.length,
+          approvals,
+          approvalRate: armDecisions.length > 0 ? approvals / armDecisions.length : 0,
+          averageLimit:
+            armDecisions.length > 0
+              ? Math.round(armDecisions.reduce((sum, d) => sum + d.decision.factors.maxAmount, 0) / armDecisions.length)
+              : 0,
+          fundedContracts: funded.length,
+          delinquencyRate30: rate30,
+          delinquencyRate60: rate60,
+          delinquencyRate90: rate90,
+        };
+        return outcomes;
+      }),
+    };
+  }
+
+  // Checkout only proceeds when the full requested amount is approved
+  private static isApproved(decision: CreditDecision, requestedAmount: number): boolean {
+    return decision.approved && decision.approvedAmount >= requestedAmount;
+  }
+}
+
+export default CreditExperimentEngine;
@@ -0,0 +1,245 @@
+/**
+ * Credit Policy Engine
+ * Resolves the credit rules CreditEngine evaluates for one employee
+ *
+ * Layers (later layers win):
+ * 1. PLATFORM policy (DEFAULT_CREDIT_POLICY_RULES until one is published)
+ * 2. Organization.config - tier ratios, tenor cap, order amount range
+ * 3. ORGANIZATION policy overrides
+ * 4. EmployerGroup.config - deduction cap, credit limit, allowed tenors
+ * 5. EMPLOYER policy overrides
+ *
+ * Organization.config sets the organisation's defaults, EmployerGroup.config
+ * only ever tightens them, and policy overrides replace whatever they name.
+ * Decline rules accumulate across every layer.
+ */
+
+import {
+  CreditDeclineRule,
+  CreditPolicy,
+  CreditPolicyRules,
+  CreditRuleFact,
+  ResolvedCreditPolicy,
+  RiskTier,
+} from './types';
+import { EmployerGroup, Organization } from './hierarchicalTypes';
+
+// Previous hard-coded CreditEngine tables, reported as PLATFORM@0
+export const DEFAULT_CREDIT_POLICY_RULES: CreditPolicyRules = {
+  deductionRatios: {
+    TIER_1: 0.40, // 40% of salary
+    TIER_2: 0.30, // 30% of salary
+    TIER_3: 0.20, // 20% of salary
+  },
+  maxTenorDays: {
+    TIER_1: 180, // 6 months
+    TIER_2: 120, // 4 months
+    TIER_3: 90, // 3 months
+  },
+  allowedTenorDays: null,
+  crbBands: [
+    { minScore: 800, adjustment: 1.0 }, // Excellent: no adjustment
+    { minScore: 650, adjustment: 0.9 }, // Good
+    { minScore: 500, adjustment: 0.7 }, // Fair
+    { minScore: 0, adjustment: 0.5 }, // Poor
+  ],
+  minAffordabilityScore: 40,
+  minOrderAmount: 0,
+  maxOrderAmount: null,
+  maxCreditLimit: null,
+  declineRules: [],
+};
+
+const RISK_TIERS: RiskTier[] = ['TIER_1', 'TIER_2', 'TIER_3'];
+
+export interface CreditPolicyLayers {
+  platform?: CreditPolicy | null;
+  organization?: Organization | null;
+  organizationPolicy?: CreditPolicy | null;
+  employerGroup?: EmployerGroup | null;
+  employerPolicy?: CreditPolicy | null;
+}
+
+export type CreditRuleFacts = Record<CreditRuleFact, number>;
+
+export class CreditPolicyEngine {
+  /**
+   * Resolve the effective rules and the version string recorded on decisions
+   */
+  public static resolve(layers: CreditPolicyLayers = {}): ResolvedCreditPolicy {
+    const versions: string[] = [];
+    const policyIds: string[] = [];
+
+    let rules = this.applyOverrides(DEFAULT_CREDIT_POLICY_RULES, layers.platform?.rules ?? {});
+    versions.push(`PLATFORM@${layers.platform?.version ?? 0}`);
+    if (layers.platform) policyIds.push(layers.platform.id);
+
+    if (layers.organization) {
+      const config = layers.organization.config;
+      rules = {
+        ...rules,
+        deductionRatios: {
+          TIER_1: config.defaultCreditTierRatio.tier1,
+          TIER_2: config.defaultCreditTierRatio.tier2,
+          TIER_3: config.defaultCreditTierRatio.tier3,
+        },
+        maxTenorDays: this.mapTiers((tier) => Math.min(rules.maxTenorDays[tier], config.maxTenorMonths * 30)),
+        minOrderAmount: Math.max(rules.minOrderAmount, config.minOrderAmount),
+        maxOrderAmount: this.minOf(rules.maxOrderAmount, config.maxOrderAmount),
+      };
+      versions.push(`ORGANIZATION:${layers.organization.id}@config`);
+    }
+
+    if (layers.organizationPolicy) {
+      rules = this.applyOverrides(rules, layers.organizationPolicy.rules);
+      versions.push(this.versionOf(layers.organizationPolicy));
+      policyIds.push(layers.organizationPolicy.id);
+    }
+
+    if (layers.employerGroup) {
+      const config = layers.employerGroup.config;
+      const allowedTenorDays = config.allowedTenorMonths.map((months) => months * 30);
+      rules = {
+        ...rules,
+        deductionRatios: this.mapTiers((tier) => Math.min(rules.deductionRatios[tier], config.deductionLimit)),
+        maxCreditLimit: this.minOf(rules.maxCreditLimit, config.maxEmployeeCreditLimit),
+        allowedTenorDays: rules.allowedTenorDays
+          ? rules.allowedTenorDays.filter((days) => allowedTenorDays.includes(days))
+          : allowedTenorDays,
+      };
+      versions.push(`EMPLOYER:${layers.employerGroup.id}@config`);
+    }
+
+    if (layers.employerPolicy) {
+      rules = this.applyOverrides(rules, layers.employerPolicy.rules);
+      versions.push(this.versionOf(layers.employerPolicy));
+      policyIds.push(layers.employerPolicy.id);
+    }
+
+    return { rules, version: versions.join('/'), policyIds };
+  }
+
+  /**
+   * Apply one more overrides layer to an already resolved policy (challenger strategies)
+   */
+  public static withOverrides(
+    policy: ResolvedCreditPolicy,
+    overrides: Partial<CreditPolicyRules>,
+    label: string
+  ): ResolvedCreditPolicy {
+    return {
+      rules: this.applyOverrides(policy.rules, overrides),
+      version: `${policy.version}/${label}`,
+      policyIds: policy.policyIds,
+    };
+  }
+
+  /**
+   * Validate a policy layer's rules; returns the problems found (empty when valid)
+   */
+  public static validateRules(rules: Partial<CreditPolicyRules>): string[] {
+    const errors: string[] = [];
+    const isRatio = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+
+    if (rules.deductionRatios) {
+      for (const tier of RISK_TIERS) {
+        if (!isRatio(rules.deductionRatios[tier])) errors.push(`deductionRatios.${tier} must be between 0 and 1`);
+      }
+    }
+    if (rules.maxTenorDays) {
+      for (const tier of RISK_TIERS) {
+        const days = rules.maxTenorDays[tier];
+        if (typeof days !== 'number' || days <= 0) errors.push(`maxTenorDays.${tier} must be a positive number of days`);
+      }
+    }
+    if (rules.allowedTenorDays && rules.allowedTenorDays.some((days) => typeof days !== 'number' || days <= 0)) {
+      errors.push('allowedTenorDays must be positive numbers of days');
+    }
+    if (rules.crbBands) {
+      if (!rules.crbBands.some((band) => band.minScore === 0)) {
+        errors.push('crbBands must include a band starting at score 0');
+      }
+      if (rules.crbBands.some((band) => !isRatio(band.adjustment) || band.minScore < 0 || band.minScore > 1000)) {
+        errors.push('crbBands need a minScore of 0-1000 and an adjustment between 0 and 1');
+      }
+    }
+    if (rules.minAffordabilityScore !== undefined && (rules.minAffordabilityScore < 0 || rules.minAffordabilityScore > 100)) {
+      errors.push('minAffordabilityScore must be between 0 and 100');
+    }
+    if (rules.minOrderAmount !== undefined && rules.minOrderAmount < 0) {
+      errors.push('minOrderAmount cannot be negative');
+    }
+    if (rules.maxOrderAmount && rules.maxOrderAmount < (rules.minOrderAmount ?? 0)) {
+      errors.push('maxOrderAmount must be at least minOrderAmount');
+    }
+    if (rules.maxCreditLimit !== undefined && rules.maxCreditLimit !== null && rules.maxCreditLimit <= 0) {
+      errors.push('maxCreditLimit must be positive or null');
+    }
+    for (const rule of rules.declineRules ?? []) {
+      if (!rule.id || !rule.reason || typeof rule.value !== 'number') {
+        errors.push(`Decline rule ${rule.id || '(unnamed)'} needs an id, a reason and a numeric value`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * First decline rule that matches the facts, if any
+   */
+  public static evaluateDeclineRules(rules: CreditPolicyRules, facts: CreditRuleFacts): CreditDeclineRule | null {
+    return (
+      rules.declineRules.find((rule) => {
+        const actual = facts[rule.fact];
+        switch (rule.operator) {
+          case 'LT': return actual < rule.value;
+          case 'LTE': return actual <= rule.value;
+          case 'GT': return actual > rule.value;
+          case 'GTE': return actual >= rule.value;
+          case 'EQ': return actual === rule.value;
+        }
+      }) ?? null
+    );
+  }
+
+  public static deductionRatio(rules: CreditPolicyRules, riskTier: RiskTier): number {
+    return rules.deductionRatios[riskTier] ?? rules.deductionRatios.TIER_3;
+  }
+
+  public static maxTenor(rules: CreditPolicyRules, riskTier: RiskTier): number {
+    return rules.maxTenorDays[riskTier] ?? rules.maxTenorDays.TIER_3;
+  }
+
+  public static crbAdjustment(rules: CreditPolicyRules, crbScore: number): number {
+    const band = [...rules.crbBands]
+      .sort((a, b) => b.minScore - a.minScore)
+      .find((b) => crbScore >= b.minScore);
+    return band?.adjustment ?? 0;
+  }
+
+  /**
+   * Private helpers
+   */
+
+  private static applyOverrides(rules: CreditPolicyRules, overrides: Partial<CreditPolicyRules>): CreditPolicyRules {
+    const provided = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+    return {
+      ...rules,
+      ...provided,
+      declineRules: [...rules.declineRules, ...(overrides.declineRules ?? [])],
+    };
+  }
+
+  private static versionOf(policy: CreditPolicy): string {
+    return `${policy.scope}:${policy.scopeId}@${policy.version}`;
+  }
+
+  private static mapTiers(fn: (tier: RiskTier) => number): Record<RiskTier, number> {
+    return { TIER_1: fn('TIER_1'), TIER_2: fn('TIER_2'), TIER_3: fn('TIER_3') };
+  }
+
+  private static minOf(current: number | null, limit: number | null | undefined): number | null {
+    if (limit === null || limit === undefined) return current;
+    return current === null ? limit : Math.min(current, limit);
+  }
+}
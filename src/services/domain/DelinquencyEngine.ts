@@ -0,0 +1,215 @@
+/**
+ * Delinquency Engine
+ * Scheduled ageing of BNPL installments and contracts
+ *
+ * Daily job:
+ * 1. Moves unpaid installments past their due date (plus grace) to OVERDUE
+ * 2. Buckets contracts by days past due (1-30, 31-60, 61-90, 90+)
+ * 3. Updates pastDueAmount on each contract
+ * 4. Transitions contracts to DEFAULTED per DelinquencyPolicy
+ * 5. Produces portfolio-at-risk figures for the hierarchical dashboards
+ *
+ * Bucket and PAR calculations are shared with the edge job
+ * (supabase/functions/_shared/delinquency.ts).
+ */
+
+import { BNPLContract } from './types';
+import { EmployeeLoanSchedule } from './hierarchicalTypes';
+import { ContractStateMachine } from './StateMachine';
+import {
+  ageInstallments,
+  portfolioAtRisk,
+  DEFAULT_DELINQUENCY_POLICY,
+  DelinquencyBucket,
+  DelinquencyPolicy,
+  PortfolioAtRisk,
+} from '../../../supabase/functions/_shared/delinquency';
+
+export interface DelinquencyDependencies {
+  contractRepo: {
+    getActive: () => Promise<BNPLContract[]>;
+    update: (contract: BNPLContract) => Promise<void>;
+  };
+  auditLog: { record: (event: any) => Promise<void> };
+}
+
+export interface ContractDelinquency {
+  contractId: string;
+  daysPastDue: number;
+  bucket: DelinquencyBucket;
+  pastDueAmount: number;
+  newlyOverdueInstallments: number;
+  defaulted: boolean;
+}
+
+export interface DelinquencyRunResult {
+  asOf: Date;
+  contractsAged: number;
+  installmentsMarkedOverdue: number;
+  contractsDefaulted: number;
+  contracts: ContractDelinquency[];
+  portfolio: PortfolioAtRisk;
+}
+
+export class DelinquencyEngine {
+  /**
+   * Age a single contract in place (no persistence)
+   */
+  public static ageContract(
+    contract: BNPLContract,
+    asOf: Date = new Date(),
+    policy: DelinquencyPolicy = DEFAULT_DELINQUENCY_POLICY
+  ): ContractDelinquency {
+    const ageing = ageInstallments(this.toAgeable(contract), asOf, policy);
+
+    let newlyOverdue = 0;
+    for (const idx of ageing.overdueIndexes) {
+      const installment = contract.installments[idx];
+      if (installment.status === 'PENDING') {
+        installment.status = 'OVERDUE';
+        newlyOverdue++;
+      }
+    }
+    contract.pastDueAmount = ageing.pastDueAmount;
+
+    // A disbursed contract enters repayment once its first installment falls due
+    if (contract.state === 'DISBURSED' && ageing.overdueIndexes.length > 0) {
+      ContractStateMachine.transitionState(contract, 'IN_REPAYMENT', 'First installment fell due', 'DELINQUENCY_ENGINE');
+    }
+
+    let defaulted = false;
+    if (ageing.shouldDefault && contract.state === 'IN_REPAYMENT') {
+      const result = ContractStateMachine.transitionState(
+        contract,
+        'DEFAULTED',
+        `${ageing.daysPastDue} days past due (policy: default after ${policy.defaultAfterDays})`,
+        'DELINQUENCY_ENGINE'
+      );
+      defaulted = result.success;
+    }
+
+    return {
+      contractId: contract.id,
+      daysPastDue: ageing.daysPastDue,
+      bucket: ageing.bucket,
+      pastDueAmount: ageing.pastDueAmount,
+      newlyOverdueInstallments: newlyOverdue,
+      defaulted,
+    };
+  }
+
+  /**
+   * Daily delinquency job over all active contracts
+   */
+  public static async runDelinquencyJob(
+    deps: DelinquencyDependencies,
+    asOf: Date = new Date(),
+    policy: DelinquencyPolicy = DEFAULT_DELINQUENCY_POLICY
+  ): Promise<DelinquencyRunResult> {
+    const contracts = await deps.contractRepo.getActive();
+    const results: ContractDelinquency[] = [];
+
+    for (const contract of contracts) {
+      const previousPastDue = contract.pastDueAmount;
+      const previousState = contract.state;
+      const result = this.ageContract(contract, asOf, policy);
+      results.push(result);
+
+      const changed =
+        result.newlyOverdueInstallments > 0 ||
+        previousPastDue !== contract.pastDueAmount ||
+        previousState !== contract.state;
+      if (!changed) continue;
+
+      await deps.contractRepo.update(contract);
+
+      if (result.defaulted) {
+        await deps.auditLog.record({
+          type: 'CONTRACT_DEFAULTED',
+          contractId: contract.id,
+          daysPastDue: result.daysPastDue,
+          pastDueAmount: result.pastDueAmount,
+          timestamp: new Date(),
+        });
+      }
+    }
+
+    const runResult: DelinquencyRunResult = {
+      asOf,
+      contractsAged: results.length,
+      installmentsMarkedOverdue: results.reduce((sum, r) => sum + r.newlyOverdueInstallments, 0),
+      contractsDefaulted: results.filter((r) => r.defaulted).length,
+      contracts: results,
+      portfolio: this.getPortfolioAtRisk(contracts, asOf, policy),
+    };
+
+    await deps.auditLog.record({
+      type: 'DELINQUENCY_RUN',
+      asOf,
+      contractsAged: runResult.contractsAged,
+      installmentsMarkedOverdue: runResult.installmentsMarkedOverdue,
+      contractsDefaulted: runResult.contractsDefaulted,
+      portfolioAtRisk: runResult.portfolio.par30Percentage,
+      timestamp: new Date(),
+    });
+
+    return runResult;
+  }
+
+  /**
+   * Portfolio at risk for a set of contracts
+   * par30Percentage feeds the `portfolioAtRisk` metrics in hierarchicalTypes
+   */
+  public static getPortfolioAtRisk(
+    contracts: BNPLContract[],
+    asOf: Date = new Date(),
+    policy: DelinquencyPolicy = DEFAULT_DELINQUENCY_POLICY
+  ): PortfolioAtRisk {
+    return portfolioAtRisk(
+      contracts
+        .filter((c) => ContractStateMachine.isActive(c.state) || c.state === 'DEFAULTED')
+        .map((c) => ({
+          outstanding: c.totalDue,
+          daysPastDue: this.getDaysInArrears(c, asOf, policy),
+        }))
+    );
+  }
+
+  /**
+   * Days in arrears for a contract (EmployeeLoanSchedule.daysInArrears)
+   */
+  public static getDaysInArrears(
+    contract: BNPLContract,
+    asOf: Date = new Date(),
+    policy: DelinquencyPolicy = DEFAULT_DELINQUENCY_POLICY
+  ): number {
+    return ageInstallments(this.toAgeable(contract), asOf, policy).daysPastDue;
+  }
+
+  /**
+   * Arrears fields of an EmployeeLoanSchedule for a contract
+   */
+  public static getScheduleArrears(
+    contract: BNPLContract,
+    asOf: Date = new Date(),
+    policy: DelinquencyPolicy = DEFAULT_DELINQUENCY_POLICY
+  ): Pick<EmployeeLoanSchedule, 'daysInArrears' | 'isOnTrack' | 'status'> {
+    const daysInArrears = this.getDaysInArrears(contract, asOf, policy);
+    return {
+      daysInArrears,
+      isOnTrack: daysInArrears === 0,
+      status: contract.state === 'DEFAULTED' ? 'DEFAULTED' : contract.state === 'CLOSED' ? 'CLOSED' : 'ACTIVE',
+    };
+  }
+
+  // Paid and written-off installments carry no arrears
+  private static toAgeable(contract: BNPLContract) {
+    return contract.installments.map((i) => ({
+      dueDate: i.dueDate,
+      amountDue: i.status === 'PAID' || i.status === 'WRITTEN_OFF' ? 0 : i.amount,
+      amountPaid: i.paidAmount ?? 0,
+    }));
+  }
+}
+
+export default DelinquencyEngine;
@@ -0,0 +1,376 @@
+/**
+ * General Ledger
+ * Double-entry bookkeeping behind InternalLedgerEntry
+ * Every money movement is posted as a balanced journal (debits = credits)
+ * against a fixed chart of accounts, so money is provably conserved between
+ * merchant, lender, employer and platform.
+ *
+ * Postings:
+ * - DISBURSEMENT: Dr Loans Receivable / Cr Settlement Cash, Cr Platform Fee Income
+ * - DISBURSEMENT (lender funding): Dr Settlement Cash / Cr Lender Capital
+ * - FEE:          Dr Loans Receivable / Cr Processing Fee Income
+ * - REPAYMENT:    Dr Settlement Cash  / Cr Loans Receivable
+ * - REVERSAL (after settlement only): Dr Merchant Receivable, Dr Processing Fee Income,
+ *                 Dr Lender Capital / Cr Loans Receivable, Cr Settlement Cash
+ * - CLAWBACK:     Dr Merchant Receivable / Cr Loans Receivable
+ * - CLAWBACK_RECOVERY: Dr Settlement Cash / Cr Merchant Receivable
+ * - FEE (merchant, withheld at batch payout): Dr Settlement Cash / Cr Platform Fee Income
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AccountBalance,
+  JournalEntry,
+  JournalLine,
+  LedgerAccount,
+  LedgerAccountCode,
+  TrialBalance,
+} from './types';
+
+export interface JournalQuery {
+  account?: LedgerAccountCode;
+  contractId?: string;
+  asOf?: Date; // Only entries posted on or before this date
+}
+
+export interface LedgerDependencies {
+  journalRepo: {
+    create: (entry: JournalEntry) => Promise<JournalEntry>;
+    query: (filter: JournalQuery) => Promise<JournalEntry[]>;
+  };
+}
+
+export class UnbalancedJournalError extends Error {
+  constructor(public entry: Omit<JournalEntry, 'id' | 'postedAt'>, reason: string) {
+    super(`Journal ${entry.type} (${entry.reference}) rejected: ${reason}`);
+    this.name = 'UnbalancedJournalError';
+  }
+}
+
+export const CHART_OF_ACCOUNTS: Record<LedgerAccountCode, LedgerAccount> = {
+  SETTLEMENT_CASH: {
+    code: 'SETTLEMENT_CASH',
+    number: '1000',
+    name: 'Settlement Cash (Payment Gateway)',
+    type: 'ASSET',
+    normalBalance: 'DEBIT',
+    party: 'PLATFORM',
+  },
+  LOANS_RECEIVABLE: {
+    code: 'LOANS_RECEIVABLE',
+    number: '1100',
+    name: 'BNPL Loans Receivable',
+    type: 'ASSET',
+    normalBalance: 'DEBIT',
+    party: 'EMPLOYEE',
+  },
+  MERCHANT_RECEIVABLE: {
+    code: 'MERCHANT_RECEIVABLE',
+    number: '1200',
+    name: 'Merchant Refunds Receivable',
+    type: 'ASSET',
+    normalBalance: 'DEBIT',
+    party: 'MERCHANT',
+  },
+  LENDER_CAPITAL: {
+    code: 'LENDER_CAPITAL',
+    number: '2000',
+    name: 'Lender Capital Payable',
+    type: 'LIABILITY',
+    normalBalance: 'CREDIT',
+    party: 'LENDER',
+  },
+  PLATFORM_FEE_INCOME: {
+    code: 'PLATFORM_FEE_INCOME',
+    number: '4000',
+    name: 'Platform Fee Income',
+    type: 'REVENUE',
+    normalBalance: 'CREDIT',
+    party: 'PLATFORM',
+  },
+  PROCESSING_FEE_INCOME: {
+    code: 'PROCESSING_FEE_INCOME',
+    number: '4100',
+    name: 'Processing Fee Income',
+    type: 'REVENUE',
+    normalBalance: 'CREDIT',
+    party: 'LENDER',
+  },
+};
+
+export class GeneralLedger {
+  // Rounding tolerance when comparing debit and credit totals (UGX)
+  private static readonly BALANCE_TOLERANCE = 0.01;
+
+  /**
+   * Validate and post a balanced journal entry
+   * Throws UnbalancedJournalError if debits != credits
+   */
+  public static async post(
+    entry: Omit<JournalEntry, 'id' | 'postedAt'>,
+    deps: LedgerDependencies
+  ): Promise<JournalEntry> {
+    const error = this.validate(entry);
+    if (error) {
+      throw new UnbalancedJournalError(entry, error);
+    }
+
+    const journal: JournalEntry = {
+      ...entry,
+      id: uuidv4(),
+      lines: entry.lines.filter((line) => line.debit > 0 || line.credit > 0),
+      postedAt: new Date(),
+    };
+
+    return deps.journalRepo.create(journal);
+  }
+
+  /**
+   * Check that a journal is well-formed and balanced
+   * Returns a reason string when invalid, null when valid
+   */
+  public static validate(entry: Omit<JournalEntry, 'id' | 'postedAt'>): string | null {
+    const lines = entry.lines.filter((line) => line.debit > 0 || line.credit > 0);
+    if (lines.length < 2) {
+      return 'a journal needs at least two non-zero lines';
+    }
+
+    for (const line of lines) {
+      if (!CHART_OF_ACCOUNTS[line.account]) {
+        return `unknown account ${line.account}`;
+      }
+      if (line.debit < 0 || line.credit < 0) {
+        return `negative amount on ${line.account}`;
+      }
+      if (line.debit > 0 && line.credit > 0) {
+        return `line on ${line.account} is both debit and credit`;
+      }
+    }
+
+    const { debits, credits } = this.sumLines(lines);
+    if (Math.abs(debits - credits) > this.BALANCE_TOLERANCE) {
+      return `debits ${debits} do not equal credits ${credits}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Balance of a single account (positive on its normal side)
+   */
+  public static async getAccountBalance(
+    account: LedgerAccountCode,
+    deps: LedgerDependencies,
+    asOf?: Date
+  ): Promise<AccountBalance> {
+    const journals = await deps.journalRepo.query({ account, asOf });
+    const lines = journals.flatMap((j) => j.lines.filter((line) => line.account === account));
+    return this.toAccountBalance(account, lines);
+  }
+
+  /**
+   * Trial balance across the whole chart of accounts
+   * Reconciliation jobs assert `balanced === true`
+   */
+  public static async getTrialBalance(
+    deps: LedgerDependencies,
+    asOf: Date = new Date()
+  ): Promise<TrialBalance> {
+    const journals = await deps.journalRepo.query({ asOf });
+    const allLines = journals.flatMap((j) => j.lines);
+
+    const accounts = (Object.keys(CHART_OF_ACCOUNTS) as LedgerAccountCode[]).map((code) =>
+      this.toAccountBalance(
+        code,
+        allLines.filter((line) => line.account === code)
+      )
+    );
+
+    const totalDebits = accounts.reduce((sum, a) => sum + a.totalDebits, 0);
+    const totalCredits = accounts.reduce((sum, a) => sum + a.totalCredits, 0);
+
+    return {
+      asOf,
+      accounts,
+      totalDebits,
+      totalCredits,
+      balanced: Math.abs(totalDebits - totalCredits) <= this.BALANCE_TOLERANCE,
+    };
+  }
+
+  /**
+   * Journal builders
+   */
+
+  public static disbursementJournal(
+    contractId: string,
+    reference: string,
+    principal: number,
+    merchantReceives: number,
+    platformFee: number
+  ): Omit<JournalEntry, 'id' | 'postedAt'> {
+    return {
+      contractId,
+      type: 'DISBURSEMENT',
+      reference,
+      description: 'Merchant settlement for BNPL order',
+      lines: [
+        { account: 'LOANS_RECEIVABLE', debit: principal, credit: 0 },
+        { account: 'SETTLEMENT_CASH', debit: 0, credit: merchantReceives, memo: 'Merchant payout' },
+        { account: 'PLATFORM_FEE_INCOME', debit: 0, credit: platformFee, memo: 'Retained from merchant' },
+      ],
+    };
+  }
+
+  public static lenderFundingJournal(
+    contractId: string,
+    reference: string,
+    principal: number
+  ): Omit<JournalEntry, 'id' | 'postedAt'> {
+    return {
+      contractId,
+      type: 'DISBURSEMENT',
+      reference,
+      description: 'Lender funding of BNPL principal',
+      lines: [
+        { account: 'SETTLEMENT_CASH', debit: principal, credit: 0, memo: 'Lender funding' },
+        { account: 'LENDER_CAPITAL', debit: 0, credit: principal },
+      ],
+    };
+  }
+
+  public static feeJournal(
+    contractId: string,
+    reference: string,
+    processingFee: number
+  ): Omit<JournalEntry, 'id' | 'postedAt'> {
+    return {
+      contractId,
+      type: 'FEE',
+      reference,
+      description: 'Customer processing fee charged',
+      lines: [
+        { account: 'LOANS_RECEIVABLE', debit: processingFee, credit: 0 },
+        { account: 'PROCESSING_FEE_INCOME', debit: 0, credit: processingFee },
+      ],
+    };
+  }
+
+  public static repaymentJournal(
+    contractId: string,
+    reference: string,
+    amount: number
+  ): Omit<JournalEntry, 'id' | 'postedAt'> {
+    return {
+      contractId,
+      type: 'REPAYMENT',
+      reference,
+      description: 'Payroll deduction received from employer',
+      lines: [
+        { account: 'SETTLEMENT_CASH', debit: amount, credit: 0, memo: 'Employer remittance' },
+        { account: 'LOANS_RECEIVABLE', debit: 0, credit: amount },
+      ],
+    };
+  }
+
+  public static reversalJournal(
+    contractId: string,
+    reference: string,
+    refundAmount: number,
+    feeReduction: number
+  ): Omit<JournalEntry, 'id' | 'postedAt'> {
+    return {
+      contractId,
+      type: 'REVERSAL',
+      reference,
+      description: 'Refund reversal of disbursed principal',
+      lines: [
+        { account: 'MERCHANT_RECEIVABLE', debit: refundAmount, credit: 0, memo: 'Owed back by merchant' },
+        { account: 'PROCESSING_FEE_INCOME', debit: feeReduction, credit: 0 },
+        { account: 'LOANS_RECEIVABLE', debit: 0, credit: refundAmount + feeReduction },
+        { account: 'LENDER_CAPITAL', debit: refundAmount, credit: 0, memo: 'Refunded principal returned to lender' },
+        { account: 'SETTLEMENT_CASH', debit: 0, credit: refundAmount },
+      ],
+    };
+  }
+
+  public static clawbackJournal(
+    contractId: string,
+    reference: string,
+    amount: number
+  ): Omit<JournalEntry, 'id' | 'postedAt'> {
+    return {
+      contractId,
+      type: 'CLAWBACK',
+      reference,
+      description: 'Merchant liability for settled principal',
+      lines: [
+        { account: 'MERCHANT_RECEIVABLE', debit: amount, credit: 0, memo: 'Owed back by merchant' },
+        { account: 'LOANS_RECEIVABLE', debit: 0, credit: amount },
+      ],
+    };
+  }
+
+  public static clawbackRecoveryJournal(
+    contractId: string,
+    reference: string,
+    amount: number
+  ): Omit<JournalEntry, 'id' | 'postedAt'> {
+    return {
+      contractId,
+      type: 'CLAWBACK_RECOVERY',
+      reference,
+      description: 'Clawback withheld from merchant settlement',
+      lines: [
+        { account: 'SETTLEMENT_CASH', debit: amount, credit: 0, memo: 'Withheld from payout' },
+        { account: 'MERCHANT_RECEIVABLE', debit: 0, credit: amount },
+      ],
+    };
+  }
+
+  public static merchantFeeJournal(
+    contractId: string | undefined,
+    reference: string,
+    amount: number,
+    description: string
+  ): Omit<JournalEntry, 'id' | 'postedAt'> {
+    return {
+      contractId,
+      type: 'FEE',
+      reference,
+      description,
+      lines: [
+        { account: 'SETTLEMENT_CASH', debit: amount, credit: 0, memo: 'Withheld from payout' },
+        { account: 'PLATFORM_FEE_INCOME', debit: 0, credit: amount },
+      ],
+    };
+  }
+
+  /**
+   * Private helpers
+   */
+
+  private static sumLines(lines: JournalLine[]): { debits: number; credits: number } {
+    return lines.reduce(
+      (totals, line) => ({
+        debits: totals.debits + line.debit,
+        credits: totals.credits + line.credit,
+      }),
+      { debits: 0, credits: 0 }
+    );
+  }
+
+  private static toAccountBalance(account: LedgerAccountCode, lines: JournalLine[]): AccountBalance {
+    const { debits, credits } = this.sumLines(lines);
+    const normalBalance = CHART_OF_ACCOUNTS[account].normalBalance;
+
+    return {
+      account,
+      totalDebits: debits,
+      totalCredits: credits,
+      balance: normalBalance === 'DEBIT' ? debits - credits : credits - debits,
+    };
+  }
+}
+
+export default GeneralLedger;
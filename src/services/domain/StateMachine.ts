@@ -1,6 +1,10 @@
 /**
  * BNPL Contract State Machine
- * Manages contract lifecycle: PRE_APPROVED → ORDER_CREATED → CUSTOMER_AUTHORIZED → FUNDED → IN_REPAYMENT → CLOSED
+ * Manages contract lifecycle: PRE_APPROVED → DEDUCTION_REQUESTED → CUSTOMER_AUTHORIZED → (ESCROW_HELD →) DISBURSED → IN_REPAYMENT → CLOSED
+ *
+ * The transition table is shared with the edge server
+ * (supabase/functions/_shared/contract-lifecycle.ts); this class binds the
+ * domain guards and hooks to it.
  */
 
 import {
@@ -8,32 +12,52 @@ import {
   BNPLContractState,
   StateTransition,
 } from './types';
+import * as lifecycle from '../../../supabase/functions/_shared/contract-lifecycle';
+import type { LifecycleBindings } from '../../../supabase/functions/_shared/contract-lifecycle';
 
 export class ContractStateMachine {
   /**
-   * Valid state transitions
+   * Domain guards and hooks (synchronous - transitionState does not await)
    */
-  private static readonly VALID_TRANSITIONS: Record<BNPLContractState, BNPLContractState[]> = {
-    PRE_APPROVED: ['ORDER_CREATED', 'CANCELLED'],
-    ORDER_CREATED: ['CUSTOMER_AUTHORIZED', 'CANCELLED'],
-    CUSTOMER_AUTHORIZED: ['FUNDED', 'CANCELLED'],
-    FUNDED: ['IN_REPAYMENT', 'REFUNDED'],
-    IN_REPAYMENT: ['CLOSED', 'DEFAULTED', 'CANCELLED'],
-    CLOSED: [],
-    CANCELLED: [],
-    REFUNDED: [],
-    DEFAULTED: [],
+  private static readonly BINDINGS: LifecycleBindings<BNPLContract> = {
+    guards: {
+      '*->DISBURSED': [
+        ({ contract }) => (contract.lenderId ? null : 'Contract must be allocated to a lender before disbursement'),
+      ],
+      '*->CLOSED': [
+        ({ contract }) =>
+          contract.installments.every((i) => i.status === 'PAID') || contract.totalDue <= 0
+            ? null
+            : `Cannot close contract with UGX ${contract.totalDue} outstanding`,
+      ],
+    },
+    hooks: {
+      '*->CUSTOMER_AUTHORIZED': [
+        ({ contract }) => {
+          contract.authorizedAt = new Date();
+        },
+      ],
+      '*->DISBURSED': [
+        ({ contract }) => {
+          contract.fundedAt = new Date();
+        },
+      ],
+      '*->CLOSED': [
+        ({ contract }) => {
+          contract.closedAt = new Date();
+        },
+      ],
+    },
   };
 
   /**
-   * Validate if transition is allowed
+   * Validate if transition is allowed (table only, no guards)
    */
   public static canTransition(
     fromState: BNPLContractState,
     toState: BNPLContractState
   ): boolean {
-    const allowed = this.VALID_TRANSITIONS[fromState] || [];
-    return allowed.includes(toState);
+    return lifecycle.canTransition(fromState, toState);
   }
 
   /**
@@ -45,10 +69,19 @@ export class ContractStateMachine {
     reason: string,
     triggeredBy: string = 'SYSTEM'
   ): { success: boolean; error?: string; contract?: BNPLContract } {
-    if (!this.canTransition(contract.state, newState)) {
+    const context = {
+      contract,
+      from: contract.state,
+      to: newState,
+      actor: triggeredBy,
+      metadata: { reason },
+    };
+
+    const blocked = lifecycle.checkTransition(this.BINDINGS, context);
+    if (blocked) {
       return {
         success: false,
-        error: `Cannot transition from ${contract.state} to ${newState}`,
+        error: blocked,
       };
     }
 
@@ -60,14 +93,13 @@ export class ContractStateMachine {
       triggeredBy,
     };
 
+    for (const hook of lifecycle.getTransitionHooks(this.BINDINGS, context.from, context.to)) {
+      hook(context);
+    }
+
     contract.state = newState;
     contract.stateTransitionHistory.push(transition);
 
-    // Update timestamps for terminal states
-    if (newState === 'CLOSED') {
-      contract.closedAt = new Date();
-    }
-
     return { success: true, contract };
   }
 
@@ -75,21 +107,45 @@ export class ContractStateMachine {
    * Get valid next states for current state
    */
   public static getValidNextStates(currentState: BNPLContractState): BNPLContractState[] {
-    return this.VALID_TRANSITIONS[currentState] || [];
+    return lifecycle.getNextStates(currentState);
   }
 
   /**
    * Check if contract is in terminal state
    */
   public static isTerminal(state: BNPLContractState): boolean {
-    const terminalStates: BNPLContractState[] = ['CLOSED', 'CANCELLED', 'REFUNDED', 'DEFAULTED'];
-    return terminalStates.includes(state);
+    return lifecycle.isTerminalState(state);
   }
 
   /**
    * Check if contract is active (currently funded and in repayment)
    */
   public static isActive(state: BNPLContractState): boolean {
-    return state === 'FUNDED' || state === 'IN_REPAYMENT';
+    return lifecycle.isActiveState(state);
+  }
+
+  /**
+   * Map a contract stored with legacy state names (ORDER_CREATED, FUNDED)
+   * onto the unified lifecycle, including its transition history
+   * Returns true if anything changed
+   */
+  public static migrateLegacyState(contract: BNPLContract): boolean {
+    let changed = false;
+    const migrate = (state: string): BNPLContractState => {
+      const normalized = lifecycle.normalizeState(state);
+      if (!normalized) {
+        throw new Error(`Contract ${contract.id} has unknown state ${state}`);
+      }
+      if (normalized !== state) changed = true;
+      return normalized;
+    };
+
+    contract.state = migrate(contract.state);
+    for (const transition of contract.stateTransitionHistory) {
+      transition.fromState = migrate(transition.fromState);
+      transition.toState = migrate(transition.toState);
+    }
+
+    return changed;
   }
 }
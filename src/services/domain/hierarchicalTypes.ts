@@ -115,7 +115,7 @@ export interface EmployerGroup {
   
   // Configuration
   config: {
-    deductionLimit: number; // % of salary
+    deductionLimit: number; // Fraction of salary, 0.30 = 30% (caps every tier's ratio)
     maxEmployeeCreditLimit: number; // UGX
     allowedTenorMonths: number[];
   };
@@ -382,8 +382,13 @@ export interface CRBVerification {
   activeLoansCount?: number;
   totalOutstandingCredit?: number;
   
+  riskFlags?: string[];
+  overallStatus?: 'CLEAN' | 'WARNING' | 'HIGH_RISK';
+  
   // Raw Response (from CRB provider)
   rawResponse?: Record<string, any>;
+  reportReference?: string; // Bureau's report id
+  consentId?: string; // CRBConsent the check was run under
   
   // Timestamps
   requestedAt: Date;
@@ -3,6 +3,10 @@
  * Multi-lender marketplace orchestration system
  */
 
+import type { ContractLifecycleState } from '../../../supabase/functions/_shared/contract-lifecycle';
+import type { CRBConsentChannel, CRBRiskFlag } from '../../../supabase/functions/_shared/crb';
+import type { AdverseActionCode, DecisionFactors } from '../../../supabase/functions/_shared/credit-decision';
+
 // ============================================================================
 // IDENTITIES & REGISTRY
 // ============================================================================
@@ -49,8 +53,9 @@ export interface Merchant {
     bankCode: string;
   };
   riskProfile: 'LOW' | 'MEDIUM' | 'HIGH';
-  dailyLimit: number; // UGX
-  monthlyVolume: number; // UGX
+  dailyLimit: number; // UGX, order volume per rolling 24 hours
+  monthlyVolume: number; // UGX, order volume per rolling 30 days
+  maxTicketSize?: number; // UGX per order, velocity policy default when unset
   isActive: boolean;
   createdAt: Date;
 }
@@ -86,16 +91,8 @@ export interface LenderProduct {
 // BNPL CONTRACT LIFECYCLE
 // ============================================================================
 
-export type BNPLContractState =
-  | 'PRE_APPROVED'
-  | 'ORDER_CREATED'
-  | 'CUSTOMER_AUTHORIZED'
-  | 'FUNDED'
-  | 'IN_REPAYMENT'
-  | 'CLOSED'
-  | 'CANCELLED'
-  | 'REFUNDED'
-  | 'DEFAULTED';
+// Shared with the edge server (supabase/functions/_shared/contract-lifecycle.ts)
+export type BNPLContractState = ContractLifecycleState;
 
 export interface BNPLContract {
   id: string;
@@ -122,6 +119,9 @@ export interface BNPLContract {
   totalDue: number; // UGX
   pastDueAmount: number; // UGX
   
+  // Credit decision that approved the contract (factors and policy version)
+  creditDecision?: CreditDecision;
+  
   // Timestamps
   createdAt: Date;
   authorizedAt?: Date;
@@ -159,6 +159,7 @@ export interface CheckoutRequest {
   orderDescription: string;
   tenor: number; // Requested tenor in days
   idempotencyKey: string; // Prevent duplicate processing
+  deviceId?: string; // POS terminal or browser fingerprint, for velocity controls
 }
 
 export interface CreditDecision {
@@ -170,7 +171,11 @@ export interface CreditDecision {
   processingFee: number;
   assignedLenderId: string;
   reasoning: string;
+  factors: DecisionFactors; // Salary capacity, existing deductions, CRB and history adjustments, binding constraint
+  adverseActionCodes: AdverseActionCode[]; // Why the requested amount can't be granted in full; empty otherwise
   confidenceScore: number; // 0-100
+  policyVersion: string; // Resolved credit policy that produced this decision, e.g. "PLATFORM@3/EMPLOYER:emp_1@1"
+  declineRuleId?: string; // Set when a decline rule (not affordability) declined the request
   timestamp: Date;
 }
 
@@ -184,6 +189,125 @@ export interface AuthorizationResponse {
   expiresIn: number; // Seconds
 }
 
+// ============================================================================
+// CREDIT POLICY
+// ============================================================================
+
+export type RiskTier = Employee['riskTier'];
+
+// PLATFORM is the base; ORGANIZATION and EMPLOYER layers override it in that order
+export type CreditPolicyScope = 'PLATFORM' | 'ORGANIZATION' | 'EMPLOYER';
+
+// Multiplier applied to affordable amount for CRB scores at or above minScore
+export interface CRBBand {
+  minScore: number; // 0-1000
+  adjustment: number; // 0-1
+}
+
+export type CreditRuleFact =
+  | 'crbScore'
+  | 'netSalary'
+  | 'requestedAmount'
+  | 'requestedTenor'
+  | 'activeContracts'
+  | 'overdueContracts';
+
+// Declines when `fact operator value` holds, e.g. overdueContracts GTE 1
+export interface CreditDeclineRule {
+  id: string;
+  fact: CreditRuleFact;
+  operator: 'LT' | 'LTE' | 'GT' | 'GTE' | 'EQ';
+  value: number;
+  reason: string;
+}
+
+export interface CreditPolicyRules {
+  deductionRatios: Record<RiskTier, number>; // Fraction of net salary available for deductions
+  maxTenorDays: Record<RiskTier, number>;
+  allowedTenorDays: number[] | null; // Null allows any tenor up to the tier cap
+  crbBands: CRBBand[];
+  minAffordabilityScore: number; // 0-100
+  minOrderAmount: number; // UGX
+  maxOrderAmount: number | null; // UGX
+  maxCreditLimit: number | null; // UGX per employee
+  declineRules: CreditDeclineRule[];
+}
+
+// One published version of a policy layer; versions are immutable once published
+export interface CreditPolicy {
+  id: string;
+  scope: CreditPolicyScope;
+  scopeId: string | null; // Organization or employer id, null for PLATFORM
+  version: number;
+  rules: Partial<CreditPolicyRules>; // Overrides; PLATFORM holds a full rule set
+  status: 'ACTIVE' | 'RETIRED';
+  notes?: string;
+  createdBy: string;
+  createdAt: Date;
+  retiredAt?: Date;
+}
+
+// Effective rules for one employee after every layer has been applied
+export interface ResolvedCreditPolicy {
+  rules: CreditPolicyRules;
+  version: string;
+  policyIds: string[];
+}
+
+// ============================================================================
+// CREDIT EXPERIMENTS (champion/challenger)
+// ============================================================================
+
+// SHADOW: the champion decides every application and the challenger is only recorded
+// SPLIT: challengerPercentage of customers are decided by the challenger
+export type CreditExperimentMode = 'SHADOW' | 'SPLIT';
+
+export type ExperimentArm = 'CHAMPION' | 'CHALLENGER';
+
+export interface CreditExperiment {
+  id: string;
+  name: string;
+  mode: CreditExperimentMode;
+  challengerPercentage: number; // 0-100, SPLIT only
+  challengerRules: Partial<CreditPolicyRules>; // Overrides applied on top of each employee's resolved policy
+  status: 'ACTIVE' | 'STOPPED';
+  createdBy: string;
+  createdAt: Date;
+  stoppedAt?: Date;
+}
+
+// Both arms' decisions for one application
+export interface ExperimentDecision {
+  id: string;
+  experimentId: string;
+  employeeId: string;
+  requestedAmount: number; // UGX
+  appliedArm: ExperimentArm; // Arm whose decision checkout acted on
+  champion: CreditDecision;
+  challenger: CreditDecision;
+  contractId: string | null; // Set when the applied decision was funded
+  createdAt: Date;
+}
+
+export interface ExperimentArmOutcomes {
+  arm: ExperimentArm;
+  applications: number; // Both arms decide every application
+  approvals: number;
+  approvalRate: number; // 0-1
+  averageLimit: number; // UGX, mean maximum amount offered
+  fundedContracts: number; // Contracts funded on this arm's decision
+  delinquencyRate30: number | null; // Share of funded contracts 30+ days past due; null when none funded
+  delinquencyRate60: number | null;
+  delinquencyRate90: number | null;
+}
+
+export interface ExperimentOutcomesReport {
+  experimentId: string;
+  mode: CreditExperimentMode;
+  asOf: Date;
+  arms: ExperimentArmOutcomes[];
+}
+
 // ============================================================================
 // MULTI-LENDER ALLOCATION
 // ============================================================================
@@ -212,12 +336,15 @@ export interface SettlementInstruction {
   merchantId: string;
   contractId: string;
   amount: number; // UGX (what merchant receives)
+  grossAmount?: number; // UGX owed before outstanding clawbacks were netted off
+  clawbackRecovered?: number; // UGX withheld against outstanding clawbacks
   fees: {
     processingFee: number;
     collectionFee: number;
   };
-  status: 'PENDING' | 'COMPLETED' | 'FAILED' | 'REVERSED';
+  status: 'PENDING' | 'COMPLETED' | 'FAILED' | 'REVERSED'; // PENDING = queued for the next batch
   paymentGatewayRef?: string;
+  batchId?: string; // Settlement batch that paid this instruction out
   createdAt: Date;
   completedAt?: Date;
 }
@@ -227,19 +354,164 @@ export interface RefundRequest {
   orderId: string;
   refundAmount: number; // UGX
   reason: 'MERCHANT_CANCELLATION' | 'DELIVERY_FAILURE' | 'CUSTOMER_REQUEST' | 'OTHER';
+  items?: RefundLineItem[]; // Returned SKUs (partial refund)
+  idempotencyKey: string;
+}
+
+export interface RefundLineItem {
+  sku: string;
+  quantity: number;
+  amount: number; // UGX
+}
+
+/**
+ * Merchant liability recovery after settlement (dispute or fraud decided
+ * against the merchant). Outstanding amounts are a negative balance on the
+ * merchant account, netted against the merchant's next settlements.
+ */
+export interface MerchantClawback {
+  id: string;
+  merchantId: string;
+  contractId: string;
+  reason: 'REFUND' | 'DISPUTE_LOST' | 'FRAUD' | 'OTHER'; // REFUND after settlement, the rest are chargebacks
+  caseReference?: string; // Dispute, fraud case or refund reversal id
+  amount: number; // UGX
+  recoveredAmount: number; // UGX
+  status: 'OUTSTANDING' | 'PARTIALLY_RECOVERED' | 'RECOVERED';
+  recoveries: ClawbackRecovery[];
+  createdAt: Date;
+  recoveredAt?: Date;
+}
+
+export interface ClawbackRecovery {
+  settlementId: string; // Settlement or settlement batch the amount was withheld from
+  amount: number; // UGX
+  recoveredAt: Date;
+}
+
+export interface ClawbackRequest {
+  contractId: string;
+  amount: number; // UGX
+  reason: MerchantClawback['reason'];
+  caseReference?: string;
   idempotencyKey: string;
 }
 
+export interface MerchantSettlementHistory {
+  merchantId: string;
+  batches: SettlementBatch[]; // Newest first
+  settlements: SettlementInstruction[];
+  clawbacks: MerchantClawback[];
+  pendingAmount: number; // UGX queued for the next batch
+  outstandingClawbacks: number; // UGX
+  balance: number; // UGX, pending settlements less outstanding clawbacks
+}
+
+/**
+ * Merchant fee schedule applied when a settlement batch is paid out
+ */
+export interface SettlementFeeSchedule {
+  merchantId: string;
+  mdrRate: number; // Merchant discount rate, fraction of each settlement
+  perTransactionFee: number; // UGX per settled order
+  payoutFee: number; // UGX per batch payout (bank transfer cost)
+  updatedAt: Date;
+}
+
+export interface SettlementBatchLine {
+  type: 'SETTLEMENT' | 'MDR_FEE' | 'TRANSACTION_FEE' | 'REFUND' | 'CHARGEBACK' | 'PAYOUT_FEE';
+  reference: string; // Settlement instruction or clawback id; batch id for the payout fee
+  contractId?: string;
+  description: string;
+  amount: number; // UGX (signed: + owed to merchant, - deducted)
+}
+
+/**
+ * One payout per merchant per cut-off, netting refunds, chargebacks and fees
+ * across every settlement instruction queued before the cut-off
+ */
+export interface SettlementBatch {
+  id: string;
+  merchantId: string;
+  cutoffAt: Date;
+  settlementIds: string[];
+  lines: SettlementBatchLine[];
+  grossAmount: number; // UGX
+  feeAmount: number; // UGX (MDR, transaction and payout fees)
+  clawbackAmount: number; // UGX (refunds and chargebacks recovered)
+  netPayout: number; // UGX
+  carriedForward: number; // UGX of clawbacks still outstanding after this batch
+  status: 'PROCESSING' | 'PAID' | 'FAILED'; // PROCESSING: saved before the payout, until the gateway answers
+  paymentGatewayRef?: string;
+  failureReason?: string;
+  createdAt: Date;
+  paidAt?: Date;
+}
+
 export interface InternalLedgerEntry {
   id: string;
   contractId: string;
-  type: 'DISBURSEMENT' | 'REPAYMENT' | 'FEE' | 'REVERSAL' | 'ADJUSTMENT';
+  type: 'DISBURSEMENT' | 'REPAYMENT' | 'FEE' | 'REVERSAL' | 'ADJUSTMENT' | 'CLAWBACK' | 'CLAWBACK_RECOVERY';
   amount: number; // UGX (signed: +/-)
   account: string; // Merchant, Employee, Lender, Platform
   reference: string;
+  journalEntryId?: string; // Balanced journal backing this entry
   timestamp: Date;
 }
 
+// ============================================================================
+// GENERAL LEDGER (DOUBLE-ENTRY)
+// ============================================================================
+
+export type LedgerAccountCode =
+  | 'SETTLEMENT_CASH'
+  | 'LOANS_RECEIVABLE'
+  | 'MERCHANT_RECEIVABLE'
+  | 'LENDER_CAPITAL'
+  | 'PLATFORM_FEE_INCOME'
+  | 'PROCESSING_FEE_INCOME';
+
+export interface LedgerAccount {
+  code: LedgerAccountCode;
+  number: string; // Chart of accounts number
+  name: string;
+  type: 'ASSET' | 'LIABILITY' | 'EQUITY' | 'REVENUE' | 'EXPENSE';
+  normalBalance: 'DEBIT' | 'CREDIT';
+  party: 'PLATFORM' | 'MERCHANT' | 'LENDER' | 'EMPLOYER' | 'EMPLOYEE';
+}
+
+export interface JournalLine {
+  account: LedgerAccountCode;
+  debit: number; // UGX
+  credit: number; // UGX
+  memo?: string;
+}
+
+export interface JournalEntry {
+  id: string;
+  contractId?: string;
+  type: InternalLedgerEntry['type'];
+  reference: string;
+  description: string;
+  lines: JournalLine[]; // Sum of debits must equal sum of credits
+  postedAt: Date;
+}
+
+export interface AccountBalance {
+  account: LedgerAccountCode;
+  totalDebits: number; // UGX
+  totalCredits: number; // UGX
+  balance: number; // UGX, positive on the account's normal side
+}
+
+export interface TrialBalance {
+  asOf: Date;
+  accounts: AccountBalance[];
+  totalDebits: number; // UGX
+  totalCredits: number; // UGX
+  balanced: boolean;
+}
+
 // ============================================================================
 // EMPLOYER & PAYROLL
 // ============================================================================
@@ -318,6 +590,7 @@ export interface RepaymentPosting {
 // ============================================================================
 
 export interface CRBCheckRequest {
+  employeeId: string;
   nationalId: string;
   phoneNumber: string;
 }
@@ -325,9 +598,26 @@ export interface CRBCheckRequest {
 export interface CRBCheckResult {
   employeeId: string;
   score: number; // 0-1000
-  riskFlags: string[];
+  riskFlags: CRBRiskFlag[];
   overallStatus: 'CLEAN' | 'WARNING' | 'HIGH_RISK';
   lastCheckDate: Date;
+  verificationId: string; // CRBVerification holding the raw report
+  provider: string;
+  expiresAt: Date; // Reused until then instead of asking the bureau again
+  fromCache: boolean;
+}
+
+// Customer's explicit authorisation to pull their bureau report
+export interface CRBConsent {
+  id: string;
+  employeeId: string;
+  nationalId: string;
+  phoneNumber: string;
+  channel: CRBConsentChannel;
+  consentText: string; // Wording the customer agreed to
+  grantedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
 }
 
 // ============================================================================
@@ -0,0 +1,239 @@
+/**
+ * CRB Adapter
+ * Pulls employee credit reports from a Credit Reference Bureau
+ * Responsibilities:
+ * - Record explicit customer consent before any pull (and honour revocation)
+ * - Normalise bureau responses into CRBCheckResult risk flags
+ * - Cache results until expiresAt so checkout doesn't hit the bureau on every order
+ * - Keep the raw report on a CRBVerification for audit
+ *
+ * Design: Pluggable provider
+ * - Each bureau implements CRBProvider and maps its response onto CRBBureauReport
+ * - StubCRBBureau gives deterministic reports for tests and local runs
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { CRBCheckRequest, CRBCheckResult, CRBConsent } from '../domain/types';
+import { CRBVerification } from '../domain/hierarchicalTypes';
+import {
+  assessCRBReport,
+  stubBureauReport,
+  CRBBureauReport,
+  CRBConsentChannel,
+  CRB_CACHE_TTL_MS,
+  CRB_CONSENT_TEXT,
+  CRB_CONSENT_VALIDITY_MS,
+} from '../../../supabase/functions/_shared/crb';
+
+export interface CRBProvider {
+  name: string; // Stored as CRBVerification.crbProvider, e.g. "FINCA_CRB"
+  fetchReport: (request: CRBCheckRequest) => Promise<CRBBureauReport>;
+}
+
+/**
+ * Local stand-in for a bureau (see stubBureauReport for the canned outcomes)
+ */
+export class StubCRBBureau implements CRBProvider {
+  public readonly name = 'STUB';
+
+  constructor(private readonly clock: () => Date = () => new Date()) {}
+
+  public async fetchReport(request: CRBCheckRequest): Promise<CRBBureauReport> {
+    return stubBureauReport(request.nationalId, request.phoneNumber, this.clock());
+  }
+}
+
+export interface CRBAdapterDependencies {
+  crbProvider: CRBProvider;
+  crbConsentRepo: {
+    create: (consent: CRBConsent) => Promise<CRBConsent>;
+    update: (consent: CRBConsent) => Promise<void>;
+    getByEmployee: (employeeId: string) => Promise<CRBConsent[]>;
+  };
+  crbVerificationRepo: {
+    create: (verification: CRBVerification) => Promise<CRBVerification>;
+    getLatest: (employeeId: string) => Promise<CRBVerification | null>;
+  };
+  auditLog: { record: (event: any) => Promise<void> };
+}
+
+export class CRBAdapter {
+  /**
+   * Record the customer's consent to a bureau pull
+   */
+  public static async recordConsent(
+    request: CRBCheckRequest,
+    channel: CRBConsentChannel,
+    deps: CRBAdapterDependencies,
+    asOf: Date = new Date()
+  ): Promise<{ success: boolean; consent?: CRBConsent; error?: string }> {
+    try {
+      if (!request.nationalId || !request.phoneNumber) {
+        return { success: false, error: 'National ID and phone number are required for CRB consent' };
+      }
+
+      const consent: CRBConsent = {
+        id: uuidv4(),
+        employeeId: request.employeeId,
+        nationalId: request.nationalId,
+        phoneNumber: request.phoneNumber,
+        channel,
+        consentText: CRB_CONSENT_TEXT,
+        grantedAt: asOf,
+        expiresAt: new Date(asOf.getTime() + CRB_CONSENT_VALIDITY_MS),
+      };
+      await deps.crbConsentRepo.create(consent);
+
+      await deps.auditLog.record({
+        type: 'CRB_CONSENT_GRANTED',
+        employeeId: consent.employeeId,
+        consentId: consent.id,
+        channel,
+        timestamp: asOf,
+      });
+
+      return { success: true, consent };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  }
+
+  /**
+   * Revoke every active consent for an employee (reports already pulled are kept)
+   */
+  public static async revokeConsent(
+    employeeId: string,
+    deps: CRBAdapterDependencies,
+    asOf: Date = new Date()
+  ): Promise<{ success: boolean; revoked?: number; error?: string }> {
+    try {
+      const active = (await deps.crbConsentRepo.getByEmployee(employeeId)).filter(
+        (c) => this.isConsentValid(c, asOf)
+      );
+
+      for (const consent of active) {
+        consent.revokedAt = asOf;
+        await deps.crbConsentRepo.update(consent);
+      }
+
+      await deps.auditLog.record({
+        type: 'CRB_CONSENT_REVOKED',
+        employeeId,
+        consentIds: active.map((c) => c.id),
+        timestamp: asOf,
+      });
+
+      return { success: true, revoked: active.length };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  }
+
+  /**
+   * CRB check: cached result while unexpired, otherwise a fresh bureau pull.
+   * Requires valid consent for the same national ID either way.
+   */
+  public static async check(
+    request: CRBCheckRequest,
+    deps: CRBAdapterDependencies,
+    options: { forceRefresh?: boolean; asOf?: Date } = {}
+  ): Promise<{ success: boolean; result?: CRBCheckResult; error?: string }> {
+    const asOf = options.asOf ?? new Date();
+
+    try {
+      const consent = (await deps.crbConsentRepo.getByEmployee(request.employeeId)).find(
+        (c) => c.nationalId === request.nationalId && this.isConsentValid(c, asOf)
+      );
+      if (!consent) {
+        return { success: false, error: 'No valid CRB consent on file for this customer' };
+      }
+
+      if (!options.forceRefresh) {
+        const cached = await deps.crbVerificationRepo.getLatest(request.employeeId);
+        if (
+          cached &&
+          cached.status === 'COMPLETED' &&
+          cached.nationalId === request.nationalId &&
+          cached.expiresAt &&
+          cached.expiresAt.getTime() > asOf.getTime()
+        ) {
+          return { success: true, result: this.toResult(cached, true) };
+        }
+      }
+
+      let report: CRBBureauReport;
+      try {
+        report = await deps.crbProvider.fetchReport(request);
+      } catch (error) {
+        await deps.auditLog.record({
+          type: 'CRB_CHECK_FAILED',
+          employeeId: request.employeeId,
+          provider: deps.crbProvider.name,
+          error: String(error),
+          timestamp: asOf,
+        });
+        return { success: false, error: `CRB bureau unavailable: ${String(error)}` };
+      }
+
+      const assessment = assessCRBReport(report);
+      const verification: CRBVerification = {
+        id: uuidv4(),
+        employeeId: request.employeeId,
+        nationalId: request.nationalId,
+        phoneNumber: request.phoneNumber,
+        status: 'COMPLETED',
+        crbScore: assessment.score,
+        riskLevel: assessment.riskLevel,
+        defaultHistoryCount: report.defaultHistoryCount,
+        activeLoansCount: report.activeLoansCount,
+        totalOutstandingCredit: report.totalOutstandingCredit,
+        riskFlags: assessment.riskFlags,
+        overallStatus: assessment.overallStatus,
+        rawResponse: report.raw,
+        reportReference: report.reference,
+        consentId: consent.id,
+        requestedAt: asOf,
+        verifiedAt: asOf,
+        expiresAt: new Date(asOf.getTime() + CRB_CACHE_TTL_MS),
+        crbProvider: deps.crbProvider.name,
+      };
+      await deps.crbVerificationRepo.create(verification);
+
+      await deps.auditLog.record({
+        type: 'CRB_CHECK_COMPLETED',
+        employeeId: request.employeeId,
+        verificationId: verification.id,
+        consentId: consent.id,
+        provider: verification.crbProvider,
+        reportReference: report.reference,
+        score: assessment.score,
+        overallStatus: assessment.overallStatus,
+        timestamp: asOf,
+      });
+
+      return { success: true, result: this.toResult(verification, false) };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  }
+
+  private static isConsentValid(consent: CRBConsent, asOf: Date): boolean {
+    return !consent.revokedAt && consent.expiresAt.getTime() > asOf.getTime();
+  }
+
+  private static toResult(verification: CRBVerification, fromCache: boolean): CRBCheckResult {
+    return {
+      employeeId: verification.employeeId,
+      score: verification.crbScore ?? 0,
+      riskFlags: (verification.riskFlags ?? []) as CRBCheckResult['riskFlags'],
+      overallStatus: verification.overallStatus ?? 'HIGH_RISK',
+      lastCheckDate: verification.verifiedAt ?? verification.requestedAt,
+      verificationId: verification.id,
+      provider: verification.crbProvider,
+      expiresAt: verification.expiresAt!,
+      fromCache,
+    };
+  }
+}
+
+export default CRBAdapter;
@@ -27,6 +27,7 @@ export interface MifosAdapterDependencies {
   mifosClient: {
     createLoan: (request: MifosLoanCreationRequest) => Promise<{ loanId: string; clientId: string }>;
     postRepayment: (loanId: string, amount: number, date: Date) => Promise<{ transactionId: string }>;
+    prepayLoan: (loanId: string, amount: number, interestWaived: number, date: Date) => Promise<{ transactionId: string }>;
     getLoanStatus: (loanId: string) => Promise<{ status: string; balance: number; schedule: any[] }>;
     closeAccount: (clientId: string) => Promise<void>;
   };
@@ -36,7 +37,7 @@ export interface MifosAdapterDependencies {
     update: (link: MifosLoanLink) => Promise<void>;
   };
   employeeRepo: { get: (id: string) => Promise<Employee | null> };
-  contractRepo: { get: (id: string) => Promise<BNPLContract | null> };
+  contractRepo: { get: (id: string) => Promise<BNPLContract | null>; update: (contract: BNPLContract) => Promise<void> };
   auditLog: { record: (event: any) => Promise<void> };
 }
 
@@ -177,6 +178,54 @@ export class MifosXAdapter {
     }
   }
 
+  /**
+   * Prepay and close Mifos loan (early settlement)
+   * Unearned interest is waived in Mifos; the client account is closed
+   * separately via closeAccount once the employee has no open loans
+   */
+  public static async prepayLoan(
+    bnplContractId: string,
+    amount: number,
+    interestRebate: number,
+    paymentDate: Date,
+    deps: MifosAdapterDependencies
+  ): Promise<{ success: boolean; transactionId?: string; error?: string }> {
+    try {
+      const link = await deps.linkRepo.getByBNPLContract(bnplContractId);
+      if (!link) {
+        return { success: false, error: 'No Mifos loan linked to this BNPL contract' };
+      }
+
+      const result = await deps.mifosClient.prepayLoan(link.mifosLoanId, amount, interestRebate, paymentDate);
+
+      link.status = 'CLOSED';
+      await deps.linkRepo.update(link);
+
+      await deps.auditLog.record({
+        type: 'MIFOS_LOAN_PREPAID',
+        bnplContractId,
+        mifosLoanId: link.mifosLoanId,
+        amount,
+        interestRebate,
+        transactionId: result.transactionId,
+        timestamp: new Date(),
+      });
+
+      return { success: true, transactionId: result.transactionId };
+    } catch (error) {
+      console.error('Mifos prepayment error:', error);
+
+      await deps.auditLog.record({
+        type: 'MIFOS_PREPAYMENT_FAILED',
+        bnplContractId,
+        error: (error as Error).message,
+        timestamp: new Date(),
+      });
+
+      return { success: false, error: 'Failed to prepay Mifos loan' };
+    }
+  }
+
   /**
    * Check Mifos loan status (health check / reconciliation)
    */
@@ -260,7 +309,7 @@ export class MifosXAdapter {
 
         // Compare statuses
         const bnplToMifos: Record<string, string> = {
-          FUNDED: 'APPROVED',
+          DISBURSED: 'APPROVED',
           IN_REPAYMENT: 'ACTIVE',
           CLOSED: 'CLOSED',
           DEFAULTED: 'DEFAULTED',
@@ -0,0 +1,88 @@
+/**
+ * Key-Value Store
+ * Storage abstraction behind the domain repositories
+ *
+ * The interface mirrors supabase/functions/server/kv_store.tsx exactly, so the
+ * edge function can pass the kv_store module itself:
+ *
+ *   import * as kv from './kv_store.tsx';
+ *   const repos = createRepositories(kv);
+ *
+ * InMemoryKeyValueStore implements the same contract for tests and local runs.
+ */
+
+export interface KeyValueStore {
+  get: (key: string) => Promise<any>;
+  set: (key: string, value: any) => Promise<void>;
+  del: (key: string) => Promise<void>;
+  mget: (keys: string[]) => Promise<any[]>;
+  mset: (keys: string[], values: any[]) => Promise<void>;
+  mdel: (keys: string[]) => Promise<void>;
+  getByPrefix: (prefix: string) => Promise<any[]>; // Returns values, not keys
+}
+
+export class InMemoryKeyValueStore implements KeyValueStore {
+  private readonly data = new Map<string, any>();
+
+  public async get(key: string): Promise<any> {
+    return this.data.get(key);
+  }
+
+  public async set(key: string, value: any): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  public async del(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  public async mget(keys: string[]): Promise<any[]> {
+    // Same semantics as kv_store: missing keys are skipped, not returned as undefined
+    return keys.filter((key) => this.data.has(key)).map((key) => this.data.get(key));
+  }
+
+  public async mset(keys: string[], values: any[]): Promise<void> {
+    keys.forEach((key, i) => this.data.set(key, values[i]));
+  }
+
+  public async mdel(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.data.delete(key));
+  }
+
+  public async getByPrefix(prefix: string): Promise<any[]> {
+    return Array.from(this.data.keys())
+      .filter((key) => key.startsWith(prefix))
+      .sort()
+      .map((key) => this.data.get(key));
+  }
+
+  public clear(): void {
+    this.data.clear();
+  }
+
+  public size(): number {
+    return this.data.size;
+  }
+}
+
+/**
+ * JSON serialization
+ * Entities are stored as JSON strings (same as the edge services). Dates are
+ * written as ISO strings and revived on read so domain code gets Date objects back.
+ */
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+export function serialize<T>(entity: T): string {
+  return JSON.stringify(entity);
+}
+
+export function deserialize<T>(raw: any): T | null {
+  if (raw === undefined || raw === null) return null;
+  const json = typeof raw === 'string' ? raw : JSON.stringify(raw);
+  return JSON.parse(json, (_key, value) =>
+    typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value
+  ) as T;
+}
+
+export default InMemoryKeyValueStore;
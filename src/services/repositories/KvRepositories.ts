@@ -0,0 +1,688 @@
+/**
+ * KV-backed Repositories
+ * Concrete implementations of the *Repo dependency bags taken by
+ * CheckoutService, PaymentSettlementService, EmployerPayrollService,
+ * MifosXAdapter and GeneralLedger.
+ *
+ * Storage layout (kv_store_34d8f37e):
+ * - domain:<entity>:<id>                   → entity JSON
+ * - domain:idx:<index>:<partition>:<id>    → entity id (secondary index)
+ *
+ * The `domain:` namespace keeps these records apart from the edge function's
+ * snake_case records (contract:, customer:, ...) in the same table.
+ */
+
+import {
+  BNPLContract,
+  CRBConsent,
+  CreditExperiment,
+  CreditPolicy,
+  CreditPolicyScope,
+  DeductionInstruction,
+  Employee,
+  Employer,
+  ExperimentDecision,
+  InternalLedgerEntry,
+  JournalEntry,
+  Lender,
+  Merchant,
+  MerchantClawback,
+  MifosLoanLink,
+  SettlementBatch,
+  SettlementFeeSchedule,
+  SettlementInstruction,
+} from '../domain/types';
+import { CRBVerification, EmployerGroup, Organization } from '../domain/hierarchicalTypes';
+import { JournalQuery } from '../domain/GeneralLedger';
+import {
+  recordVelocityEvent,
+  VelocityEvent,
+  VelocitySubject,
+} from '../../../supabase/functions/_shared/velocity';
+import { ContractStateMachine } from '../domain/StateMachine';
+import { KeyValueStore, serialize, deserialize } from './KeyValueStore';
+
+// Deduction statuses still expected on an upcoming payroll run
+const ACTIVE_DEDUCTION_STATUSES: DeductionInstruction['status'][] = ['ACTIVE', 'PENDING_PAYROLL'];
+
+const KEYS = {
+  contract: (id: string) => `domain:contract:${id}`,
+  contractsByEmployee: (employeeId: string) => `domain:idx:contract-employee:${employeeId}:`,
+  employee: (id: string) => `domain:employee:${id}`,
+  employeeByPhone: (phone: string) => `domain:idx:employee-phone:${phone}`,
+  employeesByEmployer: (employerId: string) => `domain:idx:employee-employer:${employerId}:`,
+  employer: (id: string) => `domain:employer:${id}`,
+  organization: (id: string) => `domain:organization:${id}`,
+  employerGroup: (id: string) => `domain:employer-group:${id}`,
+  lender: (id: string) => `domain:lender:${id}`,
+  merchant: (id: string) => `domain:merchant:${id}`,
+  ledger: (contractId: string) => `domain:ledger:${contractId}:`,
+  journal: (id: string) => `domain:journal:${id}`,
+  journalsByContract: (contractId: string) => `domain:idx:journal-contract:${contractId}:`,
+  deduction: (id: string) => `domain:deduction:${id}`,
+  deductionsByEmployer: (employerId: string) => `domain:idx:deduction-employer:${employerId}:`,
+  mifosLink: (contractId: string) => `domain:mifos-link:${contractId}`,
+  settlement: (id: string) => `domain:settlement:${id}`,
+  settlementsByMerchant: (merchantId: string) => `domain:idx:settlement-merchant:${merchantId}:`,
+  clawback: (id: string) => `domain:clawback:${id}`,
+  clawbacksByMerchant: (merchantId: string) => `domain:idx:clawback-merchant:${merchantId}:`,
+  settlementBatch: (id: string) => `domain:settlement-batch:${id}`,
+  settlementBatchesByMerchant: (merchantId: string) => `domain:idx:settlement-batch-merchant:${merchantId}:`,
+  feeSchedule: (merchantId: string) => `domain:fee-schedule:${merchantId}`,
+  velocity: (subject: VelocitySubject, id: string) => `domain:velocity:${subject.toLowerCase()}:${id}`,
+  crbConsent: (id: string) => `domain:crb-consent:${id}`,
+  crbConsentsByEmployee: (employeeId: string) => `domain:idx:crb-consent-employee:${employeeId}:`,
+  crbVerification: (id: string) => `domain:crb-verification:${id}`,
+  latestCrbVerification: (employeeId: string) => `domain:idx:crb-verification-latest:${employeeId}`,
+  creditPolicy: (id: string) => `domain:credit-policy:${id}`,
+  creditPoliciesByScope: (scope: CreditPolicyScope, scopeId: string | null) =>
+    `domain:idx:credit-policy-scope:${scope.toLowerCase()}:${scopeId ?? 'platform'}:`,
+  creditExperiment: (id: string) => `domain:credit-experiment:${id}`,
+  activeCreditExperiment: () => 'domain:idx:credit-experiment-active',
+  experimentDecision: (id: string) => `domain:experiment-decision:${id}`,
+  experimentDecisionsByExperiment: (experimentId: string) => `domain:idx:experiment-decision:${experimentId}:`,
+  idempotency: (key: string) => `domain:idempotency:${key}`,
+};
+
+/**
+ * Shared load/save helpers
+ */
+abstract class KvRepository<T extends { id: string }> {
+  constructor(protected readonly store: KeyValueStore) {}
+
+  protected abstract key(id: string): string;
+
+  public async get(id: string): Promise<T | null> {
+    return deserialize<T>(await this.store.get(this.key(id)));
+  }
+
+  public async save(entity: T): Promise<T> {
+    await this.store.set(this.key(entity.id), serialize(entity));
+    return entity;
+  }
+
+  // Resolve ids stored under an index prefix into entities
+  protected async getByIndex(prefix: string): Promise<T[]> {
+    const ids: string[] = await this.store.getByPrefix(prefix);
+    if (ids.length === 0) return [];
+
+    const rows = await this.store.mget(ids.map((id) => this.key(id)));
+    return rows
+      .map((row) => deserialize<T>(row))
+      .filter((entity): entity is T => entity !== null);
+  }
+
+  protected async getAllByPrefix(prefix: string): Promise<T[]> {
+    const rows = await this.store.getByPrefix(prefix);
+    return rows
+      .map((row) => deserialize<T>(row))
+      .filter((entity): entity is T => entity !== null);
+  }
+}
+
+/**
+ * Contracts
+ */
+export class KvContractRepository extends KvRepository<BNPLContract> {
+  protected key(id: string): string {
+    return KEYS.contract(id);
+  }
+
+  // Contracts written before the lifecycle was unified are migrated on read
+  public async get(id: string): Promise<BNPLContract | null> {
+    const contract = await super.get(id);
+    if (contract && ContractStateMachine.migrateLegacyState(contract)) {
+      await this.save(contract);
+    }
+    return contract;
+  }
+
+  protected async getByIndex(prefix: string): Promise<BNPLContract[]> {
+    const contracts = await super.getByIndex(prefix);
+    for (const contract of contracts) {
+      if (ContractStateMachine.migrateLegacyState(contract)) {
+        await this.save(contract);
+      }
+    }
+    return contracts;
+  }
+
+  public async create(contract: BNPLContract): Promise<BNPLContract> {
+    await this.store.mset(
+      [this.key(contract.id), KEYS.contractsByEmployee(contract.employeeId) + contract.id],
+      [serialize(contract), contract.id]
+    );
+    return contract;
+  }
+
+  public async update(contract: BNPLContract): Promise<void> {
+    const existing = await this.get(contract.id);
+    if (!existing) {
+      throw new Error(`Contract ${contract.id} not found`);
+    }
+    await this.save(contract);
+  }
+
+  public async getByEmployee(employeeId: string): Promise<BNPLContract[]> {
+    return this.getByIndex(KEYS.contractsByEmployee(employeeId));
+  }
+
+  /**
+   * All funded contracts still in repayment (delinquency job)
+   */
+  public async getActive(): Promise<BNPLContract[]> {
+    const contracts = await this.getAllByPrefix(KEYS.contract(''));
+    const active: BNPLContract[] = [];
+    for (const contract of contracts) {
+      if (ContractStateMachine.migrateLegacyState(contract)) {
+        await this.save(contract);
+      }
+      if (ContractStateMachine.isActive(contract.state)) active.push(contract);
+    }
+    return active;
+  }
+
+  /**
+   * Contracts still drawing on the employee's deduction capacity
+   * Equivalent of: SELECT * FROM contracts WHERE employee_id = ? AND state IN ('DISBURSED', 'IN_REPAYMENT')
+   */
+  public async getActiveByEmployee(employeeId: string): Promise<BNPLContract[]> {
+    const contracts = await this.getByEmployee(employeeId);
+    return contracts.filter((c) => ContractStateMachine.isActive(c.state));
+  }
+}
+
+/**
+ * Employees (indexed by phone for checkout, by employer for payroll)
+ */
+export class KvEmployeeRepository extends KvRepository<Employee> {
+  protected key(id: string): string {
+    return KEYS.employee(id);
+  }
+
+  public async create(employee: Employee): Promise<Employee> {
+    const existing = await this.getByPhone(employee.phoneNumber);
+    if (existing) {
+      throw new Error(`Employee with phone ${employee.phoneNumber} already exists`);
+    }
+
+    await this.store.mset(
+      [
+        this.key(employee.id),
+        KEYS.employeeByPhone(employee.phoneNumber),
+        KEYS.employeesByEmployer(employee.employerId) + employee.id,
+      ],
+      [serialize(employee), employee.id, employee.id]
+    );
+    return employee;
+  }
+
+  public async update(employee: Employee): Promise<void> {
+    const existing = await this.get(employee.id);
+    if (!existing) {
+      throw new Error(`Employee ${employee.id} not found`);
+    }
+
+    // Keep secondary indexes in step with the record
+    if (existing.phoneNumber !== employee.phoneNumber) {
+      await this.store.del(KEYS.employeeByPhone(existing.phoneNumber));
+      await this.store.set(KEYS.employeeByPhone(employee.phoneNumber), employee.id);
+    }
+    if (existing.employerId !== employee.employerId) {
+      await this.store.del(KEYS.employeesByEmployer(existing.employerId) + employee.id);
+      await this.store.set(KEYS.employeesByEmployer(employee.employerId) + employee.id, employee.id);
+    }
+
+    await this.save(employee);
+  }
+
+  public async getByPhone(phone: string): Promise<Employee | null> {
+    const id = await this.store.get(KEYS.employeeByPhone(phone));
+    return id ? this.get(id) : null;
+  }
+
+  public async getByEmployer(employerId: string): Promise<Employee[]> {
+    return this.getByIndex(KEYS.employeesByEmployer(employerId));
+  }
+}
+
+/**
+ * Employers
+ */
+export class KvEmployerRepository extends KvRepository<Employer> {
+  protected key(id: string): string {
+    return KEYS.employer(id);
+  }
+
+  public async getAll(): Promise<Employer[]> {
+    return this.getAllByPrefix(KEYS.employer(''));
+  }
+}
+
+/**
+ * Organizations (hierarchy top level; config feeds credit policy)
+ */
+export class KvOrganizationRepository extends KvRepository<Organization> {
+  protected key(id: string): string {
+    return KEYS.organization(id);
+  }
+}
+
+/**
+ * Employer groups (hierarchical employer profile, same id as the Employer)
+ */
+export class KvEmployerGroupRepository extends KvRepository<EmployerGroup> {
+  protected key(id: string): string {
+    return KEYS.employerGroup(id);
+  }
+}
+
+/**
+ * Lenders
+ */
+export class KvLenderRepository extends KvRepository<Lender> {
+  protected key(id: string): string {
+    return KEYS.lender(id);
+  }
+
+  public async getAll(): Promise<Lender[]> {
+    return this.getAllByPrefix(KEYS.lender(''));
+  }
+}
+
+/**
+ * Merchants
+ */
+export class KvMerchantRepository extends KvRepository<Merchant> {
+  protected key(id: string): string {
+    return KEYS.merchant(id);
+  }
+
+  public async getAll(): Promise<Merchant[]> {
+    return this.getAllByPrefix(KEYS.merchant(''));
+  }
+}
+
+/**
+ * Internal ledger (append-only, partitioned by contract)
+ */
+export class KvLedgerRepository {
+  constructor(private readonly store: KeyValueStore) {}
+
+  public async create(entry: InternalLedgerEntry): Promise<InternalLedgerEntry> {
+    await this.store.set(KEYS.ledger(entry.contractId) + entry.id, serialize(entry));
+    return entry;
+  }
+
+  public async query(filter: { contractId: string }): Promise<InternalLedgerEntry[]> {
+    const rows = await this.store.getByPrefix(KEYS.ledger(filter.contractId));
+    return rows
+      .map((row) => deserialize<InternalLedgerEntry>(row))
+      .filter((entry): entry is InternalLedgerEntry => entry !== null)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+}
+
+/**
+ * General ledger journals (append-only)
+ */
+export class KvJournalRepository {
+  constructor(private readonly store: KeyValueStore) {}
+
+  public async create(entry: JournalEntry): Promise<JournalEntry> {
+    const keys = [KEYS.journal(entry.id)];
+    const values: any[] = [serialize(entry)];
+    if (entry.contractId) {
+      keys.push(KEYS.journalsByContract(entry.contractId) + entry.id);
+      values.push(entry.id);
+    }
+
+    await this.store.mset(keys, values);
+    return entry;
+  }
+
+  public async query(filter: JournalQuery): Promise<JournalEntry[]> {
+    let rows: any[];
+    if (filter.contractId) {
+      const ids: string[] = await this.store.getByPrefix(KEYS.journalsByContract(filter.contractId));
+      rows = ids.length > 0 ? await this.store.mget(ids.map((id) => KEYS.journal(id))) : [];
+    } else {
+      rows = await this.store.getByPrefix(KEYS.journal(''));
+    }
+
+    return rows
+      .map((row) => deserialize<JournalEntry>(row))
+      .filter((entry): entry is JournalEntry => entry !== null)
+      .filter((entry) => !filter.asOf || entry.postedAt <= filter.asOf)
+      .filter((entry) => !filter.account || entry.lines.some((line) => line.account === filter.account))
+      .sort((a, b) => a.postedAt.getTime() - b.postedAt.getTime());
+  }
+}
+
+/**
+ * Payroll deduction instructions
+ * DeductionInstruction carries no employerId, so it is resolved from the
+ * employee on create and kept in the employer index.
+ */
+export class KvDeductionRepository extends KvRepository<DeductionInstruction> {
+  constructor(store: KeyValueStore, private readonly employees: KvEmployeeRepository) {
+    super(store);
+  }
+
+  protected key(id: string): string {
+    return KEYS.deduction(id);
+  }
+
+  public async create(deduction: DeductionInstruction): Promise<DeductionInstruction> {
+    const employee = await this.employees.get(deduction.employeeId);
+    if (!employee) {
+      throw new Error(`Employee ${deduction.employeeId} not found`);
+    }
+
+    await this.store.mset(
+      [this.key(deduction.id), KEYS.deductionsByEmployer(employee.employerId) + deduction.id],
+      [serialize(deduction), deduction.id]
+    );
+    return deduction;
+  }
+
+  public async update(deduction: DeductionInstruction): Promise<void> {
+    await this.save(deduction);
+  }
+
+  public async getActive(employerId: string): Promise<DeductionInstruction[]> {
+    const deductions = await this.getByIndex(KEYS.deductionsByEmployer(employerId));
+    return deductions.filter((d) => ACTIVE_DEDUCTION_STATUSES.includes(d.status));
+  }
+}
+
+/**
+ * Merchant settlement instructions
+ */
+export class KvSettlementRepository extends KvRepository<SettlementInstruction> {
+  protected key(id: string): string {
+    return KEYS.settlement(id);
+  }
+
+  public async create(settlement: SettlementInstruction): Promise<SettlementInstruction> {
+    await this.store.mset(
+      [this.key(settlement.id), KEYS.settlementsByMerchant(settlement.merchantId) + settlement.id],
+      [serialize(settlement), settlement.id]
+    );
+    return settlement;
+  }
+
+  public async update(settlement: SettlementInstruction): Promise<void> {
+    await this.save(settlement);
+  }
+
+  public async query(filter: { merchantId: string }): Promise<SettlementInstruction[]> {
+    const settlements = await this.getByIndex(KEYS.settlementsByMerchant(filter.merchantId));
+    return settlements.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+}
+
+/**
+ * Settlement batches (one payout per merchant per cut-off)
+ */
+export class KvSettlementBatchRepository extends KvRepository<SettlementBatch> {
+  protected key(id: string): string {
+    return KEYS.settlementBatch(id);
+  }
+
+  public async create(batch: SettlementBatch): Promise<SettlementBatch> {
+    await this.store.mset(
+      [this.key(batch.id), KEYS.settlementBatchesByMerchant(batch.merchantId) + batch.id],
+      [serialize(batch), batch.id]
+    );
+    return batch;
+  }
+
+  public async update(batch: SettlementBatch): Promise<void> {
+    await this.save(batch);
+  }
+
+  public async query(filter: { merchantId: string }): Promise<SettlementBatch[]> {
+    const batches = await this.getByIndex(KEYS.settlementBatchesByMerchant(filter.merchantId));
+    return batches.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+}
+
+/**
+ * Merchant settlement fee schedules (one per merchant)
+ */
+export class KvFeeScheduleRepository {
+  constructor(private readonly store: KeyValueStore) {}
+
+  public async get(merchantId: string): Promise<SettlementFeeSchedule | null> {
+    return deserialize<SettlementFeeSchedule>(await this.store.get(KEYS.feeSchedule(merchantId)));
+  }
+
+  public async save(schedule: SettlementFeeSchedule): Promise<void> {
+    await this.store.set(KEYS.feeSchedule(schedule.merchantId), serialize(schedule));
+  }
+}
+
+/**
+ * Merchant clawbacks (oldest first, the order they are recovered in)
+ */
+export class KvClawbackRepository extends KvRepository<MerchantClawback> {
+  protected key(id: string): string {
+    return KEYS.clawback(id);
+  }
+
+  public async create(clawback: MerchantClawback): Promise<MerchantClawback> {
+    await this.store.mset(
+      [this.key(clawback.id), KEYS.clawbacksByMerchant(clawback.merchantId) + clawback.id],
+      [serialize(clawback), clawback.id]
+    );
+    return clawback;
+  }
+
+  public async update(clawback: MerchantClawback): Promise<void> {
+    await this.save(clawback);
+  }
+
+  public async query(filter: { merchantId: string; outstanding?: boolean }): Promise<MerchantClawback[]> {
+    const clawbacks = await this.getByIndex(KEYS.clawbacksByMerchant(filter.merchantId));
+    return clawbacks
+      .filter((c) => !filter.outstanding || c.status !== 'RECOVERED')
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+}
+
+/**
+ * Velocity counters (accepted orders per merchant, customer phone and device, last 30 days)
+ */
+export class KvVelocityRepository {
+  constructor(private readonly store: KeyValueStore) {}
+
+  public async getEvents(subject: VelocitySubject, id: string): Promise<VelocityEvent[]> {
+    return deserialize<VelocityEvent[]>(await this.store.get(KEYS.velocity(subject, id))) ?? [];
+  }
+
+  public async record(subject: VelocitySubject, id: string, event: VelocityEvent): Promise<void> {
+    const events = recordVelocityEvent(await this.getEvents(subject, id), event);
+    await this.store.set(KEYS.velocity(subject, id), serialize(events));
+  }
+}
+
+/**
+ * CRB consents (newest first; revoked and expired ones are kept for audit)
+ */
+export class KvCRBConsentRepository extends KvRepository<CRBConsent> {
+  protected key(id: string): string {
+    return KEYS.crbConsent(id);
+  }
+
+  public async create(consent: CRBConsent): Promise<CRBConsent> {
+    await this.store.mset(
+      [this.key(consent.id), KEYS.crbConsentsByEmployee(consent.employeeId) + consent.id],
+      [serialize(consent), consent.id]
+    );
+    return consent;
+  }
+
+  public async update(consent: CRBConsent): Promise<void> {
+    await this.save(consent);
+  }
+
+  public async getByEmployee(employeeId: string): Promise<CRBConsent[]> {
+    const consents = await this.getByIndex(KEYS.crbConsentsByEmployee(employeeId));
+    return consents.sort((a, b) => b.grantedAt.getTime() - a.grantedAt.getTime());
+  }
+}
+
+/**
+ * CRB verifications (every bureau pull with its raw report; latest one per employee is the cache)
+ */
+export class KvCRBVerificationRepository extends KvRepository<CRBVerification> {
+  protected key(id: string): string {
+    return KEYS.crbVerification(id);
+  }
+
+  public async create(verification: CRBVerification): Promise<CRBVerification> {
+    await this.store.mset(
+      [this.key(verification.id), KEYS.latestCrbVerification(verification.employeeId)],
+      [serialize(verification), verification.id]
+    );
+    return verification;
+  }
+
+  public async getLatest(employeeId: string): Promise<CRBVerification | null> {
+    const id = await this.store.get(KEYS.latestCrbVerification(employeeId));
+    return id ? this.get(id) : null;
+  }
+}
+
+/**
+ * Credit policy versions (every published version per scope, newest first)
+ */
+export class KvCreditPolicyRepository extends KvRepository<CreditPolicy> {
+  protected key(id: string): string {
+    return KEYS.creditPolicy(id);
+  }
+
+  public async create(policy: CreditPolicy): Promise<CreditPolicy> {
+    await this.store.mset(
+      [this.key(policy.id), KEYS.creditPoliciesByScope(policy.scope, policy.scopeId) + policy.id],
+      [serialize(policy), policy.id]
+    );
+    return policy;
+  }
+
+  public async update(policy: CreditPolicy): Promise<void> {
+    await this.save(policy);
+  }
+
+  public async getVersions(scope: CreditPolicyScope, scopeId: string | null): Promise<CreditPolicy[]> {
+    const policies = await this.getByIndex(KEYS.creditPoliciesByScope(scope, scopeId));
+    return policies.sort((a, b) => b.version - a.version);
+  }
+}
+
+/**
+ * Credit experiments (at most one ACTIVE, tracked by a pointer)
+ */
+export class KvCreditExperimentRepository extends KvRepository<CreditExperiment> {
+  protected key(id: string): string {
+    return KEYS.creditExperiment(id);
+  }
+
+  public async create(experiment: CreditExperiment): Promise<CreditExperiment> {
+    await this.store.mset(
+      [this.key(experiment.id), KEYS.activeCreditExperiment()],
+      [serialize(experiment), experiment.id]
+    );
+    return experiment;
+  }
+
+  public async update(experiment: CreditExperiment): Promise<void> {
+    await this.save(experiment);
+    if (experiment.status === 'STOPPED' && (await this.store.get(KEYS.activeCreditExperiment())) === experiment.id) {
+      await this.store.del(KEYS.activeCreditExperiment());
+    }
+  }
+
+  public async getActive(): Promise<CreditExperiment | null> {
+    const id = await this.store.get(KEYS.activeCreditExperiment());
+    const experiment = id ? await this.get(id) : null;
+    return experiment?.status === 'ACTIVE' ? experiment : null;
+  }
+}
+
+/**
+ * Champion and challenger decisions recorded per application
+ */
+export class KvExperimentDecisionRepository extends KvRepository<ExperimentDecision> {
+  protected key(id: string): string {
+    return KEYS.experimentDecision(id);
+  }
+
+  public async create(decision: ExperimentDecision): Promise<ExperimentDecision> {
+    await this.store.mset(
+      [this.key(decision.id), KEYS.experimentDecisionsByExperiment(decision.experimentId) + decision.id],
+      [serialize(decision), decision.id]
+    );
+    return decision;
+  }
+
+  public async update(decision: ExperimentDecision): Promise<void> {
+    await this.save(decision);
+  }
+
+  public async getByExperiment(experimentId: string): Promise<ExperimentDecision[]> {
+    return this.getByIndex(KEYS.experimentDecisionsByExperiment(experimentId));
+  }
+}
+
+/**
+ * BNPL ↔ Mifos loan links (one per contract)
+ */
+export class KvMifosLinkRepository {
+  constructor(private readonly store: KeyValueStore) {}
+
+  public async create(link: MifosLoanLink): Promise<MifosLoanLink> {
+    const existing = await this.getByBNPLContract(link.bnplContractId);
+    if (existing) {
+      throw new Error(`Contract ${link.bnplContractId} is already linked to Mifos loan ${existing.mifosLoanId}`);
+    }
+
+    await this.store.set(KEYS.mifosLink(link.bnplContractId), serialize(link));
+    return link;
+  }
+
+  public async getByBNPLContract(contractId: string): Promise<MifosLoanLink | null> {
+    return deserialize<MifosLoanLink>(await this.store.get(KEYS.mifosLink(contractId)));
+  }
+
+  public async update(link: MifosLoanLink): Promise<void> {
+    await this.store.set(KEYS.mifosLink(link.bnplContractId), serialize(link));
+  }
+}
+
+/**
+ * Idempotency cache
+ * Responses are kept for 24h (matches the retry window given to merchants)
+ */
+export class KvIdempotencyStore {
+  private static readonly TTL_MS = 24 * 60 * 60 * 1000;
+
+  constructor(private readonly store: KeyValueStore, private readonly ttlMs = KvIdempotencyStore.TTL_MS) {}
+
+  public async get(key: string): Promise<any> {
+    const record = deserialize<{ value: any; expiresAt: Date }>(await this.store.get(KEYS.idempotency(key)));
+    if (!record) return null;
+
+    if (record.expiresAt.getTime() < Date.now()) {
+      await this.store.del(KEYS.idempotency(key));
+      return null;
+    }
+    return record.value;
+  }
+
+  public async set(key: string, value: any): Promise<void> {
+    const expiresAt = new Date(Date.now() + this.ttlMs);
+    await this.store.set(KEYS.idempotency(key), serialize({ value, expiresAt }));
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Repository Layer
+ * Wires the KV-backed repositories into the dependency bags the services expect.
+ *
+ * Usage (edge function):
+ *   import * as kv from './kv_store.tsx';
+ *   const repos = createRepositories(kv);
+ *   const crbService = {
+ *     check: (req) => CRBAdapter.check(req, { ...repos, crbProvider: new StubCRBBureau(), auditLog }),
+ *   };
+ *   await CheckoutService.processCheckout(request, { ...repos, crbService, eventBus });
+ *
+ * Usage (tests):
+ *   const repos = createRepositories(new InMemoryKeyValueStore());
+ */
+
+import { KeyValueStore } from './KeyValueStore';
+import {
+  KvClawbackRepository,
+  KvContractRepository,
+  KvCreditExperimentRepository,
+  KvCreditPolicyRepository,
+  KvCRBConsentRepository,
+  KvCRBVerificationRepository,
+  KvDeductionRepository,
+  KvEmployeeRepository,
+  KvEmployerGroupRepository,
+  KvEmployerRepository,
+  KvExperimentDecisionRepository,
+  KvFeeScheduleRepository,
+  KvIdempotencyStore,
+  KvJournalRepository,
+  KvLedgerRepository,
+  KvLenderRepository,
+  KvMerchantRepository,
+  KvMifosLinkRepository,
+  KvOrganizationRepository,
+  KvSettlementBatchRepository,
+  KvSettlementRepository,
+  KvVelocityRepository,
+} from './KvRepositories';
+
+export interface Repositories {
+  contractRepo: KvContractRepository;
+  employeeRepo: KvEmployeeRepository;
+  employerRepo: KvEmployerRepository;
+  organizationRepo: KvOrganizationRepository;
+  employerGroupRepo: KvEmployerGroupRepository;
+  lenderRepo: KvLenderRepository;
+  merchantRepo: KvMerchantRepository;
+  ledgerRepo: KvLedgerRepository;
+  journalRepo: KvJournalRepository;
+  deductionRepo: KvDeductionRepository;
+  linkRepo: KvMifosLinkRepository;
+  settlementRepo: KvSettlementRepository;
+  clawbackRepo: KvClawbackRepository;
+  batchRepo: KvSettlementBatchRepository;
+  feeScheduleRepo: KvFeeScheduleRepository;
+  velocityRepo: KvVelocityRepository;
+  crbConsentRepo: KvCRBConsentRepository;
+  crbVerificationRepo: KvCRBVerificationRepository;
+  creditPolicyRepo: KvCreditPolicyRepository;
+  creditExperimentRepo: KvCreditExperimentRepository;
+  experimentDecisionRepo: KvExperimentDecisionRepository;
+  idempotencyCache: KvIdempotencyStore;
+}
+
+export function createRepositories(store: KeyValueStore): Repositories {
+  const employeeRepo = new KvEmployeeRepository(store);
+
+  return {
+    contractRepo: new KvContractRepository(store),
+    employeeRepo,
+    employerRepo: new KvEmployerRepository(store),
+    organizationRepo: new KvOrganizationRepository(store),
+    employerGroupRepo: new KvEmployerGroupRepository(store),
+    lenderRepo: new KvLenderRepository(store),
+    merchantRepo: new KvMerchantRepository(store),
+    ledgerRepo: new KvLedgerRepository(store),
+    journalRepo: new KvJournalRepository(store),
+    deductionRepo: new KvDeductionRepository(store, employeeRepo),
+    linkRepo: new KvMifosLinkRepository(store),
+    settlementRepo: new KvSettlementRepository(store),
+    clawbackRepo: new KvClawbackRepository(store),
+    batchRepo: new KvSettlementBatchRepository(store),
+    feeScheduleRepo: new KvFeeScheduleRepository(store),
+    velocityRepo: new KvVelocityRepository(store),
+    crbConsentRepo: new KvCRBConsentRepository(store),
+    crbVerificationRepo: new KvCRBVerificationRepository(store),
+    creditPolicyRepo: new KvCreditPolicyRepository(store),
+    creditExperimentRepo: new KvCreditExperimentRepository(store),
+    experimentDecisionRepo: new KvExperimentDecisionRepository(store),
+    idempotencyCache: new KvIdempotencyStore(store),
+  };
+}
+
+export type { KeyValueStore } from './KeyValueStore';
+export { InMemoryKeyValueStore } from './KeyValueStore';
+export * from './KvRepositories';
@@ -0,0 +1,97 @@
+/**
+ * Test Wiring
+ * In-memory repositories plus recording stand-ins for the audit log and
+ * payment gateway, shaped like the dependency bags the services take.
+ *
+ * Usage:
+ *   const deps = createTestDependencies();
+ *   await deps.contractRepo.create(buildContract());
+ *   await PaymentSettlementService.settleMerchant(contractId, key, deps);
+ */
+
+import { BNPLContract, BNPLInstallment } from '../domain/types';
+import { InMemoryKeyValueStore } from './KeyValueStore';
+import { createRepositories, Repositories } from './index';
+
+export interface RecordingAuditLog {
+  events: any[];
+  record: (event: any) => Promise<void>;
+}
+
+export interface RecordingPaymentGateway {
+  payouts: { amount: number; account: string; ref: string }[];
+  failNext: boolean; // The next initiate call throws (gateway outage)
+  initiate: (amount: number, account: string) => Promise<{ ref: string }>;
+}
+
+export interface TestDependencies extends Repositories {
+  store: InMemoryKeyValueStore;
+  auditLog: RecordingAuditLog;
+  paymentGateway: RecordingPaymentGateway;
+}
+
+export function createTestDependencies(): TestDependencies {
+  const store = new InMemoryKeyValueStore();
+
+  const auditLog: RecordingAuditLog = {
+    events: [],
+    record: async (event) => {
+      auditLog.events.push(event);
+    },
+  };
+
+  const paymentGateway: RecordingPaymentGateway = {
+    payouts: [],
+    failNext: false,
+    initiate: async (amount, account) => {
+      if (paymentGateway.failNext) {
+        paymentGateway.failNext = false;
+        throw new Error('Gateway unavailable');
+      }
+      const ref = `PAY-${paymentGateway.payouts.length + 1}`;
+      paymentGateway.payouts.push({ amount, account, ref });
+      return { ref };
+    },
+  };
+
+  return { ...createRepositories(store), store, auditLog, paymentGateway };
+}
+
+/**
+ * A funded contract in repayment: UGX 300,000 principal plus a 15,000
+ * processing fee over three monthly installments due at the end of
+ * January, February and March 2026
+ */
+export function buildContract(overrides: Partial<BNPLContract> = {}): BNPLContract {
+  const id = overrides.id ?? 'CONTRACT-1';
+  const dueDates = ['2026-01-31', '2026-02-28', '2026-03-31'];
+  const installments: BNPLInstallment[] = dueDates.map((date, idx) => ({
+    id: `${id}-I${idx + 1}`,
+    contractId: id,
+    installmentNumber: idx + 1,
+    dueDate: new Date(`${date}T00:00:00.000Z`),
+    amount: 105_000,
+    status: 'PENDING',
+  }));
+
+  return {
+    id,
+    employeeId: 'EMPLOYEE-1',
+    merchantId: 'MERCHANT-1',
+    lenderId: 'LENDER-1',
+    orderAmount: 300_000,
+    tenor: 90,
+    interestRate: 0,
+    processingFee: 15_000,
+    totalPayable: 315_000,
+    installmentAmount: 105_000,
+    state: 'IN_REPAYMENT',
+    stateTransitionHistory: [],
+    installments,
+    totalPaid: 0,
+    totalDue: 315_000,
+    pastDueAmount: 0,
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    ...overrides,
+  };
+}
@@ -0,0 +1,156 @@
+// Shared BNPL contract lifecycle - single source of truth for states and transitions
+//
+// Consumed by both layers:
+// - Edge server:  supabase/functions/server/state-machine.tsx
+// - Domain layer: src/services/domain/StateMachine.ts
+//
+// This module has no imports so it loads unchanged under Deno and Node.
+// Each layer binds its own guards (pure checks that can block a transition)
+// and hooks (side effects run once a transition is allowed) to transition keys.
+
+export const CONTRACT_STATES = [
+  'PRE_APPROVED',
+  'DEDUCTION_REQUESTED',
+  'CUSTOMER_AUTHORIZED',
+  'ESCROW_HELD',
+  'DISBURSED',
+  'IN_REPAYMENT',
+  'CLOSED',
+  'DISPUTED',
+  'CANCELLED',
+  'REFUNDED',
+  'DEFAULTED',
+] as const;
+
+export type ContractLifecycleState = typeof CONTRACT_STATES[number];
+
+// Valid state transitions
+//
+// PRE_APPROVED → DEDUCTION_REQUESTED → CUSTOMER_AUTHORIZED → ESCROW_HELD → DISBURSED → IN_REPAYMENT → CLOSED
+// CUSTOMER_AUTHORIZED → DISBURSED skips escrow (direct lender funding at checkout)
+export const TRANSITIONS: Record<ContractLifecycleState, ContractLifecycleState[]> = {
+  PRE_APPROVED: ['DEDUCTION_REQUESTED', 'CANCELLED'],
+  DEDUCTION_REQUESTED: ['CUSTOMER_AUTHORIZED', 'CANCELLED'],
+  CUSTOMER_AUTHORIZED: ['ESCROW_HELD', 'DISBURSED', 'CANCELLED'],
+  ESCROW_HELD: ['DISBURSED', 'DISPUTED', 'CANCELLED', 'REFUNDED'],
+  DISBURSED: ['IN_REPAYMENT', 'DISPUTED', 'REFUNDED'],
+  IN_REPAYMENT: ['CLOSED', 'DISPUTED', 'DEFAULTED'],
+  CLOSED: [],
+  DISPUTED: ['IN_REPAYMENT', 'CANCELLED', 'REFUNDED'],
+  CANCELLED: [],
+  REFUNDED: [],
+  DEFAULTED: [],
+};
+
+export const TERMINAL_STATES: ContractLifecycleState[] = ['CLOSED', 'CANCELLED', 'REFUNDED', 'DEFAULTED'];
+
+// Funded and drawing on the customer's deduction capacity
+export const ACTIVE_STATES: ContractLifecycleState[] = ['DISBURSED', 'IN_REPAYMENT'];
+
+// State names used by the original domain service before the lifecycle was unified
+export const LEGACY_STATE_MAP: Record<string, ContractLifecycleState> = {
+  ORDER_CREATED: 'DEDUCTION_REQUESTED',
+  FUNDED: 'DISBURSED',
+};
+
+export function isLifecycleState(state: string): state is ContractLifecycleState {
+  return (CONTRACT_STATES as readonly string[]).includes(state);
+}
+
+/**
+ * Map a stored state (current or legacy name) onto the unified lifecycle
+ * Returns null for unknown states
+ */
+export function normalizeState(state: string): ContractLifecycleState | null {
+  if (isLifecycleState(state)) return state;
+  return LEGACY_STATE_MAP[state] ?? null;
+}
+
+export function canTransition(from: ContractLifecycleState, to: ContractLifecycleState): boolean {
+  return (TRANSITIONS[from] || []).includes(to);
+}
+
+export function getNextStates(from: ContractLifecycleState): ContractLifecycleState[] {
+  return TRANSITIONS[from] || [];
+}
+
+export function isTerminalState(state: ContractLifecycleState): boolean {
+  return TERMINAL_STATES.includes(state);
+}
+
+export function isActiveState(state: ContractLifecycleState): boolean {
+  return ACTIVE_STATES.includes(state);
+}
+
+// ==================== GUARDS & HOOKS ====================
+
+// 'FROM->TO' for one transition, '*->TO' for every transition into a state
+export type TransitionKey =
+  | `${ContractLifecycleState}->${ContractLifecycleState}`
+  | `*->${ContractLifecycleState}`;
+
+export interface TransitionContext<C> {
+  contract: C;
+  from: ContractLifecycleState;
+  to: ContractLifecycleState;
+  actor: string;
+  metadata?: Record<string, any>;
+}
+
+// Returns a reason string to block the transition, null to allow it
+export type TransitionGuard<C> = (context: TransitionContext<C>) => string | null;
+
+export type TransitionHook<C> = (context: TransitionContext<C>) => void | Promise<void>;
+
+export interface LifecycleBindings<C> {
+  guards?: Partial<Record<TransitionKey, TransitionGuard<C>[]>>;
+  hooks?: Partial<Record<TransitionKey, TransitionHook<C>[]>>;
+}
+
+export class LifecycleTransitionError extends Error {
+  constructor(
+    public from: ContractLifecycleState,
+    public to: ContractLifecycleState,
+    public reason: string,
+  ) {
+    super(reason);
+    this.name = 'LifecycleTransitionError';
+  }
+}
+
+function bindingKeys(from: ContractLifecycleState, to: ContractLifecycleState): TransitionKey[] {
+  return [`*->${to}`, `${from}->${to}`];
+}
+
+/**
+ * Check a transition against the table and the bound guards
+ * Returns the blocking reason, or null when the transition is allowed
+ */
+export function checkTransition<C>(
+  bindings: LifecycleBindings<C>,
+  context: TransitionContext<C>,
+): string | null {
+  if (!canTransition(context.from, context.to)) {
+    return `Invalid state transition: Cannot move from ${context.from} to ${context.to}`;
+  }
+
+  for (const key of bindingKeys(context.from, context.to)) {
+    for (const guard of bindings.guards?.[key] ?? []) {
+      const reason = guard(context);
+      if (reason) return reason;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Hooks to run for a transition, state-wide ('*->TO') hooks first
+ */
+export function getTransitionHooks<C>(
+  bindings: LifecycleBindings<C>,
+  from: ContractLifecycleState,
+  to: ContractLifecycleState,
+): TransitionHook<C>[] {
+  return bindingKeys(from, to).flatMap((key) => bindings.hooks?.[key] ?? []);
+}
@@ -0,0 +1,130 @@
+// Shared CRB (Credit Reference Bureau) assessment - normalised bureau reports, risk flags and the stub bureau
+//
+// Pure calculations with no imports, used by the edge CRB service
+// (server/crb-service.tsx) and the domain CRBAdapter.
+
+export type CRBRiskFlag =
+  | 'NO_CREDIT_HISTORY'
+  | 'LOW_SCORE'
+  | 'DEFAULT_HISTORY'
+  | 'MULTIPLE_ACTIVE_LOANS'
+  | 'RECENT_ENQUIRIES'
+  | 'FRAUD_ALERT';
+
+export type CRBOverallStatus = 'CLEAN' | 'WARNING' | 'HIGH_RISK';
+
+export type CRBRiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'VERY_HIGH';
+
+export type CRBConsentChannel = 'EMPLOYEE_PORTAL' | 'USSD' | 'CHECKOUT';
+
+// Bureau response mapped onto one shape by its provider; `raw` is kept as received
+export interface CRBBureauReport {
+  provider: string;
+  reference: string; // Bureau's own report id
+  found: boolean; // false when the bureau holds no record (thin file)
+  score: number | null; // 0-1000, rescaled by the provider when the bureau uses another scale
+  defaultHistoryCount: number;
+  activeLoansCount: number;
+  totalOutstandingCredit: number; // UGX
+  enquiriesLast30Days: number;
+  fraudAlert: boolean;
+  raw: Record<string, unknown>;
+}
+
+export interface CRBAssessment {
+  score: number;
+  riskFlags: CRBRiskFlag[];
+  overallStatus: CRBOverallStatus;
+  riskLevel: CRBRiskLevel;
+}
+
+// Thin files are scored as fair, not as bad
+export const CRB_NO_HIT_SCORE = 500;
+
+// Reports are reused for a day before the bureau is asked again
+export const CRB_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Consent covers checks for a year unless revoked
+export const CRB_CONSENT_VALIDITY_MS = 365 * 24 * 60 * 60 * 1000;
+
+export const CRB_CONSENT_TEXT =
+  'I authorise the platform to obtain my credit report from a licensed Credit Reference Bureau ' +
+  'to assess my application for credit, and to share repayment information with the bureau.';
+
+const LOW_SCORE = 500;
+const HIGH_RISK_SCORE = 400;
+const MAX_ACTIVE_LOANS = 3;
+const MAX_RECENT_ENQUIRIES = 3;
+
+/**
+ * Risk flags, overall status and risk level for a normalised bureau report
+ */
+export function assessCRBReport(report: CRBBureauReport): CRBAssessment {
+  const score = report.found && report.score !== null ? clampScore(report.score) : CRB_NO_HIT_SCORE;
+  const riskFlags: CRBRiskFlag[] = [];
+
+  if (!report.found) riskFlags.push('NO_CREDIT_HISTORY');
+  if (score < LOW_SCORE) riskFlags.push('LOW_SCORE');
+  if (report.defaultHistoryCount > 0) riskFlags.push('DEFAULT_HISTORY');
+  if (report.activeLoansCount >= MAX_ACTIVE_LOANS) riskFlags.push('MULTIPLE_ACTIVE_LOANS');
+  if (report.enquiriesLast30Days >= MAX_RECENT_ENQUIRIES) riskFlags.push('RECENT_ENQUIRIES');
+  if (report.fraudAlert) riskFlags.push('FRAUD_ALERT');
+
+  const overallStatus: CRBOverallStatus =
+    report.fraudAlert || report.defaultHistoryCount > 0 || score < HIGH_RISK_SCORE
+      ? 'HIGH_RISK'
+      : riskFlags.length > 0
+        ? 'WARNING'
+        : 'CLEAN';
+
+  return { score, riskFlags, overallStatus, riskLevel: riskLevelForScore(score) };
+}
+
+export function riskLevelForScore(score: number): CRBRiskLevel {
+  if (score >= 800) return 'LOW';
+  if (score >= 650) return 'MEDIUM';
+  if (score >= 500) return 'HIGH';
+  return 'VERY_HIGH';
+}
+
+/**
+ * Deterministic stand-in for a bureau, for tests and local runs.
+ * The same national ID always gets the same report; IDs ending in 0 have no
+ * record and IDs ending in 9 carry a default.
+ */
+export function stubBureauReport(nationalId: string, phoneNumber: string, asOf: Date): CRBBureauReport {
+  const seed = Array.from(nationalId).reduce((hash, ch) => (hash * 31 + ch.charCodeAt(0)) % 1_000_003, 7);
+  const lastChar = nationalId.slice(-1);
+  const found = lastChar !== '0';
+  const defaults = lastChar === '9' ? 1 : 0;
+
+  const raw = {
+    bureau: 'STUB',
+    requested_at: asOf.toISOString(),
+    subject: { national_id: nationalId, msisdn: phoneNumber },
+    hit: found,
+    score: found ? 450 + (seed % 451) : null, // 450-900
+    accounts: found
+      ? { open: seed % 4, defaulted: defaults, outstanding_ugx: (seed % 20) * 100_000 }
+      : null,
+    enquiries_30d: seed % 3,
+    fraud_alert: false,
+  };
+
+  return {
+    provider: 'STUB',
+    reference: `STUB-${seed.toString(36).toUpperCase()}-${asOf.getTime().toString(36).toUpperCase()}`,
+    found,
+    score: raw.score,
+    defaultHistoryCount: defaults,
+    activeLoansCount: raw.accounts?.open ?? 0,
+    totalOutstandingCredit: raw.accounts?.outstanding_ugx ?? 0,
+    enquiriesLast30Days: raw.enquiries_30d,
+    fraudAlert: raw.fraud_alert,
+    raw,
+  };
+}
+
+function clampScore(score: number): number {
+  return Math.max(0, Math.min(1000, Math.round(score)));
+}
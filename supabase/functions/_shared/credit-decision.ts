@@ -0,0 +1,114 @@
+// Shared credit decision explainability - factor breakdown, binding constraint and adverse-action reasons
+//
+// Pure calculations with no imports, used by the edge order route
+// (server/affordability-engine.tsx) and the domain CreditEngine.
+
+// What set the maximum amount
+export type BindingConstraint =
+  | 'SALARY_CAPACITY' // Net salary × deduction ratio
+  | 'EXISTING_DEDUCTIONS' // Capacity already used by other deductions
+  | 'CRB_ADJUSTMENT'
+  | 'PAYMENT_HISTORY_ADJUSTMENT'
+  | 'DEDUCTION_LIMIT' // Employee's monthly deduction limit
+  | 'CREDIT_LIMIT' // Employer or policy credit limit
+  | 'POLICY_RULE'; // Declined by a rule before affordability was considered
+
+// Standardised reasons given to the customer when credit is declined or reduced
+export type AdverseActionCode =
+  | 'INSUFFICIENT_INCOME'
+  | 'EXCESSIVE_OBLIGATIONS'
+  | 'CREDIT_BUREAU_RISK'
+  | 'DELINQUENT_PAYMENT_HISTORY'
+  | 'CREDIT_LIMIT_REACHED'
+  | 'LOW_AFFORDABILITY_SCORE'
+  | 'ORDER_AMOUNT_OUT_OF_RANGE'
+  | 'TENOR_NOT_OFFERED'
+  | 'POLICY_RULE';
+
+export const ADVERSE_ACTION_REASONS: Record<AdverseActionCode, string> = {
+  INSUFFICIENT_INCOME: 'Income is not sufficient for the amount requested',
+  EXCESSIVE_OBLIGATIONS: 'Existing deductions and credit obligations are too high relative to income',
+  CREDIT_BUREAU_RISK: 'Information from the Credit Reference Bureau',
+  DELINQUENT_PAYMENT_HISTORY: 'Late or missed payments on existing contracts',
+  CREDIT_LIMIT_REACHED: 'Amount requested is above the credit limit set for you or your employer',
+  LOW_AFFORDABILITY_SCORE: 'Overall affordability assessment is below the approval threshold',
+  ORDER_AMOUNT_OUT_OF_RANGE: 'Amount requested is outside the range offered',
+  TENOR_NOT_OFFERED: 'Repayment period requested is not offered',
+  POLICY_RULE: 'Application does not meet credit policy requirements',
+};
+
+// Most important reasons first; at most this many are given to the customer
+export const MAX_ADVERSE_ACTION_REASONS = 4;
+
+export interface DecisionFactors {
+  netSalary: number; // UGX per month
+  deductionRatio: number; // Fraction of salary available for deductions
+  salaryCapacity: number; // UGX per month (netSalary × deductionRatio)
+  existingDeductions: number; // UGX per month already committed
+  availableCapacity: number; // UGX per month left for this order
+  tenorMonths: number;
+  salaryCapacityAmount: number; // Principal salaryCapacity alone would support
+  capacityAmount: number; // Principal availableCapacity supports
+  crbScore: number | null; // 0-1000, null when no check was run
+  crbAdjustment: number; // Multiplier, 1 = none
+  paymentHistoryAdjustment: number; // Multiplier, 1 = none
+  deductionLimit: number | null; // UGX cap, null when none applies
+  creditLimit: number | null; // UGX cap, null when none applies
+  maxAmount: number; // Principal after every adjustment and cap
+  requestedAmount: number;
+  bindingConstraint: BindingConstraint;
+}
+
+/**
+ * The constraint that set maxAmount: a cap when one binds, otherwise the
+ * largest reduction from salary capacity, otherwise salary capacity itself
+ */
+export function identifyBindingConstraint(factors: Omit<DecisionFactors, 'bindingConstraint'>): BindingConstraint {
+  const adjusted = factors.capacityAmount * factors.crbAdjustment * factors.paymentHistoryAdjustment;
+  const caps: Array<[BindingConstraint, number | null]> = [
+    ['DEDUCTION_LIMIT', factors.deductionLimit],
+    ['CREDIT_LIMIT', factors.creditLimit],
+  ];
+  const bindingCap = caps
+    .filter((cap): cap is [BindingConstraint, number] => cap[1] !== null && cap[1] < adjusted)
+    .sort((a, b) => a[1] - b[1])[0];
+  if (bindingCap) return bindingCap[0];
+
+  const reductions: Array<[BindingConstraint, number]> = [
+    ['EXISTING_DEDUCTIONS', factors.salaryCapacityAmount - factors.capacityAmount],
+    ['CRB_ADJUSTMENT', factors.capacityAmount * (1 - factors.crbAdjustment)],
+    [
+      'PAYMENT_HISTORY_ADJUSTMENT',
+      factors.capacityAmount * factors.crbAdjustment * (1 - factors.paymentHistoryAdjustment),
+    ],
+  ];
+  const largest = reductions.filter(([, amount]) => amount > 0).sort((a, b) => b[1] - a[1])[0];
+  return largest ? largest[0] : 'SALARY_CAPACITY';
+}
+
+/**
+ * Adverse-action reasons when the requested amount cannot be granted in full
+ * (empty when it can). The binding constraint's reason comes first.
+ */
+export function adverseActionCodes(factors: DecisionFactors): AdverseActionCode[] {
+  if (factors.requestedAmount <= factors.maxAmount && factors.maxAmount > 0) return [];
+
+  const byConstraint: Record<BindingConstraint, AdverseActionCode> = {
+    SALARY_CAPACITY: 'INSUFFICIENT_INCOME',
+    EXISTING_DEDUCTIONS: 'EXCESSIVE_OBLIGATIONS',
+    CRB_ADJUSTMENT: 'CREDIT_BUREAU_RISK',
+    PAYMENT_HISTORY_ADJUSTMENT: 'DELINQUENT_PAYMENT_HISTORY',
+    DEDUCTION_LIMIT: 'CREDIT_LIMIT_REACHED',
+    CREDIT_LIMIT: 'CREDIT_LIMIT_REACHED',
+    POLICY_RULE: 'POLICY_RULE',
+  };
+
+  const codes: AdverseActionCode[] = [byConstraint[factors.bindingConstraint]];
+  if (factors.existingDeductions > 0 && factors.availableCapacity < factors.salaryCapacity / 2) {
+    codes.push('EXCESSIVE_OBLIGATIONS');
+  }
+  if (factors.crbAdjustment < 1) codes.push('CREDIT_BUREAU_RISK');
+  if (factors.paymentHistoryAdjustment < 1) codes.push('DELINQUENT_PAYMENT_HISTORY');
+
+  return Array.from(new Set(codes)).slice(0, MAX_ADVERSE_ACTION_REASONS);
+}
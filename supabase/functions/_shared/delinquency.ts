@@ -0,0 +1,145 @@
+// Shared delinquency ageing - days-past-due buckets, default policy and portfolio at risk
+//
+// Pure calculations with no imports, used by the edge delinquency job
+// (server/delinquency-service.tsx) and the domain DelinquencyEngine.
+
+export type DelinquencyBucket = 'CURRENT' | 'DPD_1_30' | 'DPD_31_60' | 'DPD_61_90' | 'DPD_90_PLUS';
+
+export const DELINQUENCY_BUCKETS: { bucket: DelinquencyBucket; minDays: number; maxDays: number }[] = [
+  { bucket: 'CURRENT', minDays: 0, maxDays: 0 },
+  { bucket: 'DPD_1_30', minDays: 1, maxDays: 30 },
+  { bucket: 'DPD_31_60', minDays: 31, maxDays: 60 },
+  { bucket: 'DPD_61_90', minDays: 61, maxDays: 90 },
+  { bucket: 'DPD_90_PLUS', minDays: 91, maxDays: Number.POSITIVE_INFINITY },
+];
+
+export interface DelinquencyPolicy {
+  graceDays: number; // Days after due date before an installment counts as overdue
+  defaultAfterDays: number; // Days past due that trigger DEFAULTED
+  minimumArrearsForDefault: number; // UGX - ignore rounding residue when defaulting
+}
+
+export const DEFAULT_DELINQUENCY_POLICY: DelinquencyPolicy = {
+  graceDays: 0,
+  defaultAfterDays: 90,
+  minimumArrearsForDefault: 1_000,
+};
+
+export interface AgeableInstallment {
+  dueDate: Date;
+  amountDue: number;
+  amountPaid: number;
+}
+
+export interface ContractAgeing {
+  daysPastDue: number; // Oldest unpaid overdue installment
+  bucket: DelinquencyBucket;
+  pastDueAmount: number;
+  overdueIndexes: number[]; // Positions of overdue installments in the input
+  shouldDefault: boolean;
+}
+
+export interface PortfolioAtRisk {
+  totalOutstanding: number;
+  par1: number; // Outstanding on contracts 1+ days past due
+  par30: number;
+  par60: number;
+  par90: number;
+  par30Percentage: number; // % 0-100, the headline portfolioAtRisk figure
+  averageDelinquency: number; // Days, over delinquent contracts
+  buckets: Record<DelinquencyBucket, { count: number; outstanding: number }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days from due date to asOf (0 when not yet due)
+ */
+export function daysPastDue(dueDate: Date, asOf: Date): number {
+  return Math.max(0, Math.floor((asOf.getTime() - dueDate.getTime()) / DAY_MS));
+}
+
+export function bucketFor(days: number): DelinquencyBucket {
+  const match = DELINQUENCY_BUCKETS.find((b) => days >= b.minDays && days <= b.maxDays);
+  return match ? match.bucket : 'DPD_90_PLUS';
+}
+
+/**
+ * Age a contract's installments as of a date
+ */
+export function ageInstallments(
+  installments: AgeableInstallment[],
+  asOf: Date,
+  policy: DelinquencyPolicy = DEFAULT_DELINQUENCY_POLICY,
+): ContractAgeing {
+  let maxDays = 0;
+  let pastDueAmount = 0;
+  const overdueIndexes: number[] = [];
+
+  installments.forEach((installment, idx) => {
+    const unpaid = installment.amountDue - installment.amountPaid;
+    if (unpaid <= 0) return;
+
+    const days = daysPastDue(installment.dueDate, asOf);
+    if (days <= policy.graceDays) return;
+
+    overdueIndexes.push(idx);
+    pastDueAmount += unpaid;
+    maxDays = Math.max(maxDays, days);
+  });
+
+  return {
+    daysPastDue: maxDays,
+    bucket: bucketFor(maxDays),
+    pastDueAmount,
+    overdueIndexes,
+    shouldDefault:
+      maxDays > policy.defaultAfterDays && pastDueAmount >= policy.minimumArrearsForDefault,
+  };
+}
+
+/**
+ * Portfolio at risk across contracts (outstanding balance weighted)
+ */
+export function portfolioAtRisk(
+  contracts: { outstanding: number; daysPastDue: number }[],
+): PortfolioAtRisk {
+  const buckets = Object.fromEntries(
+    DELINQUENCY_BUCKETS.map((b) => [b.bucket, { count: 0, outstanding: 0 }]),
+  ) as Record<DelinquencyBucket, { count: number; outstanding: number }>;
+
+  let totalOutstanding = 0;
+  let par1 = 0;
+  let par30 = 0;
+  let par60 = 0;
+  let par90 = 0;
+  let delinquentDays = 0;
+  let delinquentCount = 0;
+
+  for (const contract of contracts) {
+    const bucket = buckets[bucketFor(contract.daysPastDue)];
+    bucket.count++;
+    bucket.outstanding += contract.outstanding;
+
+    totalOutstanding += contract.outstanding;
+    if (contract.daysPastDue > 0) {
+      par1 += contract.outstanding;
+      delinquentDays += contract.daysPastDue;
+      delinquentCount++;
+    }
+    if (contract.daysPastDue > 30) par30 += contract.outstanding;
+    if (contract.daysPastDue > 60) par60 += contract.outstanding;
+    if (contract.daysPastDue > 90) par90 += contract.outstanding;
+  }
+
+  return {
+    totalOutstanding,
+    par1,
+    par30,
+    par60,
+    par90,
+    par30Percentage: totalOutstanding > 0 ? (par30 / totalOutstanding) * 100 : 0,
+    averageDelinquency: delinquentCount > 0 ? delinquentDays / delinquentCount : 0,
+    buckets,
+  };
+}
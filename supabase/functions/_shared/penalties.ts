@@ -0,0 +1,110 @@
+// Shared late penalty accrual - flat late fee, daily penalty interest and regulatory caps
+//
+// Pure calculations with no imports, used by the edge penalty job
+// (server/penalty-service.tsx).
+
+export type PenaltyChargeType = 'LATE_FEE' | 'PENALTY_INTEREST';
+
+export interface PenaltyPolicy {
+  graceDays: number; // Days after due date before penalties start
+  lateFee: number; // UGX - one-off flat fee per overdue installment
+  dailyRate: number; // Fraction of the unpaid installment charged per day past grace
+  installmentCapRate: number; // Max penalties per installment, fraction of amount due
+  contractCapRate: number; // Max penalties per contract, fraction of principal
+}
+
+export const DEFAULT_PENALTY_POLICY: PenaltyPolicy = {
+  graceDays: 3,
+  lateFee: 5_000,
+  dailyRate: 0.001, // 0.1% per day
+  installmentCapRate: 0.1, // 10% of the installment
+  contractCapRate: 0.2, // 20% of principal
+};
+
+export interface PenaltyAccrualInput {
+  dueDate: Date;
+  amountDue: number;
+  amountPaid: number;
+  lateFeeCharged: boolean; // A late fee already exists (accrued, paid or waived)
+  interestAccruedThrough: Date | null; // End of the last penalty interest accrual
+  installmentCharged: number; // Non-waived penalties already on the installment
+  contractCharged: number; // Non-waived penalties already on the contract
+  principal: number;
+}
+
+export interface PenaltyAccrual {
+  lateFee: number;
+  penaltyInterest: number;
+  interestDays: number;
+  accruedFrom: Date | null;
+  accruedThrough: Date | null;
+  capped: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Penalties to accrue on one installment as of a date, within the caps
+ */
+export function accruePenalty(
+  input: PenaltyAccrualInput,
+  asOf: Date,
+  policy: PenaltyPolicy = DEFAULT_PENALTY_POLICY,
+): PenaltyAccrual {
+  const none: PenaltyAccrual = {
+    lateFee: 0,
+    penaltyInterest: 0,
+    interestDays: 0,
+    accruedFrom: null,
+    accruedThrough: null,
+    capped: false,
+  };
+
+  const unpaid = input.amountDue - input.amountPaid;
+  if (unpaid <= 0) return none;
+
+  const penaltyStart = new Date(input.dueDate.getTime() + policy.graceDays * DAY_MS);
+  if (asOf.getTime() <= penaltyStart.getTime()) return none;
+
+  let headroom = Math.max(
+    0,
+    Math.min(
+      input.amountDue * policy.installmentCapRate - input.installmentCharged,
+      input.principal * policy.contractCapRate - input.contractCharged,
+    ),
+  );
+  let capped = false;
+
+  let lateFee = 0;
+  if (!input.lateFeeCharged && policy.lateFee > 0) {
+    lateFee = Math.min(policy.lateFee, headroom);
+    capped = lateFee < policy.lateFee;
+    headroom -= lateFee;
+  }
+
+  const from =
+    input.interestAccruedThrough && input.interestAccruedThrough > penaltyStart
+      ? input.interestAccruedThrough
+      : penaltyStart;
+  const interestDays = Math.max(0, Math.floor((asOf.getTime() - from.getTime()) / DAY_MS));
+
+  let penaltyInterest = 0;
+  let accruedFrom: Date | null = null;
+  let accruedThrough: Date | null = null;
+  if (interestDays > 0 && policy.dailyRate > 0) {
+    const uncapped = Math.round(unpaid * policy.dailyRate * interestDays);
+    penaltyInterest = Math.min(uncapped, Math.floor(headroom));
+    capped = capped || penaltyInterest < uncapped;
+    accruedFrom = from;
+    accruedThrough = new Date(from.getTime() + interestDays * DAY_MS);
+  }
+
+  return {
+    lateFee: Math.floor(lateFee),
+    penaltyInterest,
+    interestDays,
+    accruedFrom,
+    accruedThrough,
+    capped,
+  };
+}
@@ -0,0 +1,162 @@
+// Shared order velocity controls - rolling-window limits per merchant, customer phone and device
+//
+// Pure calculations with no imports, used by the edge order route
+// (server/velocity-service.tsx) and the domain CheckoutService.
+
+export type VelocitySubject = 'MERCHANT' | 'CUSTOMER' | 'DEVICE';
+
+export type VelocityDeclineCode =
+  | 'TICKET_SIZE_EXCEEDED'
+  | 'MERCHANT_DAILY_VOLUME_EXCEEDED'
+  | 'MERCHANT_MONTHLY_VOLUME_EXCEEDED'
+  | 'CUSTOMER_HOURLY_ORDERS_EXCEEDED'
+  | 'DEVICE_HOURLY_ORDERS_EXCEEDED';
+
+export interface VelocityPolicy {
+  maxTicketSize: number; // UGX per order
+  merchantDailyVolume: number; // UGX per rolling 24 hours
+  merchantMonthlyVolume: number; // UGX per rolling 30 days
+  customerOrdersPerHour: number; // Per customer phone, rolling hour
+  deviceOrdersPerHour: number; // Per checkout device, rolling hour
+}
+
+export const DEFAULT_VELOCITY_POLICY: VelocityPolicy = {
+  maxTicketSize: 10_000_000,
+  merchantDailyVolume: 50_000_000,
+  merchantMonthlyVolume: 1_000_000_000,
+  customerOrdersPerHour: 3,
+  deviceOrdersPerHour: 10,
+};
+
+// One accepted order counted against a subject
+export interface VelocityEvent {
+  amount: number;
+  at: Date;
+}
+
+export interface VelocityCounters {
+  merchant: VelocityEvent[];
+  customer: VelocityEvent[];
+  device: VelocityEvent[]; // Empty when the order carries no device id
+}
+
+export interface VelocityDecline {
+  code: VelocityDeclineCode;
+  subject: VelocitySubject;
+  limit: number;
+  current: number; // Already used in the window (count or UGX)
+  requested: number; // What this order would add
+  window: 'ORDER' | '1H' | '24H' | '30D';
+  message: string;
+}
+
+export interface VelocityCheck {
+  allowed: boolean;
+  declines: VelocityDecline[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Longest window; older events can be dropped
+export const VELOCITY_RETENTION_MS = 30 * DAY_MS;
+
+/**
+ * Order count and volume inside a rolling window ending at asOf
+ */
+export function windowTotals(
+  events: VelocityEvent[],
+  windowMs: number,
+  asOf: Date,
+): { count: number; volume: number } {
+  const from = asOf.getTime() - windowMs;
+  return events
+    .filter((e) => e.at.getTime() > from && e.at.getTime() <= asOf.getTime())
+    .reduce((totals, e) => ({ count: totals.count + 1, volume: totals.volume + e.amount }), { count: 0, volume: 0 });
+}
+
+/**
+ * Check a new order against every limit; all breaches are reported, not just the first
+ */
+export function checkVelocity(
+  amount: number,
+  counters: VelocityCounters,
+  asOf: Date,
+  policy: VelocityPolicy = DEFAULT_VELOCITY_POLICY,
+): VelocityCheck {
+  const declines: VelocityDecline[] = [];
+
+  if (amount > policy.maxTicketSize) {
+    declines.push({
+      code: 'TICKET_SIZE_EXCEEDED',
+      subject: 'MERCHANT',
+      limit: policy.maxTicketSize,
+      current: 0,
+      requested: amount,
+      window: 'ORDER',
+      message: `Order amount ${amount} exceeds the maximum ticket size of ${policy.maxTicketSize}`,
+    });
+  }
+
+  const merchantDay = windowTotals(counters.merchant, DAY_MS, asOf);
+  if (merchantDay.volume + amount > policy.merchantDailyVolume) {
+    declines.push({
+      code: 'MERCHANT_DAILY_VOLUME_EXCEEDED',
+      subject: 'MERCHANT',
+      limit: policy.merchantDailyVolume,
+      current: merchantDay.volume,
+      requested: amount,
+      window: '24H',
+      message: `Merchant volume in the last 24 hours would reach ${merchantDay.volume + amount}, above ${policy.merchantDailyVolume}`,
+    });
+  }
+
+  const merchantMonth = windowTotals(counters.merchant, VELOCITY_RETENTION_MS, asOf);
+  if (merchantMonth.volume + amount > policy.merchantMonthlyVolume) {
+    declines.push({
+      code: 'MERCHANT_MONTHLY_VOLUME_EXCEEDED',
+      subject: 'MERCHANT',
+      limit: policy.merchantMonthlyVolume,
+      current: merchantMonth.volume,
+      requested: amount,
+      window: '30D',
+      message: `Merchant volume in the last 30 days would reach ${merchantMonth.volume + amount}, above ${policy.merchantMonthlyVolume}`,
+    });
+  }
+
+  const customerHour = windowTotals(counters.customer, HOUR_MS, asOf);
+  if (customerHour.count + 1 > policy.customerOrdersPerHour) {
+    declines.push({
+      code: 'CUSTOMER_HOURLY_ORDERS_EXCEEDED',
+      subject: 'CUSTOMER',
+      limit: policy.customerOrdersPerHour,
+      current: customerHour.count,
+      requested: 1,
+      window: '1H',
+      message: `Customer has placed ${customerHour.count} orders in the last hour (limit ${policy.customerOrdersPerHour})`,
+    });
+  }
+
+  const deviceHour = windowTotals(counters.device, HOUR_MS, asOf);
+  if (deviceHour.count + 1 > policy.deviceOrdersPerHour) {
+    declines.push({
+      code: 'DEVICE_HOURLY_ORDERS_EXCEEDED',
+      subject: 'DEVICE',
+      limit: policy.deviceOrdersPerHour,
+      current: deviceHour.count,
+      requested: 1,
+      window: '1H',
+      message: `Device has placed ${deviceHour.count} orders in the last hour (limit ${policy.deviceOrdersPerHour})`,
+    });
+  }
+
+  return { allowed: declines.length === 0, declines };
+}
+
+/**
+ * Append an accepted order and drop events outside the longest window
+ */
+export function recordVelocityEvent(events: VelocityEvent[], event: VelocityEvent): VelocityEvent[] {
+  const from = event.at.getTime() - VELOCITY_RETENTION_MS;
+  return [...events.filter((e) => e.at.getTime() > from), event];
+}
@@ -0,0 +1,130 @@
+// Shared payment waterfall - splits a repayment across penalties, fees, interest and principal
+//
+// Pure calculations with no imports, used by the edge repayment posting
+// (server/contract-service.tsx recordInstallmentPayment).
+
+export type PaymentComponent = 'PENALTIES' | 'FEES' | 'INTEREST' | 'PRINCIPAL';
+
+export type OverpaymentTreatment = 'HOLD_AS_CREDIT' | 'APPLY_NEXT_INSTALLMENT';
+
+export interface WaterfallPolicy {
+  order: PaymentComponent[]; // Within an installment; installments are always oldest first
+  overpayment: OverpaymentTreatment;
+}
+
+export const DEFAULT_WATERFALL_POLICY: WaterfallPolicy = {
+  order: ['PENALTIES', 'FEES', 'INTEREST', 'PRINCIPAL'],
+  overpayment: 'HOLD_AS_CREDIT',
+};
+
+export interface ComponentAmounts {
+  penalties: number;
+  fees: number;
+  interest: number;
+  principal: number;
+}
+
+export interface WaterfallCharge {
+  id: string;
+  outstanding: number;
+}
+
+export interface WaterfallInstallment {
+  installmentNumber: number;
+  due: ComponentAmounts; // Scheduled fees/interest/principal (penalties come from charges)
+  paid: ComponentAmounts;
+  charges: WaterfallCharge[]; // Outstanding penalty charges, oldest first
+}
+
+export interface WaterfallLine {
+  installmentNumber: number;
+  amounts: ComponentAmounts;
+  charges: { id: string; amount: number }[];
+  total: number;
+}
+
+export interface WaterfallResult {
+  lines: WaterfallLine[];
+  applied: number;
+  unapplied: number; // Overpayment left after every eligible installment is covered
+}
+
+/**
+ * Split an installment's scheduled amount into fees, interest and principal
+ * in proportion to the contract pricing (principal takes the rounding)
+ */
+export function splitInstallment(
+  amountDue: number,
+  rates: { interestRate: number; feeRate: number },
+  tenorMonths: number,
+): Omit<ComponentAmounts, 'penalties'> {
+  const weight = 1 + (rates.interestRate + rates.feeRate) * tenorMonths;
+  const interest = Math.round((amountDue * rates.interestRate * tenorMonths) / weight);
+  const fees = Math.round((amountDue * rates.feeRate * tenorMonths) / weight);
+
+  return { fees, interest, principal: amountDue - fees - interest };
+}
+
+/**
+ * Allocate a payment oldest installment first, and within each installment
+ * in the policy order. Installments after `lastInstallment` only receive the
+ * overpayment when the policy applies it to the next installment.
+ */
+export function allocatePayment(
+  amount: number,
+  installments: WaterfallInstallment[],
+  lastInstallment: number,
+  policy: WaterfallPolicy = DEFAULT_WATERFALL_POLICY,
+): WaterfallResult {
+  const ordered = [...installments].sort((a, b) => a.installmentNumber - b.installmentNumber);
+  const lines: WaterfallLine[] = [];
+  let remaining = amount;
+
+  for (const installment of ordered) {
+    if (remaining <= 0) break;
+    if (installment.installmentNumber > lastInstallment && policy.overpayment !== 'APPLY_NEXT_INSTALLMENT') break;
+
+    const line: WaterfallLine = {
+      installmentNumber: installment.installmentNumber,
+      amounts: { penalties: 0, fees: 0, interest: 0, principal: 0 },
+      charges: [],
+      total: 0,
+    };
+
+    for (const component of policy.order) {
+      if (remaining <= 0) break;
+
+      if (component === 'PENALTIES') {
+        for (const charge of installment.charges) {
+          const payment = Math.min(remaining, charge.outstanding);
+          if (payment <= 0) continue;
+          line.charges.push({ id: charge.id, amount: payment });
+          line.amounts.penalties += payment;
+          remaining -= payment;
+        }
+        continue;
+      }
+
+      const key = component.toLowerCase() as 'fees' | 'interest' | 'principal';
+      const payment = Math.min(remaining, Math.max(0, installment.due[key] - installment.paid[key]));
+      line.amounts[key] += payment;
+      remaining -= payment;
+    }
+
+    line.total = line.amounts.penalties + line.amounts.fees + line.amounts.interest + line.amounts.principal;
+    if (line.total > 0) lines.push(line);
+  }
+
+  return { lines, applied: amount - remaining, unapplied: remaining };
+}
+
+/**
+ * Validate a waterfall order: every component exactly once
+ */
+export function validateWaterfallOrder(order: string[]): string | null {
+  const components: PaymentComponent[] = ['PENALTIES', 'FEES', 'INTEREST', 'PRINCIPAL'];
+  if (order.length !== components.length || components.some((c) => !order.includes(c))) {
+    return `Waterfall order must list each of ${components.join(', ')} exactly once`;
+  }
+  return null;
+}
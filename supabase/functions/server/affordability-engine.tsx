@@ -1,7 +1,19 @@
 // Affordability and limit calculation engine
 
 import { BUSINESS_RULES, PRICING } from './types.tsx';
-import type { BNPLLimit, EmployerPolicy } from './types.tsx';
+import type { BNPLInstallment, BNPLLimit, ContractPricing, EmployerPolicy } from './types.tsx';
+import { identifyBindingConstraint } from '../_shared/credit-decision.ts';
+import type { DecisionFactors } from '../_shared/credit-decision.ts';
+
+// Monthly rates under the standard pricing plan (customer pays the full fee)
+export const STANDARD_PRICING: ContractPricing = {
+  pricing_plan_id: 'standard',
+  interest_rate: PRICING.INTEREST_RATE,
+  operational_fee_rate: PRICING.OPERATIONAL_FEE,
+  collection_fee_rate: PRICING.COLLECTION_FEE,
+  total_fee_rate: PRICING.TOTAL_MONTHLY_FEE,
+  merchant_discount_rate: 0,
+};
 
 export interface AffordabilityResult {
   approved: boolean;
@@ -71,12 +83,13 @@ export function calculateAffordability(
 
 /**
  * Calculate total payable amount including all fees
+ * `totalFeeRate` is the customer's monthly rate under the order's pricing plan
  */
 export function calculateTotalPayable(
   principal: number,
   tenorMonths: number,
+  totalFeeRate: number = PRICING.TOTAL_MONTHLY_FEE,
 ): number {
-  const totalFeeRate = PRICING.TOTAL_MONTHLY_FEE;
   return principal * (1 + totalFeeRate * tenorMonths);
 }
 
@@ -86,8 +99,9 @@ export function calculateTotalPayable(
 export function calculateInstallmentAmount(
   principal: number,
   tenorMonths: number,
+  totalFeeRate: number = PRICING.TOTAL_MONTHLY_FEE,
 ): number {
-  const totalPayable = calculateTotalPayable(principal, tenorMonths);
+  const totalPayable = calculateTotalPayable(principal, tenorMonths, totalFeeRate);
   return totalPayable / tenorMonths;
 }
 
@@ -115,19 +129,151 @@ export function validateAmountWithinLimit(
   return { valid: true };
 }
 
+/**
+ * Factor breakdown for an order checked against a tenor limit
+ * The limit's headroom is what existing contracts leave of salary capacity;
+ * CRB score is informational here (limits are not CRB-adjusted)
+ */
+export function explainLimitDecision(
+  policy: EmployerPolicy,
+  limit: BNPLLimit,
+  requestedAmount: number,
+  crbScore: number | null = null,
+): DecisionFactors {
+  const tenorMonths = limit.tenor_months;
+  const monthlyFactor = (1 + PRICING.TOTAL_MONTHLY_FEE * tenorMonths) / tenorMonths;
+  const salaryCapacity = policy.net_salary * BUSINESS_RULES.MAX_DEBT_SERVICE_RATIO;
+  const availableCapacity = Math.max(0, limit.available_amount) * monthlyFactor;
+
+  const base = {
+    netSalary: policy.net_salary,
+    deductionRatio: BUSINESS_RULES.MAX_DEBT_SERVICE_RATIO,
+    salaryCapacity: Math.round(salaryCapacity),
+    existingDeductions: Math.round(Math.max(0, salaryCapacity - availableCapacity)),
+    availableCapacity: Math.round(availableCapacity),
+    tenorMonths,
+    salaryCapacityAmount: limit.max_amount,
+    capacityAmount: Math.max(0, limit.available_amount),
+    crbScore,
+    crbAdjustment: 1,
+    paymentHistoryAdjustment: 1,
+    deductionLimit: null,
+    creditLimit: null,
+    maxAmount: Math.max(0, limit.available_amount),
+    requestedAmount,
+  };
+
+  return { ...base, bindingConstraint: identifyBindingConstraint(base) };
+}
+
 /**
  * Calculate fee breakdown
+ * Customer fees follow the pricing plan; the merchant discount is the part of
+ * the monthly fee the merchant subsidises (withheld at settlement)
  */
-export function calculateFeeBreakdown(principal: number, tenorMonths: number) {
+export function calculateFeeBreakdown(
+  principal: number,
+  tenorMonths: number,
+  pricing: ContractPricing = STANDARD_PRICING,
+) {
+  const merchantDiscount = Math.round(principal * pricing.merchant_discount_rate * tenorMonths);
+
   return {
     principal,
-    interest: principal * PRICING.INTEREST_RATE * tenorMonths,
-    operational_fee: principal * PRICING.OPERATIONAL_FEE * tenorMonths,
-    collection_fee: principal * PRICING.COLLECTION_FEE * tenorMonths,
-    total_fees:
-      principal * PRICING.TOTAL_MONTHLY_FEE * tenorMonths,
-    total_payable: calculateTotalPayable(principal, tenorMonths),
-    installment_amount: calculateInstallmentAmount(principal, tenorMonths),
+    pricing_plan_id: pricing.pricing_plan_id,
+    interest: principal * pricing.interest_rate * tenorMonths,
+    operational_fee: principal * pricing.operational_fee_rate * tenorMonths,
+    collection_fee: principal * pricing.collection_fee_rate * tenorMonths,
+    total_fees: principal * pricing.total_fee_rate * tenorMonths,
+    total_payable: calculateTotalPayable(principal, tenorMonths, pricing.total_fee_rate),
+    installment_amount: calculateInstallmentAmount(principal, tenorMonths, pricing.total_fee_rate),
+    merchant_discount_rate: pricing.merchant_discount_rate,
+    merchant_discount: merchantDiscount,
+    merchant_settlement_amount: principal - merchantDiscount,
     tenor_months: tenorMonths,
   };
 }
+
+/**
+ * Re-amortize the remaining installments after the principal is reduced
+ * (e.g. a partial refund). Paid installments are left untouched; the new
+ * outstanding balance is spread across the open installments in whole UGX.
+ */
+export function calculateReamortization(
+  principal: number,
+  tenorMonths: number,
+  installments: Pick<BNPLInstallment, 'amount_due' | 'amount_paid' | 'status'>[],
+  totalFeeRate: number = PRICING.TOTAL_MONTHLY_FEE,
+): {
+  total_payable: number;
+  installment_amount: number;
+  installment_amounts: number[];
+  outstanding_amount: number;
+  overpaid_amount: number;
+} {
+  const totalPayable = calculateTotalPayable(principal, tenorMonths, totalFeeRate);
+  const totalPaid = installments.reduce((sum, i) => sum + i.amount_paid, 0);
+  const outstanding = totalPayable - totalPaid;
+
+  // The rounding remainder goes on the last open installment
+  const openIndexes = installments.flatMap((i, idx) => (i.status === 'PAID' ? [] : [idx]));
+  const openOutstanding = Math.round(Math.max(0, outstanding));
+  const share = openIndexes.length > 0 ? Math.floor(openOutstanding / openIndexes.length) : 0;
+  const lastOpen = openIndexes[openIndexes.length - 1];
+  const remainder = openOutstanding - share * openIndexes.length;
+
+  return {
+    total_payable: totalPayable,
+    installment_amount: calculateInstallmentAmount(principal, tenorMonths, totalFeeRate),
+    installment_amounts: installments.map((i, idx) =>
+      i.status === 'PAID' ? i.amount_due : i.amount_paid + share + (idx === lastOpen ? remainder : 0)
+    ),
+    outstanding_amount: Math.max(0, outstanding),
+    overpaid_amount: Math.max(0, -outstanding),
+  };
+}
+
+/**
+ * Early settlement payoff as of a date. Interest for months that have not
+ * started yet is unearned and rebated; operational and collection fees are
+ * earned in full. The current month counts as elapsed. `interestRate` is
+ * the customer's monthly interest under the contract's pricing plan.
+ */
+export function calculateEarlySettlement(
+  principal: number,
+  tenorMonths: number,
+  startDate: Date,
+  installments: Pick<BNPLInstallment, 'amount_due' | 'amount_paid' | 'status'>[],
+  asOf: Date,
+  interestRate: number = PRICING.INTEREST_RATE,
+): {
+  outstanding_amount: number;
+  elapsed_months: number;
+  unearned_months: number;
+  interest_rebate: number;
+  payoff_amount: number;
+} {
+  const outstanding = installments.reduce(
+    (sum, i) => sum + (i.status === 'PAID' ? 0 : Math.max(0, i.amount_due - i.amount_paid)),
+    0,
+  );
+
+  const monthsSinceStart =
+    (asOf.getFullYear() - startDate.getFullYear()) * 12 + (asOf.getMonth() - startDate.getMonth());
+  const elapsedMonths = Math.min(tenorMonths, Math.max(1, monthsSinceStart + 1));
+  const unearnedMonths = tenorMonths - elapsedMonths;
+
+  // Never rebate more than is still owed
+  const interestRebate = Math.min(
+    outstanding,
+    Math.floor(principal * interestRate * unearnedMonths),
+  );
+
+  return {
+    outstanding_amount: outstanding,
+    elapsed_months: elapsedMonths,
+    unearned_months: unearnedMonths,
+    interest_rebate: interestRebate,
+    payoff_amount: outstanding - interestRebate,
+  };
+}
@@ -1,11 +1,24 @@
 // Audit logging service - immutable financial event tracking
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import * as kv from './kv_store.tsx';
 import { v4 as uuidv4 } from 'npm:uuid';
 import type { AuditLog } from './types.tsx';
+import { INDEX, ALL_PARTITION, addToIndexes, clearIndex, queryRecords, parseRecords } from './kv-index.tsx';
+import type { IndexEntry, Page, QueryOptions } from './kv-index.tsx';
 
 const AUDIT_PREFIX = 'audit:';
 
+// Authenticated principal of the current request, stamped on every audit entry
+const requestPrincipal = new AsyncLocalStorage<string>();
+
+/**
+ * Run a request handler as an authenticated principal
+ */
+export function runAsPrincipal<T>(principal: string, fn: () => Promise<T>): Promise<T> {
+  return requestPrincipal.run(principal, fn);
+}
+
 /**
  * Create immutable audit log entry
  */
@@ -29,47 +42,32 @@ export async function createAuditLog(data: {
     timestamp: now,
   };
 
+  const principal = requestPrincipal.getStore();
+  if (principal) {
+    auditLog.authenticated_as = principal;
+  }
+
   // Store with timestamp-based key for chronological ordering
   const key = `${AUDIT_PREFIX}${now}:${auditId}`;
   await kv.set(key, JSON.stringify(auditLog));
 
-  // Also store by entity for easy lookup
-  const entityKey = `${AUDIT_PREFIX}entity:${data.entity_type}:${data.entity_id}:${now}`;
-  await kv.set(entityKey, auditId);
+  // Index by entity and by date for lookups
+  await addToIndexes(auditIndexEntries(auditLog, key));
 
   return auditLog;
 }
 
 /**
- * Get audit logs for an entity
+ * Get audit logs for an entity (newest first)
  */
 export async function getAuditLogs(
   entityType: string,
-  entityId: string
-): Promise<AuditLog[]> {
-  const prefix = `${AUDIT_PREFIX}entity:${entityType}:${entityId}:`;
-  const keys = await kv.getByPrefix(prefix);
-  
-  const logs: AuditLog[] = [];
-  for (const key of keys) {
-    const auditId = await kv.get(key);
-    if (auditId) {
-      // Find the actual audit log
-      const allAuditKeys = await kv.getByPrefix(AUDIT_PREFIX);
-      for (const auditKey of allAuditKeys) {
-        if (auditKey.includes(auditId)) {
-          const data = await kv.get(auditKey);
-          if (data) {
-            logs.push(JSON.parse(data));
-            break;
-          }
-        }
-      }
-    }
-  }
-  
-  return logs.sort((a, b) => 
-    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  entityId: string,
+  options: QueryOptions = {}
+): Promise<Page<AuditLog>> {
+  return queryRecords<AuditLog>(
+    [{ index: INDEX.AUDIT_ENTITY, partition: `${entityType}:${entityId}` }],
+    { ...options, order: 'desc' }
   );
 }
 
@@ -77,19 +75,35 @@ export async function getAuditLogs(
  * Get recent audit logs (for monitoring)
  */
 export async function getRecentAuditLogs(limit: number = 100): Promise<AuditLog[]> {
-  const allKeys = await kv.getByPrefix(AUDIT_PREFIX);
-  const logs: AuditLog[] = [];
-  
-  for (const key of allKeys) {
-    if (!key.includes('entity:')) {
-      const data = await kv.get(key);
-      if (data) {
-        logs.push(JSON.parse(data));
-      }
-    }
+  const page = await queryRecords<AuditLog>(
+    [{ index: INDEX.AUDIT_CREATED, partition: ALL_PARTITION }],
+    { limit, order: 'desc' }
+  );
+  return page.items;
+}
+
+/**
+ * Rebuild audit indexes from the stored audit logs
+ */
+export async function rebuildAuditIndexes(): Promise<number> {
+  await clearIndex(INDEX.AUDIT_ENTITY);
+  await clearIndex(INDEX.AUDIT_CREATED);
+
+  const logs = parseRecords<AuditLog>(
+    await kv.getByPrefix(AUDIT_PREFIX),
+    (value) => Boolean(value.id && value.entity_type && value.timestamp)
+  );
+  for (const log of logs) {
+    await addToIndexes(auditIndexEntries(log, `${AUDIT_PREFIX}${log.timestamp}:${log.id}`));
   }
-  
-  return logs
-    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-    .slice(0, limit);
+
+  return logs.length;
+}
+
+function auditIndexEntries(log: AuditLog, key: string): IndexEntry[] {
+  const base = { sort: log.timestamp, id: log.id, key };
+  return [
+    { ...base, index: INDEX.AUDIT_ENTITY, partition: `${log.entity_type}:${log.entity_id}` },
+    { ...base, index: INDEX.AUDIT_CREATED, partition: ALL_PARTITION },
+  ];
 }
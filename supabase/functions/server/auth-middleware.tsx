@@ -0,0 +1,124 @@
+// API key middleware - authenticates merchant/employer callers and binds the request to their tenant
+
+import type { Context, MiddlewareHandler } from 'npm:hono';
+import type { ApiScope, ApiTenantType, BNPLCustomer } from './types.tsx';
+import { authenticateApiKey, authenticateCustomer, authenticateServiceRole } from './auth-service.tsx';
+import type { AuthContext } from './auth-service.tsx';
+import { runAsPrincipal } from './audit-service.tsx';
+
+const SERVICE_ROLE_PRINCIPAL = 'service_role';
+
+export type AppEnv = { Variables: { auth: AuthContext; customer: BNPLCustomer; principal: string } };
+
+// Route parameter that names the tenant, checked against the key's tenant
+const TENANT_PARAM: Record<ApiTenantType, string> = {
+  MERCHANT: 'merchantId',
+  EMPLOYER: 'employerId',
+};
+
+/**
+ * Require an API key of the given tenant type holding `scope`.
+ * Keys go in `X-API-Key`; the tenant's original (legacy) key also needs
+ * `X-Tenant-Id`. Requests naming another tenant in the path are rejected.
+ */
+export function requireApiKey(tenantType: ApiTenantType, scope: ApiScope): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const apiKey = c.req.header('X-API-Key');
+    if (!apiKey) {
+      return c.json({ error: 'Missing X-API-Key header' }, 401);
+    }
+
+    const auth = await authenticateApiKey(apiKey, tenantType, c.req.header('X-Tenant-Id'));
+    if (!auth) {
+      return c.json({ error: 'Invalid, expired or revoked API key' }, 401);
+    }
+
+    if (!auth.scopes.includes(scope)) {
+      return c.json({ error: `API key is missing the ${scope} scope` }, 403);
+    }
+
+    const pathTenant = c.req.param(TENANT_PARAM[tenantType]);
+    if (pathTenant && pathTenant !== auth.tenant_id) {
+      return c.json({ error: 'API key is not valid for this tenant' }, 403);
+    }
+
+    c.set('auth', auth);
+    c.set('principal', auth.principal);
+    await runAsPrincipal(auth.principal, () => next());
+  };
+}
+
+/**
+ * Require the service role key as a bearer token (operator and scheduled-job endpoints)
+ */
+export function requireServiceRole(): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const token = (c.req.header('Authorization') || '').replace(/^Bearer\s+/i, '');
+    if (!(await authenticateServiceRole(token))) {
+      return c.json({ error: 'Service role authorization required' }, 401);
+    }
+
+    c.set('principal', SERVICE_ROLE_PRINCIPAL);
+    await runAsPrincipal(SERVICE_ROLE_PRINCIPAL, () => next());
+  };
+}
+
+/**
+ * Require a customer's phone number and PIN (`X-Customer-Phone`, `X-Customer-Pin`).
+ * With `allowServiceRole`, operator calls holding the service role key pass too.
+ */
+export function requireCustomer(options: { allowServiceRole?: boolean } = {}): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    if (options.allowServiceRole) {
+      const token = (c.req.header('Authorization') || '').replace(/^Bearer\s+/i, '');
+      if (await authenticateServiceRole(token)) {
+        c.set('principal', SERVICE_ROLE_PRINCIPAL);
+        return await runAsPrincipal(SERVICE_ROLE_PRINCIPAL, () => next());
+      }
+    }
+
+    const phoneNumber = c.req.header('X-Customer-Phone');
+    const pin = c.req.header('X-Customer-Pin');
+    if (!phoneNumber || !pin) {
+      return c.json({ error: 'Missing X-Customer-Phone or X-Customer-Pin header' }, 401);
+    }
+
+    const { customer, reason } = await authenticateCustomer(phoneNumber, pin);
+    if (!customer) {
+      return c.json({ error: 'Customer authentication failed', details: reason }, 401);
+    }
+
+    const principal = `customer:${customer.id}`;
+    c.set('customer', customer);
+    c.set('principal', principal);
+    await runAsPrincipal(principal, () => next());
+  };
+}
+
+/**
+ * Authenticated customer of the current request (unset for service role calls)
+ */
+export function getAuthenticatedCustomer(c: Context<AppEnv>): BNPLCustomer | undefined {
+  return c.get('customer');
+}
+
+/**
+ * Principal of the current request, recorded as the actor of the changes it makes
+ */
+export function getPrincipal(c: Context<AppEnv>): string {
+  return c.get('principal');
+}
+
+/**
+ * Authenticated caller of the current request
+ */
+export function getAuth(c: Context<AppEnv>): AuthContext {
+  return c.get('auth');
+}
+
+/**
+ * Whether a tenant id named in a body or a loaded record belongs to the caller
+ */
+export function isOwnTenant(c: Context<AppEnv>, tenantId: string | null | undefined): boolean {
+  return tenantId === getAuth(c).tenant_id;
+}
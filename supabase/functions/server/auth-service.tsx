@@ -0,0 +1,297 @@
+// API credential service - scoped merchant/employer API keys with rotation overlap
+
+import * as kv from './kv_store.tsx';
+import type { ApiCredential, ApiScope, ApiTenantType, BNPLCustomer, Employer, Merchant } from './types.tsx';
+import { createAuditLog } from './audit-service.tsx';
+import { getCustomerByPhone, getPolicyByPayrollId, verifyPIN } from './policy-service.tsx';
+import { INDEX, addToIndexes, clearIndex, queryAllRecords, parseRecords } from './kv-index.tsx';
+import type { IndexEntry } from './kv-index.tsx';
+
+const CREDENTIAL_PREFIX = 'api_key:';
+const KEY_PREFIX = 'bnpl';
+
+// Scopes a tenant type may hold (legacy keys get all of them)
+export const TENANT_SCOPES: Record<ApiTenantType, ApiScope[]> = {
+  MERCHANT: ['orders:read', 'orders:write', 'refunds:write', 'disputes:write', 'webhooks:manage', 'keys:manage'],
+  EMPLOYER: ['deductions:read', 'deductions:write', 'remittance:write', 'employees:write', 'keys:manage'],
+};
+
+export const DEFAULT_ROTATION_OVERLAP_HOURS = 24;
+const MAX_ROTATION_OVERLAP_HOURS = 24 * 7;
+
+// last_used_at is refreshed at most this often, not on every request
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+export interface AuthContext {
+  tenant_type: ApiTenantType;
+  tenant_id: string;
+  key_id: string; // 'legacy' for the tenant's original api_key_hash
+  scopes: ApiScope[];
+  principal: string; // e.g. merchant:MERCH-001/key:3f9a1c2b7d4e
+}
+
+/**
+ * Issue a new API key. The plaintext key is returned once and never stored.
+ */
+export async function issueApiKey(
+  tenantType: ApiTenantType,
+  tenantId: string,
+  scopes: ApiScope[],
+  actor: string,
+  label: string | null = null
+): Promise<{ credential: ApiCredential; api_key: string }> {
+  if (!(await getTenant(tenantType, tenantId))) {
+    throw new Error(`${tenantType.toLowerCase()} ${tenantId} not found`);
+  }
+
+  const invalid = scopes.filter((s) => !TENANT_SCOPES[tenantType].includes(s));
+  if (scopes.length === 0 || invalid.length > 0) {
+    throw new Error(
+      `Invalid scopes for ${tenantType}: ${invalid.join(', ') || '(none)'}; allowed ${TENANT_SCOPES[tenantType].join(', ')}`
+    );
+  }
+
+  const keyId = randomHex(6);
+  const apiKey = `${KEY_PREFIX}_${keyId}_${randomHex(32)}`;
+  const credential: ApiCredential = {
+    id: keyId,
+    tenant_type: tenantType,
+    tenant_id: tenantId,
+    label,
+    key_hash: await sha256Hex(apiKey),
+    scopes: [...new Set(scopes)],
+    status: 'ACTIVE',
+    expires_at: null,
+    replaced_by: null,
+    created_at: new Date().toISOString(),
+    created_by: actor,
+    last_used_at: null,
+    revoked_at: null,
+  };
+
+  await kv.set(`${CREDENTIAL_PREFIX}${keyId}`, JSON.stringify(credential));
+  await addToIndexes([tenantIndexEntry(credential)]);
+
+  await createAuditLog({
+    entity_type: tenantType.toLowerCase(),
+    entity_id: tenantId,
+    action: 'api_key_issued',
+    actor,
+    changes: { key_id: keyId, scopes: credential.scopes, label },
+  });
+
+  return { credential, api_key: apiKey };
+}
+
+/**
+ * Rotate a key: issue a replacement with the same scopes and let the old key
+ * keep working for the overlap window
+ */
+export async function rotateApiKey(
+  keyId: string,
+  actor: string,
+  overlapHours: number = DEFAULT_ROTATION_OVERLAP_HOURS
+): Promise<{ credential: ApiCredential; api_key: string; previous: ApiCredential }> {
+  const previous = await getCredential(keyId);
+  if (!previous || previous.status !== 'ACTIVE') {
+    throw new Error(`API key ${keyId} not found or not active`);
+  }
+  if (!(overlapHours >= 0 && overlapHours <= MAX_ROTATION_OVERLAP_HOURS)) {
+    throw new Error(`Overlap must be between 0 and ${MAX_ROTATION_OVERLAP_HOURS} hours`);
+  }
+
+  const issued = await issueApiKey(previous.tenant_type, previous.tenant_id, previous.scopes, actor, previous.label);
+
+  // An earlier expiry from a previous rotation is kept
+  const expiresAt = new Date(Date.now() + overlapHours * 60 * 60 * 1000).toISOString();
+  previous.expires_at = previous.expires_at && previous.expires_at < expiresAt ? previous.expires_at : expiresAt;
+  previous.replaced_by = issued.credential.id;
+  await kv.set(`${CREDENTIAL_PREFIX}${keyId}`, JSON.stringify(previous));
+
+  await createAuditLog({
+    entity_type: previous.tenant_type.toLowerCase(),
+    entity_id: previous.tenant_id,
+    action: 'api_key_rotated',
+    actor,
+    changes: { key_id: keyId, replaced_by: issued.credential.id, expires_at: previous.expires_at },
+  });
+
+  return { ...issued, previous };
+}
+
+/**
+ * Revoke a key immediately
+ */
+export async function revokeApiKey(keyId: string, actor: string): Promise<ApiCredential> {
+  const credential = await getCredential(keyId);
+  if (!credential) {
+    throw new Error(`API key ${keyId} not found`);
+  }
+
+  credential.status = 'REVOKED';
+  credential.revoked_at = new Date().toISOString();
+  await kv.set(`${CREDENTIAL_PREFIX}${keyId}`, JSON.stringify(credential));
+
+  await createAuditLog({
+    entity_type: credential.tenant_type.toLowerCase(),
+    entity_id: credential.tenant_id,
+    action: 'api_key_revoked',
+    actor,
+    changes: { key_id: keyId },
+  });
+
+  return credential;
+}
+
+/**
+ * List a tenant's keys (hashes stripped)
+ */
+export async function listApiKeys(
+  tenantType: ApiTenantType,
+  tenantId: string
+): Promise<Omit<ApiCredential, 'key_hash'>[]> {
+  const credentials = await queryAllRecords<ApiCredential>([
+    { index: INDEX.API_KEY_TENANT, partition: `${tenantType}:${tenantId}` },
+  ]);
+  return credentials.map(({ key_hash: _hash, ...rest }) => rest);
+}
+
+/**
+ * Get a stored credential
+ */
+export async function getCredential(keyId: string): Promise<ApiCredential | null> {
+  const data = await kv.get(`${CREDENTIAL_PREFIX}${keyId}`);
+  return data ? JSON.parse(data) : null;
+}
+
+/**
+ * Authenticate a presented API key. Issued keys carry their key id; the
+ * tenant's original key (api_key_hash on the tenant record) needs the tenant
+ * id alongside it and is granted every scope of its tenant type.
+ */
+export async function authenticateApiKey(
+  apiKey: string,
+  tenantType: ApiTenantType,
+  legacyTenantId?: string | null
+): Promise<AuthContext | null> {
+  const match = apiKey.match(new RegExp(`^${KEY_PREFIX}_([0-9a-f]{12})_[0-9a-f]{64}$`));
+
+  if (!match) {
+    if (!legacyTenantId) return null;
+
+    const tenant = await getTenant(tenantType, legacyTenantId);
+    if (!tenant || !tenant.api_key_hash || tenant.status !== 'ACTIVE') return null;
+
+    const bcrypt = await import('npm:bcrypt');
+    if (!(await bcrypt.compare(apiKey, tenant.api_key_hash))) return null;
+
+    return authContext(tenantType, tenant.id, 'legacy', TENANT_SCOPES[tenantType]);
+  }
+
+  const credential = await getCredential(match[1]);
+  if (!credential || credential.tenant_type !== tenantType || credential.status !== 'ACTIVE') return null;
+
+  const now = new Date();
+  if (credential.expires_at && new Date(credential.expires_at) <= now) return null;
+  if (!timingSafeEqual(await sha256Hex(apiKey), credential.key_hash)) return null;
+
+  const tenant = await getTenant(tenantType, credential.tenant_id);
+  if (!tenant || tenant.status !== 'ACTIVE') return null;
+
+  if (!credential.last_used_at || now.getTime() - new Date(credential.last_used_at).getTime() > LAST_USED_RESOLUTION_MS) {
+    credential.last_used_at = now.toISOString();
+    await kv.set(`${CREDENTIAL_PREFIX}${credential.id}`, JSON.stringify(credential));
+  }
+
+  return authContext(tenantType, credential.tenant_id, credential.id, credential.scopes);
+}
+
+/**
+ * Whether a bearer token is the project's service role key (operator and scheduled-job calls)
+ */
+export async function authenticateServiceRole(token: string): Promise<boolean> {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!serviceRoleKey || !token) return false;
+  return timingSafeEqual(await sha256Hex(token), await sha256Hex(serviceRoleKey));
+}
+
+/**
+ * Authenticate a customer by phone number and PIN against their policy's PIN
+ * (failed attempts count towards the PIN lockout)
+ */
+export async function authenticateCustomer(
+  phoneNumber: string,
+  pin: string
+): Promise<{ customer: BNPLCustomer | null; reason?: string }> {
+  const customer = await getCustomerByPhone(phoneNumber);
+  if (!customer || customer.status !== 'ACTIVE') return { customer: null, reason: 'Unknown customer' };
+
+  const policy = await getPolicyByPayrollId(customer.employer_id, customer.payroll_employee_id);
+  if (!policy) return { customer: null, reason: 'Unknown customer' };
+
+  const result = await verifyPIN(policy.policy_number, pin);
+  return result.verified ? { customer } : { customer: null, reason: result.reason };
+}
+
+/**
+ * Rebuild the tenant index from stored credentials
+ */
+export async function rebuildApiKeyIndexes(): Promise<number> {
+  await clearIndex(INDEX.API_KEY_TENANT);
+
+  const credentials = parseRecords<ApiCredential>(
+    await kv.getByPrefix(CREDENTIAL_PREFIX),
+    (value) => Boolean(value.id && value.tenant_type && value.key_hash)
+  );
+  await addToIndexes(credentials.map(tenantIndexEntry));
+
+  return credentials.length;
+}
+
+function authContext(tenantType: ApiTenantType, tenantId: string, keyId: string, scopes: ApiScope[]): AuthContext {
+  return {
+    tenant_type: tenantType,
+    tenant_id: tenantId,
+    key_id: keyId,
+    scopes,
+    principal: `${tenantType.toLowerCase()}:${tenantId}/key:${keyId}`,
+  };
+}
+
+async function getTenant(tenantType: ApiTenantType, tenantId: string): Promise<Merchant | Employer | null> {
+  const data = await kv.get(`${tenantType === 'MERCHANT' ? 'merchant' : 'employer'}:${tenantId}`);
+  return data ? JSON.parse(data) : null;
+}
+
+function tenantIndexEntry(credential: ApiCredential): IndexEntry {
+  return {
+    index: INDEX.API_KEY_TENANT,
+    partition: `${credential.tenant_type}:${credential.tenant_id}`,
+    sort: credential.created_at,
+    id: credential.id,
+    key: `${CREDENTIAL_PREFIX}${credential.id}`,
+  };
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Keys are high-entropy random strings, so a fast hash is enough (unlike PINs)
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
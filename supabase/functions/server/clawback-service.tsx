@@ -0,0 +1,125 @@
+// Clawback service - recovering money from merchants who were paid before a dispute was decided against them
+
+import * as kv from './kv_store.tsx';
+import { v4 as uuidv4 } from 'npm:uuid';
+import type { MerchantClawback } from './types.tsx';
+import { createAuditLog } from './audit-service.tsx';
+import { parseRecords } from './kv-index.tsx';
+
+const CLAWBACK_PREFIX = 'merchant_clawback:';
+
+/**
+ * Record what a merchant owes back; it is withheld from their later escrow releases
+ */
+export async function recordMerchantClawback(
+  data: {
+    merchant_id: string;
+    contract_id: string;
+    amount: number;
+    reason: MerchantClawback['reason'];
+    case_reference?: string | null;
+  },
+  actor: string
+): Promise<MerchantClawback> {
+  if (!(data.amount > 0)) {
+    throw new Error('Clawback amount must be greater than 0');
+  }
+
+  const clawback: MerchantClawback = {
+    id: uuidv4(),
+    merchant_id: data.merchant_id,
+    contract_id: data.contract_id,
+    reason: data.reason,
+    case_reference: data.case_reference ?? null,
+    amount: data.amount,
+    recovered_amount: 0,
+    status: 'OUTSTANDING',
+    recoveries: [],
+    created_at: new Date().toISOString(),
+    recovered_at: null,
+  };
+
+  await saveClawback(clawback);
+
+  await createAuditLog({
+    entity_type: 'merchant_clawback',
+    entity_id: clawback.id,
+    action: 'recorded',
+    actor,
+    changes: {
+      merchant_id: clawback.merchant_id,
+      contract_id: clawback.contract_id,
+      amount: clawback.amount,
+      reason: clawback.reason,
+      case_reference: clawback.case_reference,
+    },
+  });
+
+  return clawback;
+}
+
+/**
+ * A merchant's clawbacks, oldest first
+ */
+export async function getMerchantClawbacks(
+  merchantId: string,
+  options: { outstanding?: boolean } = {}
+): Promise<MerchantClawback[]> {
+  const clawbacks = parseRecords<MerchantClawback>(
+    await kv.getByPrefix(`${CLAWBACK_PREFIX}${merchantId}:`),
+    (value) => Boolean(value.id && value.merchant_id)
+  );
+
+  return clawbacks
+    .filter((clawback) => !options.outstanding || clawback.status !== 'RECOVERED')
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * Total a merchant still owes across their clawbacks
+ */
+export async function getOutstandingClawbackAmount(merchantId: string): Promise<number> {
+  const clawbacks = await getMerchantClawbacks(merchantId, { outstanding: true });
+  return clawbacks.reduce((sum, clawback) => sum + (clawback.amount - clawback.recovered_amount), 0);
+}
+
+/**
+ * Apply an amount withheld from a release to the merchant's clawbacks, oldest first
+ */
+export async function applyClawbackRecovery(
+  merchantId: string,
+  amount: number,
+  releaseTransactionId: string
+): Promise<void> {
+  let remaining = amount;
+  const now = new Date().toISOString();
+
+  for (const clawback of await getMerchantClawbacks(merchantId, { outstanding: true })) {
+    if (remaining <= 0) break;
+
+    const recovered = Math.min(remaining, clawback.amount - clawback.recovered_amount);
+    remaining -= recovered;
+
+    clawback.recovered_amount += recovered;
+    clawback.recoveries.push({ release_transaction_id: releaseTransactionId, amount: recovered, recovered_at: now });
+    if (clawback.recovered_amount >= clawback.amount) {
+      clawback.status = 'RECOVERED';
+      clawback.recovered_at = now;
+    } else {
+      clawback.status = 'PARTIALLY_RECOVERED';
+    }
+    await saveClawback(clawback);
+
+    await createAuditLog({
+      entity_type: 'merchant_clawback',
+      entity_id: clawback.id,
+      action: 'recovered',
+      actor: 'system',
+      changes: { release_transaction_id: releaseTransactionId, amount: recovered, status: clawback.status },
+    });
+  }
+}
+
+async function saveClawback(clawback: MerchantClawback): Promise<void> {
+  await kv.set(`${CLAWBACK_PREFIX}${clawback.merchant_id}:${clawback.id}`, JSON.stringify(clawback));
+}
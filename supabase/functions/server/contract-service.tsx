@@ -7,19 +7,136 @@ import type {
   BNPLInstallment, 
   ContractState, 
   InstallmentStatus,
+  SettlementQuote,
+  PaymentAllocation,
+  ContractPricing,
+  CollectionTrack,
   EmployerDeductionInstruction,
-  DeductionStatus
+  DeductionStatus,
+  WebhookEventType,
+  ContractCreditDecision
 } from './types.tsx';
-import { PRICING } from './types.tsx';
-import { validateStateTransition } from './state-machine.tsx';
-import { calculateTotalPayable, calculateInstallmentAmount } from './affordability-engine.tsx';
+import { runTransition, isTerminalState, canTransitionTo, normalizeContractState } from './state-machine.tsx';
+import type { LifecycleBindings } from '../_shared/contract-lifecycle.ts';
+import {
+  calculateTotalPayable,
+  calculateInstallmentAmount,
+  calculateReamortization,
+  calculateEarlySettlement,
+  STANDARD_PRICING,
+} from './affordability-engine.tsx';
 import { getPolicy, getLimit, updateAvailableLimit } from './policy-service.tsx';
 import { createAuditLog } from './audit-service.tsx';
+import { getWaterfallPolicy, holdCustomerCredit } from './payment-allocation-service.tsx';
+import { emitOrderEvent } from './webhook-service.tsx';
+import { allocatePayment, splitInstallment } from '../_shared/waterfall.ts';
+import type { WaterfallInstallment } from '../_shared/waterfall.ts';
+import {
+  INDEX,
+  ALL_PARTITION,
+  addToIndexes,
+  removeFromIndexes,
+  clearIndex,
+  queryRecords,
+  queryAllRecords,
+  parseRecords,
+} from './kv-index.tsx';
+import type { IndexEntry, IndexCriterion, Page, QueryOptions } from './kv-index.tsx';
 
 const CONTRACT_PREFIX = 'contract:';
 const INSTALLMENT_PREFIX = 'installment:';
 const DEDUCTION_PREFIX = 'deduction:';
 
+export interface InstallmentPaymentResult {
+  contract_id: string;
+  amount: number;
+  applied: number;
+  credited: number; // Overpayment held as customer credit
+  allocations: Array<PaymentAllocation & { installment_number: number }>;
+}
+
+// Guards and side effects bound to lifecycle transitions
+const CONTRACT_LIFECYCLE: LifecycleBindings<BNPLContract> = {
+  guards: {
+    'ESCROW_HELD->DISBURSED': [
+      ({ metadata }) =>
+        metadata?.delivery_confirmed ? null : 'Delivery must be confirmed before escrow is released',
+    ],
+  },
+  hooks: {
+    '*->CUSTOMER_AUTHORIZED': [
+      ({ contract }) => {
+        contract.authorized_at = contract.updated_at;
+      },
+      ({ contract, to }) => emitContractEvent(contract, to, 'order.authorized'),
+    ],
+    '*->ESCROW_HELD': [
+      ({ contract, to, metadata }) => emitContractEvent(contract, to, 'order.escrow_held', {
+        pesapal_transaction_id: metadata?.pesapal_transaction_id ?? null,
+      }),
+    ],
+    '*->DISBURSED': [
+      ({ contract }) => {
+        contract.disbursed_at = contract.updated_at;
+      },
+      // Funds released from escrow to the merchant
+      ({ contract, to, metadata }) => emitContractEvent(contract, to, 'order.settled', {
+        pesapal_transaction_id: metadata?.pesapal_transaction_id ?? null,
+        merchant_discount_amount: metadata?.merchant_discount_amount ?? 0,
+      }),
+    ],
+    '*->DISPUTED': [
+      ({ contract, to, metadata }) => emitContractEvent(contract, to, 'order.disputed', {
+        reason: metadata?.refund_reason ?? metadata?.reason ?? null,
+      }),
+    ],
+    // Dispute raised before delivery, resolved against the customer: escrow released on resolution
+    'DISPUTED->IN_REPAYMENT': [
+      async ({ contract, to, metadata }) => {
+        if (!metadata?.escrow_released) return;
+        contract.disbursed_at = contract.updated_at;
+        await emitContractEvent(contract, to, 'order.settled', {
+          pesapal_transaction_id: metadata.pesapal_transaction_id ?? null,
+          merchant_discount_amount: metadata.merchant_discount_amount ?? 0,
+        });
+      },
+    ],
+    '*->REFUNDED': [
+      // Return the refunded principal to the customer's limit
+      ({ contract }) => updateAvailableLimit(contract.policy_number, contract.tenor_months, contract.principal_amount),
+    ],
+    '*->DEFAULTED': [
+      ({ contract }) => {
+        contract.defaulted_at = contract.updated_at;
+      },
+    ],
+    '*->CLOSED': [
+      async ({ contract }) => {
+        contract.closed_at = contract.updated_at;
+
+        // Release limit when contract closes
+        await updateAvailableLimit(contract.policy_number, contract.tenor_months, contract.principal_amount);
+      },
+    ],
+  },
+};
+
+// Hooks run before the new state is saved, so it is passed in
+async function emitContractEvent(
+  contract: BNPLContract,
+  state: string,
+  type: WebhookEventType,
+  data: Record<string, unknown> = {}
+): Promise<void> {
+  await emitOrderEvent(contract.merchant_id, type, {
+    order_id: contract.order_id,
+    contract_id: contract.id,
+    state,
+    amount: contract.principal_amount,
+    ...data,
+  });
+}
+
 /**
  * Create a new BNPL contract
  */
@@ -30,6 +147,8 @@ export async function createContract(data: {
   principal_amount: number;
   tenor_months: 1 | 2 | 3;
   customer_id: string;
+  pricing?: ContractPricing; // Standard pricing when absent
+  credit_decision?: ContractCreditDecision;
 }): Promise<BNPLContract> {
   const contractId = uuidv4();
   const now = new Date().toISOString();
@@ -55,8 +174,9 @@ export async function createContract(data: {
   }
 
   // Calculate payment details
-  const totalPayable = calculateTotalPayable(data.principal_amount, data.tenor_months);
-  const installmentAmount = calculateInstallmentAmount(data.principal_amount, data.tenor_months);
+  const pricing = data.pricing ?? STANDARD_PRICING;
+  const totalPayable = calculateTotalPayable(data.principal_amount, data.tenor_months, pricing.total_fee_rate);
+  const installmentAmount = calculateInstallmentAmount(data.principal_amount, data.tenor_months, pricing.total_fee_rate);
 
   // Create contract
   const contract: BNPLContract = {
@@ -67,10 +187,12 @@ export async function createContract(data: {
     order_id: data.order_id,
     principal_amount: data.principal_amount,
     tenor_months: data.tenor_months,
-    interest_rate: PRICING.INTEREST_RATE,
-    operational_fee_rate: PRICING.OPERATIONAL_FEE,
-    collection_fee_rate: PRICING.COLLECTION_FEE,
-    total_fee_rate: PRICING.TOTAL_MONTHLY_FEE,
+    interest_rate: pricing.interest_rate,
+    operational_fee_rate: pricing.operational_fee_rate,
+    collection_fee_rate: pricing.collection_fee_rate,
+    total_fee_rate: pricing.total_fee_rate,
+    pricing_plan_id: pricing.pricing_plan_id,
+    merchant_discount_rate: pricing.merchant_discount_rate,
     total_payable: totalPayable,
     installment_amount: installmentAmount,
     state: 'PRE_APPROVED' as ContractState,
@@ -81,11 +203,13 @@ export async function createContract(data: {
     authorized_at: null,
     disbursed_at: null,
     closed_at: null,
+    credit_decision: data.credit_decision,
   };
 
   // Store contract
   await kv.set(`${CONTRACT_PREFIX}${contractId}`, JSON.stringify(contract));
   await kv.set(`${CONTRACT_PREFIX}order:${data.order_id}`, contractId);
+  await addToIndexes(contractIndexEntries(contract, policy.employer_id));
   
   // Create installments
   await createInstallments(contract);
@@ -136,27 +260,22 @@ export async function updateContractState(
     throw new Error(`Contract ${contractId} not found`);
   }
 
-  // Validate state transition
-  validateStateTransition(contract.state, newState);
-
+  // Validate against the shared lifecycle, then run transition hooks
   const oldState = contract.state;
-  contract.state = newState;
   contract.updated_at = new Date().toISOString();
+  await runTransition(CONTRACT_LIFECYCLE, {
+    contract,
+    from: oldState,
+    to: newState,
+    actor,
+    metadata,
+  });
+  contract.state = newState;
 
-  // Update timestamps based on state
-  if (newState === 'CUSTOMER_AUTHORIZED') {
-    contract.authorized_at = contract.updated_at;
-  } else if (newState === 'DISBURSED') {
-    contract.disbursed_at = contract.updated_at;
-  } else if (newState === 'CLOSED') {
-    contract.closed_at = contract.updated_at;
-    
-    // Release limit when contract closes
-    await updateAvailableLimit(contract.policy_number, contract.tenor_months, contract.principal_amount);
-  }
-
-  // Store updated contract
+  // Store updated contract and move it to the new state partition
   await kv.set(`${CONTRACT_PREFIX}${contractId}`, JSON.stringify(contract));
+  await removeFromIndexes([stateIndexEntry(contractId, oldState, contract.created_at)]);
+  await addToIndexes([stateIndexEntry(contractId, newState, contract.created_at)]);
 
   // Audit log
   await createAuditLog({
@@ -174,6 +293,306 @@ export async function updateContractState(
   return contract;
 }
 
+/**
+ * Check a partial refund can be applied (throws with the reason when not)
+ * Run before moving any money so a rejected refund never reaches Pesapal
+ */
+export function validatePartialRefund(contract: BNPLContract, refundAmount: number): void {
+  if (isTerminalState(contract.state) || contract.state === 'DISPUTED') {
+    throw new Error(`Cannot partially refund contract in ${contract.state} state`);
+  }
+
+  if (refundAmount <= 0 || refundAmount >= contract.principal_amount) {
+    throw new Error(
+      `Partial refund ${refundAmount} must be greater than 0 and less than principal ${contract.principal_amount}`
+    );
+  }
+}
+
+/**
+ * Apply a partial refund: reduce principal, re-amortize open installments,
+ * resync outstanding deduction instructions and release the freed limit
+ */
+export async function applyPartialRefund(
+  contractId: string,
+  refundAmount: number,
+  actor: string,
+  metadata?: Record<string, any>
+): Promise<{
+  contract: BNPLContract;
+  installments: BNPLInstallment[];
+  previous_total_payable: number;
+  overpaid_amount: number;
+}> {
+  const contract = await getContract(contractId);
+  if (!contract) {
+    throw new Error(`Contract ${contractId} not found`);
+  }
+
+  validatePartialRefund(contract, refundAmount);
+
+  const installments = await getInstallments(contractId);
+  const newPrincipal = contract.principal_amount - refundAmount;
+  const schedule = calculateReamortization(newPrincipal, contract.tenor_months, installments, contract.total_fee_rate);
+  const now = new Date().toISOString();
+
+  for (let idx = 0; idx < installments.length; idx++) {
+    const installment = installments[idx];
+    if (installment.status === 'PAID') continue;
+
+    installment.amount_due = schedule.installment_amounts[idx];
+    if (installment.amount_paid >= installment.amount_due) {
+      installment.status = 'PAID' as InstallmentStatus;
+      installment.paid_at = now;
+    }
+    await kv.set(
+      `${INSTALLMENT_PREFIX}${contractId}:${installment.installment_number}`,
+      JSON.stringify(installment)
+    );
+
+    // Keep unexecuted employer deductions in line with the new schedule
+    if (installment.deduction_id) {
+      const deductionData = await kv.get(`${DEDUCTION_PREFIX}${installment.deduction_id}`);
+      if (deductionData) {
+        const deduction: EmployerDeductionInstruction = JSON.parse(deductionData);
+        if (deduction.status === 'SENT' || deduction.status === 'APPROVED') {
+          deduction.amount = Math.max(0, installment.amount_due - installment.amount_paid);
+          await kv.set(`${DEDUCTION_PREFIX}${deduction.id}`, JSON.stringify(deduction));
+        }
+      }
+    }
+  }
+
+  const previousTotalPayable = contract.total_payable;
+  contract.principal_amount = newPrincipal;
+  contract.total_payable = schedule.total_payable;
+  contract.installment_amount = schedule.installment_amount;
+  contract.updated_at = now;
+  await kv.set(`${CONTRACT_PREFIX}${contractId}`, JSON.stringify(contract));
+
+  // Return the refunded principal to the customer's limit
+  await updateAvailableLimit(contract.policy_number, contract.tenor_months, refundAmount);
+
+  // Payments already made beyond the new schedule are the customer's
+  if (schedule.overpaid_amount > 0) {
+    await holdCustomerCredit(
+      contract.customer_id,
+      schedule.overpaid_amount,
+      contractId,
+      metadata?.pesapal_transaction_id || metadata?.clawback_id || `PARTIAL-REFUND-${now}`
+    );
+  }
+
+  await createAuditLog({
+    entity_type: 'contract',
+    entity_id: contractId,
+    action: 'partial_refund',
+    actor,
+    changes: {
+      refund_amount: refundAmount,
+      old_total_payable: previousTotalPayable,
+      new_principal: newPrincipal,
+      new_total_payable: schedule.total_payable,
+      overpaid_amount: schedule.overpaid_amount,
+      metadata,
+    },
+  });
+
+  if (contract.state === 'IN_REPAYMENT') {
+    await checkAndCloseContract(contractId);
+  }
+
+  return {
+    contract: (await getContract(contractId)) ?? contract,
+    installments,
+    previous_total_payable: previousTotalPayable,
+    overpaid_amount: schedule.overpaid_amount,
+  };
+}
+
+/**
+ * Early settlement quote: payoff as of a date, net of the unearned-interest
+ * rebate and including outstanding penalties
+ */
+export async function getSettlementQuote(
+  contractId: string,
+  asOf: Date = new Date()
+): Promise<SettlementQuote> {
+  const contract = await getContract(contractId);
+  if (!contract) {
+    throw new Error(`Contract ${contractId} not found`);
+  }
+
+  return buildSettlementQuote(contract, await getInstallments(contractId), asOf);
+}
+
+/**
+ * Apply a customer prepayment. Outstanding penalties are settled first; a
+ * lump sum covering the payoff settles every open installment with the
+ * interest rebate and closes the contract, anything less is applied to the
+ * oldest open installments.
+ */
+export async function applyPrepayment(
+  contractId: string,
+  amount: number,
+  actor: string,
+  metadata?: Record<string, any>
+): Promise<{
+  contract: BNPLContract;
+  installments: BNPLInstallment[];
+  quote: SettlementQuote;
+  settled: boolean;
+  amount_applied: number;
+  overpaid_amount: number;
+}> {
+  const contract = await getContract(contractId);
+  if (!contract) {
+    throw new Error(`Contract ${contractId} not found`);
+  }
+
+  if (contract.state !== 'DISBURSED' && contract.state !== 'IN_REPAYMENT') {
+    throw new Error(`Cannot prepay contract in ${contract.state} state`);
+  }
+
+  if (!(amount > 0)) {
+    throw new Error(`Prepayment amount ${amount} must be greater than 0`);
+  }
+
+  const installments = await getInstallments(contractId);
+  const now = new Date();
+  const quote = buildSettlementQuote(contract, installments, now);
+  const settled = amount >= quote.payoff_amount;
+  let remaining = amount;
+
+  // Penalty charges are settled whole, oldest installment first
+  for (const installment of installments) {
+    for (const charge of installment.charges || []) {
+      const due = charge.amount - (charge.amount_paid || 0);
+      if (charge.status !== 'ACCRUED' || due > remaining) continue;
+      charge.amount_paid = charge.amount;
+      charge.status = 'PAID';
+      remaining -= due;
+    }
+  }
+
+  if (settled) {
+    // Rebate comes off the latest open installments first
+    let rebate = quote.interest_rebate;
+    for (const installment of [...installments].reverse()) {
+      if (installment.status === 'PAID' || rebate <= 0) continue;
+      const reduction = Math.min(rebate, Math.max(0, installment.amount_due - installment.amount_paid));
+      installment.amount_due -= reduction;
+      rebate -= reduction;
+    }
+  }
+
+  for (const installment of installments) {
+    if (installment.status === 'PAID') continue;
+
+    const payment = Math.min(remaining, Math.max(0, installment.amount_due - installment.amount_paid));
+    installment.amount_paid += payment;
+    remaining -= payment;
+    if (installment.amount_paid >= installment.amount_due) {
+      installment.status = 'PAID' as InstallmentStatus;
+      installment.paid_at = now.toISOString();
+    }
+  }
+
+  for (const installment of installments) {
+    await kv.set(
+      `${INSTALLMENT_PREFIX}${contractId}:${installment.installment_number}`,
+      JSON.stringify(installment)
+    );
+
+    await syncOpenDeduction(installment);
+  }
+
+  if (settled) {
+    contract.total_payable -= quote.interest_rebate;
+    contract.past_due_amount = 0;
+    contract.days_past_due = 0;
+  }
+  contract.updated_at = now.toISOString();
+  await kv.set(`${CONTRACT_PREFIX}${contractId}`, JSON.stringify(contract));
+
+  await createAuditLog({
+    entity_type: 'contract',
+    entity_id: contractId,
+    action: settled ? 'early_settlement' : 'prepayment',
+    actor,
+    changes: {
+      amount,
+      amount_applied: amount - remaining,
+      overpaid_amount: settled ? remaining : 0,
+      interest_rebate: settled ? quote.interest_rebate : 0,
+      payoff_amount: quote.payoff_amount,
+      metadata,
+    },
+  });
+
+  if (settled) {
+    // Closing releases the limit (CLOSED hook)
+    if (contract.state === 'DISBURSED') {
+      await updateContractState(contractId, 'IN_REPAYMENT' as ContractState, actor, {
+        reason: 'Early settlement',
+      });
+    }
+    await updateContractState(contractId, 'CLOSED' as ContractState, actor, {
+      reason: 'Early settlement',
+      interest_rebate: quote.interest_rebate,
+    });
+  }
+
+  return {
+    contract: (await getContract(contractId)) ?? contract,
+    installments,
+    quote,
+    settled,
+    amount_applied: amount - remaining,
+    overpaid_amount: remaining,
+  };
+}
+
+/**
+ * Outstanding (accrued, unpaid and unwaived) penalties on an installment
+ */
+export function outstandingPenalties(installment: BNPLInstallment): number {
+  return (installment.charges || [])
+    .filter((c) => c.status === 'ACCRUED')
+    .reduce((sum, c) => sum + c.amount - (c.amount_paid || 0), 0);
+}
+
+function buildSettlementQuote(
+  contract: BNPLContract,
+  installments: BNPLInstallment[],
+  asOf: Date
+): SettlementQuote {
+  const settlement = calculateEarlySettlement(
+    contract.principal_amount,
+    contract.tenor_months,
+    new Date(contract.disbursed_at || contract.created_at),
+    installments,
+    asOf,
+    contract.interest_rate
+  );
+  const penalties = installments.reduce((sum, i) => sum + outstandingPenalties(i), 0);
+
+  const validUntil = new Date(asOf);
+  validUntil.setUTCHours(23, 59, 59, 999);
+
+  return {
+    contract_id: contract.id,
+    as_of: asOf.toISOString(),
+    valid_until: validUntil.toISOString(),
+    outstanding_amount: settlement.outstanding_amount,
+    interest_rebate: settlement.interest_rebate,
+    penalties_outstanding: penalties,
+    payoff_amount: settlement.payoff_amount + penalties,
+    elapsed_months: settlement.elapsed_months,
+    unearned_months: settlement.unearned_months,
+  };
+}
+
 /**
  * Create installments for a contract
  */
@@ -239,6 +658,9 @@ export async function createDeductionInstruction(
   if (!policy) {
     throw new Error(`Policy ${contract.policy_number} not found`);
   }
+  if (policy.status !== 'ACTIVE' || contract.collection_track === 'DIRECT') {
+    throw new Error(`Contract ${contractId} is not on payroll collection (policy ${policy.status})`);
+  }
 
   const installment = await kv.get(`${INSTALLMENT_PREFIX}${contractId}:${installmentNumber}`);
   if (!installment) {
@@ -262,6 +684,7 @@ export async function createDeductionInstruction(
     status: 'SENT' as DeductionStatus,
     sent_at: new Date().toISOString(),
     executed_at: null,
+    deduction_type: 'INSTALLMENT',
   };
 
   await kv.set(`${DEDUCTION_PREFIX}${deduction.id}`, JSON.stringify(deduction));
@@ -275,6 +698,136 @@ export async function createDeductionInstruction(
   return deduction;
 }
 
+/**
+ * Create a one-off final-dues deduction (employee exit) against the
+ * contract's first open installment
+ */
+export async function createFinalDuesDeduction(
+  contractId: string,
+  amount: number,
+  payrollCycle: string
+): Promise<EmployerDeductionInstruction> {
+  const contract = await getContract(contractId);
+  if (!contract) {
+    throw new Error(`Contract ${contractId} not found`);
+  }
+
+  const policy = await getPolicy(contract.policy_number);
+  if (!policy) {
+    throw new Error(`Policy ${contract.policy_number} not found`);
+  }
+
+  const installments = await getInstallments(contractId);
+  const open = installments.find(i => i.status !== 'PAID');
+  if (!open) {
+    throw new Error(`Contract ${contractId} has no open installments`);
+  }
+
+  const deduction: EmployerDeductionInstruction = {
+    id: uuidv4(),
+    employer_id: policy.employer_id,
+    payroll_employee_id: policy.payroll_employee_id,
+    contract_id: contractId,
+    installment_id: open.id,
+    amount,
+    payroll_cycle: payrollCycle,
+    status: 'SENT' as DeductionStatus,
+    sent_at: new Date().toISOString(),
+    executed_at: null,
+    deduction_type: 'FINAL_DUES',
+  };
+
+  await kv.set(`${DEDUCTION_PREFIX}${deduction.id}`, JSON.stringify(deduction));
+
+  return deduction;
+}
+
+/**
+ * Cancel a contract's unexecuted installment deductions
+ * Returns the cancelled deduction ids
+ */
+export async function cancelOpenDeductions(contractId: string): Promise<string[]> {
+  return moveDeductions(contractId, ['SENT', 'APPROVED', 'ON_HOLD'], 'CANCELLED');
+}
+
+/**
+ * Pause a contract's unexecuted installment deductions (e.g. while disputed)
+ * Returns the held deduction ids
+ */
+export async function holdOpenDeductions(contractId: string): Promise<string[]> {
+  return moveDeductions(contractId, ['SENT', 'APPROVED'], 'ON_HOLD');
+}
+
+/**
+ * Resume held deductions; they go back to the employer as SENT for re-approval
+ * Returns the released deduction ids
+ */
+export async function releaseHeldDeductions(contractId: string): Promise<string[]> {
+  return moveDeductions(contractId, ['ON_HOLD'], 'SENT');
+}
+
+async function moveDeductions(
+  contractId: string,
+  from: string[],
+  to: string
+): Promise<string[]> {
+  const moved: string[] = [];
+
+  for (const installment of await getInstallments(contractId)) {
+    if (!installment.deduction_id) continue;
+
+    const deductionData = await kv.get(`${DEDUCTION_PREFIX}${installment.deduction_id}`);
+    if (!deductionData) continue;
+
+    const deduction: EmployerDeductionInstruction = JSON.parse(deductionData);
+    if (!from.includes(deduction.status)) continue;
+
+    deduction.status = to as DeductionStatus;
+    await kv.set(`${DEDUCTION_PREFIX}${deduction.id}`, JSON.stringify(deduction));
+    moved.push(deduction.id);
+  }
+
+  return moved;
+}
+
+/**
+ * Move a contract between payroll and direct collection
+ */
+export async function setCollectionTrack(
+  contractId: string,
+  track: CollectionTrack,
+  actor: string,
+  reason: string
+): Promise<BNPLContract> {
+  const contract = await getContract(contractId);
+  if (!contract) {
+    throw new Error(`Contract ${contractId} not found`);
+  }
+
+  const previous = contract.collection_track || 'PAYROLL';
+  contract.collection_track = track;
+  contract.updated_at = new Date().toISOString();
+  await kv.set(`${CONTRACT_PREFIX}${contractId}`, JSON.stringify(contract));
+
+  await createAuditLog({
+    entity_type: 'contract',
+    entity_id: contractId,
+    action: 'collection_track_changed',
+    actor,
+    changes: { old_track: previous, new_track: track, reason },
+  });
+
+  return contract;
+}
+
+/**
+ * Get deduction instruction by ID
+ */
+export async function getDeduction(deductionId: string): Promise<EmployerDeductionInstruction | null> {
+  const data = await kv.get(`${DEDUCTION_PREFIX}${deductionId}`);
+  return data ? JSON.parse(data) : null;
+}
+
 /**
  * Get pending deductions for an employer
  */
@@ -296,35 +849,192 @@ export async function getPendingDeductions(employerId: string): Promise<Employer
 }
 
 /**
- * Record installment payment
+ * Get an employer's outstanding (sent or approved) deductions for a payroll cycle
+ */
+export async function getDeductionsForCycle(
+  employerId: string,
+  payrollCycle: string
+): Promise<EmployerDeductionInstruction[]> {
+  const deductions = parseRecords<EmployerDeductionInstruction>(
+    await kv.getByPrefix(DEDUCTION_PREFIX),
+    (value) => Boolean(value.id && value.installment_id)
+  );
+
+  return deductions.filter(
+    d =>
+      d.employer_id === employerId &&
+      d.payroll_cycle === payrollCycle &&
+      (d.status === 'SENT' || d.status === 'APPROVED')
+  );
+}
+
+/**
+ * Record a payment against an installment through the payment waterfall.
+ * Older open installments are covered first; an overpayment goes to the
+ * following installments or is held as customer credit, per the policy.
  */
 export async function recordInstallmentPayment(
+  contractId: string,
   installmentId: string,
   amount: number,
   deductionId: string
-): Promise<void> {
-  // Find the installment
-  const allKeys = await kv.getByPrefix(`${INSTALLMENT_PREFIX}`);
-  
-  for (const key of allKeys) {
-    const data = await kv.get(key);
-    if (data) {
-      const installment: BNPLInstallment = JSON.parse(data);
-      if (installment.id === installmentId) {
-        installment.amount_paid += amount;
-        installment.deduction_id = deductionId;
-        installment.status = installment.amount_paid >= installment.amount_due 
-          ? 'PAID' as InstallmentStatus
-          : 'DEDUCTED' as InstallmentStatus;
-        installment.paid_at = installment.status === 'PAID' ? new Date().toISOString() : null;
-        
-        await kv.set(key, JSON.stringify(installment));
-        
-        // Check if all installments are paid and close contract
-        await checkAndCloseContract(installment.contract_id);
-        break;
-      }
+): Promise<InstallmentPaymentResult> {
+  const contract = await getContract(contractId);
+  if (!contract) {
+    throw new Error(`Contract ${contractId} not found`);
+  }
+
+  const installments = await getInstallments(contract.id);
+  const target = installments.find((i) => i.id === installmentId);
+  if (!target) {
+    throw new Error(`Installment ${installmentId} not found on contract ${contractId}`);
+  }
+
+  const policy = await getWaterfallPolicy();
+  const open = installments.filter((i) => i.status !== 'PAID' || outstandingPenalties(i) > 0);
+
+  const result = allocatePayment(
+    amount,
+    open.map((i) => toWaterfallInstallment(contract, i)),
+    target.installment_number,
+    policy
+  );
+
+  const now = new Date().toISOString();
+  const allocations: InstallmentPaymentResult['allocations'] = [];
+
+  for (const line of result.lines) {
+    const installment = installments.find((i) => i.installment_number === line.installmentNumber)!;
+
+    for (const paid of line.charges) {
+      const charge = (installment.charges || []).find((c) => c.id === paid.id)!;
+      charge.amount_paid = (charge.amount_paid || 0) + paid.amount;
+      if (charge.amount_paid >= charge.amount) charge.status = 'PAID';
+    }
+
+    const allocation: PaymentAllocation = {
+      id: uuidv4(),
+      payment_reference: deductionId,
+      amount: line.total,
+      penalties: line.amounts.penalties,
+      fees: line.amounts.fees,
+      interest: line.amounts.interest,
+      principal: line.amounts.principal,
+      charge_ids: line.charges.map((c) => c.id),
+      allocated_at: now,
+    };
+    installment.allocations = [...(installment.allocations || []), allocation];
+
+    installment.amount_paid += line.amounts.fees + line.amounts.interest + line.amounts.principal;
+    if (installment.amount_paid >= installment.amount_due) {
+      installment.status = 'PAID' as InstallmentStatus;
+      installment.paid_at = installment.paid_at || now;
+    } else if (installment.amount_paid > 0) {
+      installment.status = 'PARTIALLY_PAID' as InstallmentStatus;
     }
+
+    await kv.set(
+      `${INSTALLMENT_PREFIX}${contract.id}:${installment.installment_number}`,
+      JSON.stringify(installment)
+    );
+
+    // Overpayment carried forward reduces the next installments' deductions
+    if (installment.id !== target.id) {
+      await syncOpenDeduction(installment);
+    }
+
+    allocations.push({ ...allocation, installment_number: installment.installment_number });
+  }
+
+  if (result.unapplied > 0) {
+    await holdCustomerCredit(contract.customer_id, result.unapplied, contract.id, deductionId);
+  }
+
+  await createAuditLog({
+    entity_type: 'contract',
+    entity_id: contract.id,
+    action: 'payment_allocated',
+    actor: 'system',
+    changes: {
+      payment_reference: deductionId,
+      amount,
+      order: policy.order,
+      allocations: allocations.map(({ installment_number, penalties, fees, interest, principal }) => ({
+        installment_number, penalties, fees, interest, principal,
+      })),
+      credited: result.unapplied,
+    },
+  });
+
+  // Check if all installments are paid and close contract
+  await checkAndCloseContract(contract.id);
+
+  return {
+    contract_id: contract.id,
+    amount,
+    applied: result.applied,
+    credited: result.unapplied,
+    allocations,
+  };
+}
+
+/**
+ * Component breakdown (fees, interest, principal) paid so far on an installment
+ */
+export function paidComponents(
+  contract: BNPLContract,
+  installment: BNPLInstallment
+): { fees: number; interest: number; principal: number } {
+  const allocated = (installment.allocations || []).reduce(
+    (sum, a) => ({
+      fees: sum.fees + a.fees,
+      interest: sum.interest + a.interest,
+      principal: sum.principal + a.principal,
+    }),
+    { fees: 0, interest: 0, principal: 0 }
+  );
+
+  // Payments from before the waterfall (or prepayments) are split pro-rata
+  const unallocated = installment.amount_paid - allocated.fees - allocated.interest - allocated.principal;
+  if (unallocated > 0) {
+    const split = splitInstallment(unallocated, pricingRates(contract), contract.tenor_months);
+    allocated.fees += split.fees;
+    allocated.interest += split.interest;
+    allocated.principal += split.principal;
+  }
+
+  return allocated;
+}
+
+function toWaterfallInstallment(contract: BNPLContract, installment: BNPLInstallment): WaterfallInstallment {
+  return {
+    installmentNumber: installment.installment_number,
+    due: { penalties: 0, ...splitInstallment(installment.amount_due, pricingRates(contract), contract.tenor_months) },
+    paid: { penalties: 0, ...paidComponents(contract, installment) },
+    charges: (installment.charges || [])
+      .filter((c) => c.status === 'ACCRUED')
+      .map((c) => ({ id: c.id, outstanding: c.amount - (c.amount_paid || 0) })),
+  };
+}
+
+function pricingRates(contract: BNPLContract): { interestRate: number; feeRate: number } {
+  return {
+    interestRate: contract.interest_rate,
+    feeRate: contract.operational_fee_rate + contract.collection_fee_rate,
+  };
+}
+
+// Stop employers deducting what has already been paid
+async function syncOpenDeduction(installment: BNPLInstallment): Promise<void> {
+  if (!installment.deduction_id) return;
+
+  const deductionData = await kv.get(`${DEDUCTION_PREFIX}${installment.deduction_id}`);
+  if (!deductionData) return;
+
+  const deduction: EmployerDeductionInstruction = JSON.parse(deductionData);
+  if (deduction.status === 'SENT' || deduction.status === 'APPROVED') {
+    deduction.amount = Math.max(0, installment.amount_due - installment.amount_paid);
+    await kv.set(`${DEDUCTION_PREFIX}${deduction.id}`, JSON.stringify(deduction));
   }
 }
 
@@ -334,8 +1044,19 @@ export async function recordInstallmentPayment(
 async function checkAndCloseContract(contractId: string): Promise<void> {
   const installments = await getInstallments(contractId);
   const allPaid = installments.every(i => i.status === 'PAID');
+
+  // The first payroll payment moves a disbursed contract into repayment
+  const contract = await getContract(contractId);
+  let state = contract?.state;
+  if (contract && contract.state === 'DISBURSED' && installments.some(i => i.amount_paid > 0)) {
+    await updateContractState(contractId, 'IN_REPAYMENT' as ContractState, 'system', {
+      reason: 'First repayment received',
+    });
+    state = 'IN_REPAYMENT' as ContractState;
+  }
   
-  if (allPaid) {
+  // Defaulted and disputed contracts keep their state when recoveries clear the schedule
+  if (allPaid && state && canTransitionTo(state, 'CLOSED' as ContractState)) {
     await updateContractState(contractId, 'CLOSED' as ContractState, 'system', {
       reason: 'All installments paid',
     });
@@ -346,20 +1067,150 @@ async function checkAndCloseContract(contractId: string): Promise<void> {
  * Get contracts by policy number
  */
 export async function getContractsByPolicy(policyNumber: string): Promise<BNPLContract[]> {
-  const allKeys = await kv.getByPrefix(`${CONTRACT_PREFIX}`);
-  const contracts: BNPLContract[] = [];
-  
-  for (const key of allKeys) {
-    if (!key.includes(':')) {
-      const data = await kv.get(key);
-      if (data) {
-        const contract: BNPLContract = JSON.parse(data);
-        if (contract.policy_number === policyNumber) {
-          contracts.push(contract);
-        }
-      }
+  return queryAllRecords<BNPLContract>([{ index: INDEX.CONTRACT_POLICY, partition: policyNumber }]);
+}
+
+/**
+ * Query contracts through the secondary indexes (cursor-paginated, newest first)
+ */
+export async function queryContracts(
+  filters: {
+    state?: ContractState;
+    policy_number?: string;
+    merchant_id?: string;
+    employer_id?: string;
+  },
+  options: QueryOptions = {}
+): Promise<Page<BNPLContract>> {
+  return queryRecords<BNPLContract>(contractCriteria(filters), options);
+}
+
+/**
+ * Get every contract in the given states (for batch jobs)
+ */
+export async function getContractsByStates(states: ContractState[]): Promise<BNPLContract[]> {
+  const results = await Promise.all(
+    states.map((state) =>
+      queryAllRecords<BNPLContract>([{ index: INDEX.CONTRACT_STATE, partition: state }])
+    )
+  );
+  return results.flat();
+}
+
+/**
+ * Rebuild contract indexes from the stored contracts
+ */
+export async function rebuildContractIndexes(): Promise<number> {
+  for (const index of [
+    INDEX.CONTRACT_STATE,
+    INDEX.CONTRACT_POLICY,
+    INDEX.CONTRACT_MERCHANT,
+    INDEX.CONTRACT_EMPLOYER,
+    INDEX.CONTRACT_CREATED,
+  ]) {
+    await clearIndex(index);
+  }
+
+  const contracts = parseRecords<BNPLContract>(
+    await kv.getByPrefix(CONTRACT_PREFIX),
+    (value) => Boolean(value.id && value.policy_number && value.state)
+  );
+
+  // Employer comes from the policy, cached per policy number
+  const employerByPolicy = new Map<string, string>();
+  for (const contract of contracts) {
+    if (!employerByPolicy.has(contract.policy_number)) {
+      const policy = await getPolicy(contract.policy_number);
+      employerByPolicy.set(contract.policy_number, policy?.employer_id ?? '');
     }
+    await addToIndexes(contractIndexEntries(contract, employerByPolicy.get(contract.policy_number)!));
   }
-  
-  return contracts;
+
+  return contracts.length;
+}
+
+/**
+ * Rewrite contracts stored with legacy state names (ORDER_CREATED, FUNDED)
+ * onto the unified lifecycle and move them to the right state partition
+ */
+export async function migrateLegacyContractStates(actor: string): Promise<{
+  scanned: number;
+  migrated: { contract_id: string; old_state: string; new_state: ContractState }[];
+  unknown: { contract_id: string; state: string }[];
+}> {
+  const contracts = parseRecords<BNPLContract>(
+    await kv.getByPrefix(CONTRACT_PREFIX),
+    (value) => Boolean(value.id && value.policy_number && value.state)
+  );
+  const migrated: { contract_id: string; old_state: string; new_state: ContractState }[] = [];
+  const unknown: { contract_id: string; state: string }[] = [];
+
+  for (const contract of contracts) {
+    const storedState = contract.state as string;
+    const newState = normalizeContractState(storedState);
+    if (!newState) {
+      unknown.push({ contract_id: contract.id, state: storedState });
+      continue;
+    }
+    if (newState === storedState) continue;
+
+    contract.state = newState;
+    contract.updated_at = new Date().toISOString();
+    await kv.set(`${CONTRACT_PREFIX}${contract.id}`, JSON.stringify(contract));
+    await removeFromIndexes([stateIndexEntry(contract.id, storedState as ContractState, contract.created_at)]);
+    await addToIndexes([stateIndexEntry(contract.id, newState, contract.created_at)]);
+
+    await createAuditLog({
+      entity_type: 'contract',
+      entity_id: contract.id,
+      action: 'state_migrated',
+      actor,
+      changes: { old_state: storedState, new_state: newState },
+    });
+
+    migrated.push({ contract_id: contract.id, old_state: storedState, new_state: newState });
+  }
+
+  return { scanned: contracts.length, migrated, unknown };
+}
+
+function contractCriteria(filters: {
+  state?: ContractState;
+  policy_number?: string;
+  merchant_id?: string;
+  employer_id?: string;
+}): IndexCriterion[] {
+  const criteria: IndexCriterion[] = [];
+  if (filters.state) criteria.push({ index: INDEX.CONTRACT_STATE, partition: filters.state });
+  if (filters.policy_number) criteria.push({ index: INDEX.CONTRACT_POLICY, partition: filters.policy_number });
+  if (filters.merchant_id) criteria.push({ index: INDEX.CONTRACT_MERCHANT, partition: filters.merchant_id });
+  if (filters.employer_id) criteria.push({ index: INDEX.CONTRACT_EMPLOYER, partition: filters.employer_id });
+  if (criteria.length === 0) criteria.push({ index: INDEX.CONTRACT_CREATED, partition: ALL_PARTITION });
+  return criteria;
+}
+
+function stateIndexEntry(contractId: string, state: ContractState, createdAt: string): IndexEntry {
+  return {
+    index: INDEX.CONTRACT_STATE,
+    partition: state,
+    sort: createdAt,
+    id: contractId,
+    key: `${CONTRACT_PREFIX}${contractId}`,
+  };
+}
+
+function contractIndexEntries(contract: BNPLContract, employerId: string): IndexEntry[] {
+  const key = `${CONTRACT_PREFIX}${contract.id}`;
+  const base = { sort: contract.created_at, id: contract.id, key };
+
+  const entries: IndexEntry[] = [
+    stateIndexEntry(contract.id, contract.state, contract.created_at),
+    { ...base, index: INDEX.CONTRACT_POLICY, partition: contract.policy_number },
+    { ...base, index: INDEX.CONTRACT_MERCHANT, partition: contract.merchant_id },
+    { ...base, index: INDEX.CONTRACT_CREATED, partition: ALL_PARTITION },
+  ];
+  if (employerId) {
+    entries.push({ ...base, index: INDEX.CONTRACT_EMPLOYER, partition: employerId });
+  }
+  return entries;
 }
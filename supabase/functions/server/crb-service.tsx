@@ -0,0 +1,215 @@
+// CRB service - consent capture, cached Credit Reference Bureau checks and raw report retention
+
+import * as kv from './kv_store.tsx';
+import { v4 as uuidv4 } from 'npm:uuid';
+import type { CRBCheck, CRBConsent } from './types.tsx';
+import { createAuditLog } from './audit-service.tsx';
+import {
+  assessCRBReport,
+  stubBureauReport,
+  CRB_CACHE_TTL_MS,
+  CRB_CONSENT_TEXT,
+  CRB_CONSENT_VALIDITY_MS,
+} from '../_shared/crb.ts';
+import type { CRBBureauReport, CRBConsentChannel } from '../_shared/crb.ts';
+
+const CONSENT_PREFIX = 'crb_consent:';
+const CHECK_PREFIX = 'crb_check:';
+const LATEST_PREFIX = 'crb_latest:';
+
+// Each bureau maps its own response onto CRBBureauReport
+export interface CRBProvider {
+  name: string;
+  fetchReport: (nationalId: string, phoneNumber: string, asOf: Date) => Promise<CRBBureauReport>;
+}
+
+const PROVIDERS: Record<string, CRBProvider> = {
+  STUB: {
+    name: 'STUB',
+    fetchReport: async (nationalId, phoneNumber, asOf) => stubBureauReport(nationalId, phoneNumber, asOf),
+  },
+};
+
+const CRB_PROVIDER = Deno.env.get('CRB_PROVIDER') || 'STUB';
+
+export interface CRBSubject {
+  national_id: string;
+  phone_number: string;
+  customer_id?: string | null;
+}
+
+/**
+ * Record a customer's consent to a bureau pull (replaces any earlier consent)
+ */
+export async function recordCRBConsent(
+  subject: CRBSubject,
+  channel: CRBConsentChannel,
+  asOf: Date = new Date()
+): Promise<CRBConsent> {
+  if (!subject.national_id || !subject.phone_number) {
+    throw new Error('national_id and phone_number are required for CRB consent');
+  }
+
+  const consent: CRBConsent = {
+    id: uuidv4(),
+    national_id: subject.national_id,
+    phone_number: subject.phone_number,
+    customer_id: subject.customer_id ?? null,
+    channel,
+    consent_text: CRB_CONSENT_TEXT,
+    granted_at: asOf.toISOString(),
+    expires_at: new Date(asOf.getTime() + CRB_CONSENT_VALIDITY_MS).toISOString(),
+    revoked_at: null,
+  };
+
+  await kv.set(`${CONSENT_PREFIX}${consent.national_id}`, JSON.stringify(consent));
+
+  await createAuditLog({
+    entity_type: 'crb_consent',
+    entity_id: consent.id,
+    action: 'granted',
+    actor: consent.customer_id || consent.phone_number,
+    changes: { consent },
+  });
+
+  return consent;
+}
+
+/**
+ * Revoke a customer's consent (checks already run are kept for audit)
+ */
+export async function revokeCRBConsent(nationalId: string, actor: string): Promise<CRBConsent> {
+  const data = await kv.get(`${CONSENT_PREFIX}${nationalId}`);
+  if (!data) {
+    throw new Error(`No CRB consent on file for ${nationalId}`);
+  }
+
+  const consent: CRBConsent = JSON.parse(data);
+  if (consent.revoked_at) {
+    return consent;
+  }
+
+  consent.revoked_at = new Date().toISOString();
+  await kv.set(`${CONSENT_PREFIX}${nationalId}`, JSON.stringify(consent));
+
+  await createAuditLog({
+    entity_type: 'crb_consent',
+    entity_id: consent.id,
+    action: 'revoked',
+    actor,
+    changes: { revoked_at: consent.revoked_at },
+  });
+
+  return consent;
+}
+
+/**
+ * Get the customer's consent if it is neither revoked nor expired
+ */
+export async function getActiveCRBConsent(nationalId: string, asOf: Date = new Date()): Promise<CRBConsent | null> {
+  const data = await kv.get(`${CONSENT_PREFIX}${nationalId}`);
+  if (!data) return null;
+
+  const consent: CRBConsent = JSON.parse(data);
+  if (consent.revoked_at || new Date(consent.expires_at) <= asOf) return null;
+  return consent;
+}
+
+/**
+ * Run a CRB check - the cached result while unexpired, otherwise a fresh bureau pull
+ */
+export async function runCRBCheck(
+  subject: CRBSubject,
+  options: { force_refresh?: boolean } = {},
+  asOf: Date = new Date()
+): Promise<{ check: CRBCheck; from_cache: boolean }> {
+  const consent = await getActiveCRBConsent(subject.national_id, asOf);
+  if (!consent) {
+    throw new Error(`No valid CRB consent on file for ${subject.national_id}`);
+  }
+
+  if (!options.force_refresh) {
+    const cached = await getLatestCRBCheck(subject.national_id);
+    if (cached && new Date(cached.expires_at) > asOf) {
+      return { check: cached, from_cache: true };
+    }
+  }
+
+  const provider = PROVIDERS[CRB_PROVIDER];
+  if (!provider) {
+    throw new Error(`Unknown CRB provider ${CRB_PROVIDER}`);
+  }
+
+  const report = await provider.fetchReport(subject.national_id, subject.phone_number, asOf);
+  const assessment = assessCRBReport(report);
+
+  const check: CRBCheck = {
+    id: uuidv4(),
+    national_id: subject.national_id,
+    phone_number: subject.phone_number,
+    customer_id: subject.customer_id ?? consent.customer_id,
+    consent_id: consent.id,
+    provider: provider.name,
+    report_reference: report.reference,
+    score: assessment.score,
+    risk_level: assessment.riskLevel,
+    risk_flags: assessment.riskFlags,
+    overall_status: assessment.overallStatus,
+    default_history_count: report.defaultHistoryCount,
+    active_loans_count: report.activeLoansCount,
+    total_outstanding_credit: report.totalOutstandingCredit,
+    raw_response: report.raw,
+    checked_at: asOf.toISOString(),
+    expires_at: new Date(asOf.getTime() + CRB_CACHE_TTL_MS).toISOString(),
+  };
+
+  await kv.mset(
+    [`${CHECK_PREFIX}${check.id}`, `${LATEST_PREFIX}${check.national_id}`],
+    [JSON.stringify(check), check.id]
+  );
+
+  await createAuditLog({
+    entity_type: 'crb_check',
+    entity_id: check.id,
+    action: 'completed',
+    actor: 'system',
+    changes: {
+      consent_id: check.consent_id,
+      provider: check.provider,
+      report_reference: check.report_reference,
+      score: check.score,
+      overall_status: check.overall_status,
+      risk_flags: check.risk_flags,
+    },
+  });
+
+  return { check, from_cache: false };
+}
+
+/**
+ * Get the most recent CRB check for a national ID, expired or not
+ */
+export async function getLatestCRBCheck(nationalId: string): Promise<CRBCheck | null> {
+  const latestId = await kv.get(`${LATEST_PREFIX}${nationalId}`);
+  return latestId ? getCRBCheck(latestId) : null;
+}
+
+/**
+ * Get the latest CRB check if it is unexpired and was run under the customer's active consent
+ */
+export async function getCurrentCRBCheck(nationalId: string, asOf: Date = new Date()): Promise<CRBCheck | null> {
+  const consent = await getActiveCRBConsent(nationalId, asOf);
+  if (!consent) return null;
+
+  const check = await getLatestCRBCheck(nationalId);
+  if (!check || check.consent_id !== consent.id || new Date(check.expires_at) <= asOf) return null;
+  return check;
+}
+
+/**
+ * Get CRB check by ID (includes the raw bureau report)
+ */
+export async function getCRBCheck(checkId: string): Promise<CRBCheck | null> {
+  const data = await kv.get(`${CHECK_PREFIX}${checkId}`);
+  return data ? JSON.parse(data) : null;
+}
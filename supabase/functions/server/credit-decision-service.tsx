@@ -0,0 +1,59 @@
+// Credit decision service - decision records for declined orders (approvals live on the contract)
+
+import * as kv from './kv_store.tsx';
+import { v4 as uuidv4 } from 'npm:uuid';
+import type { ContractCreditDecision, DeclinedCreditDecision } from './types.tsx';
+import { createAuditLog } from './audit-service.tsx';
+import { parseRecords } from './kv-index.tsx';
+
+// Keyed by policy and decision time so a customer's declines list in order
+const DECLINE_PREFIX = 'credit_decline:';
+
+/**
+ * Record why an order was declined
+ */
+export async function recordDeclinedDecision(data: {
+  policy_number: string;
+  customer_id: string;
+  merchant_id: string;
+  requested_amount: number;
+  tenor_months: 1 | 2 | 3;
+  decision: Omit<ContractCreditDecision, 'outcome'>;
+}): Promise<DeclinedCreditDecision> {
+  const record: DeclinedCreditDecision = {
+    id: uuidv4(),
+    policy_number: data.policy_number,
+    customer_id: data.customer_id,
+    merchant_id: data.merchant_id,
+    requested_amount: data.requested_amount,
+    tenor_months: data.tenor_months,
+    ...data.decision,
+    outcome: 'DECLINED',
+  };
+
+  await kv.set(`${DECLINE_PREFIX}${record.policy_number}:${record.decided_at}:${record.id}`, JSON.stringify(record));
+
+  await createAuditLog({
+    entity_type: 'credit_decision',
+    entity_id: record.id,
+    action: 'declined',
+    actor: 'system',
+    changes: {
+      policy_number: record.policy_number,
+      requested_amount: record.requested_amount,
+      adverse_action_codes: record.adverse_action_codes,
+    },
+  });
+
+  return record;
+}
+
+/**
+ * Get the declined decisions on a policy
+ */
+export async function getDeclinedDecisions(policyNumber: string): Promise<DeclinedCreditDecision[]> {
+  return parseRecords<DeclinedCreditDecision>(
+    await kv.getByPrefix(`${DECLINE_PREFIX}${policyNumber}:`),
+    (value) => Boolean(value.id && value.outcome === 'DECLINED')
+  );
+}
@@ -0,0 +1,218 @@
+// Delinquency ageing service - overdue installments, days-past-due buckets and automatic default
+
+import * as kv from './kv_store.tsx';
+import type { BNPLContract, BNPLInstallment, InstallmentStatus } from './types.tsx';
+import { ContractState } from './types.tsx';
+import { getContractsByStates, getInstallments, updateContractState } from './contract-service.tsx';
+import { createAuditLog } from './audit-service.tsx';
+import {
+  ageInstallments,
+  daysPastDue,
+  portfolioAtRisk,
+  DEFAULT_DELINQUENCY_POLICY,
+} from '../_shared/delinquency.ts';
+import type { DelinquencyBucket, DelinquencyPolicy, PortfolioAtRisk } from '../_shared/delinquency.ts';
+
+const DELINQUENCY_PREFIX = 'delinquency:';
+const POLICY_KEY = `${DELINQUENCY_PREFIX}policy`;
+const INSTALLMENT_PREFIX = 'installment:';
+
+// Contracts with installments that can fall into arrears
+const AGEABLE_STATES = [ContractState.DISBURSED, ContractState.IN_REPAYMENT];
+
+export interface DelinquencyRun {
+  date: string;
+  policy: DelinquencyPolicy;
+  contracts_aged: number;
+  installments_marked_overdue: number;
+  contracts_defaulted: string[];
+  buckets: Record<DelinquencyBucket, number>;
+  completed_at: string;
+}
+
+/**
+ * Get delinquency policy (defaults until configured)
+ */
+export async function getDelinquencyPolicy(): Promise<DelinquencyPolicy> {
+  const data = await kv.get(POLICY_KEY);
+  return data ? { ...DEFAULT_DELINQUENCY_POLICY, ...JSON.parse(data) } : DEFAULT_DELINQUENCY_POLICY;
+}
+
+/**
+ * Update delinquency policy
+ */
+export async function updateDelinquencyPolicy(
+  updates: Partial<DelinquencyPolicy>,
+  actor: string
+): Promise<DelinquencyPolicy> {
+  const current = await getDelinquencyPolicy();
+  const provided = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+  const policy: DelinquencyPolicy = { ...current, ...provided };
+
+  for (const [field, value] of Object.entries(policy)) {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid delinquency policy: ${field} must be a non-negative number`);
+    }
+  }
+  if (policy.defaultAfterDays <= policy.graceDays) {
+    throw new Error('Invalid delinquency policy: defaultAfterDays must exceed graceDays');
+  }
+
+  await kv.set(POLICY_KEY, JSON.stringify(policy));
+
+  await createAuditLog({
+    entity_type: 'delinquency_policy',
+    entity_id: 'default',
+    action: 'updated',
+    actor,
+    changes: { old_policy: current, new_policy: policy },
+  });
+
+  return policy;
+}
+
+/**
+ * Age one contract: mark overdue installments, update arrears, default per policy
+ */
+async function ageContract(
+  contract: BNPLContract,
+  asOf: Date,
+  policy: DelinquencyPolicy,
+  actor: string
+): Promise<{ bucket: DelinquencyBucket; markedOverdue: number; defaulted: boolean }> {
+  const installments = await getInstallments(contract.id);
+  const ageing = ageInstallments(toAgeable(installments), asOf, policy);
+
+  // Partly paid installments keep PARTIALLY_PAID; days_past_due carries their arrears
+  let markedOverdue = 0;
+  for (let idx = 0; idx < installments.length; idx++) {
+    const installment = installments[idx];
+    const overdue = ageing.overdueIndexes.includes(idx);
+    const days = overdue ? daysPastDue(new Date(installment.due_date), asOf) : 0;
+    if ((installment.days_past_due || 0) === days) continue;
+
+    if (overdue && !installment.days_past_due) markedOverdue++;
+    if (overdue && installment.status !== 'PARTIALLY_PAID') {
+      installment.status = 'OVERDUE' as InstallmentStatus;
+    }
+    installment.days_past_due = days;
+    await kv.set(
+      `${INSTALLMENT_PREFIX}${contract.id}:${installment.installment_number}`,
+      JSON.stringify(installment)
+    );
+  }
+
+  contract.past_due_amount = ageing.pastDueAmount;
+  contract.days_past_due = ageing.daysPastDue;
+  contract.delinquency_bucket = ageing.bucket;
+  contract.updated_at = new Date().toISOString();
+  await kv.set(`contract:${contract.id}`, JSON.stringify(contract));
+
+  let defaulted = false;
+  if (ageing.shouldDefault && contract.state === ContractState.IN_REPAYMENT) {
+    await updateContractState(contract.id, ContractState.DEFAULTED, actor, {
+      reason: `${ageing.daysPastDue} days past due`,
+      days_past_due: ageing.daysPastDue,
+      past_due_amount: ageing.pastDueAmount,
+      default_after_days: policy.defaultAfterDays,
+    });
+    defaulted = true;
+  }
+
+  return { bucket: ageing.bucket, markedOverdue, defaulted };
+}
+
+/**
+ * Daily delinquency job over all disbursed and repaying contracts
+ */
+export async function runDelinquencyAgeing(
+  asOf: Date = new Date(),
+  actor: string = 'system'
+): Promise<DelinquencyRun> {
+  const policy = await getDelinquencyPolicy();
+  const contracts = await getContractsByStates(AGEABLE_STATES);
+
+  const buckets: Record<DelinquencyBucket, number> = {
+    CURRENT: 0,
+    DPD_1_30: 0,
+    DPD_31_60: 0,
+    DPD_61_90: 0,
+    DPD_90_PLUS: 0,
+  };
+  const defaulted: string[] = [];
+  let markedOverdue = 0;
+
+  for (const contract of contracts) {
+    try {
+      const result = await ageContract(contract, asOf, policy, actor);
+      buckets[result.bucket]++;
+      markedOverdue += result.markedOverdue;
+      if (result.defaulted) defaulted.push(contract.id);
+    } catch (error) {
+      console.error(`Error ageing contract ${contract.id}:`, error);
+    }
+  }
+
+  const date = asOf.toISOString().split('T')[0];
+  const run: DelinquencyRun = {
+    date,
+    policy,
+    contracts_aged: contracts.length,
+    installments_marked_overdue: markedOverdue,
+    contracts_defaulted: defaulted,
+    buckets,
+    completed_at: new Date().toISOString(),
+  };
+
+  await kv.set(`${DELINQUENCY_PREFIX}run:${date}`, JSON.stringify(run));
+
+  await createAuditLog({
+    entity_type: 'delinquency_run',
+    entity_id: date,
+    action: 'completed',
+    actor,
+    changes: {
+      contracts_aged: run.contracts_aged,
+      installments_marked_overdue: markedOverdue,
+      contracts_defaulted: defaulted,
+    },
+  });
+
+  return run;
+}
+
+/**
+ * Portfolio at risk by days-past-due bucket
+ */
+export async function getDelinquencySummary(asOf: Date = new Date()): Promise<PortfolioAtRisk> {
+  const policy = await getDelinquencyPolicy();
+  const contracts = await getContractsByStates([...AGEABLE_STATES, ContractState.DEFAULTED]);
+
+  const exposures: { outstanding: number; daysPastDue: number }[] = [];
+  for (const contract of contracts) {
+    const installments = await getInstallments(contract.id);
+    const paid = installments.reduce((sum, i) => sum + i.amount_paid, 0);
+    exposures.push({
+      outstanding: Math.max(0, contract.total_payable - paid),
+      daysPastDue: ageInstallments(toAgeable(installments), asOf, policy).daysPastDue,
+    });
+  }
+
+  return portfolioAtRisk(exposures);
+}
+
+/**
+ * Get a stored delinquency run
+ */
+export async function getDelinquencyRun(date: string): Promise<DelinquencyRun | null> {
+  const data = await kv.get(`${DELINQUENCY_PREFIX}run:${date}`);
+  return data ? JSON.parse(data) : null;
+}
+
+function toAgeable(installments: BNPLInstallment[]) {
+  return installments.map((i) => ({
+    dueDate: new Date(i.due_date),
+    amountDue: i.status === 'PAID' ? 0 : i.amount_due,
+    amountPaid: i.status === 'PAID' ? 0 : i.amount_paid,
+  }));
+}
@@ -0,0 +1,484 @@
+// Dispute service - case management for DISPUTED contracts: evidence, SLA timers and resolution
+
+import * as kv from './kv_store.tsx';
+import { v4 as uuidv4 } from 'npm:uuid';
+import type {
+  BNPLContract,
+  Dispute,
+  DisputeEvidence,
+  DisputeOutcome,
+  DisputeParty,
+  DisputeReason,
+  DisputeSlaTimer,
+  DisputeStatus,
+  MerchantOrder,
+} from './types.tsx';
+import { BUSINESS_RULES, ContractState } from './types.tsx';
+import {
+  getContract,
+  getInstallments,
+  updateContractState,
+  applyPartialRefund,
+  holdOpenDeductions,
+  releaseHeldDeductions,
+  cancelOpenDeductions,
+  createDeductionInstruction,
+} from './contract-service.tsx';
+import { recoverPrincipal, releaseFunds } from './pesapal-service.tsx';
+import { merchantDiscountShare } from './pricing-service.tsx';
+import { postMifosAdjustment } from './mifos-service.tsx';
+import { holdCustomerCredit } from './payment-allocation-service.tsx';
+import { emitOrderEvent } from './webhook-service.tsx';
+import { createAuditLog } from './audit-service.tsx';
+import { parseRecords } from './kv-index.tsx';
+
+const DISPUTE_PREFIX = 'dispute:';
+
+export const DISPUTE_REASONS: DisputeReason[] = [
+  'ITEM_NOT_RECEIVED',
+  'NOT_AS_DESCRIBED',
+  'DEFECTIVE',
+  'UNAUTHORIZED',
+  'DUPLICATE_CHARGE',
+  'OTHER',
+];
+
+// States with a DISPUTED transition in the lifecycle
+const DISPUTABLE_STATES: string[] = [
+  ContractState.ESCROW_HELD,
+  ContractState.DISBURSED,
+  ContractState.IN_REPAYMENT,
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DisputeResolution {
+  outcome: DisputeOutcome;
+  refund_amount?: number; // SPLIT only - principal the merchant refunds
+  notes?: string;
+}
+
+/**
+ * Raise a dispute: move the contract to DISPUTED, pause its deductions and
+ * start the merchant-response and resolution SLA timers
+ */
+export async function raiseDispute(
+  contractId: string,
+  details: { reason: DisputeReason; description: string; raised_by: DisputeParty; attachments?: string[] },
+  actor: string
+): Promise<Dispute> {
+  if (!DISPUTE_REASONS.includes(details.reason)) {
+    throw new Error(`Invalid dispute reason ${details.reason}; expected one of ${DISPUTE_REASONS.join(', ')}`);
+  }
+  if (details.raised_by !== 'CUSTOMER' && details.raised_by !== 'MERCHANT') {
+    throw new Error(`Invalid raised_by ${details.raised_by}; expected CUSTOMER or MERCHANT`);
+  }
+
+  const contract = await getContract(contractId);
+  if (!contract) {
+    throw new Error(`Contract ${contractId} not found`);
+  }
+  if (!DISPUTABLE_STATES.includes(contract.state)) {
+    throw new Error(`Cannot dispute contract in ${contract.state} state`);
+  }
+
+  const open = await getOpenDispute(contractId);
+  if (open) {
+    throw new Error(`Contract ${contractId} already has an open dispute ${open.id}`);
+  }
+
+  const now = new Date();
+  const dispute: Dispute = {
+    id: uuidv4(),
+    contract_id: contractId,
+    order_id: contract.order_id,
+    merchant_id: contract.merchant_id,
+    policy_number: contract.policy_number,
+    reason: details.reason,
+    description: details.description || '',
+    raised_by: details.raised_by,
+    // A merchant-raised dispute already carries the merchant's account
+    status: details.raised_by === 'MERCHANT' ? 'UNDER_REVIEW' : 'AWAITING_MERCHANT',
+    disputed_from: contract.state,
+    evidence: [],
+    held_deduction_ids: [],
+    merchant_response_due_at: new Date(now.getTime() + BUSINESS_RULES.DISPUTE_MERCHANT_RESPONSE_DAYS * DAY_MS).toISOString(),
+    resolution_due_at: new Date(now.getTime() + BUSINESS_RULES.DISPUTE_RESOLUTION_DAYS * DAY_MS).toISOString(),
+    sla_breaches: [],
+    outcome: null,
+    refund_amount: null,
+    resolution_notes: null,
+    pesapal_transaction_id: null,
+    clawback_id: null,
+    mifos_adjustment_id: null,
+    resolved_by: null,
+    resolved_at: null,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+  };
+
+  if (details.description || details.attachments?.length) {
+    dispute.evidence.push(evidenceEntry(details.raised_by, details.description, details.attachments, actor));
+  }
+
+  await updateContractState(contractId, ContractState.DISPUTED, actor, {
+    dispute_id: dispute.id,
+    reason: details.reason,
+  });
+  dispute.held_deduction_ids = await holdOpenDeductions(contractId);
+
+  await saveDispute(dispute);
+  await kv.set(`${DISPUTE_PREFIX}contract:${contractId}`, dispute.id);
+
+  await createAuditLog({
+    entity_type: 'dispute',
+    entity_id: dispute.id,
+    action: 'raised',
+    actor,
+    changes: {
+      contract_id: contractId,
+      reason: dispute.reason,
+      raised_by: dispute.raised_by,
+      disputed_from: dispute.disputed_from,
+      held_deduction_ids: dispute.held_deduction_ids,
+    },
+  });
+
+  return dispute;
+}
+
+/**
+ * Add customer or merchant evidence to an open dispute
+ */
+export async function submitEvidence(
+  disputeId: string,
+  party: DisputeParty,
+  evidence: { description: string; attachments?: string[] },
+  actor: string
+): Promise<Dispute> {
+  const dispute = await getDispute(disputeId);
+  if (!dispute) {
+    throw new Error(`Dispute ${disputeId} not found`);
+  }
+  if (dispute.status === 'RESOLVED') {
+    throw new Error(`Dispute ${disputeId} is already resolved`);
+  }
+  if (!evidence.description && !evidence.attachments?.length) {
+    throw new Error('Evidence needs a description or attachments');
+  }
+
+  const entry = evidenceEntry(party, evidence.description, evidence.attachments, actor);
+  dispute.evidence.push(entry);
+  if (party === 'MERCHANT' && dispute.status === 'AWAITING_MERCHANT') {
+    dispute.status = 'UNDER_REVIEW';
+  }
+  dispute.updated_at = entry.submitted_at;
+  await saveDispute(dispute);
+
+  await createAuditLog({
+    entity_type: 'dispute',
+    entity_id: disputeId,
+    action: 'evidence_submitted',
+    actor,
+    changes: { party, evidence_id: entry.id, attachments: entry.attachments.length },
+  });
+
+  return dispute;
+}
+
+/**
+ * Resolve a dispute
+ *
+ * The merchant's refund comes out of escrow if the dispute was raised before
+ * delivery, otherwise it is recorded as a clawback against their later releases.
+ *
+ * - MERCHANT_LIABLE: merchant refunds the principal, contract REFUNDED,
+ *   deductions cancelled, Mifos loan reversed and customer payments held as credit
+ * - CUSTOMER_LIABLE: contract back to IN_REPAYMENT and deductions resumed
+ *   (escrow is released first if the dispute was raised before delivery)
+ * - SPLIT: merchant refunds `refund_amount`, the rest is re-amortized and repayment resumes
+ */
+export async function resolveDispute(
+  disputeId: string,
+  resolution: DisputeResolution,
+  actor: string
+): Promise<{ dispute: Dispute; contract: BNPLContract }> {
+  const dispute = await getDispute(disputeId);
+  if (!dispute) {
+    throw new Error(`Dispute ${disputeId} not found`);
+  }
+  if (dispute.status === 'RESOLVED') {
+    throw new Error(`Dispute ${disputeId} is already resolved`);
+  }
+
+  const contract = await getContract(dispute.contract_id);
+  if (!contract) {
+    throw new Error(`Contract ${dispute.contract_id} not found`);
+  }
+  if (contract.state !== ContractState.DISPUTED) {
+    throw new Error(`Contract ${contract.id} is in ${contract.state} state, expected DISPUTED`);
+  }
+
+  const transactionDate = new Date().toISOString().split('T')[0];
+  const metadata = { dispute_id: disputeId, outcome: resolution.outcome };
+
+  switch (resolution.outcome) {
+    case 'MERCHANT_LIABLE': {
+      const recovery = await recoverFromMerchant(contract, dispute, contract.principal_amount, actor);
+      dispute.refund_amount = contract.principal_amount;
+
+      await cancelOpenDeductions(contract.id);
+      await updateContractState(contract.id, ContractState.REFUNDED, actor, { ...metadata, ...recovery });
+
+      if (contract.mifos_loan_id) {
+        const adjustment = await postMifosAdjustment(
+          contract.mifos_loan_id,
+          contract.principal_amount,
+          contract.total_payable,
+          transactionDate,
+          'DISPUTE_MERCHANT_LIABLE'
+        );
+        dispute.mifos_adjustment_id = adjustment.transactionId ?? null;
+      }
+
+      // The customer owes nothing, so what they already paid is theirs
+      const installments = await getInstallments(contract.id);
+      const paid = installments.reduce(
+        (sum, i) => sum + i.amount_paid + (i.charges || []).reduce((s, ch) => s + (ch.amount_paid || 0), 0),
+        0
+      );
+      if (paid > 0) {
+        await holdCustomerCredit(contract.customer_id, paid, contract.id, `DISPUTE-${disputeId}`);
+      }
+
+      await updateOrderStatus(contract.order_id, 'REFUNDED');
+      break;
+    }
+
+    case 'CUSTOMER_LIABLE': {
+      await resumeRepayment(contract, dispute, actor, metadata);
+      break;
+    }
+
+    case 'SPLIT': {
+      const refundAmount = Number(resolution.refund_amount);
+      if (!(refundAmount > 0 && refundAmount < contract.principal_amount)) {
+        throw new Error(
+          `SPLIT refund_amount must be greater than 0 and less than principal ${contract.principal_amount}`
+        );
+      }
+
+      const recovery = await recoverFromMerchant(contract, dispute, refundAmount, actor);
+      dispute.refund_amount = refundAmount;
+
+      // Resume first: partial refunds are not applied to disputed contracts
+      await resumeRepayment(contract, dispute, actor, metadata);
+      const result = await applyPartialRefund(contract.id, refundAmount, actor, { ...metadata, ...recovery });
+
+      if (contract.mifos_loan_id) {
+        const adjustment = await postMifosAdjustment(
+          contract.mifos_loan_id,
+          refundAmount,
+          result.previous_total_payable - result.contract.total_payable,
+          transactionDate,
+          'DISPUTE_SPLIT'
+        );
+        dispute.mifos_adjustment_id = adjustment.transactionId ?? null;
+      }
+
+      await updateOrderStatus(contract.order_id, 'PARTIALLY_REFUNDED');
+      break;
+    }
+
+    default:
+      throw new Error(`Invalid outcome ${resolution.outcome}; expected MERCHANT_LIABLE, CUSTOMER_LIABLE or SPLIT`);
+  }
+
+  const now = new Date().toISOString();
+  dispute.status = 'RESOLVED';
+  dispute.outcome = resolution.outcome;
+  dispute.resolution_notes = resolution.notes || null;
+  dispute.resolved_by = actor;
+  dispute.resolved_at = now;
+  dispute.updated_at = now;
+  await saveDispute(dispute);
+
+  await createAuditLog({
+    entity_type: 'dispute',
+    entity_id: disputeId,
+    action: 'resolved',
+    actor,
+    changes: {
+      contract_id: contract.id,
+      outcome: dispute.outcome,
+      refund_amount: dispute.refund_amount,
+      pesapal_transaction_id: dispute.pesapal_transaction_id,
+      clawback_id: dispute.clawback_id ?? null,
+      mifos_adjustment_id: dispute.mifos_adjustment_id,
+    },
+  });
+
+  await emitOrderEvent(dispute.merchant_id, 'order.dispute_resolved', {
+    order_id: dispute.order_id,
+    contract_id: contract.id,
+    dispute_id: disputeId,
+    outcome: dispute.outcome,
+    refund_amount: dispute.refund_amount,
+  });
+
+  return { dispute, contract: (await getContract(contract.id)) ?? contract };
+}
+
+/**
+ * Flag disputes whose merchant-response or resolution deadline has passed (scheduled job)
+ */
+export async function checkDisputeSlas(asOf: Date = new Date()): Promise<{
+  checked: number;
+  breached: Array<{ dispute_id: string; timer: DisputeSlaTimer }>;
+}> {
+  const open = (await listDisputes()).filter((d) => d.status !== 'RESOLVED');
+  const breached: Array<{ dispute_id: string; timer: DisputeSlaTimer }> = [];
+
+  for (const dispute of open) {
+    const timers = overdueTimers(dispute, asOf).filter((t) => !dispute.sla_breaches.includes(t));
+    if (timers.length === 0) continue;
+
+    dispute.sla_breaches.push(...timers);
+    dispute.updated_at = asOf.toISOString();
+    await saveDispute(dispute);
+
+    await createAuditLog({
+      entity_type: 'dispute',
+      entity_id: dispute.id,
+      action: 'sla_breached',
+      actor: 'system',
+      changes: { timers, merchant_response_due_at: dispute.merchant_response_due_at, resolution_due_at: dispute.resolution_due_at },
+    });
+
+    breached.push(...timers.map((timer) => ({ dispute_id: dispute.id, timer })));
+  }
+
+  return { checked: open.length, breached };
+}
+
+/**
+ * Get a dispute
+ */
+export async function getDispute(disputeId: string): Promise<Dispute | null> {
+  const data = await kv.get(`${DISPUTE_PREFIX}${disputeId}`);
+  return data ? JSON.parse(data) : null;
+}
+
+/**
+ * The contract's unresolved dispute, if any
+ */
+export async function getOpenDispute(contractId: string): Promise<Dispute | null> {
+  const disputeId = await kv.get(`${DISPUTE_PREFIX}contract:${contractId}`);
+  if (!disputeId) return null;
+
+  const dispute = await getDispute(disputeId);
+  return dispute && dispute.status !== 'RESOLVED' ? dispute : null;
+}
+
+/**
+ * List disputes (newest first)
+ */
+export async function listDisputes(
+  filters: { status?: DisputeStatus; merchant_id?: string; contract_id?: string } = {}
+): Promise<Dispute[]> {
+  return parseRecords<Dispute>(
+    await kv.getByPrefix(DISPUTE_PREFIX),
+    (value) => Boolean(value.id && value.contract_id && value.evidence)
+  )
+    .filter((d) =>
+      (!filters.status || d.status === filters.status) &&
+      (!filters.merchant_id || d.merchant_id === filters.merchant_id) &&
+      (!filters.contract_id || d.contract_id === filters.contract_id)
+    )
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * SLA timers past due for an unresolved dispute
+ */
+export function overdueTimers(dispute: Dispute, asOf: Date = new Date()): DisputeSlaTimer[] {
+  if (dispute.status === 'RESOLVED') return [];
+
+  const timers: DisputeSlaTimer[] = [];
+  if (dispute.status === 'AWAITING_MERCHANT' && new Date(dispute.merchant_response_due_at) <= asOf) {
+    timers.push('MERCHANT_RESPONSE');
+  }
+  if (new Date(dispute.resolution_due_at) <= asOf) {
+    timers.push('RESOLUTION');
+  }
+  return timers;
+}
+
+// Refund from escrow while it is still held, otherwise claw back what the merchant was paid
+async function recoverFromMerchant(
+  contract: BNPLContract,
+  dispute: Dispute,
+  principal: number,
+  actor: string
+): Promise<{ pesapal_transaction_id?: string; clawback_id?: string }> {
+  const recovery = await recoverPrincipal(contract, principal, 'DISPUTE_LOST', dispute.id, actor);
+  dispute.pesapal_transaction_id = recovery.pesapal_transaction_id ?? null;
+  dispute.clawback_id = recovery.clawback_id ?? null;
+  return recovery;
+}
+
+// Back to IN_REPAYMENT; a dispute raised before delivery releases escrow and
+// sends the deductions that delivery confirmation would have
+async function resumeRepayment(
+  contract: BNPLContract,
+  dispute: Dispute,
+  actor: string,
+  metadata: Record<string, unknown>
+): Promise<void> {
+  if (dispute.disputed_from === ContractState.ESCROW_HELD) {
+    const release = await releaseFunds(contract.id, contract.merchant_id, merchantDiscountShare(contract));
+    await updateContractState(contract.id, ContractState.IN_REPAYMENT, actor, {
+      ...metadata,
+      escrow_released: true,
+      pesapal_transaction_id: release.id,
+      merchant_discount_amount: release.merchant_discount_amount,
+    });
+
+    for (let i = 1; i <= contract.tenor_months; i++) {
+      await createDeductionInstruction(contract.id, i);
+    }
+    return;
+  }
+
+  await updateContractState(contract.id, ContractState.IN_REPAYMENT, actor, metadata);
+  await releaseHeldDeductions(contract.id);
+}
+
+async function updateOrderStatus(orderId: string, status: MerchantOrder['status']): Promise<void> {
+  const data = await kv.get(`order:${orderId}`);
+  if (!data) return;
+
+  const order: MerchantOrder = JSON.parse(data);
+  order.status = status;
+  await kv.set(`order:${orderId}`, JSON.stringify(order));
+}
+
+function evidenceEntry(
+  party: DisputeParty,
+  description: string,
+  attachments: string[] | undefined,
+  actor: string
+): DisputeEvidence {
+  return {
+    id: uuidv4(),
+    party,
+    description: description || '',
+    attachments: Array.isArray(attachments) ? attachments.map(String) : [],
+    submitted_by: actor,
+    submitted_at: new Date().toISOString(),
+  };
+}
+
+async function saveDispute(dispute: Dispute): Promise<void> {
+  await kv.set(`${DISPUTE_PREFIX}${dispute.id}`, JSON.stringify(dispute));
+}
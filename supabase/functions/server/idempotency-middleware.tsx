@@ -0,0 +1,203 @@
+// Idempotency middleware - replays stored responses for a repeated Idempotency-Key
+
+import type { Context, MiddlewareHandler } from 'npm:hono';
+import { createClient } from 'jsr:@supabase/supabase-js@2.49.8';
+import * as kv from './kv_store.tsx';
+import type { AppEnv } from './auth-middleware.tsx';
+
+const IDEMPOTENCY_PREFIX = 'idempotency:';
+
+// kv_store only upserts, so claims use conditional writes on its table directly
+const KV_TABLE = 'kv_store_34d8f37e';
+const UNIQUE_VIOLATION = '23505';
+
+// Same window as the domain idempotency cache
+const TTL_MS = 24 * 60 * 60 * 1000;
+
+// An IN_PROGRESS record older than this is from a crashed request and can be taken over
+const LOCK_TIMEOUT_MS = 60 * 1000;
+
+interface StoredResponse {
+  status: number;
+  body: string;
+  content_type: string | null;
+}
+
+interface IdempotencyRecord {
+  key: string;
+  scope: string;
+  fingerprint: string; // SHA-256 of method, path and body
+  status: 'IN_PROGRESS' | 'COMPLETED';
+  lock_token: string;
+  response: StoredResponse | null;
+  created_at: string;
+  completed_at: string | null;
+  expires_at: string;
+}
+
+// Duplicates arriving at this isolate while the original is running wait for it
+const inFlight = new Map<string, Promise<StoredResponse | null>>();
+
+/**
+ * Make a money-moving route idempotent on the `Idempotency-Key` header.
+ *
+ * - Repeat with the same payload: the stored response is replayed
+ *   (`Idempotent-Replayed: true`)
+ * - Repeat with a different payload: 422
+ * - Repeat while the original is still running: waits for it on the same
+ *   isolate, otherwise 409 with Retry-After
+ *
+ * Keys are scoped to the authenticated tenant, customer or service role
+ * (mount after the auth middleware).
+ * Unauthenticated routes are scoped by `publicScope`, or by request path so
+ * callers acting on different contracts never share keys.
+ * 5xx responses are not stored so the client can retry. Requests without
+ * the header pass straight through.
+ */
+export function idempotent(
+  publicScope?: (c: Context<AppEnv>) => Promise<string> | string
+): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const key = c.req.header('Idempotency-Key');
+    if (!key) {
+      await next();
+      return;
+    }
+    if (key.length > 255) {
+      return c.json({ error: 'Idempotency-Key must be at most 255 characters' }, 400);
+    }
+
+    const auth = c.get('auth');
+    const scope = auth
+      ? `${auth.tenant_type}:${auth.tenant_id}`
+      : c.get('principal') ?? `public:${publicScope ? await publicScope(c) : c.req.path}`;
+    const storeKey = `${IDEMPOTENCY_PREFIX}${scope}:${key}`;
+    const fingerprint = await sha256Hex(`${c.req.method} ${c.req.path}\n${await c.req.text()}`);
+    const now = Date.now();
+
+    let stored = await getRecord(storeKey);
+    const existing = stored && new Date(stored.expires_at).getTime() > now ? stored : null;
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        return c.json({ error: 'Idempotency-Key was already used with a different request' }, 422);
+      }
+
+      if (existing.status === 'COMPLETED' && existing.response) {
+        return replay(existing.response);
+      }
+
+      const running = inFlight.get(storeKey);
+      if (running) {
+        const response = await running;
+        if (response) return replay(response);
+        // The original failed with a 5xx and released the key - claim it afresh
+        stored = await getRecord(storeKey);
+      } else if (now - new Date(existing.created_at).getTime() < LOCK_TIMEOUT_MS) {
+        c.header('Retry-After', '1');
+        return c.json({ error: 'A request with this Idempotency-Key is still in progress' }, 409);
+      }
+    }
+
+    // Claim the key with a conditional write: insert when absent, or take over
+    // the expired/stale record we read. A concurrent claim that got there first wins.
+    const lockToken = crypto.randomUUID();
+    const record: IdempotencyRecord = {
+      key,
+      scope,
+      fingerprint,
+      status: 'IN_PROGRESS',
+      lock_token: lockToken,
+      response: null,
+      created_at: new Date(now).toISOString(),
+      completed_at: null,
+      expires_at: new Date(now + TTL_MS).toISOString(),
+    };
+    if (!(await claimRecord(storeKey, record, stored))) {
+      c.header('Retry-After', '1');
+      return c.json({ error: 'A request with this Idempotency-Key is still in progress' }, 409);
+    }
+    // A takeover marker is kept while this request runs, then deleted so markers do not pile up
+    const marker = stored ? takeoverKey(storeKey, stored) : null;
+
+    let settle: (response: StoredResponse | null) => void = () => {};
+    inFlight.set(storeKey, new Promise((resolve) => { settle = resolve; }));
+
+    try {
+      await next();
+
+      if (c.res.status >= 500) {
+        await kv.del(storeKey);
+        settle(null);
+        return;
+      }
+
+      const response: StoredResponse = {
+        status: c.res.status,
+        body: await c.res.clone().text(),
+        content_type: c.res.headers.get('Content-Type'),
+      };
+      record.status = 'COMPLETED';
+      record.response = response;
+      record.completed_at = new Date().toISOString();
+      await kv.set(storeKey, JSON.stringify(record));
+      settle(response);
+    } catch (error) {
+      await kv.del(storeKey);
+      settle(null);
+      throw error;
+    } finally {
+      inFlight.delete(storeKey);
+      if (marker) await kv.del(marker);
+    }
+  };
+}
+
+async function getRecord(storeKey: string): Promise<IdempotencyRecord | null> {
+  const data = await kv.get(storeKey);
+  return data ? JSON.parse(data) : null;
+}
+
+/**
+ * Claim the key for `record`. An absent key is claimed by inserting it; an
+ * expired or stale record (`previous`) is taken over by inserting a marker
+ * keyed on its lock token, so only one request can replace it. Returns
+ * whether this request won.
+ */
+async function claimRecord(
+  storeKey: string,
+  record: IdempotencyRecord,
+  previous: IdempotencyRecord | null
+): Promise<boolean> {
+  const claimKey = previous ? takeoverKey(storeKey, previous) : storeKey;
+  if (!(await insertIfAbsent(claimKey, JSON.stringify(record)))) return false;
+
+  if (previous) {
+    await kv.set(storeKey, JSON.stringify(record));
+  }
+  return true;
+}
+
+function takeoverKey(storeKey: string, previous: IdempotencyRecord): string {
+  return `${storeKey}:takeover:${previous.lock_token}`;
+}
+
+async function insertIfAbsent(key: string, value: string): Promise<boolean> {
+  const supabase = createClient(Deno.env.get('SUPABASE_URL'), Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'));
+  const { error } = await supabase.from(KV_TABLE).insert({ key, value });
+  if (error && error.code === UNIQUE_VIOLATION) return false;
+  if (error) throw new Error(error.message);
+  return true;
+}
+
+function replay(response: StoredResponse): Response {
+  const headers = new Headers({ 'Idempotent-Replayed': 'true' });
+  if (response.content_type) headers.set('Content-Type', response.content_type);
+  return new Response(response.body, { status: response.status, headers });
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -1,4 +1,4 @@
-import { Hono } from "npm:hono";
+import { Hono, type Context } from "npm:hono";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
 import * as kv from "./kv_store.tsx";
@@ -14,10 +14,45 @@ import * as reconciliationService from "./reconciliation-service.tsx";
 import * as auditService from "./audit-service.tsx";
 import * as affordabilityEngine from "./affordability-engine.tsx";
 import * as seedService from "./seed-service.tsx";
+import * as delinquencyService from "./delinquency-service.tsx";
+import * as penaltyService from "./penalty-service.tsx";
+import * as terminationService from "./termination-service.tsx";
+import * as payrollExportService from "./payroll-export-service.tsx";
+import * as remittanceImportService from "./remittance-import-service.tsx";
+import * as paymentAllocationService from "./payment-allocation-service.tsx";
+import * as webhookService from "./webhook-service.tsx";
+import * as authService from "./auth-service.tsx";
+import * as disputeService from "./dispute-service.tsx";
+import * as clawbackService from "./clawback-service.tsx";
+import * as pricingService from "./pricing-service.tsx";
+import * as velocityService from "./velocity-service.tsx";
+import * as crbService from "./crb-service.tsx";
+import * as creditDecisionService from "./credit-decision-service.tsx";
+import * as salaryUpdateService from "./salary-update-service.tsx";
+import { requireApiKey, requireServiceRole, requireCustomer, getAuth, getAuthenticatedCustomer, getPrincipal, isOwnTenant, type AppEnv } from "./auth-middleware.tsx";
+import { idempotent } from "./idempotency-middleware.tsx";
 import { validateStateTransition, canTransitionTo } from "./state-machine.tsx";
-import { ContractState, DeductionStatus, type Employer, type Merchant, type MerchantOrder } from "./types.tsx";
-
-const app = new Hono();
+import { adverseActionCodes, ADVERSE_ACTION_REASONS } from "../_shared/credit-decision.ts";
+import {
+  ContractState,
+  DeductionStatus,
+  type BNPLContract,
+  type Employer,
+  type EmployerDeductionInstruction,
+  type Merchant,
+  type MerchantOrder,
+  type PesapalTransaction,
+  type WebhookDeliveryStatus,
+  type WebhookEventType,
+  type ApiScope,
+  type ApiTenantType,
+  type Dispute,
+  type DisputeStatus,
+  type PricingPlanStatus,
+  type VelocityAlert,
+} from "./types.tsx";
+
+const app = new Hono<AppEnv>();
 
 // Initialize seed data on startup
 seedService.initializeSeedData().catch(console.error);
@@ -30,9 +65,9 @@ app.use(
   "/*",
   cors({
     origin: "*",
-    allowHeaders: ["Content-Type", "Authorization"],
+    allowHeaders: ["Content-Type", "Authorization", "X-API-Key", "X-Tenant-Id", "Idempotency-Key", "X-Customer-Phone", "X-Customer-Pin"],
     allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-    exposeHeaders: ["Content-Length"],
+    exposeHeaders: ["Content-Length", "Idempotent-Replayed"],
     maxAge: 600,
   }),
 );
@@ -48,10 +83,16 @@ app.get("/make-server-34d8f37e/health", (c) => {
  * POST /api/merchant/orders
  * Create a BNPL order at merchant checkout
  */
-app.post("/make-server-34d8f37e/api/merchant/orders", async (c) => {
+app.post("/make-server-34d8f37e/api/merchant/orders", requireApiKey('MERCHANT', 'orders:write'), idempotent(), async (c) => {
   try {
     const body = await c.req.json();
-    const { merchant_id, policy_number, amount, items, tenor_months } = body;
+    const { policy_number, amount, items, tenor_months, pricing_plan_id, device_id } = body;
+
+    // The order belongs to the authenticated merchant
+    if (body.merchant_id && !isOwnTenant(c, body.merchant_id)) {
+      return c.json({ error: 'API key is not valid for this merchant' }, 403);
+    }
+    const merchant_id = getAuth(c).tenant_id;
 
     // Validate merchant
     const merchant = await getMerchant(merchant_id);
@@ -82,11 +123,54 @@ app.post("/make-server-34d8f37e/api/merchant/orders", async (c) => {
       return c.json({ error: 'No limit found for this tenor' }, 400);
     }
 
+    // Explain the decision against the limit, with a CRB score only while it is current and consented to
+    const crbCheck = await crbService.getCurrentCRBCheck(customer.national_id);
+    const factors = affordabilityEngine.explainLimitDecision(policy, limit, amount, crbCheck?.score ?? null);
+
     if (amount > limit.available_amount) {
+      const decline = await creditDecisionService.recordDeclinedDecision({
+        policy_number,
+        customer_id: customer.id,
+        merchant_id,
+        requested_amount: amount,
+        tenor_months,
+        decision: {
+          factors,
+          adverse_action_codes: adverseActionCodes(factors),
+          crb_check_id: crbCheck?.id ?? null,
+          decided_at: new Date().toISOString(),
+        },
+      });
+
       return c.json({ 
         error: 'Amount exceeds available limit',
+        decision_id: decline.id,
         available_limit: limit.available_amount,
-        requested_amount: amount
+        requested_amount: amount,
+        adverse_action_codes: decline.adverse_action_codes,
+        factors,
+      }, 400);
+    }
+
+    // Price the order: requested plan, else the merchant's default, else standard
+    const plan = await pricingService.resolvePricingPlan(merchant, pricing_plan_id);
+    if (!plan) {
+      return c.json({ error: `Pricing plan ${pricing_plan_id || merchant.default_pricing_plan_id} not found` }, 400);
+    }
+    const planCheck = pricingService.validatePricingPlan(plan, merchant_id, amount, tenor_months);
+    if (!planCheck.valid) {
+      return c.json({ error: planCheck.reason, pricing_plan_id: plan.id }, 400);
+    }
+    const pricing = pricingService.toContractPricing(plan);
+
+    // Velocity controls: ticket size, merchant volume, orders per customer and device
+    const velocityOrder = { merchant, customer_phone: policy.phone_number, device_id: device_id || null, amount };
+    const velocity = await velocityService.checkOrderVelocity(velocityOrder);
+    if (!velocity.allowed) {
+      return c.json({
+        error: 'Order declined by velocity controls',
+        decline_code: velocity.declines[0].code,
+        declines: velocity.declines,
       }, 400);
     }
 
@@ -100,22 +184,36 @@ app.post("/make-server-34d8f37e/api/merchant/orders", async (c) => {
       items: items || [],
       status: 'PENDING_AUTH',
       contract_id: null,
+      pricing_plan_id: plan.id,
       created_at: new Date().toISOString(),
       authorized_at: null,
       delivered_at: null,
     };
 
-    await kv.set(`order:${orderId}`, JSON.stringify(order));
-
-    // Create BNPL contract (PRE_APPROVED state)
-    const contract = await contractService.createContract({
-      policy_number,
-      merchant_id,
-      order_id: orderId,
-      principal_amount: amount,
-      tenor_months,
-      customer_id: customer.id,
-    });
+    // Create BNPL contract (PRE_APPROVED state); the velocity reservation is released if this fails
+    let contract: BNPLContract;
+    try {
+      await kv.set(`order:${orderId}`, JSON.stringify(order));
+      contract = await contractService.createContract({
+        policy_number,
+        merchant_id,
+        order_id: orderId,
+        principal_amount: amount,
+        tenor_months,
+        customer_id: customer.id,
+        pricing,
+        credit_decision: {
+          outcome: 'APPROVED',
+          factors,
+          adverse_action_codes: [],
+          crb_check_id: crbCheck?.id ?? null,
+          decided_at: new Date().toISOString(),
+        },
+      });
+    } catch (error) {
+      await velocityService.releaseOrderVelocity(velocityOrder, velocity);
+      throw error;
+    }
 
     // Update order with contract ID
     order.contract_id = contract.id;
@@ -125,7 +223,7 @@ app.post("/make-server-34d8f37e/api/merchant/orders", async (c) => {
     await contractService.updateContractState(
       contract.id,
       ContractState.DEDUCTION_REQUESTED,
-      'merchant',
+      getAuth(c).principal,
       { order_id: orderId }
     );
 
@@ -137,7 +235,7 @@ app.post("/make-server-34d8f37e/api/merchant/orders", async (c) => {
     );
 
     // Calculate payment breakdown
-    const breakdown = affordabilityEngine.calculateFeeBreakdown(amount, tenor_months);
+    const breakdown = affordabilityEngine.calculateFeeBreakdown(amount, tenor_months, pricing);
 
     return c.json({
       order_id: orderId,
@@ -161,7 +259,7 @@ app.post("/make-server-34d8f37e/api/merchant/orders", async (c) => {
  * POST /api/merchant/orders/:orderId/confirm-delivery
  * Confirm order delivery (triggers fund release)
  */
-app.post("/make-server-34d8f37e/api/merchant/orders/:orderId/confirm-delivery", async (c) => {
+app.post("/make-server-34d8f37e/api/merchant/orders/:orderId/confirm-delivery", requireApiKey('MERCHANT', 'orders:write'), idempotent(), async (c) => {
   try {
     const orderId = c.req.param('orderId');
     
@@ -171,6 +269,11 @@ app.post("/make-server-34d8f37e/api/merchant/orders/:orderId/confirm-delivery",
     }
 
     const order: MerchantOrder = JSON.parse(orderData);
+
+    // Other merchants' orders are invisible
+    if (!isOwnTenant(c, order.merchant_id)) {
+      return c.json({ error: 'Order not found' }, 404);
+    }
     
     if (!order.contract_id) {
       return c.json({ error: 'No contract associated with order' }, 400);
@@ -188,15 +291,24 @@ app.post("/make-server-34d8f37e/api/merchant/orders/:orderId/confirm-delivery",
       }, 400);
     }
 
-    // Release funds from escrow to merchant
-    const releaseTransaction = await pesapalService.releaseFunds(contract.id);
+    // Release funds from escrow to merchant, net of any pricing-plan subsidy
+    const releaseTransaction = await pesapalService.releaseFunds(
+      contract.id,
+      contract.merchant_id,
+      pricingService.merchantDiscountShare(contract)
+    );
 
     // Update contract state to DISBURSED
     await contractService.updateContractState(
       contract.id,
       ContractState.DISBURSED,
-      'merchant',
-      { delivery_confirmed: true, pesapal_transaction_id: releaseTransaction.id }
+      getAuth(c).principal,
+      {
+        delivery_confirmed: true,
+        pesapal_transaction_id: releaseTransaction.id,
+        merchant_discount_amount: releaseTransaction.merchant_discount_amount,
+        clawback_recovered_amount: releaseTransaction.clawback_recovered_amount,
+      }
     );
 
     // Transition to IN_REPAYMENT
@@ -212,6 +324,12 @@ app.post("/make-server-34d8f37e/api/merchant/orders/:orderId/confirm-delivery",
     order.delivered_at = new Date().toISOString();
     await kv.set(`order:${orderId}`, JSON.stringify(order));
 
+    await webhookService.emitOrderEvent(order.merchant_id, 'order.delivered', {
+      order_id: orderId,
+      contract_id: contract.id,
+      delivered_at: order.delivered_at,
+    });
+
     // Create deduction instructions for all installments
     for (let i = 1; i <= contract.tenor_months; i++) {
       await contractService.createDeductionInstruction(contract.id, i);
@@ -223,6 +341,8 @@ app.post("/make-server-34d8f37e/api/merchant/orders/:orderId/confirm-delivery",
       status: 'DELIVERED',
       funds_released: true,
       pesapal_transaction_id: releaseTransaction.id,
+      settled_amount: releaseTransaction.amount,
+      merchant_discount_amount: releaseTransaction.merchant_discount_amount,
       message: 'Delivery confirmed and funds released to merchant',
     });
   } catch (error) {
@@ -237,12 +357,13 @@ app.post("/make-server-34d8f37e/api/merchant/orders/:orderId/confirm-delivery",
 /**
  * POST /api/merchant/orders/:orderId/refund
  * Process refund (in case of return/dispute)
+ * Pass `items: [{ sku, quantity }]` to refund part of a multi-item order
  */
-app.post("/make-server-34d8f37e/api/merchant/orders/:orderId/refund", async (c) => {
+app.post("/make-server-34d8f37e/api/merchant/orders/:orderId/refund", requireApiKey('MERCHANT', 'refunds:write'), idempotent(), async (c) => {
   try {
     const orderId = c.req.param('orderId');
     const body = await c.req.json();
-    const { amount, reason } = body;
+    const { amount, reason, items } = body;
 
     const orderData = await kv.get(`order:${orderId}`);
     if (!orderData) {
@@ -250,6 +371,11 @@ app.post("/make-server-34d8f37e/api/merchant/orders/:orderId/refund", async (c)
     }
 
     const order: MerchantOrder = JSON.parse(orderData);
+
+    // Other merchants' orders are invisible
+    if (!isOwnTenant(c, order.merchant_id)) {
+      return c.json({ error: 'Order not found' }, 404);
+    }
     
     if (!order.contract_id) {
       return c.json({ error: 'No contract associated with order' }, 400);
@@ -260,27 +386,146 @@ app.post("/make-server-34d8f37e/api/merchant/orders/:orderId/refund", async (c)
       return c.json({ error: 'Contract not found' }, 404);
     }
 
-    // Initiate refund
-    const refundTransaction = await pesapalService.refundFunds(contract.id, amount || contract.principal_amount);
+    // Partial refund keyed to order item SKUs (repeated SKUs are merged)
+    if (Array.isArray(items) && items.length > 0) {
+      const requestedBySku = new Map<string, number>();
+      for (const requested of items) {
+        if (!Number.isInteger(requested.quantity) || requested.quantity <= 0) {
+          return c.json({ error: `Invalid refund quantity for ${requested.sku}` }, 400);
+        }
+        requestedBySku.set(requested.sku, (requestedBySku.get(requested.sku) || 0) + requested.quantity);
+      }
+      const refundItems = [...requestedBySku].map(([sku, quantity]) => ({ sku, quantity }));
+
+      let refundAmount = 0;
+      for (const requested of refundItems) {
+        const item = order.items.find(i => i.sku === requested.sku);
+        if (!item) {
+          return c.json({ error: `Item ${requested.sku} not found on order` }, 400);
+        }
+
+        const refundable = item.quantity - (item.refunded_quantity || 0);
+        if (requested.quantity > refundable) {
+          return c.json({ 
+            error: `Invalid refund quantity for ${requested.sku}`,
+            refundable_quantity: refundable,
+          }, 400);
+        }
+
+        refundAmount += item.unit_price * requested.quantity;
+      }
+
+      const refundsWholeOrder = order.items.every(item =>
+        (item.refunded_quantity || 0) + (requestedBySku.get(item.sku) || 0) >= item.quantity
+      );
+
+      if (!refundsWholeOrder) {
+        try {
+          contractService.validatePartialRefund(contract, refundAmount);
+        } catch (error) {
+          return c.json({ error: error instanceof Error ? error.message : 'Invalid partial refund' }, 400);
+        }
+
+        // Before funds are held there is nothing to return, so the schedule is just re-amortized
+        const recovery = await pesapalService.recoverPrincipal(contract, refundAmount, 'REFUND', orderId, getAuth(c).principal);
+
+        const previousPrincipal = contract.principal_amount;
+        const result = await contractService.applyPartialRefund(
+          contract.id,
+          refundAmount,
+          getAuth(c).principal,
+          { order_id: orderId, items: refundItems, refund_reason: reason, ...recovery }
+        );
+
+        let mifosAdjustment: { success: boolean; transactionId?: string; error?: string } | null = null;
+        if (contract.mifos_loan_id) {
+          mifosAdjustment = await mifosService.postMifosAdjustment(
+            contract.mifos_loan_id,
+            previousPrincipal - result.contract.principal_amount,
+            result.previous_total_payable - result.contract.total_payable,
+            new Date().toISOString().split('T')[0],
+            reason || 'PARTIAL_REFUND'
+          );
+        }
+
+        for (const requested of refundItems) {
+          const item = order.items.find(i => i.sku === requested.sku)!;
+          item.refunded_quantity = (item.refunded_quantity || 0) + requested.quantity;
+        }
+        order.amount = Math.max(0, order.amount - refundAmount);
+        order.status = 'PARTIALLY_REFUNDED';
+        await kv.set(`order:${orderId}`, JSON.stringify(order));
+
+        await webhookService.emitOrderEvent(order.merchant_id, 'order.refunded', {
+          order_id: orderId,
+          contract_id: contract.id,
+          refund_amount: refundAmount,
+          partial: true,
+          items: refundItems,
+        });
+
+        return c.json({
+          order_id: orderId,
+          contract_id: contract.id,
+          status: 'PARTIALLY_REFUNDED',
+          refund_amount: refundAmount,
+          principal_amount: result.contract.principal_amount,
+          total_payable: result.contract.total_payable,
+          installments: result.installments,
+          overpaid_amount: result.overpaid_amount, // Held as customer credit
+          pesapal_transaction_id: recovery.pesapal_transaction_id ?? null,
+          clawback_id: recovery.clawback_id ?? null,
+          mifos_adjustment: mifosAdjustment,
+          message: 'Partial refund processed and installments re-amortized',
+        });
+      }
+    }
+
+    // Check the contract can be disputed before any money moves
+    if (!canTransitionTo(contract.state, ContractState.DISPUTED)) {
+      return c.json({ error: `Cannot refund contract in ${contract.state} state` }, 400);
+    }
+
+    const refundAmount = amount || contract.principal_amount;
+    if (!(refundAmount > 0) || refundAmount > contract.principal_amount) {
+      return c.json({ 
+        error: `Refund ${refundAmount} must be greater than 0 and at most principal ${contract.principal_amount}` 
+      }, 400);
+    }
+
+    // Initiate refund: from escrow while held, otherwise clawed back from the merchant
+    const recovery = await pesapalService.recoverPrincipal(contract, refundAmount, 'REFUND', orderId, getAuth(c).principal);
 
     // Update contract to DISPUTED
     await contractService.updateContractState(
       contract.id,
       ContractState.DISPUTED,
-      'merchant',
-      { refund_reason: reason, refund_amount: amount }
+      getAuth(c).principal,
+      { refund_reason: reason, refund_amount: refundAmount, ...recovery }
     );
 
-    // Update order status
+    // Update order status; every item is now refunded
+    for (const item of order.items) {
+      item.refunded_quantity = item.quantity;
+    }
+    order.amount = Math.max(0, order.amount - refundAmount);
     order.status = 'REFUNDED';
     await kv.set(`order:${orderId}`, JSON.stringify(order));
 
+    await webhookService.emitOrderEvent(order.merchant_id, 'order.refunded', {
+      order_id: orderId,
+      contract_id: contract.id,
+      refund_amount: refundAmount,
+      partial: false,
+    });
+
     return c.json({
       order_id: orderId,
       contract_id: contract.id,
       status: 'REFUNDED',
-      refund_amount: amount || contract.principal_amount,
-      pesapal_transaction_id: refundTransaction.id,
+      refund_amount: refundAmount,
+      pesapal_transaction_id: recovery.pesapal_transaction_id ?? null,
+      clawback_id: recovery.clawback_id ?? null,
       message: 'Refund processed successfully',
     });
   } catch (error) {
@@ -292,13 +537,119 @@ app.post("/make-server-34d8f37e/api/merchant/orders/:orderId/refund", async (c)
   }
 });
 
+/**
+ * GET /api/merchant/:merchantId/webhooks/deliveries?status=&event_type=&limit=
+ * Webhook delivery log
+ */
+app.get("/make-server-34d8f37e/api/merchant/:merchantId/webhooks/deliveries", requireApiKey('MERCHANT', 'webhooks:manage'), async (c) => {
+  try {
+    const merchantId = c.req.param('merchantId');
+    const limit = c.req.query('limit');
+
+    const deliveries = await webhookService.getDeliveries(merchantId, {
+      status: c.req.query('status') as WebhookDeliveryStatus | undefined,
+      event_type: c.req.query('event_type') as WebhookEventType | undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+
+    return c.json({ merchant_id: merchantId, deliveries, total: deliveries.length });
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return c.json({ 
+      error: 'Failed to fetch webhook deliveries', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/merchant/:merchantId/webhooks/dead-letters
+ * Deliveries that exhausted their retries
+ */
+app.get("/make-server-34d8f37e/api/merchant/:merchantId/webhooks/dead-letters", requireApiKey('MERCHANT', 'webhooks:manage'), async (c) => {
+  try {
+    const merchantId = c.req.param('merchantId');
+    const deadLetters = await webhookService.getDeadLetters(merchantId);
+
+    return c.json({ merchant_id: merchantId, dead_letters: deadLetters, total: deadLetters.length });
+  } catch (error) {
+    console.error('Error fetching webhook dead letters:', error);
+    return c.json({ 
+      error: 'Failed to fetch webhook dead letters', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/merchant/:merchantId/webhooks/deliveries/:deliveryId/replay
+ * Re-send an event as a new delivery
+ */
+app.post("/make-server-34d8f37e/api/merchant/:merchantId/webhooks/deliveries/:deliveryId/replay", requireApiKey('MERCHANT', 'webhooks:manage'), async (c) => {
+  try {
+    const delivery = await webhookService.replayDelivery(
+      c.req.param('merchantId'),
+      c.req.param('deliveryId'),
+      getAuth(c).principal
+    );
+
+    return c.json(delivery);
+  } catch (error) {
+    console.error('Error replaying webhook:', error);
+    return c.json({ 
+      error: 'Failed to replay webhook', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/merchant/:merchantId/webhooks/secret
+ * Create or rotate the webhook signing secret (returned once); deliveries are not sent until one exists
+ */
+app.post("/make-server-34d8f37e/api/merchant/:merchantId/webhooks/secret", requireApiKey('MERCHANT', 'webhooks:manage'), async (c) => {
+  try {
+    const secret = await webhookService.rotateWebhookSecret(c.req.param('merchantId'), getAuth(c).principal);
+
+    return c.json({
+      merchant_id: c.req.param('merchantId'),
+      webhook_secret: secret,
+      signature_header: 'X-Webhook-Signature',
+      message: 'Verify HMAC-SHA256 of "<t>.<raw body>" against v1 in the signature header',
+    });
+  } catch (error) {
+    console.error('Error rotating webhook secret:', error);
+    return c.json({ 
+      error: 'Failed to rotate webhook secret', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/webhooks/retry-due
+ * Send queued webhook deliveries and retry failed ones whose backoff has elapsed (scheduled job, service role key)
+ */
+app.post("/make-server-34d8f37e/api/webhooks/retry-due", requireServiceRole(), async (c) => {
+  try {
+    const result = await webhookService.retryDueDeliveries();
+    return c.json(result);
+  } catch (error) {
+    console.error('Error retrying webhooks:', error);
+    return c.json({ 
+      error: 'Failed to retry webhooks', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
 // ==================== EMPLOYER APIs ====================
 
 /**
  * GET /api/employer/:employerId/deductions/pending
  * Get pending payroll deductions for employer
  */
-app.get("/make-server-34d8f37e/api/employer/:employerId/deductions/pending", async (c) => {
+app.get("/make-server-34d8f37e/api/employer/:employerId/deductions/pending", requireApiKey('EMPLOYER', 'deductions:read'), async (c) => {
   try {
     const employerId = c.req.param('employerId');
     
@@ -337,28 +688,191 @@ app.get("/make-server-34d8f37e/api/employer/:employerId/deductions/pending", asy
   }
 });
 
+/**
+ * POST /api/employer/:employerId/deductions/export
+ * Generate the deduction file for a payroll cycle (CSV, FIXED_WIDTH or XLSX)
+ * A resend supersedes the current version
+ */
+app.post("/make-server-34d8f37e/api/employer/:employerId/deductions/export", requireApiKey('EMPLOYER', 'deductions:read'), async (c) => {
+  try {
+    const employerId = c.req.param('employerId');
+    const body = await c.req.json();
+
+    if (!body.payroll_cycle) {
+      return c.json({ error: 'Missing required field: payroll_cycle' }, 400);
+    }
+
+    const result = await payrollExportService.exportDeductionSchedule(
+      employerId,
+      body.payroll_cycle,
+      getAuth(c).principal,
+      body.format
+    );
+
+    return c.json({
+      ...result.file,
+      unchanged: result.unchanged,
+      download_url: `/make-server-34d8f37e/api/employer/${employerId}/deductions/exports/${result.file.id}/download`,
+      message: result.unchanged
+        ? 'Schedule unchanged; current file returned'
+        : result.file.supersedes
+          ? `Version ${result.file.version} supersedes the previous file`
+          : 'Deduction file generated',
+    });
+  } catch (error) {
+    console.error('Error exporting deductions:', error);
+    return c.json({ 
+      error: 'Failed to export deductions', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/employer/:employerId/deductions/exports?payroll_cycle=YYYY-MM
+ * Version history of a cycle's deduction file
+ */
+app.get("/make-server-34d8f37e/api/employer/:employerId/deductions/exports", requireApiKey('EMPLOYER', 'deductions:read'), async (c) => {
+  try {
+    const employerId = c.req.param('employerId');
+    const payrollCycle = c.req.query('payroll_cycle');
+
+    if (!payrollCycle) {
+      return c.json({ error: 'Missing required query: payroll_cycle' }, 400);
+    }
+
+    const versions = await payrollExportService.getExportHistory(employerId, payrollCycle);
+
+    return c.json({
+      employer_id: employerId,
+      payroll_cycle: payrollCycle,
+      current_version: versions[0]?.version ?? null,
+      versions,
+    });
+  } catch (error) {
+    console.error('Error fetching deduction exports:', error);
+    return c.json({ 
+      error: 'Failed to fetch deduction exports', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/employer/:employerId/deductions/exports/:fileId/download
+ * Download a deduction file (checksum and control total in headers)
+ */
+app.get("/make-server-34d8f37e/api/employer/:employerId/deductions/exports/:fileId/download", requireApiKey('EMPLOYER', 'deductions:read'), async (c) => {
+  try {
+    const file = await payrollExportService.getExportFile(c.req.param('fileId'));
+    if (!file || file.employer_id !== c.req.param('employerId')) {
+      return c.json({ error: 'Export not found' }, 404);
+    }
+
+    const content = await payrollExportService.getExportContent(file.id);
+    if (!content) {
+      return c.json({ error: 'Export content not found' }, 404);
+    }
+
+    return c.body(content.slice().buffer as ArrayBuffer, 200, {
+      'Content-Type': file.content_type,
+      'Content-Disposition': `attachment; filename="${file.file_name}"`,
+      'X-Checksum-SHA256': file.checksum_sha256,
+      'X-Control-Total': String(file.control_total),
+      'X-Record-Count': String(file.record_count),
+      'X-File-Version': String(file.version),
+      'X-File-Status': file.status,
+    });
+  } catch (error) {
+    console.error('Error downloading deduction export:', error);
+    return c.json({ 
+      error: 'Failed to download deduction export', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/employer/:employerId/deductions/export-mapping
+ * Get the employer's deduction file column mapping
+ */
+app.get("/make-server-34d8f37e/api/employer/:employerId/deductions/export-mapping", requireApiKey('EMPLOYER', 'deductions:read'), async (c) => {
+  try {
+    const mapping = await payrollExportService.getExportMapping(c.req.param('employerId'));
+    return c.json(mapping);
+  } catch (error) {
+    console.error('Error fetching export mapping:', error);
+    return c.json({ 
+      error: 'Failed to fetch export mapping', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * PUT /api/employer/:employerId/deductions/export-mapping
+ * Update the employer's deduction file column mapping
+ */
+app.put("/make-server-34d8f37e/api/employer/:employerId/deductions/export-mapping", requireApiKey('EMPLOYER', 'deductions:write'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const mapping = await payrollExportService.updateExportMapping(
+      c.req.param('employerId'),
+      {
+        format: body.format,
+        columns: body.columns,
+        delimiter: body.delimiter,
+        include_header: body.include_header,
+        include_trailer: body.include_trailer,
+      },
+      getAuth(c).principal
+    );
+    return c.json(mapping);
+  } catch (error) {
+    console.error('Error updating export mapping:', error);
+    return c.json({ 
+      error: 'Failed to update export mapping', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
 /**
  * POST /api/employer/:employerId/deductions/approve
  * Approve deduction instructions
  */
-app.post("/make-server-34d8f37e/api/employer/:employerId/deductions/approve", async (c) => {
+app.post("/make-server-34d8f37e/api/employer/:employerId/deductions/approve", requireApiKey('EMPLOYER', 'deductions:write'), async (c) => {
   try {
     const employerId = c.req.param('employerId');
     const body = await c.req.json();
     const { deduction_ids } = body;
 
+    // Other employers' deductions are invisible
+    const deductions: EmployerDeductionInstruction[] = [];
     for (const deductionId of deduction_ids) {
-      const deductionData = await kv.get(`deduction:${deductionId}`);
-      if (deductionData) {
-        const deduction = JSON.parse(deductionData);
-        deduction.status = 'APPROVED';
-        await kv.set(`deduction:${deductionId}`, JSON.stringify(deduction));
+      const deduction = await contractService.getDeduction(deductionId);
+      if (!deduction || !isOwnTenant(c, deduction.employer_id)) {
+        return c.json({ error: `Deduction ${deductionId} not found` }, 404);
+      }
+      deductions.push(deduction);
+    }
+
+    const skipped: string[] = [];
+    for (const deduction of deductions) {
+      // Held (disputed), cancelled or executed deductions stay as they are
+      if (deduction.status !== DeductionStatus.SENT && deduction.status !== DeductionStatus.APPROVED) {
+        skipped.push(deduction.id);
+        continue;
       }
+
+      deduction.status = DeductionStatus.APPROVED;
+      await kv.set(`deduction:${deduction.id}`, JSON.stringify(deduction));
     }
 
     return c.json({
       employer_id: employerId,
-      approved_count: deduction_ids.length,
+      approved_count: deduction_ids.length - skipped.length,
+      skipped_deduction_ids: skipped,
       message: 'Deductions approved successfully',
     });
   } catch (error) {
@@ -374,58 +888,24 @@ app.post("/make-server-34d8f37e/api/employer/:employerId/deductions/approve", as
  * POST /api/employer/:employerId/remittance
  * Submit payroll remittance (actual payments made)
  */
-app.post("/make-server-34d8f37e/api/employer/:employerId/remittance", async (c) => {
+app.post("/make-server-34d8f37e/api/employer/:employerId/remittance", requireApiKey('EMPLOYER', 'remittance:write'), idempotent(), async (c) => {
   try {
     const employerId = c.req.param('employerId');
     const body = await c.req.json();
     const { payroll_cycle, remittances } = body;
 
     // remittances: [{ payroll_employee_id, deduction_id, amount, transaction_date }]
-    
-    const results: any[] = [];
-    const mifosRepayments: any[] = [];
 
+    // Other employers' deductions are invisible
     for (const remittance of remittances) {
-      try {
-        // Find the deduction
-        const deductionData = await kv.get(`deduction:${remittance.deduction_id}`);
-        if (!deductionData) {
-          results.push({ ...remittance, success: false, error: 'Deduction not found' });
-          continue;
-        }
-
-        const deduction = JSON.parse(deductionData);
-        deduction.status = 'EXECUTED';
-        deduction.executed_at = new Date().toISOString();
-        await kv.set(`deduction:${remittance.deduction_id}`, JSON.stringify(deduction));
-
-        // Record installment payment
-        await contractService.recordInstallmentPayment(
-          deduction.installment_id,
-          remittance.amount,
-          remittance.deduction_id
-        );
-
-        // Get contract and Mifos loan ID for repayment posting
-        const contract = await contractService.getContract(deduction.contract_id);
-        if (contract && contract.mifos_loan_id) {
-          mifosRepayments.push({
-            mifos_loan_id: contract.mifos_loan_id,
-            amount: remittance.amount,
-            transaction_date: remittance.transaction_date || new Date().toISOString().split('T')[0],
-          });
-        }
-
-        results.push({ ...remittance, success: true });
-      } catch (error) {
-        results.push({ 
-          ...remittance, 
-          success: false, 
-          error: error instanceof Error ? error.message : 'Unknown error' 
-        });
+      const deduction = await contractService.getDeduction(remittance.deduction_id);
+      if (!deduction || !isOwnTenant(c, deduction.employer_id)) {
+        return c.json({ error: `Deduction ${remittance.deduction_id} not found` }, 404);
       }
     }
 
+    const { results, mifosRepayments } = await remittanceImportService.applyRemittanceLines(remittances);
+
     // Post repayments to Mifos X in batch
     const mifosResults = await mifosService.batchPostRepayments(mifosRepayments);
 
@@ -463,47 +943,426 @@ app.post("/make-server-34d8f37e/api/employer/:employerId/remittance", async (c)
 });
 
 /**
- * POST /api/employer/bulk-onboard
- * Bulk onboard employees
+ * POST /api/employer/:employerId/remittance/import
+ * Import a CSV/XLSX remittance file keyed by payroll number; lines are matched
+ * to the cycle's deductions and anything unmatched goes to the exceptions queue
  */
-app.post("/make-server-34d8f37e/api/employer/bulk-onboard", async (c) => {
+app.post("/make-server-34d8f37e/api/employer/:employerId/remittance/import", requireApiKey('EMPLOYER', 'remittance:write'), idempotent(), async (c) => {
   try {
+    const employerId = c.req.param('employerId');
     const body = await c.req.json();
-    const { employer_id, employees } = body;
+    const { payroll_cycle, file_name, content, auto_post } = body;
 
-    const result = await policyService.bulkOnboardEmployees(employer_id, employees);
+    if (!payroll_cycle || !content) {
+      return c.json({ error: 'Missing required fields: payroll_cycle, content' }, 400);
+    }
 
-    return c.json({
-      employer_id,
-      total_employees: employees.length,
-      successful: result.successful.length,
-      failed: result.failed.length,
-      results: {
-        successful: result.successful,
-        failed: result.failed,
-      },
-    });
+    const format = String(body.format || 'CSV').toUpperCase();
+    if (format !== 'CSV' && format !== 'XLSX') {
+      return c.json({ error: `Unsupported remittance format ${body.format}` }, 400);
+    }
+
+    // CSV as plain text, XLSX as base64
+    const remittanceImport = await remittanceImportService.importRemittanceFile(
+      employerId,
+      payroll_cycle,
+      { name: file_name || `remittance-${payroll_cycle}.${format.toLowerCase()}`, format, content },
+      getAuth(c).principal
+    );
+
+    if (auto_post) {
+      const posted = await remittanceImportService.postRemittanceImport(remittanceImport.id, getAuth(c).principal);
+      return c.json(posted);
+    }
+
+    return c.json({ import: remittanceImport });
   } catch (error) {
-    console.error('Error bulk onboarding employees:', error);
+    console.error('Error importing remittance file:', error);
     return c.json({ 
-      error: 'Failed to onboard employees', 
+      error: 'Failed to import remittance file', 
       details: error instanceof Error ? error.message : 'Unknown error' 
     }, 500);
   }
 });
 
-// ==================== USSD/CUSTOMER APIs ====================
-
 /**
- * POST /api/ussd/authorize
- * Process USSD PIN authorization
+ * GET /api/employer/:employerId/remittance/imports/:importId
+ * Get a remittance import with its line matches
  */
-app.post("/make-server-34d8f37e/api/ussd/authorize", async (c) => {
+app.get("/make-server-34d8f37e/api/employer/:employerId/remittance/imports/:importId", requireApiKey('EMPLOYER', 'remittance:write'), async (c) => {
   try {
-    const body = await c.req.json();
-    const { session_id, pin } = body;
-
-    const result = await ussdService.processUSSDPINEntry(session_id, pin);
+    const remittanceImport = await remittanceImportService.getRemittanceImport(c.req.param('importId'));
+    if (!remittanceImport || remittanceImport.employer_id !== c.req.param('employerId')) {
+      return c.json({ error: 'Remittance import not found' }, 404);
+    }
+
+    return c.json(remittanceImport);
+  } catch (error) {
+    console.error('Error fetching remittance import:', error);
+    return c.json({ 
+      error: 'Failed to fetch remittance import', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/employer/:employerId/remittance/imports/:importId/post
+ * Post matched lines to installments and Mifos (exceptions stay queued)
+ */
+app.post("/make-server-34d8f37e/api/employer/:employerId/remittance/imports/:importId/post", requireApiKey('EMPLOYER', 'remittance:write'), idempotent(), async (c) => {
+  try {
+    const remittanceImport = await remittanceImportService.getRemittanceImport(c.req.param('importId'));
+    if (!remittanceImport || !isOwnTenant(c, remittanceImport.employer_id)) {
+      return c.json({ error: 'Remittance import not found' }, 404);
+    }
+
+    const result = await remittanceImportService.postRemittanceImport(
+      c.req.param('importId'),
+      getAuth(c).principal
+    );
+
+    return c.json(result);
+  } catch (error) {
+    console.error('Error posting remittance import:', error);
+    return c.json({ 
+      error: 'Failed to post remittance import', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/employer/:employerId/remittance/exceptions?status=OPEN
+ * Remittance exceptions queue
+ */
+app.get("/make-server-34d8f37e/api/employer/:employerId/remittance/exceptions", requireApiKey('EMPLOYER', 'remittance:write'), async (c) => {
+  try {
+    const status = (c.req.query('status') || 'OPEN').toUpperCase() as 'OPEN' | 'RESOLVED' | 'DISMISSED';
+    const exceptions = await remittanceImportService.getRemittanceExceptions(c.req.param('employerId'), status);
+
+    return c.json({
+      exceptions,
+      total: exceptions.length,
+      total_amount: exceptions.reduce((sum, e) => sum + e.line.amount, 0),
+    });
+  } catch (error) {
+    console.error('Error fetching remittance exceptions:', error);
+    return c.json({ 
+      error: 'Failed to fetch remittance exceptions', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/employer/:employerId/remittance/exceptions/:exceptionId/resolve
+ * Allocate an exception line to deductions, or dismiss it with a note
+ * ALLOCATE needs the `amount` the line actually paid
+ */
+app.post("/make-server-34d8f37e/api/employer/:employerId/remittance/exceptions/:exceptionId/resolve", requireApiKey('EMPLOYER', 'remittance:write'), idempotent(), async (c) => {
+  try {
+    const body = await c.req.json();
+    const { action, amount, allocations, note } = body;
+
+    if (action !== 'ALLOCATE' && action !== 'DISMISS') {
+      return c.json({ error: 'action must be ALLOCATE or DISMISS' }, 400);
+    }
+    if (action === 'ALLOCATE' && !(typeof amount === 'number' && amount > 0)) {
+      return c.json({ error: 'amount is required to allocate an exception' }, 400);
+    }
+    if (action === 'DISMISS' && !note) {
+      return c.json({ error: 'A note is required to dismiss an exception' }, 400);
+    }
+
+    // Other employers' exceptions and deductions are invisible
+    const existing = await remittanceImportService.getRemittanceException(c.req.param('exceptionId'));
+    if (!existing || !isOwnTenant(c, existing.employer_id)) {
+      return c.json({ error: 'Remittance exception not found' }, 404);
+    }
+    if (action === 'ALLOCATE') {
+      for (const allocation of allocations || []) {
+        const deduction = await contractService.getDeduction(allocation.deduction_id);
+        if (!deduction || !isOwnTenant(c, deduction.employer_id)) {
+          return c.json({ error: `Deduction ${allocation.deduction_id} not found` }, 404);
+        }
+      }
+    }
+
+    const exception = await remittanceImportService.resolveRemittanceException(
+      c.req.param('exceptionId'),
+      action === 'ALLOCATE' ? { action, amount, allocations, note } : { action, note },
+      getAuth(c).principal
+    );
+
+    return c.json(exception);
+  } catch (error) {
+    console.error('Error resolving remittance exception:', error);
+    return c.json({ 
+      error: 'Failed to resolve remittance exception', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/employer/bulk-onboard
+ * Bulk onboard employees
+ */
+app.post("/make-server-34d8f37e/api/employer/bulk-onboard", requireApiKey('EMPLOYER', 'employees:write'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const { employer_id, employees } = body;
+
+    if (!isOwnTenant(c, employer_id)) {
+      return c.json({ error: 'API key is not valid for this employer' }, 403);
+    }
+
+    const result = await policyService.bulkOnboardEmployees(employer_id, employees);
+
+    return c.json({
+      employer_id,
+      total_employees: employees.length,
+      successful: result.successful.length,
+      failed: result.failed.length,
+      results: {
+        successful: result.successful,
+        failed: result.failed,
+      },
+    });
+  } catch (error) {
+    console.error('Error bulk onboarding employees:', error);
+    return c.json({ 
+      error: 'Failed to onboard employees', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/employer/:employerId/employees/:payrollEmployeeId/exit
+ * Notify an employee exit: terminate policy, recover from terminal dues
+ */
+app.post("/make-server-34d8f37e/api/employer/:employerId/employees/:payrollEmployeeId/exit", requireApiKey('EMPLOYER', 'employees:write'), async (c) => {
+  try {
+    const employerId = c.req.param('employerId');
+    const payrollEmployeeId = c.req.param('payrollEmployeeId');
+    const body = await c.req.json();
+
+    if (!body.exit_date || body.terminal_dues === undefined) {
+      return c.json({ error: 'Missing required fields: exit_date, terminal_dues' }, 400);
+    }
+
+    const policy = await policyService.getPolicyByPayrollId(employerId, payrollEmployeeId);
+    if (!policy) {
+      return c.json({ error: 'Employee policy not found' }, 404);
+    }
+
+    const exit = await terminationService.processEmployeeExit(
+      policy.policy_number,
+      {
+        exit_date: body.exit_date,
+        terminal_dues: Number(body.terminal_dues),
+        reason: body.reason,
+      },
+      'EMPLOYER_API',
+      getAuth(c).principal
+    );
+
+    return c.json({
+      ...exit,
+      message: exit.residual_amount > 0
+        ? 'Exit processed; residual balance moved to direct collection'
+        : 'Exit processed; balance recoverable from terminal dues',
+    });
+  } catch (error) {
+    console.error('Error processing employee exit:', error);
+    return c.json({ 
+      error: 'Failed to process employee exit', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/employer/:employerId/exits
+ * Payroll exit file: [{ payroll_employee_id, exit_date, terminal_dues, reason }]
+ */
+app.post("/make-server-34d8f37e/api/employer/:employerId/exits", requireApiKey('EMPLOYER', 'employees:write'), async (c) => {
+  try {
+    const employerId = c.req.param('employerId');
+    const body = await c.req.json();
+    const { exits } = body;
+
+    if (!Array.isArray(exits)) {
+      return c.json({ error: 'Missing required field: exits' }, 400);
+    }
+
+    const result = await terminationService.processPayrollExitFile(
+      employerId,
+      exits.map((e: any) => ({
+        payroll_employee_id: e.payroll_employee_id,
+        exit_date: e.exit_date,
+        terminal_dues: Number(e.terminal_dues),
+        reason: e.reason,
+      })),
+      getAuth(c).principal
+    );
+
+    return c.json({
+      employer_id: employerId,
+      total_exits: exits.length,
+      successful: result.successful.length,
+      failed: result.failed.length,
+      final_deduction_amount: result.successful.reduce((sum, e) => sum + e.final_deduction_amount, 0),
+      residual_amount: result.successful.reduce((sum, e) => sum + e.residual_amount, 0),
+      results: result,
+    });
+  } catch (error) {
+    console.error('Error processing exit file:', error);
+    return c.json({ 
+      error: 'Failed to process exit file', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/employer/:employerId/employees/:payrollEmployeeId/exit
+ * Get a processed exit and its direct collection case
+ */
+app.get("/make-server-34d8f37e/api/employer/:employerId/employees/:payrollEmployeeId/exit", requireApiKey('EMPLOYER', 'employees:write'), async (c) => {
+  try {
+    const policy = await policyService.getPolicyByPayrollId(
+      c.req.param('employerId'),
+      c.req.param('payrollEmployeeId')
+    );
+    if (!policy) {
+      return c.json({ error: 'Employee policy not found' }, 404);
+    }
+
+    const exit = await terminationService.getEmployeeExit(policy.policy_number);
+    if (!exit) {
+      return c.json({ error: 'No exit processed for employee' }, 404);
+    }
+
+    return c.json({
+      ...exit,
+      direct_collection: await terminationService.getDirectCollectionCase(policy.policy_number),
+    });
+  } catch (error) {
+    console.error('Error fetching employee exit:', error);
+    return c.json({ 
+      error: 'Failed to fetch employee exit', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/employer/:employerId/salary-updates
+ * Salary change feed: [{ payroll_employee_id, net_salary }]; changed salaries
+ * recalculate limits and material drops are flagged for review
+ */
+app.post("/make-server-34d8f37e/api/employer/:employerId/salary-updates", requireApiKey('EMPLOYER', 'employees:write'), idempotent(), async (c) => {
+  try {
+    const employerId = c.req.param('employerId');
+    const body = await c.req.json();
+    const { updates } = body;
+
+    if (!Array.isArray(updates)) {
+      return c.json({ error: 'Missing required field: updates' }, 400);
+    }
+
+    const batch = await salaryUpdateService.applySalaryUpdates(
+      employerId,
+      updates.map((u: any) => ({
+        payroll_employee_id: u.payroll_employee_id,
+        net_salary: Number(u.net_salary),
+      })),
+      'EMPLOYER_API',
+      getAuth(c).principal
+    );
+
+    return c.json(batch);
+  } catch (error) {
+    console.error('Error applying salary updates:', error);
+    return c.json({ 
+      error: 'Failed to apply salary updates', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/employer/:employerId/salary-updates/import
+ * Import a CSV/XLSX salary file keyed by payroll number (same handling as the API feed)
+ */
+app.post("/make-server-34d8f37e/api/employer/:employerId/salary-updates/import", requireApiKey('EMPLOYER', 'employees:write'), idempotent(), async (c) => {
+  try {
+    const employerId = c.req.param('employerId');
+    const body = await c.req.json();
+    const { file_name, content } = body;
+
+    if (!content) {
+      return c.json({ error: 'Missing required field: content' }, 400);
+    }
+
+    const format = String(body.format || 'CSV').toUpperCase();
+    if (format !== 'CSV' && format !== 'XLSX') {
+      return c.json({ error: `Unsupported salary file format ${body.format}` }, 400);
+    }
+
+    // CSV as plain text, XLSX as base64
+    const batch = await salaryUpdateService.importSalaryFile(
+      employerId,
+      { name: file_name || `salaries.${format.toLowerCase()}`, format, content },
+      getAuth(c).principal
+    );
+
+    return c.json(batch);
+  } catch (error) {
+    console.error('Error importing salary file:', error);
+    return c.json({ 
+      error: 'Failed to import salary file', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/employer/:employerId/salary-updates/:batchId
+ * Get a salary update batch with per-employee outcomes and limit changes
+ */
+app.get("/make-server-34d8f37e/api/employer/:employerId/salary-updates/:batchId", requireApiKey('EMPLOYER', 'employees:write'), async (c) => {
+  try {
+    const batch = await salaryUpdateService.getSalaryUpdateBatch(c.req.param('batchId'));
+    if (!batch || batch.employer_id !== c.req.param('employerId')) {
+      return c.json({ error: 'Salary update batch not found' }, 404);
+    }
+
+    return c.json(batch);
+  } catch (error) {
+    console.error('Error fetching salary update batch:', error);
+    return c.json({ 
+      error: 'Failed to fetch salary update batch', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// ==================== USSD/CUSTOMER APIs ====================
+
+/**
+ * POST /api/ussd/authorize
+ * Process USSD PIN authorization
+ */
+app.post("/make-server-34d8f37e/api/ussd/authorize", idempotent(async (c) => `ussd:${(await c.req.json().catch(() => ({}))).session_id}`), async (c) => {
+  try {
+    const body = await c.req.json();
+    const { session_id, pin } = body;
+
+    const result = await ussdService.processUSSDPINEntry(session_id, pin);
 
     if (result.verified) {
       // Update contract state to CUSTOMER_AUTHORIZED
@@ -697,120 +1556,1459 @@ app.post("/make-server-34d8f37e/api/reconciliation/run-daily", async (c) => {
   }
 });
 
-// ==================== DASHBOARD/ANALYTICS APIs ====================
+// ==================== ADMIN APIs ====================
 
 /**
- * GET /api/dashboard/kpis
- * Get key performance indicators
+ * POST /api/admin/indexes/rebuild
+ * Rebuild secondary indexes from primary records (after imports or index changes)
  */
-app.get("/make-server-34d8f37e/api/dashboard/kpis", async (c) => {
+app.post("/make-server-34d8f37e/api/admin/indexes/rebuild", async (c) => {
   try {
-    const kpis = await calculateKPIs();
-    return c.json(kpis);
+    const contracts = await contractService.rebuildContractIndexes();
+    const customers = await policyService.rebuildCustomerIndexes();
+    const auditLogs = await auditService.rebuildAuditIndexes();
+    const apiKeys = await authService.rebuildApiKeyIndexes();
+    const webhookDeliveries = await webhookService.rebuildWebhookIndexes();
+
+    return c.json({
+      message: 'Indexes rebuilt',
+      contracts,
+      customers,
+      audit_logs: auditLogs,
+      api_keys: apiKeys,
+      webhook_deliveries: webhookDeliveries,
+    });
   } catch (error) {
-    console.error('Error calculating KPIs:', error);
+    console.error('Error rebuilding indexes:', error);
     return c.json({ 
-      error: 'Failed to calculate KPIs', 
+      error: 'Failed to rebuild indexes', 
       details: error instanceof Error ? error.message : 'Unknown error' 
     }, 500);
   }
 });
 
 /**
- * GET /api/contracts
- * Get all contracts with optional filters
+ * POST /api/admin/contracts/migrate-states
+ * Map contracts stored with legacy state names onto the unified lifecycle
  */
-app.get("/make-server-34d8f37e/api/contracts", async (c) => {
+app.post("/make-server-34d8f37e/api/admin/contracts/migrate-states", async (c) => {
   try {
-    const state = c.req.query('state');
-    const policyNumber = c.req.query('policy_number');
-
-    const allKeys = await kv.getByPrefix('contract:');
-    const contracts: any[] = [];
-
-    for (const key of allKeys) {
-      if (!key.includes(':') || key.split(':').length === 2) {
-        const data = await kv.get(key);
-        if (data) {
-          try {
-            const contract = JSON.parse(data);
-            if (contract.id) { // Ensure it's a contract, not a reference
-              if ((!state || contract.state === state) && 
-                  (!policyNumber || contract.policy_number === policyNumber)) {
-                contracts.push(contract);
-              }
-            }
-          } catch (e) {
-            // Skip invalid JSON
-          }
-        }
-      }
-    }
+    const result = await contractService.migrateLegacyContractStates('admin');
 
     return c.json({
-      total: contracts.length,
-      contracts,
+      message: 'Contract states migrated',
+      scanned: result.scanned,
+      migrated_count: result.migrated.length,
+      migrated: result.migrated,
+      unknown: result.unknown,
     });
   } catch (error) {
-    console.error('Error fetching contracts:', error);
+    console.error('Error migrating contract states:', error);
     return c.json({ 
-      error: 'Failed to fetch contracts', 
+      error: 'Failed to migrate contract states', 
       details: error instanceof Error ? error.message : 'Unknown error' 
     }, 500);
   }
 });
 
 /**
- * GET /api/audit-logs/:entityType/:entityId
- * Get audit logs for an entity
+ * POST /api/admin/api-keys
+ * Issue a tenant's first API key (tenants manage further keys themselves)
+ * Operator only: needs the service role key as a bearer token
  */
-app.get("/make-server-34d8f37e/api/audit-logs/:entityType/:entityId", async (c) => {
+app.post("/make-server-34d8f37e/api/admin/api-keys", requireServiceRole(), async (c) => {
   try {
-    const entityType = c.req.param('entityType');
-    const entityId = c.req.param('entityId');
+    const body = await c.req.json();
+    const { tenant_type, tenant_id, scopes, label } = body;
+
+    if (tenant_type !== 'MERCHANT' && tenant_type !== 'EMPLOYER') {
+      return c.json({ error: 'tenant_type must be MERCHANT or EMPLOYER' }, 400);
+    }
+    if (!tenant_id) {
+      return c.json({ error: 'Missing required field: tenant_id' }, 400);
+    }
 
-    const logs = await auditService.getAuditLogs(entityType, entityId);
+    const issued = await authService.issueApiKey(
+      tenant_type,
+      tenant_id,
+      scopes || authService.TENANT_SCOPES[tenant_type as ApiTenantType],
+      'service_role',
+      label || null
+    );
 
-    return c.json({
-      entity_type: entityType,
-      entity_id: entityId,
-      total_logs: logs.length,
-      logs,
-    });
+    const { key_hash: _hash, ...credential } = issued.credential;
+    return c.json({ ...credential, api_key: issued.api_key, message: 'Store this key now; it is not shown again' });
   } catch (error) {
-    console.error('Error fetching audit logs:', error);
+    console.error('Error issuing API key:', error);
     return c.json({ 
-      error: 'Failed to fetch audit logs', 
+      error: 'Failed to issue API key', 
       details: error instanceof Error ? error.message : 'Unknown error' 
     }, 500);
   }
 });
 
-// ==================== HELPER FUNCTIONS ====================
+/**
+ * GET /api/admin/salary-reviews?status=OPEN&employer_id=
+ * Material salary drops awaiting review; operator only (service role key)
+ */
+app.get("/make-server-34d8f37e/api/admin/salary-reviews", requireServiceRole(), async (c) => {
+  try {
+    const status = c.req.query('status') || 'OPEN';
+    if (status !== 'OPEN' && status !== 'RESOLVED') {
+      return c.json({ error: 'status must be OPEN or RESOLVED' }, 400);
+    }
 
-async function getMerchant(merchantId: string): Promise<Merchant | null> {
-  const data = await kv.get(`merchant:${merchantId}`);
-  return data ? JSON.parse(data) : null;
+    const reviews = await salaryUpdateService.getSalaryReviews({
+      status,
+      employer_id: c.req.query('employer_id'),
+    });
+    return c.json({ reviews, total: reviews.length });
+  } catch (error) {
+    console.error('Error fetching salary reviews:', error);
+    return c.json({ 
+      error: 'Failed to fetch salary reviews', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/admin/salary-reviews/:reviewId/resolve
+ * Close a salary review with a note, confirming the new salary or rolling it back
+ * Body: { decision: 'CONFIRM' | 'ROLL_BACK', note }; operator only (service role key)
+ */
+app.post("/make-server-34d8f37e/api/admin/salary-reviews/:reviewId/resolve", requireServiceRole(), async (c) => {
+  try {
+    const body = await c.req.json();
+    if (!body.note) {
+      return c.json({ error: 'Missing required field: note' }, 400);
+    }
+    if (body.decision !== 'CONFIRM' && body.decision !== 'ROLL_BACK') {
+      return c.json({ error: 'decision must be CONFIRM or ROLL_BACK' }, 400);
+    }
+
+    const review = await salaryUpdateService.resolveSalaryReview(
+      c.req.param('reviewId'),
+      body.decision,
+      body.note,
+      getPrincipal(c)
+    );
+    return c.json(review);
+  } catch (error) {
+    console.error('Error resolving salary review:', error);
+    return c.json({ 
+      error: 'Failed to resolve salary review', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// ==================== API KEY APIs ====================
+
+// Self-service key management, same routes for merchants and employers:
+//   GET  /api/{merchant|employer}/:id/api-keys
+//   POST /api/{merchant|employer}/:id/api-keys                   { scopes, label }
+//   POST /api/{merchant|employer}/:id/api-keys/:keyId/rotate     { overlap_hours }
+//   POST /api/{merchant|employer}/:id/api-keys/:keyId/revoke
+for (const [segment, tenantType, param] of [
+  ['merchant', 'MERCHANT', 'merchantId'],
+  ['employer', 'EMPLOYER', 'employerId'],
+] as const) {
+  const base = `/make-server-34d8f37e/api/${segment}/:${param}/api-keys`;
+
+  app.get(base, requireApiKey(tenantType, 'keys:manage'), async (c) => {
+    try {
+      const keys = await authService.listApiKeys(tenantType, getAuth(c).tenant_id);
+      return c.json({ keys, total: keys.length });
+    } catch (error) {
+      console.error('Error listing API keys:', error);
+      return c.json({ 
+        error: 'Failed to list API keys', 
+        details: error instanceof Error ? error.message : 'Unknown error' 
+      }, 500);
+    }
+  });
+
+  app.post(base, requireApiKey(tenantType, 'keys:manage'), async (c) => {
+    try {
+      const body = await c.req.json();
+      const auth = getAuth(c);
+      const scopes: ApiScope[] = body.scopes || auth.scopes;
+
+      // A key can only hand out scopes it holds itself
+      const escalated = scopes.filter((s) => !auth.scopes.includes(s));
+      if (escalated.length > 0) {
+        return c.json({ error: `Cannot grant scopes this key does not hold: ${escalated.join(', ')}` }, 403);
+      }
+
+      const issued = await authService.issueApiKey(tenantType, auth.tenant_id, scopes, auth.principal, body.label || null);
+      const { key_hash: _hash, ...credential } = issued.credential;
+      return c.json({ ...credential, api_key: issued.api_key, message: 'Store this key now; it is not shown again' });
+    } catch (error) {
+      console.error('Error issuing API key:', error);
+      return c.json({ 
+        error: 'Failed to issue API key', 
+        details: error instanceof Error ? error.message : 'Unknown error' 
+      }, 500);
+    }
+  });
+
+  app.post(`${base}/:keyId/rotate`, requireApiKey(tenantType, 'keys:manage'), async (c) => {
+    try {
+      const body = await c.req.json().catch(() => ({}));
+      const credential = await authService.getCredential(c.req.param('keyId'));
+      if (!credential || credential.tenant_type !== tenantType || !isOwnTenant(c, credential.tenant_id)) {
+        return c.json({ error: 'API key not found' }, 404);
+      }
+
+      const rotated = await authService.rotateApiKey(
+        credential.id,
+        getAuth(c).principal,
+        body.overlap_hours ?? authService.DEFAULT_ROTATION_OVERLAP_HOURS
+      );
+
+      const { key_hash: _hash, ...replacement } = rotated.credential;
+      return c.json({
+        ...replacement,
+        api_key: rotated.api_key,
+        previous_key_id: rotated.previous.id,
+        previous_key_expires_at: rotated.previous.expires_at,
+        message: 'Store this key now; the previous key stops working at previous_key_expires_at',
+      });
+    } catch (error) {
+      console.error('Error rotating API key:', error);
+      return c.json({ 
+        error: 'Failed to rotate API key', 
+        details: error instanceof Error ? error.message : 'Unknown error' 
+      }, 500);
+    }
+  });
+
+  app.post(`${base}/:keyId/revoke`, requireApiKey(tenantType, 'keys:manage'), async (c) => {
+    try {
+      const credential = await authService.getCredential(c.req.param('keyId'));
+      if (!credential || credential.tenant_type !== tenantType || !isOwnTenant(c, credential.tenant_id)) {
+        return c.json({ error: 'API key not found' }, 404);
+      }
+
+      const revoked = await authService.revokeApiKey(credential.id, getAuth(c).principal);
+      const { key_hash: _hash, ...rest } = revoked;
+      return c.json(rest);
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      return c.json({ 
+        error: 'Failed to revoke API key', 
+        details: error instanceof Error ? error.message : 'Unknown error' 
+      }, 500);
+    }
+  });
 }
 
-async function getCustomerByPolicy(policyNumber: string): Promise<any> {
-  const allKeys = await kv.getByPrefix('customer:');
-  
-  for (const key of allKeys) {
-    if (!key.includes(':')) {
-      const data = await kv.get(key);
-      if (data) {
-        const customer = JSON.parse(data);
-        // Find matching policy
-        const policy = await policyService.getPolicy(policyNumber);
-        if (policy && policy.payroll_employee_id === customer.payroll_employee_id) {
-          return customer;
-        }
+// ==================== DELINQUENCY APIs ====================
+
+/**
+ * POST /api/delinquency/run-daily
+ * Age installments into days-past-due buckets and default contracts per policy
+ */
+app.post("/make-server-34d8f37e/api/delinquency/run-daily", async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const asOf = body.as_of ? new Date(body.as_of) : new Date();
+    if (isNaN(asOf.getTime())) {
+      return c.json({ error: 'Invalid as_of date' }, 400);
+    }
+
+    const run = await delinquencyService.runDelinquencyAgeing(asOf, 'system');
+
+    return c.json({
+      message: 'Delinquency ageing completed',
+      ...run,
+    });
+  } catch (error) {
+    console.error('Error running delinquency ageing:', error);
+    return c.json({ 
+      error: 'Failed to run delinquency ageing', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/delinquency/summary
+ * Portfolio at risk by days-past-due bucket
+ */
+app.get("/make-server-34d8f37e/api/delinquency/summary", async (c) => {
+  try {
+    const summary = await delinquencyService.getDelinquencySummary();
+    return c.json(summary);
+  } catch (error) {
+    console.error('Error fetching delinquency summary:', error);
+    return c.json({ 
+      error: 'Failed to fetch delinquency summary', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/delinquency/policy
+ * Get delinquency policy (grace days, default threshold)
+ */
+app.get("/make-server-34d8f37e/api/delinquency/policy", async (c) => {
+  try {
+    const policy = await delinquencyService.getDelinquencyPolicy();
+    return c.json(policy);
+  } catch (error) {
+    console.error('Error fetching delinquency policy:', error);
+    return c.json({ 
+      error: 'Failed to fetch delinquency policy', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * PUT /api/delinquency/policy
+ * Update delinquency policy
+ */
+app.put("/make-server-34d8f37e/api/delinquency/policy", async (c) => {
+  try {
+    const body = await c.req.json();
+    const policy = await delinquencyService.updateDelinquencyPolicy(
+      {
+        graceDays: body.grace_days,
+        defaultAfterDays: body.default_after_days,
+        minimumArrearsForDefault: body.minimum_arrears_for_default,
+      },
+      body.actor || 'admin'
+    );
+    return c.json(policy);
+  } catch (error) {
+    console.error('Error updating delinquency policy:', error);
+    return c.json({ 
+      error: 'Failed to update delinquency policy', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// ==================== EARLY SETTLEMENT APIs ====================
+
+/**
+ * GET /api/contracts/:contractId/settlement-quote
+ * Payoff amount as of a date (query as_of), net of the unearned-interest rebate
+ */
+app.get("/make-server-34d8f37e/api/contracts/:contractId/settlement-quote", async (c) => {
+  try {
+    const asOfParam = c.req.query('as_of');
+    const asOf = asOfParam ? new Date(asOfParam) : new Date();
+    if (isNaN(asOf.getTime())) {
+      return c.json({ error: 'Invalid as_of date' }, 400);
+    }
+
+    const contract = await contractService.getContract(c.req.param('contractId'));
+    if (!contract) {
+      return c.json({ error: 'Contract not found' }, 404);
+    }
+
+    const quote = await contractService.getSettlementQuote(contract.id, asOf);
+    return c.json(quote);
+  } catch (error) {
+    console.error('Error calculating settlement quote:', error);
+    return c.json({ 
+      error: 'Failed to calculate settlement quote', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/contracts/:contractId/prepayment
+ * Apply a lump-sum prepayment; settling the payoff closes the contract
+ */
+app.post("/make-server-34d8f37e/api/contracts/:contractId/prepayment", requireCustomer({ allowServiceRole: true }), idempotent(), async (c) => {
+  try {
+    const body = await c.req.json();
+    const amount = Number(body.amount);
+
+    if (!amount || amount <= 0) {
+      return c.json({ error: 'Missing or invalid field: amount' }, 400);
+    }
+    if (!body.payment_reference) {
+      return c.json({ error: 'Missing required field: payment_reference (Pesapal tracking id)' }, 400);
+    }
+
+    // Customers can only prepay their own contracts
+    const contract = await contractService.getContract(c.req.param('contractId'));
+    const customer = getAuthenticatedCustomer(c);
+    if (!contract || (customer && contract.customer_id !== customer.id)) {
+      return c.json({ error: 'Contract not found' }, 404);
+    }
+    if (contract.state !== ContractState.DISBURSED && contract.state !== ContractState.IN_REPAYMENT) {
+      return c.json({ error: `Cannot prepay contract in ${contract.state} state` }, 400);
+    }
+
+    // Nothing is marked paid until Pesapal confirms the money arrived
+    let collection: PesapalTransaction;
+    try {
+      collection = await pesapalService.verifyCollection(contract.id, body.payment_reference, amount);
+    } catch (error) {
+      return c.json({ 
+        error: 'Payment could not be verified', 
+        details: error instanceof Error ? error.message : 'Unknown error' 
+      }, 400);
+    }
+
+    const result = await contractService.applyPrepayment(
+      contract.id,
+      collection.amount,
+      getPrincipal(c),
+      { reference: body.payment_reference, pesapal_transaction_id: collection.id, payment_method: body.payment_method }
+    );
+
+    let mifosPosting: { success: boolean; transactionId?: string; error?: string } | null = null;
+    if (contract.mifos_loan_id && result.amount_applied > 0) {
+      const transactionDate = new Date().toISOString().split('T')[0];
+      mifosPosting = result.settled
+        ? await mifosService.postMifosPrepayment(
+            contract.mifos_loan_id,
+            result.amount_applied,
+            result.quote.interest_rebate,
+            transactionDate
+          )
+        : await mifosService.postMifosRepayment(
+            contract.mifos_loan_id,
+            result.amount_applied,
+            transactionDate,
+            'CUSTOMER_PREPAYMENT'
+          );
+    }
+
+    return c.json({
+      contract_id: contract.id,
+      pesapal_transaction_id: collection.id,
+      state: result.contract.state,
+      settled: result.settled,
+      amount_applied: result.amount_applied,
+      overpaid_amount: result.overpaid_amount,
+      quote: result.quote,
+      installments: result.installments,
+      mifos_posting: mifosPosting,
+      message: result.settled
+        ? 'Contract settled early and closed'
+        : 'Prepayment applied to open installments',
+    });
+  } catch (error) {
+    console.error('Error applying prepayment:', error);
+    return c.json({ 
+      error: 'Failed to apply prepayment', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// ==================== PENALTY APIs ====================
+
+/**
+ * POST /api/penalties/accrue-daily
+ * Accrue late fees and penalty interest on overdue installments
+ */
+app.post("/make-server-34d8f37e/api/penalties/accrue-daily", async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const asOf = body.as_of ? new Date(body.as_of) : new Date();
+    if (isNaN(asOf.getTime())) {
+      return c.json({ error: 'Invalid as_of date' }, 400);
+    }
+
+    const run = await penaltyService.runPenaltyAccrual(asOf, 'system');
+
+    return c.json({
+      message: 'Penalty accrual completed',
+      ...run,
+    });
+  } catch (error) {
+    console.error('Error accruing penalties:', error);
+    return c.json({ 
+      error: 'Failed to accrue penalties', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/penalties/policy
+ * Get penalty policy (late fee, daily rate, grace period, caps)
+ */
+app.get("/make-server-34d8f37e/api/penalties/policy", async (c) => {
+  try {
+    const policy = await penaltyService.getPenaltyPolicy();
+    return c.json(policy);
+  } catch (error) {
+    console.error('Error fetching penalty policy:', error);
+    return c.json({ 
+      error: 'Failed to fetch penalty policy', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * PUT /api/penalties/policy
+ * Update penalty policy; operator only (service role key)
+ */
+app.put("/make-server-34d8f37e/api/penalties/policy", requireServiceRole(), async (c) => {
+  try {
+    const body = await c.req.json();
+    const policy = await penaltyService.updatePenaltyPolicy(
+      {
+        graceDays: body.grace_days,
+        lateFee: body.late_fee,
+        dailyRate: body.daily_rate,
+        installmentCapRate: body.installment_cap_rate,
+        contractCapRate: body.contract_cap_rate,
+      },
+      getPrincipal(c)
+    );
+    return c.json(policy);
+  } catch (error) {
+    console.error('Error updating penalty policy:', error);
+    return c.json({ 
+      error: 'Failed to update penalty policy', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/contracts/:contractId/installments/:installmentNumber/charges/:chargeId/waive
+ * Waive a penalty charge (audited); operator only (service role key)
+ */
+app.post("/make-server-34d8f37e/api/contracts/:contractId/installments/:installmentNumber/charges/:chargeId/waive", requireServiceRole(), async (c) => {
+  try {
+    const body = await c.req.json();
+    const installmentNumber = parseInt(c.req.param('installmentNumber'), 10);
+
+    if (!body.reason) {
+      return c.json({ error: 'Missing required field: reason' }, 400);
+    }
+
+    const charge = await penaltyService.waivePenalty(
+      c.req.param('contractId'),
+      installmentNumber,
+      c.req.param('chargeId'),
+      getPrincipal(c),
+      body.reason
+    );
+
+    return c.json({
+      message: 'Penalty waived',
+      charge,
+    });
+  } catch (error) {
+    console.error('Error waiving penalty:', error);
+    return c.json({ 
+      error: 'Failed to waive penalty', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// ==================== PAYMENT ALLOCATION APIs ====================
+
+/**
+ * GET /api/payments/waterfall-policy
+ * Get payment waterfall (component order, overpayment treatment)
+ */
+app.get("/make-server-34d8f37e/api/payments/waterfall-policy", async (c) => {
+  try {
+    const policy = await paymentAllocationService.getWaterfallPolicy();
+    return c.json(policy);
+  } catch (error) {
+    console.error('Error fetching waterfall policy:', error);
+    return c.json({ 
+      error: 'Failed to fetch waterfall policy', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * PUT /api/payments/waterfall-policy
+ * Update payment waterfall
+ */
+app.put("/make-server-34d8f37e/api/payments/waterfall-policy", async (c) => {
+  try {
+    const body = await c.req.json();
+    const policy = await paymentAllocationService.updateWaterfallPolicy(
+      {
+        order: body.order,
+        overpayment: body.overpayment,
+      },
+      body.actor || 'admin'
+    );
+    return c.json(policy);
+  } catch (error) {
+    console.error('Error updating waterfall policy:', error);
+    return c.json({ 
+      error: 'Failed to update waterfall policy', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/customers/:customerId/credit
+ * Customer credit balance (held overpayments)
+ */
+app.get("/make-server-34d8f37e/api/customers/:customerId/credit", async (c) => {
+  try {
+    const credit = await paymentAllocationService.getCustomerCredit(c.req.param('customerId'));
+    return c.json(credit);
+  } catch (error) {
+    console.error('Error fetching customer credit:', error);
+    return c.json({ 
+      error: 'Failed to fetch customer credit', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// ==================== VELOCITY APIs ====================
+
+/**
+ * GET /api/velocity/policy
+ * Get velocity policy (ticket size, merchant volume, orders per customer and device)
+ */
+app.get("/make-server-34d8f37e/api/velocity/policy", async (c) => {
+  try {
+    const policy = await velocityService.getVelocityPolicy();
+    return c.json(policy);
+  } catch (error) {
+    console.error('Error fetching velocity policy:', error);
+    return c.json({ 
+      error: 'Failed to fetch velocity policy', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * PUT /api/velocity/policy
+ * Update velocity policy; operator only (service role key)
+ */
+app.put("/make-server-34d8f37e/api/velocity/policy", requireServiceRole(), async (c) => {
+  try {
+    const body = await c.req.json();
+    const policy = await velocityService.updateVelocityPolicy(
+      {
+        maxTicketSize: body.max_ticket_size,
+        merchantDailyVolume: body.merchant_daily_volume,
+        merchantMonthlyVolume: body.merchant_monthly_volume,
+        customerOrdersPerHour: body.customer_orders_per_hour,
+        deviceOrdersPerHour: body.device_orders_per_hour,
+      },
+      getPrincipal(c)
+    );
+    return c.json(policy);
+  } catch (error) {
+    console.error('Error updating velocity policy:', error);
+    return c.json({ 
+      error: 'Failed to update velocity policy', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * PUT /api/merchants/:merchantId/limits
+ * Set a merchant's own daily volume, monthly volume and ticket size limits; operator only (service role key)
+ */
+app.put("/make-server-34d8f37e/api/merchants/:merchantId/limits", requireServiceRole(), async (c) => {
+  try {
+    const body = await c.req.json();
+    const merchant = await velocityService.updateMerchantLimits(
+      c.req.param('merchantId'),
+      {
+        daily_limit: body.daily_limit,
+        monthly_volume_limit: body.monthly_volume_limit,
+        max_ticket_size: body.max_ticket_size,
+      },
+      getPrincipal(c)
+    );
+    return c.json({
+      merchant_id: merchant.id,
+      daily_limit: merchant.daily_limit ?? null,
+      monthly_volume_limit: merchant.monthly_volume_limit ?? null,
+      max_ticket_size: merchant.max_ticket_size ?? null,
+    });
+  } catch (error) {
+    console.error('Error updating merchant limits:', error);
+    return c.json({ 
+      error: 'Failed to update merchant limits', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/velocity/alerts
+ * Orders declined by velocity controls, for operations review; operator only (service role key)
+ */
+app.get("/make-server-34d8f37e/api/velocity/alerts", requireServiceRole(), async (c) => {
+  try {
+    const alerts = await velocityService.listVelocityAlerts({
+      status: c.req.query('status') as VelocityAlert['status'] | undefined,
+      merchant_id: c.req.query('merchant_id'),
+    });
+    return c.json({ alerts, total: alerts.length });
+  } catch (error) {
+    console.error('Error fetching velocity alerts:', error);
+    return c.json({ 
+      error: 'Failed to fetch velocity alerts', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/velocity/alerts/:alertId/acknowledge
+ * Acknowledge a velocity alert; operator only (service role key)
+ */
+app.post("/make-server-34d8f37e/api/velocity/alerts/:alertId/acknowledge", requireServiceRole(), async (c) => {
+  try {
+    const alert = await velocityService.acknowledgeVelocityAlert(c.req.param('alertId'), getPrincipal(c));
+    return c.json(alert);
+  } catch (error) {
+    console.error('Error acknowledging velocity alert:', error);
+    return c.json({ 
+      error: 'Failed to acknowledge velocity alert', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// ==================== CRB APIs ====================
+
+/**
+ * POST /api/crb/consent
+ * Record a customer's explicit consent to a CRB check
+ */
+app.post("/make-server-34d8f37e/api/crb/consent", requireCustomer(), async (c) => {
+  try {
+    const body = await c.req.json();
+    if (body.consent_given !== true) {
+      return c.json({ error: 'Explicit customer consent (consent_given: true) is required' }, 400);
+    }
+
+    // Consent is only ever given for the authenticated customer
+    const customer = getAuthenticatedCustomer(c)!;
+    const consent = await crbService.recordCRBConsent(
+      {
+        national_id: customer.national_id,
+        phone_number: customer.phone_number,
+        customer_id: customer.id,
+      },
+      body.channel || 'EMPLOYEE_PORTAL'
+    );
+    return c.json(consent, 201);
+  } catch (error) {
+    console.error('Error recording CRB consent:', error);
+    return c.json({ 
+      error: 'Failed to record CRB consent', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/crb/consent/revoke
+ * Revoke a customer's CRB consent
+ */
+app.post("/make-server-34d8f37e/api/crb/consent/revoke", requireServiceRole(), async (c) => {
+  try {
+    const body = await c.req.json();
+    const consent = await crbService.revokeCRBConsent(body.national_id, getPrincipal(c));
+    return c.json(consent);
+  } catch (error) {
+    console.error('Error revoking CRB consent:', error);
+    return c.json({ 
+      error: 'Failed to revoke CRB consent', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/crb/check
+ * Run a CRB check (cached result reused until it expires unless force_refresh is set)
+ */
+app.post("/make-server-34d8f37e/api/crb/check", requireCustomer({ allowServiceRole: true }), async (c) => {
+  try {
+    const body = await c.req.json();
+
+    // Customers can only check themselves; operators name the subject
+    const customer = getAuthenticatedCustomer(c);
+    const subject = customer
+      ? { national_id: customer.national_id, phone_number: customer.phone_number, customer_id: customer.id }
+      : { national_id: body.national_id, phone_number: body.phone_number, customer_id: body.customer_id };
+
+    if (!(await crbService.getActiveCRBConsent(subject.national_id))) {
+      return c.json({ error: 'No valid CRB consent on file for this customer' }, 400);
+    }
+
+    const { check, from_cache } = await crbService.runCRBCheck(
+      subject,
+      { force_refresh: body.force_refresh === true }
+    );
+
+    // The raw bureau report stays server-side; fetch it by ID for audit
+    const { raw_response, ...result } = check;
+    return c.json({ ...result, from_cache });
+  } catch (error) {
+    console.error('Error running CRB check:', error);
+    return c.json({ 
+      error: 'Failed to run CRB check', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/crb/checks/:checkId
+ * Get a CRB check with its raw bureau report (audit)
+ */
+app.get("/make-server-34d8f37e/api/crb/checks/:checkId", requireServiceRole(), async (c) => {
+  try {
+    const check = await crbService.getCRBCheck(c.req.param('checkId'));
+    if (!check) {
+      return c.json({ error: 'CRB check not found' }, 404);
+    }
+    return c.json(check);
+  } catch (error) {
+    console.error('Error fetching CRB check:', error);
+    return c.json({ 
+      error: 'Failed to fetch CRB check', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// ==================== CREDIT DECISION APIs ====================
+
+/**
+ * GET /api/contracts/:contractId/credit-decision
+ * Why a contract's order was approved: factors, binding constraint and adverse-action reasons
+ */
+app.get("/make-server-34d8f37e/api/contracts/:contractId/credit-decision", requireCustomer({ allowServiceRole: true }), async (c) => {
+  try {
+    const contract = await contractService.getContract(c.req.param('contractId'));
+    const customer = getAuthenticatedCustomer(c);
+    if (!contract || (customer && contract.customer_id !== customer.id)) {
+      return c.json({ error: 'Contract not found' }, 404);
+    }
+    if (!contract.credit_decision) {
+      return c.json({ error: 'No credit decision recorded for this contract' }, 404);
+    }
+
+    return c.json({
+      contract_id: contract.id,
+      ...contract.credit_decision,
+      adverse_action_reasons: contract.credit_decision.adverse_action_codes.map((code) => ADVERSE_ACTION_REASONS[code]),
+    });
+  } catch (error) {
+    console.error('Error fetching credit decision:', error);
+    return c.json({ 
+      error: 'Failed to fetch credit decision', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/customer/credit-decisions
+ * A customer's credit decisions, approved and declined, newest first (employee portal).
+ * Customers see their own; service role callers name the customer with ?phone_number=
+ */
+app.get("/make-server-34d8f37e/api/customer/credit-decisions", requireCustomer({ allowServiceRole: true }), async (c) => {
+  try {
+    let customer = getAuthenticatedCustomer(c) ?? null;
+    if (!customer) {
+      const phoneNumber = c.req.query('phone_number');
+      if (!phoneNumber) {
+        return c.json({ error: 'phone_number is required' }, 400);
+      }
+      customer = await policyService.getCustomerByPhone(phoneNumber);
+    }
+    if (!customer) {
+      return c.json({ error: 'Customer not found' }, 404);
+    }
+
+    const policy = await policyService.getPolicyByPayrollId(customer.employer_id, customer.payroll_employee_id);
+    const contracts = policy ? await contractService.getContractsByPolicy(policy.policy_number) : [];
+    const declines = policy ? await creditDecisionService.getDeclinedDecisions(policy.policy_number) : [];
+
+    const approvals = contracts
+      .filter((contract) => contract.credit_decision)
+      .map((contract) => ({
+        contract_id: contract.id,
+        order_id: contract.order_id,
+        principal_amount: contract.principal_amount,
+        ...contract.credit_decision!,
+      }));
+
+    const declined = declines.map(({ id, requested_amount, ...decision }) => ({
+      decision_id: id,
+      contract_id: null,
+      order_id: null,
+      principal_amount: requested_amount,
+      ...decision,
+    }));
+
+    const decisions = [...approvals, ...declined]
+      .map((decision) => ({
+        ...decision,
+        adverse_action_reasons: decision.adverse_action_codes.map((code) => ADVERSE_ACTION_REASONS[code]),
+      }))
+      .sort((a, b) => b.decided_at.localeCompare(a.decided_at));
+
+    return c.json({ customer_id: customer.id, decisions });
+  } catch (error) {
+    console.error('Error fetching credit decisions:', error);
+    return c.json({ 
+      error: 'Failed to fetch credit decisions', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// ==================== PRICING PLAN APIs ====================
+
+/**
+ * GET /api/pricing/plans
+ * List pricing plans (standard plus per-merchant and campaign plans)
+ */
+app.get("/make-server-34d8f37e/api/pricing/plans", async (c) => {
+  try {
+    const plans = await pricingService.listPricingPlans({
+      merchant_id: c.req.query('merchant_id'),
+      status: c.req.query('status') as PricingPlanStatus | undefined,
+    });
+    return c.json({ plans, total: plans.length });
+  } catch (error) {
+    console.error('Error fetching pricing plans:', error);
+    return c.json({ 
+      error: 'Failed to fetch pricing plans', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/pricing/plans
+ * Create a pricing plan; the merchant pays whatever share of the monthly fee the customer does not
+ * Operator only (service role key)
+ */
+app.post("/make-server-34d8f37e/api/pricing/plans", requireServiceRole(), async (c) => {
+  try {
+    const body = await c.req.json();
+    const plan = await pricingService.createPricingPlan(toPricingPlanInput(body), getPrincipal(c));
+    return c.json(plan, 201);
+  } catch (error) {
+    console.error('Error creating pricing plan:', error);
+    return c.json({ 
+      error: 'Failed to create pricing plan', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * PUT /api/pricing/plans/:planId
+ * Update a pricing plan (new orders only); operator only (service role key)
+ */
+app.put("/make-server-34d8f37e/api/pricing/plans/:planId", requireServiceRole(), async (c) => {
+  try {
+    const body = await c.req.json();
+    const plan = await pricingService.updatePricingPlan(
+      c.req.param('planId'),
+      toPricingPlanInput(body),
+      getPrincipal(c)
+    );
+    return c.json(plan);
+  } catch (error) {
+    console.error('Error updating pricing plan:', error);
+    return c.json({ 
+      error: 'Failed to update pricing plan', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * PUT /api/merchants/:merchantId/pricing-plan
+ * Set the plan a merchant's orders use when they name none (null for standard); operator only (service role key)
+ */
+app.put("/make-server-34d8f37e/api/merchants/:merchantId/pricing-plan", requireServiceRole(), async (c) => {
+  try {
+    const body = await c.req.json();
+    const merchant = await pricingService.setMerchantDefaultPlan(
+      c.req.param('merchantId'),
+      body.pricing_plan_id ?? null,
+      getPrincipal(c)
+    );
+    return c.json({ merchant_id: merchant.id, default_pricing_plan_id: merchant.default_pricing_plan_id });
+  } catch (error) {
+    console.error('Error setting merchant pricing plan:', error);
+    return c.json({ 
+      error: 'Failed to set merchant pricing plan', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/merchant/:merchantId/pricing-plans
+ * Plans the merchant can offer at checkout today
+ */
+app.get("/make-server-34d8f37e/api/merchant/:merchantId/pricing-plans", requireApiKey('MERCHANT', 'orders:read'), async (c) => {
+  try {
+    const merchantId = c.req.param('merchantId');
+    const merchant = await getMerchant(merchantId);
+    const now = new Date();
+    const plans = (await pricingService.listPricingPlans({ merchant_id: merchantId, status: 'ACTIVE' }))
+      .filter(p => (!p.starts_at || new Date(p.starts_at) <= now) && (!p.ends_at || new Date(p.ends_at) >= now));
+
+    return c.json({
+      merchant_id: merchantId,
+      default_pricing_plan_id: merchant?.default_pricing_plan_id || pricingService.STANDARD_PLAN_ID,
+      plans,
+    });
+  } catch (error) {
+    console.error('Error fetching merchant pricing plans:', error);
+    return c.json({ 
+      error: 'Failed to fetch merchant pricing plans', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// ==================== DISPUTE APIs ====================
+
+/**
+ * POST /api/contracts/:contractId/disputes
+ * Raise a dispute; the contract moves to DISPUTED and its deductions pause
+ */
+app.post("/make-server-34d8f37e/api/contracts/:contractId/disputes", requireCustomer({ allowServiceRole: true }), idempotent(), async (c) => {
+  try {
+    const body = await c.req.json();
+
+    if (!body.reason) {
+      return c.json({ error: 'Missing required field: reason' }, 400);
+    }
+
+    // Customers can only dispute their own contracts
+    const customer = getAuthenticatedCustomer(c);
+    if (customer) {
+      const contract = await contractService.getContract(c.req.param('contractId'));
+      if (!contract || contract.customer_id !== customer.id) {
+        return c.json({ error: 'Contract not found' }, 404);
       }
     }
+
+    const dispute = await disputeService.raiseDispute(
+      c.req.param('contractId'),
+      {
+        reason: body.reason,
+        description: body.description,
+        raised_by: customer ? 'CUSTOMER' : body.raised_by || 'CUSTOMER',
+        attachments: body.attachments,
+      },
+      getPrincipal(c)
+    );
+
+    return c.json(dispute, 201);
+  } catch (error) {
+    console.error('Error raising dispute:', error);
+    return c.json({ 
+      error: 'Failed to raise dispute', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
   }
-  
-  return null;
+});
+
+/**
+ * GET /api/disputes
+ * Dispute queue, filterable by status, merchant_id and contract_id
+ */
+app.get("/make-server-34d8f37e/api/disputes", requireServiceRole(), async (c) => {
+  try {
+    const disputes = await disputeService.listDisputes({
+      status: c.req.query('status') as DisputeStatus | undefined,
+      merchant_id: c.req.query('merchant_id'),
+      contract_id: c.req.query('contract_id'),
+    });
+
+    return c.json({
+      disputes: disputes.map(d => ({ ...d, overdue_timers: disputeService.overdueTimers(d) })),
+      total: disputes.length,
+    });
+  } catch (error) {
+    console.error('Error fetching disputes:', error);
+    return c.json({ 
+      error: 'Failed to fetch disputes', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/disputes/:disputeId
+ * Dispute case with evidence and SLA status
+ */
+app.get("/make-server-34d8f37e/api/disputes/:disputeId", requireCustomer({ allowServiceRole: true }), async (c) => {
+  try {
+    const dispute = await disputeService.getDispute(c.req.param('disputeId'));
+    if (!dispute || !(await isCustomerDispute(c, dispute))) {
+      return c.json({ error: 'Dispute not found' }, 404);
+    }
+
+    return c.json({ ...dispute, overdue_timers: disputeService.overdueTimers(dispute) });
+  } catch (error) {
+    console.error('Error fetching dispute:', error);
+    return c.json({ 
+      error: 'Failed to fetch dispute', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/disputes/:disputeId/evidence
+ * Add evidence (customer unless a service role caller names another `party`)
+ */
+app.post("/make-server-34d8f37e/api/disputes/:disputeId/evidence", requireCustomer({ allowServiceRole: true }), async (c) => {
+  try {
+    const body = await c.req.json();
+    const customer = getAuthenticatedCustomer(c);
+
+    const existing = await disputeService.getDispute(c.req.param('disputeId'));
+    if (!existing || !(await isCustomerDispute(c, existing))) {
+      return c.json({ error: 'Dispute not found' }, 404);
+    }
+
+    const dispute = await disputeService.submitEvidence(
+      existing.id,
+      customer ? 'CUSTOMER' : body.party || 'CUSTOMER',
+      { description: body.description, attachments: body.attachments },
+      getPrincipal(c)
+    );
+
+    return c.json(dispute);
+  } catch (error) {
+    console.error('Error submitting dispute evidence:', error);
+    return c.json({ 
+      error: 'Failed to submit dispute evidence', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/disputes/:disputeId/resolve
+ * Resolve with MERCHANT_LIABLE, CUSTOMER_LIABLE or SPLIT (with refund_amount)
+ */
+app.post("/make-server-34d8f37e/api/disputes/:disputeId/resolve", requireServiceRole(), idempotent(), async (c) => {
+  try {
+    const body = await c.req.json();
+
+    if (!body.outcome) {
+      return c.json({ error: 'Missing required field: outcome' }, 400);
+    }
+
+    const result = await disputeService.resolveDispute(
+      c.req.param('disputeId'),
+      { outcome: body.outcome, refund_amount: body.refund_amount, notes: body.notes },
+      getPrincipal(c)
+    );
+
+    return c.json({
+      dispute: result.dispute,
+      contract_state: result.contract.state,
+      principal_amount: result.contract.principal_amount,
+      total_payable: result.contract.total_payable,
+    });
+  } catch (error) {
+    console.error('Error resolving dispute:', error);
+    return c.json({ 
+      error: 'Failed to resolve dispute', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/disputes/check-sla
+ * Flag disputes past their merchant-response or resolution deadline (daily job)
+ */
+app.post("/make-server-34d8f37e/api/disputes/check-sla", requireServiceRole(), async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const asOf = body.as_of ? new Date(body.as_of) : new Date();
+
+    if (isNaN(asOf.getTime())) {
+      return c.json({ error: 'Invalid as_of date' }, 400);
+    }
+
+    const result = await disputeService.checkDisputeSlas(asOf);
+    return c.json(result);
+  } catch (error) {
+    console.error('Error checking dispute SLAs:', error);
+    return c.json({ 
+      error: 'Failed to check dispute SLAs', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/merchant/:merchantId/disputes
+ * A merchant's disputes
+ */
+app.get("/make-server-34d8f37e/api/merchant/:merchantId/disputes", requireApiKey('MERCHANT', 'orders:read'), async (c) => {
+  try {
+    const merchantId = c.req.param('merchantId');
+    const disputes = await disputeService.listDisputes({
+      merchant_id: merchantId,
+      status: c.req.query('status') as DisputeStatus | undefined,
+    });
+
+    return c.json({
+      merchant_id: merchantId,
+      disputes: disputes.map(d => ({ ...d, overdue_timers: disputeService.overdueTimers(d) })),
+      total: disputes.length,
+    });
+  } catch (error) {
+    console.error('Error fetching merchant disputes:', error);
+    return c.json({ 
+      error: 'Failed to fetch merchant disputes', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/merchant/:merchantId/clawbacks?outstanding=true
+ * What a merchant owes back from lost disputes; withheld from later escrow releases
+ */
+app.get("/make-server-34d8f37e/api/merchant/:merchantId/clawbacks", requireApiKey('MERCHANT', 'orders:read'), async (c) => {
+  try {
+    const merchantId = c.req.param('merchantId');
+    const clawbacks = await clawbackService.getMerchantClawbacks(merchantId, {
+      outstanding: c.req.query('outstanding') === 'true',
+    });
+
+    return c.json({
+      merchant_id: merchantId,
+      clawbacks,
+      outstanding_amount: clawbacks.reduce((sum, cb) => sum + (cb.amount - cb.recovered_amount), 0),
+    });
+  } catch (error) {
+    console.error('Error fetching merchant clawbacks:', error);
+    return c.json({ 
+      error: 'Failed to fetch merchant clawbacks', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/merchant/:merchantId/disputes/:disputeId/evidence
+ * Merchant response to a dispute
+ */
+app.post("/make-server-34d8f37e/api/merchant/:merchantId/disputes/:disputeId/evidence", requireApiKey('MERCHANT', 'disputes:write'), async (c) => {
+  try {
+    const body = await c.req.json();
+
+    // Other merchants' disputes are invisible
+    const existing = await disputeService.getDispute(c.req.param('disputeId'));
+    if (!existing || !isOwnTenant(c, existing.merchant_id)) {
+      return c.json({ error: 'Dispute not found' }, 404);
+    }
+
+    const dispute = await disputeService.submitEvidence(
+      existing.id,
+      'MERCHANT',
+      { description: body.description, attachments: body.attachments },
+      getAuth(c).principal
+    );
+
+    return c.json(dispute);
+  } catch (error) {
+    console.error('Error submitting merchant dispute evidence:', error);
+    return c.json({ 
+      error: 'Failed to submit dispute evidence', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// ==================== DASHBOARD/ANALYTICS APIs ====================
+
+/**
+ * GET /api/dashboard/kpis
+ * Get key performance indicators
+ */
+app.get("/make-server-34d8f37e/api/dashboard/kpis", async (c) => {
+  try {
+    const kpis = await calculateKPIs();
+    return c.json(kpis);
+  } catch (error) {
+    console.error('Error calculating KPIs:', error);
+    return c.json({ 
+      error: 'Failed to calculate KPIs', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/contracts
+ * List contracts with optional filters (cursor-paginated via secondary indexes)
+ */
+app.get("/make-server-34d8f37e/api/contracts", async (c) => {
+  try {
+    const state = c.req.query('state') as ContractState | undefined;
+    const limit = c.req.query('limit');
+
+    const page = await contractService.queryContracts(
+      {
+        state,
+        policy_number: c.req.query('policy_number'),
+        merchant_id: c.req.query('merchant_id'),
+        employer_id: c.req.query('employer_id'),
+      },
+      {
+        limit: limit ? parseInt(limit, 10) : undefined,
+        cursor: c.req.query('cursor'),
+        from: c.req.query('from'),
+        to: c.req.query('to'),
+        order: c.req.query('order') === 'asc' ? 'asc' : 'desc',
+      }
+    );
+
+    return c.json({
+      total: page.total,
+      next_cursor: page.next_cursor,
+      contracts: page.items,
+    });
+  } catch (error) {
+    console.error('Error fetching contracts:', error);
+    return c.json({ 
+      error: 'Failed to fetch contracts', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/contracts/:contractId/installments
+ * Get a contract's installments with their penalty charge lines
+ */
+app.get("/make-server-34d8f37e/api/contracts/:contractId/installments", async (c) => {
+  try {
+    const contractId = c.req.param('contractId');
+    const contract = await contractService.getContract(contractId);
+    if (!contract) {
+      return c.json({ error: 'Contract not found' }, 404);
+    }
+
+    const installments = await contractService.getInstallments(contractId);
+
+    return c.json({
+      contract_id: contractId,
+      installments: installments.map((installment) => ({
+        ...installment,
+        charges: installment.charges || [],
+        allocations: installment.allocations || [],
+        paid_components: contractService.paidComponents(contract, installment),
+        penalties_outstanding: contractService.outstandingPenalties(installment),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching installments:', error);
+    return c.json({ 
+      error: 'Failed to fetch installments', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/audit-logs/:entityType/:entityId
+ * Get audit logs for an entity
+ */
+app.get("/make-server-34d8f37e/api/audit-logs/:entityType/:entityId", async (c) => {
+  try {
+    const entityType = c.req.param('entityType');
+    const entityId = c.req.param('entityId');
+
+    const limit = c.req.query('limit');
+
+    const page = await auditService.getAuditLogs(entityType, entityId, {
+      limit: limit ? parseInt(limit, 10) : undefined,
+      cursor: c.req.query('cursor'),
+    });
+
+    return c.json({
+      entity_type: entityType,
+      entity_id: entityId,
+      total_logs: page.total,
+      next_cursor: page.next_cursor,
+      logs: page.items,
+    });
+  } catch (error) {
+    console.error('Error fetching audit logs:', error);
+    return c.json({ 
+      error: 'Failed to fetch audit logs', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// ==================== HELPER FUNCTIONS ====================
+
+async function getMerchant(merchantId: string): Promise<Merchant | null> {
+  const data = await kv.get(`merchant:${merchantId}`);
+  return data ? JSON.parse(data) : null;
+}
+
+function toPricingPlanInput(body: any): pricingService.PricingPlanInput {
+  return {
+    name: body.name,
+    campaign: body.campaign,
+    merchant_ids: body.merchant_ids,
+    customer_fee_rate: body.customer_fee_rate,
+    tenors: body.tenors,
+    min_amount: body.min_amount,
+    max_amount: body.max_amount,
+    starts_at: body.starts_at,
+    ends_at: body.ends_at,
+    status: body.status,
+  };
+}
+
+// Service role callers see every dispute; customers only those on their own contracts
+async function isCustomerDispute(c: Context<AppEnv>, dispute: Dispute): Promise<boolean> {
+  const customer = getAuthenticatedCustomer(c);
+  if (!customer) return true;
+
+  const contract = await contractService.getContract(dispute.contract_id);
+  return contract?.customer_id === customer.id;
+}
+
+async function getCustomerByPolicy(policyNumber: string): Promise<any> {
+  return policyService.getCustomerByPolicy(policyNumber);
 }
 
 async function calculateKPIs() {
@@ -0,0 +1,245 @@
+// Secondary index layer over kv_store - filtered queries and cursor pagination
+//
+// Index entries live under idx:<index>:<partition>:<sort>:<id> and their value
+// points at the primary record key, so a list query costs one prefix scan per
+// filter plus one batched mget for the requested page, instead of a get per key.
+
+import * as kv from './kv_store.tsx';
+
+const INDEX_PREFIX = 'idx:';
+const MGET_BATCH_SIZE = 100;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// Index names shared by the services that maintain them
+export const INDEX = {
+  CONTRACT_STATE: 'contract_state',
+  CONTRACT_POLICY: 'contract_policy',
+  CONTRACT_MERCHANT: 'contract_merchant',
+  CONTRACT_EMPLOYER: 'contract_employer',
+  CONTRACT_CREATED: 'contract_created',
+  CUSTOMER_POLICY: 'customer_policy',
+  POLICY_PAYROLL: 'policy_payroll',
+  API_KEY_TENANT: 'api_key_tenant',
+  AUDIT_ENTITY: 'audit_entity',
+  AUDIT_CREATED: 'audit_created',
+  WEBHOOK_DUE: 'webhook_due',
+} as const;
+
+// Partition used by date indexes that cover every record
+export const ALL_PARTITION = 'all';
+
+export interface IndexEntry {
+  index: string;
+  partition: string;
+  sort: string; // ISO timestamp for date ordering
+  id: string;
+  key: string; // Primary record key
+}
+
+export interface IndexCriterion {
+  index: string;
+  partition: string;
+}
+
+export interface QueryOptions {
+  limit?: number;
+  cursor?: string | null;
+  order?: 'asc' | 'desc';
+  from?: string; // Inclusive lower bound on sort key
+  to?: string; // Inclusive upper bound on sort key
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  next_cursor: string | null;
+}
+
+function entryKey(entry: Pick<IndexEntry, 'index' | 'partition' | 'sort' | 'id'>): string {
+  return `${INDEX_PREFIX}${entry.index}:${entry.partition}:${entry.sort}:${entry.id}`;
+}
+
+function partitionPrefix(index: string, partition: string): string {
+  return `${INDEX_PREFIX}${index}:${partition}:`;
+}
+
+function encodeCursor(entry: IndexEntry): string {
+  return btoa(`${entry.sort}|${entry.id}`);
+}
+
+function decodeCursor(cursor: string): { sort: string; id: string } {
+  const [sort, id] = atob(cursor).split('|');
+  if (!sort || !id) {
+    throw new Error('Invalid pagination cursor');
+  }
+  return { sort, id };
+}
+
+function compareEntries(a: { sort: string; id: string }, b: { sort: string; id: string }): number {
+  if (a.sort !== b.sort) return a.sort < b.sort ? -1 : 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Add entries to one or more indexes
+ */
+export async function addToIndexes(entries: IndexEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  await kv.mset(entries.map(entryKey), entries.map((e) => JSON.stringify(e)));
+}
+
+/**
+ * Remove entries from their indexes
+ */
+export async function removeFromIndexes(
+  entries: Pick<IndexEntry, 'index' | 'partition' | 'sort' | 'id'>[]
+): Promise<void> {
+  if (entries.length === 0) return;
+  await kv.mdel(entries.map(entryKey));
+}
+
+/**
+ * Read all entries in an index partition (one prefix scan)
+ */
+export async function getIndexEntries(index: string, partition: string): Promise<IndexEntry[]> {
+  const values = await kv.getByPrefix(partitionPrefix(index, partition));
+  return values.map((v: string) => JSON.parse(v) as IndexEntry);
+}
+
+/**
+ * Query the intersection of one or more index partitions
+ * Returns a page of index entries; use loadRecords() to fetch the records
+ */
+export async function queryIndexes(
+  criteria: IndexCriterion[],
+  options: QueryOptions = {}
+): Promise<Page<IndexEntry>> {
+  if (criteria.length === 0) {
+    throw new Error('At least one index criterion is required');
+  }
+
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const order = options.order ?? 'desc';
+
+  // Intersect on id, starting from the smallest partition
+  const partitions = await Promise.all(criteria.map((c) => getIndexEntries(c.index, c.partition)));
+  partitions.sort((a, b) => a.length - b.length);
+
+  let entries = partitions[0];
+  for (const other of partitions.slice(1)) {
+    const ids = new Set(other.map((e) => e.id));
+    entries = entries.filter((e) => ids.has(e.id));
+  }
+
+  entries = entries.filter(
+    (e) => (!options.from || e.sort >= options.from) && (!options.to || e.sort <= options.to)
+  );
+  entries.sort((a, b) => (order === 'asc' ? compareEntries(a, b) : compareEntries(b, a)));
+
+  const total = entries.length;
+  if (options.cursor) {
+    const after = decodeCursor(options.cursor);
+    entries = entries.filter((e) =>
+      order === 'asc' ? compareEntries(e, after) > 0 : compareEntries(e, after) < 0
+    );
+  }
+
+  const items = entries.slice(0, limit);
+  const hasMore = entries.length > limit;
+
+  return {
+    items,
+    total,
+    next_cursor: hasMore ? encodeCursor(items[items.length - 1]) : null,
+  };
+}
+
+/**
+ * Fetch the primary records for a page of index entries, preserving page order
+ * Records must be JSON objects with an `id` field (kv.mget does not keep order)
+ */
+export async function loadRecords<T extends { id: string }>(entries: IndexEntry[]): Promise<T[]> {
+  const byId = new Map<string, T>();
+
+  for (let i = 0; i < entries.length; i += MGET_BATCH_SIZE) {
+    const batch = entries.slice(i, i + MGET_BATCH_SIZE);
+    const values = await kv.mget(batch.map((e) => e.key));
+    for (const value of values) {
+      const record = JSON.parse(value) as T;
+      byId.set(record.id, record);
+    }
+  }
+
+  // Entries whose record has gone are skipped (rebuild cleans them up)
+  return entries
+    .map((e) => byId.get(e.id))
+    .filter((record): record is T => record !== undefined);
+}
+
+/**
+ * Query indexes and load the matching records in one call
+ */
+export async function queryRecords<T extends { id: string }>(
+  criteria: IndexCriterion[],
+  options: QueryOptions = {}
+): Promise<Page<T>> {
+  const page = await queryIndexes(criteria, options);
+  return {
+    items: await loadRecords<T>(page.items),
+    total: page.total,
+    next_cursor: page.next_cursor,
+  };
+}
+
+/**
+ * Query every page of an index intersection (for batch jobs)
+ */
+export async function queryAllRecords<T extends { id: string }>(
+  criteria: IndexCriterion[],
+  options: Omit<QueryOptions, 'limit' | 'cursor'> = {}
+): Promise<T[]> {
+  const records: T[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page: Page<T> = await queryRecords<T>(criteria, { ...options, limit: MAX_PAGE_SIZE, cursor });
+    records.push(...page.items);
+    cursor = page.next_cursor;
+  } while (cursor);
+
+  return records;
+}
+
+/**
+ * Drop every entry of an index (before a rebuild)
+ */
+export async function clearIndex(index: string): Promise<number> {
+  const values = await kv.getByPrefix(`${INDEX_PREFIX}${index}:`);
+  const entries = values.map((v: string) => JSON.parse(v) as IndexEntry);
+
+  for (let i = 0; i < entries.length; i += MGET_BATCH_SIZE) {
+    await removeFromIndexes(entries.slice(i, i + MGET_BATCH_SIZE));
+  }
+
+  return entries.length;
+}
+
+/**
+ * Parse raw prefix-scan values, skipping non-JSON references (e.g. phone → id keys)
+ */
+export function parseRecords<T>(values: unknown[], isRecord: (value: any) => boolean): T[] {
+  const records: T[] = [];
+  for (const value of values) {
+    if (typeof value !== 'string') continue;
+    try {
+      const parsed = JSON.parse(value);
+      if (parsed && typeof parsed === 'object' && isRecord(parsed)) {
+        records.push(parsed as T);
+      }
+    } catch (e) {
+      // Plain id references are not records
+    }
+  }
+  return records;
+}
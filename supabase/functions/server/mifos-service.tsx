@@ -81,6 +81,143 @@ export async function postMifosRepayment(
   }
 }
 
+/**
+ * Post a principal/charge adjustment to Mifos X (e.g. partial refund)
+ */
+export async function postMifosAdjustment(
+  mifosLoanId: string,
+  principalReduction: number,
+  totalReduction: number,
+  transactionDate: string,
+  reason: string
+): Promise<{ success: boolean; transactionId?: string; error?: string }> {
+  try {
+    const transactionId = await simulatePostAdjustment(
+      mifosLoanId,
+      principalReduction,
+      totalReduction,
+      transactionDate
+    );
+
+    await createAuditLog({
+      entity_type: 'mifos_adjustment',
+      entity_id: transactionId,
+      action: 'posted',
+      actor: 'system',
+      changes: {
+        mifos_loan_id: mifosLoanId,
+        principal_reduction: principalReduction,
+        total_reduction: totalReduction,
+        transaction_date: transactionDate,
+        reason,
+      },
+    });
+
+    return { success: true, transactionId };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Prepay and close a Mifos X loan (early settlement), waiving the interest rebate
+ */
+export async function postMifosPrepayment(
+  mifosLoanId: string,
+  amount: number,
+  interestRebate: number,
+  transactionDate: string
+): Promise<{ success: boolean; transactionId?: string; error?: string }> {
+  try {
+    const transactionId = await simulatePrepayLoan(mifosLoanId, amount, interestRebate, transactionDate);
+
+    await createAuditLog({
+      entity_type: 'mifos_prepayment',
+      entity_id: transactionId,
+      action: 'posted',
+      actor: 'system',
+      changes: {
+        mifos_loan_id: mifosLoanId,
+        amount,
+        interest_rebate: interestRebate,
+        transaction_date: transactionDate,
+      },
+    });
+
+    return { success: true, transactionId };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Post a penalty charge to a Mifos X loan
+ */
+export async function postMifosCharge(
+  mifosLoanId: string,
+  amount: number,
+  chargeType: string,
+  dueDate: string
+): Promise<{ success: boolean; chargeId?: string; error?: string }> {
+  try {
+    const chargeId = await simulatePostCharge(mifosLoanId, amount, chargeType, dueDate);
+
+    await createAuditLog({
+      entity_type: 'mifos_charge',
+      entity_id: chargeId,
+      action: 'posted',
+      actor: 'system',
+      changes: {
+        mifos_loan_id: mifosLoanId,
+        amount,
+        charge_type: chargeType,
+        due_date: dueDate,
+      },
+    });
+
+    return { success: true, chargeId };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Waive a penalty charge on a Mifos X loan
+ */
+export async function waiveMifosCharge(
+  mifosLoanId: string,
+  chargeId: string,
+  reason: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await simulateWaiveCharge(mifosLoanId, chargeId);
+
+    await createAuditLog({
+      entity_type: 'mifos_charge',
+      entity_id: chargeId,
+      action: 'waived',
+      actor: 'system',
+      changes: { mifos_loan_id: mifosLoanId, reason },
+    });
+
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
 /**
  * Get loan status from Mifos X
  */
@@ -197,6 +334,135 @@ async function simulatePostRepayment(
   return transactionId;
 }
 
+async function simulatePostAdjustment(
+  mifosLoanId: string,
+  principalReduction: number,
+  totalReduction: number,
+  transactionDate: string
+): Promise<string> {
+  const transactionId = `MIFOS-ADJ-${Date.now()}`;
+
+  console.log(`[MIFOS] Posting adjustment to loan ${mifosLoanId}`);
+  console.log(`[MIFOS] Principal: -${principalReduction}, Total: -${totalReduction}, Date: ${transactionDate}`);
+
+  await new Promise(resolve => setTimeout(resolve, 500));
+
+  const loanDetailsData = await kv.get(`${MIFOS_PREFIX}loan_details:${mifosLoanId}`);
+  if (!loanDetailsData) {
+    throw new Error(`Loan ${mifosLoanId} not found in Mifos`);
+  }
+
+  const loanDetails = JSON.parse(loanDetailsData);
+  loanDetails.principal -= principalReduction;
+  loanDetails.total_payable -= totalReduction;
+  loanDetails.outstanding_balance = Math.max(0, loanDetails.outstanding_balance - totalReduction);
+
+  if (loanDetails.outstanding_balance <= 0) {
+    loanDetails.status = 'CLOSED';
+  }
+
+  await kv.set(`${MIFOS_PREFIX}loan_details:${mifosLoanId}`, JSON.stringify(loanDetails));
+
+  console.log(`[MIFOS] Adjustment ${transactionId} posted successfully`);
+  return transactionId;
+}
+
+async function simulatePrepayLoan(
+  mifosLoanId: string,
+  amount: number,
+  interestRebate: number,
+  transactionDate: string
+): Promise<string> {
+  const transactionId = `MIFOS-PRE-${Date.now()}`;
+
+  console.log(`[MIFOS] Prepaying loan ${mifosLoanId}`);
+  console.log(`[MIFOS] Amount: ${amount}, Interest waived: ${interestRebate}, Date: ${transactionDate}`);
+
+  await new Promise(resolve => setTimeout(resolve, 500));
+
+  const loanDetailsData = await kv.get(`${MIFOS_PREFIX}loan_details:${mifosLoanId}`);
+  if (!loanDetailsData) {
+    throw new Error(`Loan ${mifosLoanId} not found in Mifos`);
+  }
+
+  const loanDetails = JSON.parse(loanDetailsData);
+  loanDetails.total_payable -= interestRebate;
+  loanDetails.total_paid += amount;
+  loanDetails.outstanding_balance = 0;
+  loanDetails.status = 'CLOSED';
+  loanDetails.closed_on = transactionDate;
+
+  await kv.set(`${MIFOS_PREFIX}loan_details:${mifosLoanId}`, JSON.stringify(loanDetails));
+
+  console.log(`[MIFOS] Loan ${mifosLoanId} prepaid and closed (${transactionId})`);
+  return transactionId;
+}
+
+async function simulatePostCharge(
+  mifosLoanId: string,
+  amount: number,
+  chargeType: string,
+  dueDate: string
+): Promise<string> {
+  const chargeId = `MIFOS-CHG-${Date.now()}-${Math.random().toString(36).substring(7)}`.toUpperCase();
+
+  console.log(`[MIFOS] Adding ${chargeType} charge to loan ${mifosLoanId}`);
+  console.log(`[MIFOS] Amount: ${amount}, Due: ${dueDate}`);
+
+  await new Promise(resolve => setTimeout(resolve, 300));
+
+  const loanDetailsData = await kv.get(`${MIFOS_PREFIX}loan_details:${mifosLoanId}`);
+  if (!loanDetailsData) {
+    throw new Error(`Loan ${mifosLoanId} not found in Mifos`);
+  }
+
+  const loanDetails = JSON.parse(loanDetailsData);
+  loanDetails.total_payable += amount;
+  loanDetails.outstanding_balance += amount;
+  loanDetails.penalty_charges = (loanDetails.penalty_charges || 0) + amount;
+  await kv.set(`${MIFOS_PREFIX}loan_details:${mifosLoanId}`, JSON.stringify(loanDetails));
+
+  await kv.set(`${MIFOS_PREFIX}charge:${chargeId}`, JSON.stringify({
+    charge_id: chargeId,
+    loan_id: mifosLoanId,
+    charge_type: chargeType,
+    amount,
+    due_date: dueDate,
+    status: 'ACTIVE',
+  }));
+
+  console.log(`[MIFOS] Charge ${chargeId} added successfully`);
+  return chargeId;
+}
+
+async function simulateWaiveCharge(mifosLoanId: string, chargeId: string): Promise<void> {
+  console.log(`[MIFOS] Waiving charge ${chargeId} on loan ${mifosLoanId}`);
+
+  await new Promise(resolve => setTimeout(resolve, 300));
+
+  const chargeData = await kv.get(`${MIFOS_PREFIX}charge:${chargeId}`);
+  if (!chargeData) {
+    throw new Error(`Charge ${chargeId} not found in Mifos`);
+  }
+
+  const charge = JSON.parse(chargeData);
+  if (charge.status === 'WAIVED') return;
+
+  const loanDetailsData = await kv.get(`${MIFOS_PREFIX}loan_details:${mifosLoanId}`);
+  if (loanDetailsData) {
+    const loanDetails = JSON.parse(loanDetailsData);
+    loanDetails.total_payable -= charge.amount;
+    loanDetails.outstanding_balance = Math.max(0, loanDetails.outstanding_balance - charge.amount);
+    loanDetails.penalty_charges = Math.max(0, (loanDetails.penalty_charges || 0) - charge.amount);
+    await kv.set(`${MIFOS_PREFIX}loan_details:${mifosLoanId}`, JSON.stringify(loanDetails));
+  }
+
+  charge.status = 'WAIVED';
+  await kv.set(`${MIFOS_PREFIX}charge:${chargeId}`, JSON.stringify(charge));
+
+  console.log(`[MIFOS] Charge ${chargeId} waived successfully`);
+}
+
 async function simulateGetLoanStatus(mifosLoanId: string): Promise<{
   principal: number;
   outstanding: number;
@@ -0,0 +1,90 @@
+// Payment allocation service - waterfall policy and customer credit balances
+
+import * as kv from './kv_store.tsx';
+import type { CustomerCredit } from './types.tsx';
+import { createAuditLog } from './audit-service.tsx';
+import { DEFAULT_WATERFALL_POLICY, validateWaterfallOrder } from '../_shared/waterfall.ts';
+import type { WaterfallPolicy } from '../_shared/waterfall.ts';
+
+const POLICY_KEY = 'waterfall:policy';
+const CREDIT_PREFIX = 'credit:';
+
+/**
+ * Get payment waterfall policy (defaults until configured)
+ */
+export async function getWaterfallPolicy(): Promise<WaterfallPolicy> {
+  const data = await kv.get(POLICY_KEY);
+  return data ? { ...DEFAULT_WATERFALL_POLICY, ...JSON.parse(data) } : DEFAULT_WATERFALL_POLICY;
+}
+
+/**
+ * Update payment waterfall policy
+ */
+export async function updateWaterfallPolicy(
+  updates: Partial<WaterfallPolicy>,
+  actor: string
+): Promise<WaterfallPolicy> {
+  const current = await getWaterfallPolicy();
+  const provided = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+  const policy: WaterfallPolicy = { ...current, ...provided };
+
+  const orderError = Array.isArray(policy.order)
+    ? validateWaterfallOrder(policy.order)
+    : 'Waterfall order must be an array';
+  if (orderError) {
+    throw new Error(`Invalid waterfall policy: ${orderError}`);
+  }
+  if (policy.overpayment !== 'HOLD_AS_CREDIT' && policy.overpayment !== 'APPLY_NEXT_INSTALLMENT') {
+    throw new Error('Invalid waterfall policy: overpayment must be HOLD_AS_CREDIT or APPLY_NEXT_INSTALLMENT');
+  }
+
+  await kv.set(POLICY_KEY, JSON.stringify(policy));
+
+  await createAuditLog({
+    entity_type: 'waterfall_policy',
+    entity_id: 'default',
+    action: 'updated',
+    actor,
+    changes: { old_policy: current, new_policy: policy },
+  });
+
+  return policy;
+}
+
+/**
+ * Get a customer's credit balance
+ */
+export async function getCustomerCredit(customerId: string): Promise<CustomerCredit> {
+  const data = await kv.get(`${CREDIT_PREFIX}${customerId}`);
+  return data
+    ? JSON.parse(data)
+    : { customer_id: customerId, balance: 0, entries: [], updated_at: new Date().toISOString() };
+}
+
+/**
+ * Hold an overpayment as customer credit
+ */
+export async function holdCustomerCredit(
+  customerId: string,
+  amount: number,
+  contractId: string,
+  paymentReference: string
+): Promise<CustomerCredit> {
+  const credit = await getCustomerCredit(customerId);
+  const now = new Date().toISOString();
+
+  credit.balance += amount;
+  credit.entries.push({ amount, contract_id: contractId, payment_reference: paymentReference, created_at: now });
+  credit.updated_at = now;
+  await kv.set(`${CREDIT_PREFIX}${customerId}`, JSON.stringify(credit));
+
+  await createAuditLog({
+    entity_type: 'customer',
+    entity_id: customerId,
+    action: 'credit_held',
+    actor: 'system',
+    changes: { amount, contract_id: contractId, payment_reference: paymentReference, balance: credit.balance },
+  });
+
+  return credit;
+}
@@ -0,0 +1,426 @@
+// Payroll deduction file export - CSV, fixed-width and XLSX schedules for FILE-integrated employers
+
+import * as kv from './kv_store.tsx';
+import { v4 as uuidv4 } from 'npm:uuid';
+// SheetJS 0.20.3 from its own CDN; the npm registry build (0.18.x) has a prototype-pollution CVE
+// @deno-types="https://cdn.sheetjs.com/xlsx-0.20.3/package/types/index.d.ts"
+import * as XLSX from 'https://cdn.sheetjs.com/xlsx-0.20.3/package/xlsx.mjs';
+import type { EmployerDeductionInstruction } from './types.tsx';
+import { getContract, getDeductionsForCycle } from './contract-service.tsx';
+import { getCustomerByPolicy } from './policy-service.tsx';
+import { createAuditLog } from './audit-service.tsx';
+
+const EXPORT_PREFIX = 'payroll_export:';
+
+export type PayrollExportFormat = 'CSV' | 'FIXED_WIDTH' | 'XLSX';
+
+export type PayrollExportField =
+  | 'payroll_employee_id'
+  | 'employee_name'
+  | 'national_id'
+  | 'policy_number'
+  | 'contract_id'
+  | 'deduction_id'
+  | 'deduction_type'
+  | 'amount'
+  | 'payroll_cycle';
+
+export interface PayrollExportColumn {
+  field: PayrollExportField;
+  header: string;
+  width?: number; // FIXED_WIDTH only
+}
+
+export interface PayrollExportMapping {
+  format: PayrollExportFormat;
+  columns: PayrollExportColumn[];
+  delimiter: string; // CSV only
+  include_header: boolean;
+  include_trailer: boolean; // Control record with count, control total and version
+}
+
+export interface PayrollExportFile {
+  id: string;
+  employer_id: string;
+  payroll_cycle: string;
+  version: number;
+  format: PayrollExportFormat;
+  file_name: string;
+  content_type: string;
+  checksum_sha256: string; // Of the file as delivered
+  rows_checksum_sha256: string; // Of the rows and mapping only (detects resends with no change)
+  control_total: number;
+  record_count: number;
+  deduction_ids: string[];
+  supersedes: string | null;
+  status: 'CURRENT' | 'SUPERSEDED';
+  generated_at: string;
+  generated_by: string;
+}
+
+type ExportRow = Record<PayrollExportField, string | number>;
+
+export const DEFAULT_EXPORT_MAPPING: PayrollExportMapping = {
+  format: 'CSV',
+  columns: [
+    { field: 'payroll_employee_id', header: 'Employee No', width: 12 },
+    { field: 'employee_name', header: 'Employee Name', width: 30 },
+    { field: 'policy_number', header: 'Policy Number', width: 32 },
+    { field: 'deduction_id', header: 'Reference', width: 36 },
+    { field: 'deduction_type', header: 'Type', width: 11 },
+    { field: 'amount', header: 'Amount (UGX)', width: 12 },
+  ],
+  delimiter: ',',
+  include_header: true,
+  include_trailer: true,
+};
+
+const EXPORT_FIELDS: PayrollExportField[] = [
+  'payroll_employee_id',
+  'employee_name',
+  'national_id',
+  'policy_number',
+  'contract_id',
+  'deduction_id',
+  'deduction_type',
+  'amount',
+  'payroll_cycle',
+];
+
+const CONTENT_TYPES: Record<PayrollExportFormat, { type: string; extension: string }> = {
+  CSV: { type: 'text/csv', extension: 'csv' },
+  FIXED_WIDTH: { type: 'text/plain', extension: 'txt' },
+  XLSX: { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+};
+
+/**
+ * Get an employer's export column mapping (defaults until configured)
+ */
+export async function getExportMapping(employerId: string): Promise<PayrollExportMapping> {
+  const data = await kv.get(`${EXPORT_PREFIX}mapping:${employerId}`);
+  return data ? { ...DEFAULT_EXPORT_MAPPING, ...JSON.parse(data) } : DEFAULT_EXPORT_MAPPING;
+}
+
+/**
+ * Update an employer's export column mapping
+ */
+export async function updateExportMapping(
+  employerId: string,
+  updates: Partial<PayrollExportMapping>,
+  actor: string
+): Promise<PayrollExportMapping> {
+  const current = await getExportMapping(employerId);
+  const provided = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+  const mapping: PayrollExportMapping = { ...current, ...provided };
+
+  if (!CONTENT_TYPES[mapping.format]) {
+    throw new Error(`Invalid export mapping: unsupported format ${mapping.format}`);
+  }
+  if (!Array.isArray(mapping.columns) || mapping.columns.length === 0) {
+    throw new Error('Invalid export mapping: at least one column is required');
+  }
+  for (const column of mapping.columns) {
+    if (!EXPORT_FIELDS.includes(column.field)) {
+      throw new Error(`Invalid export mapping: unknown field ${column.field}`);
+    }
+    if (mapping.format === 'FIXED_WIDTH' && !(column.width && column.width > 0)) {
+      throw new Error(`Invalid export mapping: ${column.field} needs a width for fixed-width files`);
+    }
+  }
+  if (!mapping.columns.some((c) => c.field === 'amount')) {
+    throw new Error('Invalid export mapping: the amount column is required');
+  }
+
+  await kv.set(`${EXPORT_PREFIX}mapping:${employerId}`, JSON.stringify(mapping));
+
+  await createAuditLog({
+    entity_type: 'payroll_export_mapping',
+    entity_id: employerId,
+    action: 'updated',
+    actor,
+    changes: { old_mapping: current, new_mapping: mapping },
+  });
+
+  return mapping;
+}
+
+/**
+ * Export the deduction schedule for a payroll cycle. A resend supersedes the
+ * current version; an unchanged schedule returns the current file instead
+ */
+export async function exportDeductionSchedule(
+  employerId: string,
+  payrollCycle: string,
+  actor: string,
+  format?: PayrollExportFormat
+): Promise<{ file: PayrollExportFile; content: Uint8Array; unchanged: boolean }> {
+  if (!/^\d{4}-\d{2}$/.test(payrollCycle)) {
+    throw new Error(`Invalid payroll cycle ${payrollCycle} (expected YYYY-MM)`);
+  }
+
+  const mapping = await getExportMapping(employerId);
+  const fileFormat = format || mapping.format;
+  if (!CONTENT_TYPES[fileFormat]) {
+    throw new Error(`Unsupported export format ${fileFormat}`);
+  }
+  if (fileFormat === 'FIXED_WIDTH' && mapping.columns.some((c) => !c.width)) {
+    throw new Error('Column mapping has no widths for a fixed-width export');
+  }
+
+  const deductions = await getDeductionsForCycle(employerId, payrollCycle);
+  const rows = await buildRows(deductions);
+  const controlTotal = rows.reduce((sum, r) => sum + (r.amount as number), 0);
+  const rowsChecksum = await sha256(new TextEncoder().encode(JSON.stringify({ rows, mapping })));
+
+  const current = await getCurrentExport(employerId, payrollCycle);
+  if (current && current.format === fileFormat && current.rows_checksum_sha256 === rowsChecksum) {
+    const content = await getExportContent(current.id);
+    if (content) {
+      return { file: current, content, unchanged: true };
+    }
+  }
+
+  const version = current ? current.version + 1 : 1;
+  const control = { employerId, payrollCycle, version, controlTotal, count: rows.length };
+
+  const content =
+    fileFormat === 'CSV'
+      ? new TextEncoder().encode(renderCsv(rows, mapping, control))
+      : fileFormat === 'FIXED_WIDTH'
+        ? new TextEncoder().encode(renderFixedWidth(rows, mapping, control))
+        : renderXlsx(rows, mapping, control);
+
+  const file: PayrollExportFile = {
+    id: uuidv4(),
+    employer_id: employerId,
+    payroll_cycle: payrollCycle,
+    version,
+    format: fileFormat,
+    file_name: `DEDUCTIONS_${employerId}_${payrollCycle}_v${version}.${CONTENT_TYPES[fileFormat].extension}`,
+    content_type: CONTENT_TYPES[fileFormat].type,
+    checksum_sha256: await sha256(content),
+    rows_checksum_sha256: rowsChecksum,
+    control_total: controlTotal,
+    record_count: rows.length,
+    deduction_ids: deductions.map((d) => d.id),
+    supersedes: current ? current.id : null,
+    status: 'CURRENT',
+    generated_at: new Date().toISOString(),
+    generated_by: actor,
+  };
+
+  if (current) {
+    current.status = 'SUPERSEDED';
+    await kv.set(`${EXPORT_PREFIX}file:${current.id}`, JSON.stringify(current));
+  }
+
+  await kv.set(`${EXPORT_PREFIX}file:${file.id}`, JSON.stringify(file));
+  await kv.set(`${EXPORT_PREFIX}content:${file.id}`, toBase64(content));
+  await kv.set(`${EXPORT_PREFIX}current:${employerId}:${payrollCycle}`, file.id);
+
+  await createAuditLog({
+    entity_type: 'payroll_export',
+    entity_id: file.id,
+    action: current ? 'superseded' : 'generated',
+    actor,
+    changes: {
+      employer_id: employerId,
+      payroll_cycle: payrollCycle,
+      version,
+      format: fileFormat,
+      record_count: file.record_count,
+      control_total: controlTotal,
+      checksum_sha256: file.checksum_sha256,
+      supersedes: file.supersedes,
+    },
+  });
+
+  return { file, content, unchanged: false };
+}
+
+/**
+ * Get the current export for an employer and payroll cycle
+ */
+export async function getCurrentExport(
+  employerId: string,
+  payrollCycle: string
+): Promise<PayrollExportFile | null> {
+  const fileId = await kv.get(`${EXPORT_PREFIX}current:${employerId}:${payrollCycle}`);
+  return fileId ? getExportFile(fileId) : null;
+}
+
+/**
+ * Get export metadata
+ */
+export async function getExportFile(fileId: string): Promise<PayrollExportFile | null> {
+  const data = await kv.get(`${EXPORT_PREFIX}file:${fileId}`);
+  return data ? JSON.parse(data) : null;
+}
+
+/**
+ * Get export file bytes
+ */
+export async function getExportContent(fileId: string): Promise<Uint8Array | null> {
+  const data = await kv.get(`${EXPORT_PREFIX}content:${fileId}`);
+  return data ? fromBase64(data) : null;
+}
+
+/**
+ * Version history for a payroll cycle, newest first
+ */
+export async function getExportHistory(employerId: string, payrollCycle: string): Promise<PayrollExportFile[]> {
+  const history: PayrollExportFile[] = [];
+  let file = await getCurrentExport(employerId, payrollCycle);
+
+  while (file) {
+    history.push(file);
+    file = file.supersedes ? await getExportFile(file.supersedes) : null;
+  }
+
+  return history;
+}
+
+async function buildRows(deductions: EmployerDeductionInstruction[]): Promise<ExportRow[]> {
+  const rows: ExportRow[] = [];
+
+  for (const deduction of deductions) {
+    const contract = await getContract(deduction.contract_id);
+    const customer = contract ? await getCustomerByPolicy(contract.policy_number) : null;
+
+    rows.push({
+      payroll_employee_id: deduction.payroll_employee_id,
+      employee_name: customer ? customer.full_name : '',
+      national_id: customer ? customer.national_id : '',
+      policy_number: contract ? contract.policy_number : '',
+      contract_id: deduction.contract_id,
+      deduction_id: deduction.id,
+      deduction_type: deduction.deduction_type || 'INSTALLMENT',
+      amount: Math.round(deduction.amount),
+      payroll_cycle: deduction.payroll_cycle,
+    });
+  }
+
+  // Stable order so unchanged schedules produce identical files
+  return rows.sort((a, b) =>
+    String(a.payroll_employee_id).localeCompare(String(b.payroll_employee_id)) ||
+    String(a.deduction_id).localeCompare(String(b.deduction_id))
+  );
+}
+
+interface ExportControl {
+  employerId: string;
+  payrollCycle: string;
+  version: number;
+  controlTotal: number;
+  count: number;
+}
+
+// Text starting with a formula trigger is prefixed with a quote so spreadsheets show it
+// as text instead of evaluating it (names and ids come from customer and employer data)
+function neutralizeFormula(value: string | number): string | number {
+  return typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function renderCsv(rows: ExportRow[], mapping: PayrollExportMapping, control: ExportControl): string {
+  const escape = (value: string | number) => {
+    const text = String(neutralizeFormula(value));
+    return /["\r\n]/.test(text) || text.includes(mapping.delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const lines: string[] = [];
+  if (mapping.include_header) {
+    lines.push(mapping.columns.map((c) => escape(c.header)).join(mapping.delimiter));
+  }
+  for (const row of rows) {
+    lines.push(mapping.columns.map((c) => escape(row[c.field])).join(mapping.delimiter));
+  }
+  if (mapping.include_trailer) {
+    lines.push(
+      ['TRAILER', control.count, control.controlTotal, control.payrollCycle, `v${control.version}`]
+        .map(escape)
+        .join(mapping.delimiter)
+    );
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+function renderFixedWidth(rows: ExportRow[], mapping: PayrollExportMapping, control: ExportControl): string {
+  // Only names may be cut to fit; a clipped amount, id or control total would corrupt the file
+  const field = (value: string | number, width: number, numeric: boolean, name: string) => {
+    const text = String(value);
+    if (text.length > width && name !== 'employee_name') {
+      throw new Error(`Value for ${name} (${text}) is wider than its ${width}-character field`);
+    }
+    return numeric ? text.padStart(width, '0') : text.padEnd(width, ' ').slice(0, width);
+  };
+
+  const lines: string[] = [];
+  if (mapping.include_header) {
+    lines.push(
+      'H' +
+        field(control.employerId, 20, false, 'employer_id') +
+        field(control.payrollCycle.replace('-', ''), 6, true, 'payroll_cycle') +
+        field(control.version, 3, true, 'version')
+    );
+  }
+  for (const row of rows) {
+    lines.push(
+      'D' + mapping.columns.map((c) => field(row[c.field], c.width as number, c.field === 'amount', c.field)).join('')
+    );
+  }
+  if (mapping.include_trailer) {
+    lines.push('T' + field(control.count, 8, true, 'count') + field(control.controlTotal, 15, true, 'control_total'));
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+function renderXlsx(rows: ExportRow[], mapping: PayrollExportMapping, control: ExportControl): Uint8Array {
+  const sheet: (string | number)[][] = [];
+  if (mapping.include_header) {
+    sheet.push(mapping.columns.map((c) => neutralizeFormula(c.header)));
+  }
+  for (const row of rows) {
+    sheet.push(mapping.columns.map((c) => neutralizeFormula(row[c.field])));
+  }
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(sheet), 'Deductions');
+
+  if (mapping.include_trailer) {
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet([
+        ['Employer', control.employerId],
+        ['Payroll Cycle', control.payrollCycle],
+        ['Version', control.version],
+        ['Record Count', control.count],
+        ['Control Total', control.controlTotal],
+      ]),
+      'Control'
+    );
+  }
+
+  return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }));
+}
+
+async function sha256(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
@@ -0,0 +1,329 @@
+// Late penalty service - late fees and penalty interest on overdue installments, with audited waivers
+
+import * as kv from './kv_store.tsx';
+import { v4 as uuidv4 } from 'npm:uuid';
+import type { BNPLContract, BNPLInstallment, InstallmentCharge } from './types.tsx';
+import { ContractState } from './types.tsx';
+import { getContract, getContractsByStates, getInstallments } from './contract-service.tsx';
+import { postMifosCharge, waiveMifosCharge } from './mifos-service.tsx';
+import { createAuditLog } from './audit-service.tsx';
+import { accruePenalty, DEFAULT_PENALTY_POLICY } from '../_shared/penalties.ts';
+import type { PenaltyChargeType, PenaltyPolicy } from '../_shared/penalties.ts';
+
+const PENALTY_PREFIX = 'penalty:';
+const POLICY_KEY = `${PENALTY_PREFIX}policy`;
+const INSTALLMENT_PREFIX = 'installment:';
+
+// Contracts whose overdue installments attract penalties
+const PENALTY_STATES = [ContractState.DISBURSED, ContractState.IN_REPAYMENT];
+
+export interface PenaltyRun {
+  date: string;
+  policy: PenaltyPolicy;
+  contracts_checked: number;
+  charges_created: number;
+  late_fees: number;
+  penalty_interest: number;
+  capped_installments: number;
+  mifos_failures: number;
+  completed_at: string;
+}
+
+/**
+ * Get penalty policy (defaults until configured)
+ */
+export async function getPenaltyPolicy(): Promise<PenaltyPolicy> {
+  const data = await kv.get(POLICY_KEY);
+  return data ? { ...DEFAULT_PENALTY_POLICY, ...JSON.parse(data) } : DEFAULT_PENALTY_POLICY;
+}
+
+/**
+ * Update penalty policy
+ */
+export async function updatePenaltyPolicy(
+  updates: Partial<PenaltyPolicy>,
+  actor: string
+): Promise<PenaltyPolicy> {
+  const current = await getPenaltyPolicy();
+  const provided = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+  const policy: PenaltyPolicy = { ...current, ...provided };
+
+  for (const [field, value] of Object.entries(policy)) {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid penalty policy: ${field} must be a non-negative number`);
+    }
+  }
+  for (const field of ['dailyRate', 'installmentCapRate', 'contractCapRate'] as const) {
+    if (policy[field] > 1) {
+      throw new Error(`Invalid penalty policy: ${field} must be a fraction between 0 and 1`);
+    }
+  }
+
+  await kv.set(POLICY_KEY, JSON.stringify(policy));
+
+  await createAuditLog({
+    entity_type: 'penalty_policy',
+    entity_id: 'default',
+    action: 'updated',
+    actor,
+    changes: { old_policy: current, new_policy: policy },
+  });
+
+  return policy;
+}
+
+/**
+ * Accrue penalties on one contract's overdue installments
+ */
+async function accrueContractPenalties(
+  contract: BNPLContract,
+  asOf: Date,
+  policy: PenaltyPolicy,
+  actor: string
+): Promise<{ charges: InstallmentCharge[]; capped: number; mifosFailures: number }> {
+  const installments = await getInstallments(contract.id);
+  const date = asOf.toISOString().split('T')[0];
+
+  let contractCharged = installments.reduce((sum, i) => sum + chargedAmount(i), 0);
+  const created: InstallmentCharge[] = [];
+  let capped = 0;
+  let mifosFailures = 0;
+
+  for (const installment of installments) {
+    if (installment.status === 'PAID') continue;
+
+    const charges = installment.charges || [];
+    const interestCharges = charges.filter((c) => c.type === 'PENALTY_INTEREST' && c.accrued_to);
+    const lastAccrued = interestCharges.length > 0
+      ? new Date(interestCharges[interestCharges.length - 1].accrued_to as string)
+      : null;
+
+    const accrual = accruePenalty(
+      {
+        dueDate: new Date(installment.due_date),
+        amountDue: installment.amount_due,
+        amountPaid: installment.amount_paid,
+        lateFeeCharged: charges.some((c) => c.type === 'LATE_FEE'),
+        interestAccruedThrough: lastAccrued,
+        installmentCharged: chargedAmount(installment),
+        contractCharged,
+        principal: contract.principal_amount,
+      },
+      asOf,
+      policy
+    );
+    if (accrual.capped) capped++;
+
+    const lines: InstallmentCharge[] = [];
+    if (accrual.lateFee > 0) {
+      lines.push(newCharge('LATE_FEE', accrual.lateFee, date, null, null));
+    }
+    if (accrual.penaltyInterest > 0) {
+      lines.push(newCharge(
+        'PENALTY_INTEREST',
+        accrual.penaltyInterest,
+        date,
+        accrual.accruedFrom ? accrual.accruedFrom.toISOString() : null,
+        accrual.accruedThrough ? accrual.accruedThrough.toISOString() : null
+      ));
+    }
+    if (lines.length === 0) continue;
+
+    for (const line of lines) {
+      if (contract.mifos_loan_id) {
+        const result = await postMifosCharge(contract.mifos_loan_id, line.amount, line.type, date);
+        if (result.success) {
+          line.mifos_charge_id = result.chargeId || null;
+        } else {
+          console.error(`Failed to post ${line.type} for contract ${contract.id} to Mifos:`, result.error);
+          mifosFailures++;
+        }
+      }
+      contractCharged += line.amount;
+    }
+
+    installment.charges = [...charges, ...lines];
+    await kv.set(
+      `${INSTALLMENT_PREFIX}${contract.id}:${installment.installment_number}`,
+      JSON.stringify(installment)
+    );
+    created.push(...lines);
+
+    await createAuditLog({
+      entity_type: 'contract',
+      entity_id: contract.id,
+      action: 'penalty_accrued',
+      actor,
+      changes: {
+        installment_number: installment.installment_number,
+        charges: lines.map((l) => ({ id: l.id, type: l.type, amount: l.amount })),
+        capped: accrual.capped,
+      },
+    });
+  }
+
+  return { charges: created, capped, mifosFailures };
+}
+
+/**
+ * Daily penalty accrual over all disbursed and repaying contracts
+ */
+export async function runPenaltyAccrual(
+  asOf: Date = new Date(),
+  actor: string = 'system'
+): Promise<PenaltyRun> {
+  const policy = await getPenaltyPolicy();
+  const contracts = await getContractsByStates(PENALTY_STATES);
+
+  let lateFees = 0;
+  let penaltyInterest = 0;
+  let chargesCreated = 0;
+  let capped = 0;
+  let mifosFailures = 0;
+
+  for (const contract of contracts) {
+    try {
+      const result = await accrueContractPenalties(contract, asOf, policy, actor);
+      for (const charge of result.charges) {
+        if (charge.type === 'LATE_FEE') lateFees += charge.amount;
+        else penaltyInterest += charge.amount;
+      }
+      chargesCreated += result.charges.length;
+      capped += result.capped;
+      mifosFailures += result.mifosFailures;
+    } catch (error) {
+      console.error(`Error accruing penalties for contract ${contract.id}:`, error);
+    }
+  }
+
+  const date = asOf.toISOString().split('T')[0];
+  const run: PenaltyRun = {
+    date,
+    policy,
+    contracts_checked: contracts.length,
+    charges_created: chargesCreated,
+    late_fees: lateFees,
+    penalty_interest: penaltyInterest,
+    capped_installments: capped,
+    mifos_failures: mifosFailures,
+    completed_at: new Date().toISOString(),
+  };
+
+  await kv.set(`${PENALTY_PREFIX}run:${date}`, JSON.stringify(run));
+
+  await createAuditLog({
+    entity_type: 'penalty_run',
+    entity_id: date,
+    action: 'completed',
+    actor,
+    changes: {
+      contracts_checked: run.contracts_checked,
+      charges_created: chargesCreated,
+      late_fees: lateFees,
+      penalty_interest: penaltyInterest,
+    },
+  });
+
+  return run;
+}
+
+/**
+ * Waive an accrued penalty charge (reverses it in Mifos)
+ */
+export async function waivePenalty(
+  contractId: string,
+  installmentNumber: number,
+  chargeId: string,
+  actor: string,
+  reason: string
+): Promise<InstallmentCharge> {
+  if (!reason || !reason.trim()) {
+    throw new Error('A waiver reason is required');
+  }
+
+  const contract = await getContract(contractId);
+  if (!contract) {
+    throw new Error(`Contract ${contractId} not found`);
+  }
+
+  const key = `${INSTALLMENT_PREFIX}${contractId}:${installmentNumber}`;
+  const data = await kv.get(key);
+  if (!data) {
+    throw new Error(`Installment ${installmentNumber} not found on contract ${contractId}`);
+  }
+
+  const installment: BNPLInstallment = JSON.parse(data);
+  const charge = (installment.charges || []).find((c) => c.id === chargeId);
+  if (!charge) {
+    throw new Error(`Charge ${chargeId} not found on installment ${installmentNumber}`);
+  }
+  if (charge.status !== 'ACCRUED') {
+    throw new Error(`Cannot waive a ${charge.status} charge`);
+  }
+
+  if (contract.mifos_loan_id && charge.mifos_charge_id) {
+    const result = await waiveMifosCharge(contract.mifos_loan_id, charge.mifos_charge_id, reason);
+    if (!result.success) {
+      throw new Error(`Failed to waive charge in Mifos: ${result.error}`);
+    }
+  }
+
+  charge.status = 'WAIVED';
+  charge.waived_at = new Date().toISOString();
+  charge.waived_by = actor;
+  charge.waiver_reason = reason;
+  await kv.set(key, JSON.stringify(installment));
+
+  await createAuditLog({
+    entity_type: 'contract',
+    entity_id: contractId,
+    action: 'penalty_waived',
+    actor,
+    changes: {
+      installment_number: installmentNumber,
+      charge_id: chargeId,
+      charge_type: charge.type,
+      amount: charge.amount,
+      reason,
+    },
+  });
+
+  return charge;
+}
+
+/**
+ * Get a stored penalty run
+ */
+export async function getPenaltyRun(date: string): Promise<PenaltyRun | null> {
+  const data = await kv.get(`${PENALTY_PREFIX}run:${date}`);
+  return data ? JSON.parse(data) : null;
+}
+
+// Waived charges do not count towards the caps
+function chargedAmount(installment: BNPLInstallment): number {
+  return (installment.charges || [])
+    .filter((c) => c.status !== 'WAIVED')
+    .reduce((sum, c) => sum + c.amount, 0);
+}
+
+function newCharge(
+  type: PenaltyChargeType,
+  amount: number,
+  accruedOn: string,
+  accruedFrom: string | null,
+  accruedTo: string | null
+): InstallmentCharge {
+  return {
+    id: uuidv4(),
+    type,
+    amount,
+    status: 'ACCRUED',
+    accrued_on: accruedOn,
+    accrued_from: accruedFrom,
+    accrued_to: accruedTo,
+    mifos_charge_id: null,
+    waived_at: null,
+    waived_by: null,
+    waiver_reason: null,
+  };
+}
@@ -2,8 +2,10 @@
 
 import * as kv from './kv_store.tsx';
 import { v4 as uuidv4 } from 'npm:uuid';
-import type { PesapalTransaction } from './types.tsx';
+import type { BNPLContract, MerchantClawback, PesapalTransaction } from './types.tsx';
 import { createAuditLog } from './audit-service.tsx';
+import { applyClawbackRecovery, getOutstandingClawbackAmount, recordMerchantClawback } from './clawback-service.tsx';
+import { merchantDiscountShare } from './pricing-service.tsx';
 
 const PESAPAL_PREFIX = 'pesapal:';
 
@@ -75,8 +77,15 @@ export async function holdFunds(
 
 /**
  * Release held funds to merchant (after delivery confirmation)
+ * `merchantDiscountShare` of the released principal is withheld as the
+ * merchant's pricing-plan subsidy, and what the merchant still owes from
+ * earlier clawbacks is withheld from the rest
  */
-export async function releaseFunds(contractId: string): Promise<PesapalTransaction> {
+export async function releaseFunds(
+  contractId: string,
+  merchantId: string,
+  merchantDiscountShare: number = 0
+): Promise<PesapalTransaction> {
   // Get the hold transaction
   const holdTransactionId = await kv.get(`${PESAPAL_PREFIX}contract:${contractId}:hold`);
   if (!holdTransactionId) {
@@ -97,14 +106,23 @@ export async function releaseFunds(contractId: string): Promise<PesapalTransacti
   const releaseId = uuidv4();
   const now = new Date().toISOString();
 
+  // Anything already refunded out of escrow is not released to the merchant
+  const refundedAmount = Number(await kv.get(`${PESAPAL_PREFIX}contract:${contractId}:refunded`) || 0);
+  const releasedPrincipal = holdTransaction.amount - refundedAmount;
+  const merchantDiscount = Math.round(releasedPrincipal * merchantDiscountShare);
+  const clawbackRecovered = Math.min(await getOutstandingClawbackAmount(merchantId), releasedPrincipal - merchantDiscount);
+  const releaseAmount = releasedPrincipal - merchantDiscount - clawbackRecovered;
+
   const releaseTransaction: PesapalTransaction = {
     id: releaseId,
     contract_id: contractId,
-    amount: holdTransaction.amount,
+    amount: releaseAmount,
     type: 'RELEASE',
     status: 'PENDING',
     pesapal_tracking_id: holdTransaction.pesapal_tracking_id,
     merchant_reference: `RELEASE-${holdTransaction.merchant_reference}`,
+    merchant_discount_amount: merchantDiscount,
+    clawback_recovered_amount: clawbackRecovered,
     created_at: now,
     completed_at: null,
   };
@@ -115,13 +133,16 @@ export async function releaseFunds(contractId: string): Promise<PesapalTransacti
   try {
     const releaseResult = await simulatePesapalRelease(
       holdTransaction.pesapal_tracking_id,
-      holdTransaction.amount
+      releaseAmount
     );
 
     if (releaseResult.success) {
       releaseTransaction.status = 'SUCCESS';
       releaseTransaction.completed_at = new Date().toISOString();
-      await kv.set(`${PESAPAL_PREFIX}${releaseId}`, JSON.stringify(releaseTransaction));
+      await kv.mset(
+        [`${PESAPAL_PREFIX}${releaseId}`, `${PESAPAL_PREFIX}contract:${contractId}:released`],
+        [JSON.stringify(releaseTransaction), String(releasedPrincipal)]
+      );
     } else {
       releaseTransaction.status = 'FAILED';
       await kv.set(`${PESAPAL_PREFIX}${releaseId}`, JSON.stringify(releaseTransaction));
@@ -133,6 +154,10 @@ export async function releaseFunds(contractId: string): Promise<PesapalTransacti
     throw error;
   }
 
+  if (clawbackRecovered > 0) {
+    await applyClawbackRecovery(merchantId, clawbackRecovered, releaseId);
+  }
+
   await createAuditLog({
     entity_type: 'pesapal_transaction',
     entity_id: releaseId,
@@ -163,6 +188,15 @@ export async function refundFunds(
 
   const holdTransaction: PesapalTransaction = JSON.parse(holdData);
 
+  // Only what is still held can be refunded: not what was refunded or released already
+  const escrow = await getEscrowBalance(contractId);
+  if (!escrow) {
+    throw new Error(`Hold transaction is not in SUCCESS status`);
+  }
+  if (!(amount > 0) || amount > escrow.available) {
+    throw new Error(`Refund ${amount} exceeds the ${escrow.available} still held in escrow for contract ${contractId}`);
+  }
+
   const refundId = uuidv4();
   const now = new Date().toISOString();
 
@@ -190,6 +224,9 @@ export async function refundFunds(
       refundTransaction.status = 'SUCCESS';
       refundTransaction.completed_at = new Date().toISOString();
       await kv.set(`${PESAPAL_PREFIX}${refundId}`, JSON.stringify(refundTransaction));
+
+      const refundedSoFar = Number(await kv.get(`${PESAPAL_PREFIX}contract:${contractId}:refunded`) || 0);
+      await kv.set(`${PESAPAL_PREFIX}contract:${contractId}:refunded`, String(refundedSoFar + amount));
     } else {
       refundTransaction.status = 'FAILED';
       await kv.set(`${PESAPAL_PREFIX}${refundId}`, JSON.stringify(refundTransaction));
@@ -212,6 +249,121 @@ export async function refundFunds(
   return refundTransaction;
 }
 
+/**
+ * Take refunded principal back from the merchant: out of escrow while it is
+ * still held, otherwise as a clawback against their later releases (net of the
+ * pricing-plan subsidy they never received). Nothing moves for a contract
+ * that never had funds held.
+ */
+export async function recoverPrincipal(
+  contract: BNPLContract,
+  amount: number,
+  reason: MerchantClawback['reason'],
+  caseReference: string,
+  actor: string
+): Promise<{ pesapal_transaction_id?: string; clawback_id?: string }> {
+  const escrow = await getEscrowBalance(contract.id);
+  if (!escrow) {
+    return {};
+  }
+
+  if (escrow.released === 0) {
+    const refund = await refundFunds(contract.id, amount);
+    return { pesapal_transaction_id: refund.id };
+  }
+
+  const clawback = await recordMerchantClawback(
+    {
+      merchant_id: contract.merchant_id,
+      contract_id: contract.id,
+      amount: amount - Math.round(amount * merchantDiscountShare(contract)),
+      reason,
+      case_reference: caseReference,
+    },
+    actor
+  );
+  return { clawback_id: clawback.id };
+}
+
+/**
+ * What is still held in escrow for a contract (null when nothing was ever held)
+ */
+export async function getEscrowBalance(contractId: string): Promise<{
+  held: number;
+  refunded: number;
+  released: number;
+  available: number;
+} | null> {
+  const holdTransactionId = await kv.get(`${PESAPAL_PREFIX}contract:${contractId}:hold`);
+  const holdData = holdTransactionId ? await kv.get(`${PESAPAL_PREFIX}${holdTransactionId}`) : null;
+  if (!holdData) return null;
+
+  const holdTransaction: PesapalTransaction = JSON.parse(holdData);
+  if (holdTransaction.status !== 'SUCCESS') return null;
+
+  const held = holdTransaction.amount;
+  const refundedAmount = Number(await kv.get(`${PESAPAL_PREFIX}contract:${contractId}:refunded`) || 0);
+  const releasedAmount = Number(await kv.get(`${PESAPAL_PREFIX}contract:${contractId}:released`) || 0);
+
+  return {
+    held,
+    refunded: refundedAmount,
+    released: releasedAmount,
+    available: Math.max(0, held - refundedAmount - releasedAmount),
+  };
+}
+
+/**
+ * Confirm a customer payment with Pesapal by its tracking id and record it
+ * against a contract. Each payment can be applied once.
+ */
+export async function verifyCollection(
+  contractId: string,
+  paymentReference: string,
+  amount: number
+): Promise<PesapalTransaction> {
+  const collectionKey = `${PESAPAL_PREFIX}collection:${paymentReference}`;
+  if (await kv.get(collectionKey)) {
+    throw new Error(`Payment ${paymentReference} has already been applied`);
+  }
+
+  const status = await simulatePesapalCollectionStatus(paymentReference, amount);
+  if (!status.success) {
+    throw new Error(`Pesapal payment ${paymentReference} not confirmed: ${status.error}`);
+  }
+  if (status.amount !== amount) {
+    throw new Error(`Pesapal payment ${paymentReference} is for ${status.amount}, not ${amount}`);
+  }
+
+  const now = new Date().toISOString();
+  const transaction: PesapalTransaction = {
+    id: uuidv4(),
+    contract_id: contractId,
+    amount: status.amount,
+    type: 'COLLECTION',
+    status: 'SUCCESS',
+    pesapal_tracking_id: paymentReference,
+    merchant_reference: `COLLECTION-${contractId}`,
+    created_at: now,
+    completed_at: now,
+  };
+
+  await kv.mset(
+    [`${PESAPAL_PREFIX}${transaction.id}`, collectionKey],
+    [JSON.stringify(transaction), transaction.id]
+  );
+
+  await createAuditLog({
+    entity_type: 'pesapal_transaction',
+    entity_id: transaction.id,
+    action: 'collection_verified',
+    actor: 'system',
+    changes: { transaction },
+  });
+
+  return transaction;
+}
+
 /**
  * Get transaction by ID
  */
@@ -256,6 +408,22 @@ async function simulatePesapalRelease(
   }
 }
 
+async function simulatePesapalCollectionStatus(
+  trackingId: string,
+  amount: number
+): Promise<{ success: boolean; amount: number; error?: string }> {
+  await new Promise(resolve => setTimeout(resolve, 500));
+
+  // Pesapal tracking ids look like PSP-...; anything else is unknown to the gateway
+  if (!trackingId.toUpperCase().startsWith('PSP-')) {
+    console.log(`[PESAPAL STATUS] Unknown: ${trackingId}`);
+    return { success: false, amount: 0, error: 'Transaction not found' };
+  }
+
+  console.log(`[PESAPAL STATUS] Completed: ${trackingId}, Amount: ${amount}`);
+  return { success: true, amount };
+}
+
 async function simulatePesapalRefund(
   trackingId: string,
   amount: number
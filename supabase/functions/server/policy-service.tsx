@@ -3,14 +3,33 @@
 import * as kv from './kv_store.tsx';
 import { v4 as uuidv4 } from 'npm:uuid';
 import { hash } from 'npm:bcrypt';
-import type { EmployerPolicy, CustomerAuth, BNPLCustomer, BNPLLimit, PolicyStatus, CustomerStatus } from './types.tsx';
+import type {
+  EmployerPolicy,
+  CustomerAuth,
+  BNPLCustomer,
+  BNPLLimit,
+  PolicyStatus,
+  CustomerStatus,
+  LimitRecalculation,
+} from './types.tsx';
 import { calculateAffordability } from './affordability-engine.tsx';
+import type { AffordabilityResult } from './affordability-engine.tsx';
+import { INDEX, addToIndexes, clearIndex, queryIndexes, queryRecords, parseRecords } from './kv-index.tsx';
+import type { IndexEntry } from './kv-index.tsx';
 
 const POLICY_PREFIX = 'policy:';
 const CUSTOMER_AUTH_PREFIX = 'auth:';
 const CUSTOMER_PREFIX = 'customer:';
 const LIMIT_PREFIX = 'limit:';
 
+const TENORS = [1, 2, 3] as const;
+
+// What a policy's open contracts already take from its affordability
+export interface CommittedObligations {
+  monthly_payment: number; // Installments still owed per month
+  principal_by_tenor: Record<1 | 2 | 3, number>; // Already deducted from each tenor's available amount
+}
+
 /**
  * Generate unique policy number
  */
@@ -64,9 +83,9 @@ export async function createPolicy(data: {
   const affordability = calculateAffordability(policy);
   
   if (affordability.approved) {
-    for (const tenor of [1, 2, 3] as const) {
+    for (const tenor of TENORS) {
       const limitId = uuidv4();
-      const maxAmount = affordability[`max_amount_${tenor}_months` as keyof typeof affordability] as number;
+      const maxAmount = maxAmountForTenor(affordability, tenor);
       
       const limit: BNPLLimit = {
         id: limitId,
@@ -86,6 +105,7 @@ export async function createPolicy(data: {
   await kv.set(`${POLICY_PREFIX}${policyNumber}`, JSON.stringify(policy));
   await kv.set(`${CUSTOMER_PREFIX}${customerId}`, JSON.stringify(customer));
   await kv.set(`${CUSTOMER_PREFIX}phone:${data.phone_number}`, customerId);
+  await addToIndexes([customerPolicyIndexEntry(customer, policyNumber), policyPayrollIndexEntry(policy)]);
 
   return { policy, customer };
 }
@@ -106,6 +126,103 @@ export async function getCustomer(customerId: string): Promise<BNPLCustomer | nu
   return data ? JSON.parse(data) : null;
 }
 
+/**
+ * Get customer holding a policy
+ */
+export async function getCustomerByPolicy(policyNumber: string): Promise<BNPLCustomer | null> {
+  const page = await queryRecords<BNPLCustomer>(
+    [{ index: INDEX.CUSTOMER_POLICY, partition: policyNumber }],
+    { limit: 1 }
+  );
+  return page.items[0] ?? null;
+}
+
+/**
+ * Get policy by employer and payroll employee id (exit files, payroll feeds)
+ */
+export async function getPolicyByPayrollId(
+  employerId: string,
+  payrollEmployeeId: string
+): Promise<EmployerPolicy | null> {
+  // Policies are keyed by policy number (no id field), so resolve the entry directly
+  const page = await queryIndexes(
+    [{ index: INDEX.POLICY_PAYROLL, partition: payrollPartition(employerId, payrollEmployeeId) }],
+    { limit: 1 }
+  );
+  return page.items[0] ? getPolicy(page.items[0].id) : null;
+}
+
+/**
+ * Update policy status
+ */
+export async function updatePolicyStatus(policyNumber: string, status: PolicyStatus): Promise<EmployerPolicy> {
+  const policy = await getPolicy(policyNumber);
+  if (!policy) throw new Error(`Policy ${policyNumber} not found`);
+
+  policy.status = status;
+  policy.updated_at = new Date().toISOString();
+  await kv.set(`${POLICY_PREFIX}${policyNumber}`, JSON.stringify(policy));
+
+  return policy;
+}
+
+/**
+ * Rebuild the customer-by-policy index (policy ↔ customer via payroll employee id)
+ * and the policy-by-payroll-id index
+ */
+export async function rebuildCustomerIndexes(): Promise<number> {
+  await clearIndex(INDEX.CUSTOMER_POLICY);
+  await clearIndex(INDEX.POLICY_PAYROLL);
+
+  const policies = parseRecords<EmployerPolicy>(
+    await kv.getByPrefix(POLICY_PREFIX),
+    (value) => Boolean(value.policy_number && value.payroll_employee_id)
+  );
+  const customers = parseRecords<BNPLCustomer>(
+    await kv.getByPrefix(CUSTOMER_PREFIX),
+    (value) => Boolean(value.id && value.payroll_employee_id)
+  );
+
+  let indexed = 0;
+  for (const policy of policies) {
+    await addToIndexes([policyPayrollIndexEntry(policy)]);
+
+    const customer = customers.find(
+      (c) => c.employer_id === policy.employer_id && c.payroll_employee_id === policy.payroll_employee_id
+    );
+    if (customer) {
+      await addToIndexes([customerPolicyIndexEntry(customer, policy.policy_number)]);
+      indexed++;
+    }
+  }
+
+  return indexed;
+}
+
+function customerPolicyIndexEntry(customer: BNPLCustomer, policyNumber: string): IndexEntry {
+  return {
+    index: INDEX.CUSTOMER_POLICY,
+    partition: policyNumber,
+    sort: customer.created_at,
+    id: customer.id,
+    key: `${CUSTOMER_PREFIX}${customer.id}`,
+  };
+}
+
+function policyPayrollIndexEntry(policy: EmployerPolicy): IndexEntry {
+  return {
+    index: INDEX.POLICY_PAYROLL,
+    partition: payrollPartition(policy.employer_id, policy.payroll_employee_id),
+    sort: policy.created_at,
+    id: policy.policy_number,
+    key: `${POLICY_PREFIX}${policy.policy_number}`,
+  };
+}
+
+function payrollPartition(employerId: string, payrollEmployeeId: string): string {
+  return `${employerId}/${payrollEmployeeId}`;
+}
+
 /**
  * Get customer by phone number
  */
@@ -135,6 +252,9 @@ export async function updateAvailableLimit(
   const limit = await getLimit(policyNumber, tenorMonths);
   if (!limit) throw new Error(`Limit not found for policy ${policyNumber} tenor ${tenorMonths}`);
 
+  // Frozen limits (employee exit) can only shrink
+  if (limit.frozen_at && amountChange > 0) return;
+
   limit.available_amount += amountChange;
   
   // Ensure available amount doesn't go negative or exceed max
@@ -143,6 +263,104 @@ export async function updateAvailableLimit(
   await kv.set(`${LIMIT_PREFIX}${policyNumber}:${tenorMonths}`, JSON.stringify(limit));
 }
 
+/**
+ * Apply a new net salary to a policy and recalculate its limits
+ */
+export async function updateNetSalary(
+  policyNumber: string,
+  netSalary: number,
+  committed: CommittedObligations
+): Promise<{ policy: EmployerPolicy; previous_salary: number; limits: LimitRecalculation[] }> {
+  const policy = await getPolicy(policyNumber);
+  if (!policy) throw new Error(`Policy ${policyNumber} not found`);
+
+  const previousSalary = policy.net_salary;
+  policy.net_salary = netSalary;
+  policy.updated_at = new Date().toISOString();
+  await kv.set(`${POLICY_PREFIX}${policyNumber}`, JSON.stringify(policy));
+
+  const limits = await recalculateLimits(policy, committed);
+  return { policy, previous_salary: previousSalary, limits };
+}
+
+/**
+ * Recalculate limits from the policy's current salary
+ *
+ * max_amount follows the salary but never drops below the principal open
+ * contracts already draw on the tenor (closures release it back); available
+ * is what affordability leaves after existing installments, capped by
+ * max_amount less that committed principal. Open contracts are never touched.
+ * Frozen limits (employee exit) are left as they are.
+ */
+export async function recalculateLimits(
+  policy: EmployerPolicy,
+  committed: CommittedObligations
+): Promise<LimitRecalculation[]> {
+  const gross = calculateAffordability(policy);
+  const headroom = calculateAffordability(policy, committed.monthly_payment);
+  const now = new Date().toISOString();
+  const recalculated: LimitRecalculation[] = [];
+
+  for (const tenor of TENORS) {
+    const existing = await getLimit(policy.policy_number, tenor);
+    if (existing?.frozen_at) continue;
+
+    // Employees below the salary floor at onboarding have no limits until they qualify
+    const customerId = existing?.customer_id ?? (gross.approved ? (await getCustomerByPolicy(policy.policy_number))?.id : null);
+    if (!customerId) continue;
+
+    const committedAmount = committed.principal_by_tenor[tenor];
+    const maxAmount = Math.max(maxAmountForTenor(gross, tenor), committedAmount);
+    const availableAmount = Math.max(0, Math.min(maxAmount - committedAmount, maxAmountForTenor(headroom, tenor)));
+
+    const limit: BNPLLimit = {
+      id: existing?.id ?? uuidv4(),
+      customer_id: customerId,
+      policy_number: policy.policy_number,
+      tenor_months: tenor,
+      max_amount: maxAmount,
+      available_amount: availableAmount,
+      last_calculated_at: now,
+    };
+    await kv.set(`${LIMIT_PREFIX}${policy.policy_number}:${tenor}`, JSON.stringify(limit));
+
+    recalculated.push({
+      tenor_months: tenor,
+      previous_max_amount: existing?.max_amount ?? 0,
+      max_amount: maxAmount,
+      previous_available_amount: existing?.available_amount ?? 0,
+      available_amount: availableAmount,
+      committed_amount: committedAmount,
+    });
+  }
+
+  return recalculated;
+}
+
+function maxAmountForTenor(affordability: AffordabilityResult, tenor: 1 | 2 | 3): number {
+  return [affordability.max_amount_1_month, affordability.max_amount_2_months, affordability.max_amount_3_months][tenor - 1];
+}
+
+/**
+ * Freeze all limits on a policy (available amount to zero, no releases)
+ */
+export async function freezeLimits(policyNumber: string): Promise<BNPLLimit[]> {
+  const now = new Date().toISOString();
+  const frozen: BNPLLimit[] = [];
+
+  for (const tenor of [1, 2, 3] as const) {
+    const limit = await getLimit(policyNumber, tenor);
+    if (!limit) continue;
+
+    limit.available_amount = 0;
+    limit.frozen_at = limit.frozen_at || now;
+    await kv.set(`${LIMIT_PREFIX}${policyNumber}:${tenor}`, JSON.stringify(limit));
+    frozen.push(limit);
+  }
+
+  return frozen;
+}
+
 /**
  * Set customer PIN for USSD/SMS authorization
  */
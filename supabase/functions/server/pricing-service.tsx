@@ -0,0 +1,266 @@
+// Pricing plan service - per-merchant and promotional (e.g. 0%) plans that split the cost of credit between customer and merchant
+
+import * as kv from './kv_store.tsx';
+import { v4 as uuidv4 } from 'npm:uuid';
+import type { BNPLContract, ContractPricing, Merchant, PricingPlan, PricingPlanStatus } from './types.tsx';
+import { BUSINESS_RULES, PRICING } from './types.tsx';
+import { createAuditLog } from './audit-service.tsx';
+import { STANDARD_PRICING } from './affordability-engine.tsx';
+
+const PLAN_PREFIX = 'pricing_plan:';
+
+export const STANDARD_PLAN_ID = STANDARD_PRICING.pricing_plan_id;
+
+// Customer pays the full monthly fee, merchant pays nothing
+export const STANDARD_PRICING_PLAN: PricingPlan = {
+  id: STANDARD_PLAN_ID,
+  name: 'Standard',
+  campaign: null,
+  merchant_ids: [],
+  customer_fee_rate: PRICING.TOTAL_MONTHLY_FEE,
+  merchant_discount_rate: 0,
+  tenors: [...BUSINESS_RULES.ALLOWED_TENORS],
+  min_amount: 0,
+  max_amount: null,
+  starts_at: null,
+  ends_at: null,
+  status: 'ACTIVE',
+  created_at: new Date(0).toISOString(),
+  updated_at: new Date(0).toISOString(),
+};
+
+export interface PricingPlanInput {
+  name?: string;
+  campaign?: string | null;
+  merchant_ids?: string[];
+  customer_fee_rate?: number;
+  tenors?: number[];
+  min_amount?: number;
+  max_amount?: number | null;
+  starts_at?: string | null;
+  ends_at?: string | null;
+  status?: PricingPlanStatus;
+}
+
+/**
+ * Get pricing plan by ID (the standard plan always exists)
+ */
+export async function getPricingPlan(planId: string): Promise<PricingPlan | null> {
+  if (planId === STANDARD_PLAN_ID) return STANDARD_PRICING_PLAN;
+  const data = await kv.get(`${PLAN_PREFIX}${planId}`);
+  return data ? JSON.parse(data) : null;
+}
+
+/**
+ * List pricing plans, optionally only those a merchant can offer
+ */
+export async function listPricingPlans(filters: { merchant_id?: string; status?: PricingPlanStatus } = {}): Promise<PricingPlan[]> {
+  const plans: PricingPlan[] = (await kv.getByPrefix(PLAN_PREFIX)).map((data: string) => JSON.parse(data));
+
+  return [STANDARD_PRICING_PLAN, ...plans]
+    .filter((p) => !filters.merchant_id || p.merchant_ids.length === 0 || p.merchant_ids.includes(filters.merchant_id))
+    .filter((p) => !filters.status || p.status === filters.status)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * Create pricing plan
+ */
+export async function createPricingPlan(input: PricingPlanInput, actor: string): Promise<PricingPlan> {
+  const now = new Date().toISOString();
+  const plan = buildPlan(
+    {
+      ...STANDARD_PRICING_PLAN,
+      id: uuidv4(),
+      name: '',
+      created_at: now,
+    },
+    input,
+    now
+  );
+
+  await kv.set(`${PLAN_PREFIX}${plan.id}`, JSON.stringify(plan));
+
+  await createAuditLog({
+    entity_type: 'pricing_plan',
+    entity_id: plan.id,
+    action: 'created',
+    actor,
+    changes: { plan },
+  });
+
+  return plan;
+}
+
+/**
+ * Update pricing plan (applies to new orders only; contracts keep the rates they were priced at)
+ */
+export async function updatePricingPlan(planId: string, input: PricingPlanInput, actor: string): Promise<PricingPlan> {
+  if (planId === STANDARD_PLAN_ID) {
+    throw new Error('The standard pricing plan cannot be changed');
+  }
+
+  const current = await getPricingPlan(planId);
+  if (!current) {
+    throw new Error(`Pricing plan ${planId} not found`);
+  }
+
+  const plan = buildPlan(current, input, new Date().toISOString());
+  await kv.set(`${PLAN_PREFIX}${plan.id}`, JSON.stringify(plan));
+
+  await createAuditLog({
+    entity_type: 'pricing_plan',
+    entity_id: plan.id,
+    action: 'updated',
+    actor,
+    changes: { old_plan: current, new_plan: plan },
+  });
+
+  return plan;
+}
+
+/**
+ * Set the plan a merchant's orders use when they name none
+ */
+export async function setMerchantDefaultPlan(merchantId: string, planId: string | null, actor: string): Promise<Merchant> {
+  const data = await kv.get(`merchant:${merchantId}`);
+  if (!data) {
+    throw new Error(`Merchant ${merchantId} not found`);
+  }
+  const merchant: Merchant = JSON.parse(data);
+
+  if (planId) {
+    const plan = await getPricingPlan(planId);
+    if (!plan) {
+      throw new Error(`Pricing plan ${planId} not found`);
+    }
+    if (plan.merchant_ids.length > 0 && !plan.merchant_ids.includes(merchantId)) {
+      throw new Error(`Pricing plan ${planId} is not available to merchant ${merchantId}`);
+    }
+  }
+
+  const previous = merchant.default_pricing_plan_id ?? null;
+  merchant.default_pricing_plan_id = planId;
+  await kv.set(`merchant:${merchantId}`, JSON.stringify(merchant));
+
+  await createAuditLog({
+    entity_type: 'merchant',
+    entity_id: merchantId,
+    action: 'default_pricing_plan_set',
+    actor,
+    changes: { old_plan_id: previous, new_plan_id: planId },
+  });
+
+  return merchant;
+}
+
+/**
+ * Resolve the plan for a new order: the one requested, else the merchant's default, else standard
+ */
+export async function resolvePricingPlan(
+  merchant: Merchant,
+  requestedPlanId?: string | null
+): Promise<PricingPlan | null> {
+  return getPricingPlan(requestedPlanId || merchant.default_pricing_plan_id || STANDARD_PLAN_ID);
+}
+
+/**
+ * Validate that a plan can price an order
+ */
+export function validatePricingPlan(
+  plan: PricingPlan,
+  merchantId: string,
+  amount: number,
+  tenorMonths: number,
+  asOf: Date = new Date()
+): { valid: boolean; reason?: string } {
+  if (plan.status !== 'ACTIVE') {
+    return { valid: false, reason: `Pricing plan ${plan.id} is not active` };
+  }
+  if (plan.merchant_ids.length > 0 && !plan.merchant_ids.includes(merchantId)) {
+    return { valid: false, reason: `Pricing plan ${plan.id} is not available to this merchant` };
+  }
+  if (plan.starts_at && asOf < new Date(plan.starts_at)) {
+    return { valid: false, reason: `Pricing plan ${plan.id} starts on ${plan.starts_at}` };
+  }
+  if (plan.ends_at && asOf > new Date(plan.ends_at)) {
+    return { valid: false, reason: `Pricing plan ${plan.id} ended on ${plan.ends_at}` };
+  }
+  if (!plan.tenors.includes(tenorMonths)) {
+    return {
+      valid: false,
+      reason: `Pricing plan ${plan.id} does not offer a ${tenorMonths} month tenor (allowed: ${plan.tenors.join(', ')})`,
+    };
+  }
+  if (amount < plan.min_amount || (plan.max_amount !== null && amount > plan.max_amount)) {
+    return {
+      valid: false,
+      reason: `Amount ${amount} is outside pricing plan ${plan.id} range ${plan.min_amount}-${plan.max_amount ?? 'unlimited'}`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Monthly rates an order is priced at. The customer's share is split across
+ * interest, operational and collection fees in the standard proportions.
+ */
+export function toContractPricing(plan: PricingPlan): ContractPricing {
+  const share = plan.customer_fee_rate / PRICING.TOTAL_MONTHLY_FEE;
+  return {
+    pricing_plan_id: plan.id,
+    interest_rate: PRICING.INTEREST_RATE * share,
+    operational_fee_rate: PRICING.OPERATIONAL_FEE * share,
+    collection_fee_rate: PRICING.COLLECTION_FEE * share,
+    total_fee_rate: plan.customer_fee_rate,
+    merchant_discount_rate: plan.merchant_discount_rate,
+  };
+}
+
+/**
+ * Share of the principal released to the merchant that is withheld as their subsidy
+ */
+export function merchantDiscountShare(contract: BNPLContract): number {
+  return (contract.merchant_discount_rate || 0) * contract.tenor_months;
+}
+
+function buildPlan(current: PricingPlan, input: PricingPlanInput, now: string): PricingPlan {
+  const provided = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+  const plan: PricingPlan = { ...current, ...provided, updated_at: now };
+
+  if (!plan.name || typeof plan.name !== 'string') {
+    throw new Error('Invalid pricing plan: name is required');
+  }
+  if (
+    typeof plan.customer_fee_rate !== 'number' ||
+    !Number.isFinite(plan.customer_fee_rate) ||
+    plan.customer_fee_rate < 0 ||
+    plan.customer_fee_rate > PRICING.TOTAL_MONTHLY_FEE
+  ) {
+    throw new Error(
+      `Invalid pricing plan: customer_fee_rate must be between 0 and ${PRICING.TOTAL_MONTHLY_FEE}`
+    );
+  }
+  if (
+    !Array.isArray(plan.tenors) ||
+    plan.tenors.length === 0 ||
+    plan.tenors.some((t) => !(BUSINESS_RULES.ALLOWED_TENORS as readonly number[]).includes(t))
+  ) {
+    throw new Error(`Invalid pricing plan: tenors must be a subset of ${BUSINESS_RULES.ALLOWED_TENORS.join(', ')}`);
+  }
+  if (!Array.isArray(plan.merchant_ids)) {
+    throw new Error('Invalid pricing plan: merchant_ids must be a list');
+  }
+  if (plan.min_amount < 0 || (plan.max_amount !== null && plan.max_amount < plan.min_amount)) {
+    throw new Error('Invalid pricing plan: amount range is invalid');
+  }
+  if (plan.starts_at && plan.ends_at && new Date(plan.ends_at) <= new Date(plan.starts_at)) {
+    throw new Error('Invalid pricing plan: ends_at must be after starts_at');
+  }
+
+  // The total cost of credit never changes, only who pays it
+  plan.merchant_discount_rate = Number((PRICING.TOTAL_MONTHLY_FEE - plan.customer_fee_rate).toFixed(6));
+
+  return plan;
+}
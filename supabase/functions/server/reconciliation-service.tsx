@@ -3,7 +3,9 @@
 import * as kv from './kv_store.tsx';
 import { v4 as uuidv4 } from 'npm:uuid';
 import type { ReconciliationRecord } from './types.tsx';
+import { ContractState } from './types.tsx';
 import { createAuditLog } from './audit-service.tsx';
+import { isTerminalState } from './state-machine.tsx';
 
 const RECON_PREFIX = 'reconciliation:';
 
@@ -73,43 +75,39 @@ export async function reconcileMifosLedger(date: string): Promise<Reconciliation
   const reconId = uuidv4();
   const now = new Date().toISOString();
 
-  // Get all contracts
-  const allContracts = await kv.getByPrefix('contract:');
+  // Get open contracts through the state index
+  const { getContractsByStates, getInstallments } = await import('./contract-service.tsx');
+  const { getMifosLoanStatus } = await import('./mifos-service.tsx');
+  // Closed, cancelled, refunded and defaulted contracts are no longer carried as open loans
+  const openStates = Object.values(ContractState).filter((state) => !isTerminalState(state));
+  const openContracts = await getContractsByStates(openStates);
   let bnplTotalOutstanding = 0;
   let mifosTotalOutstanding = 0;
   const contractDetails: any[] = [];
 
-  for (const key of allContracts) {
-    if (!key.includes(':')) {
-      const contractData = await kv.get(key);
-      if (contractData) {
-        const contract = JSON.parse(contractData);
-        if (contract.mifos_loan_id && contract.state !== 'CLOSED' && contract.state !== 'CANCELLED') {
-          // Get BNPL balance
-          const { getInstallments } = await import('./contract-service.tsx');
-          const installments = await getInstallments(contract.id);
-          const paid = installments.reduce((sum: number, i: any) => sum + i.amount_paid, 0);
-          const bnplOutstanding = contract.total_payable - paid;
-          bnplTotalOutstanding += bnplOutstanding;
-
-          // Get Mifos balance
-          const { getMifosLoanStatus } = await import('./mifos-service.tsx');
-          try {
-            const mifosStatus = await getMifosLoanStatus(contract.mifos_loan_id);
-            mifosTotalOutstanding += mifosStatus.outstanding;
-
-            contractDetails.push({
-              contract_id: contract.id,
-              mifos_loan_id: contract.mifos_loan_id,
-              bnpl_outstanding: bnplOutstanding,
-              mifos_outstanding: mifosStatus.outstanding,
-              variance: Math.abs(bnplOutstanding - mifosStatus.outstanding),
-            });
-          } catch (error) {
-            console.error(`Error getting Mifos status for ${contract.mifos_loan_id}:`, error);
-          }
-        }
-      }
+  for (const contract of openContracts) {
+    if (!contract.mifos_loan_id) continue;
+
+    // Get BNPL balance
+    const installments = await getInstallments(contract.id);
+    const paid = installments.reduce((sum: number, i: any) => sum + i.amount_paid, 0);
+    const bnplOutstanding = contract.total_payable - paid;
+    bnplTotalOutstanding += bnplOutstanding;
+
+    // Get Mifos balance
+    try {
+      const mifosStatus = await getMifosLoanStatus(contract.mifos_loan_id);
+      mifosTotalOutstanding += mifosStatus.outstanding;
+
+      contractDetails.push({
+        contract_id: contract.id,
+        mifos_loan_id: contract.mifos_loan_id,
+        bnpl_outstanding: bnplOutstanding,
+        mifos_outstanding: mifosStatus.outstanding,
+        variance: Math.abs(bnplOutstanding - mifosStatus.outstanding),
+      });
+    } catch (error) {
+      console.error(`Error getting Mifos status for ${contract.mifos_loan_id}:`, error);
     }
   }
 
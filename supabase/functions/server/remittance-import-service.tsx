@@ -0,0 +1,684 @@
+// Employer remittance import - parse bank/payroll files, match lines to deductions, exceptions queue
+
+import * as kv from './kv_store.tsx';
+import { v4 as uuidv4 } from 'npm:uuid';
+// SheetJS 0.20.3 from its own CDN; the npm registry build (0.18.x) has a prototype-pollution CVE
+// @deno-types="https://cdn.sheetjs.com/xlsx-0.20.3/package/types/index.d.ts"
+import * as XLSX from 'https://cdn.sheetjs.com/xlsx-0.20.3/package/xlsx.mjs';
+import type { EmployerDeductionInstruction } from './types.tsx';
+import {
+  getContract,
+  getDeductionsForCycle,
+  recordInstallmentPayment,
+  applyPrepayment,
+} from './contract-service.tsx';
+import type { InstallmentPaymentResult } from './contract-service.tsx';
+import { getPolicyByPayrollId } from './policy-service.tsx';
+import { holdCustomerCredit } from './payment-allocation-service.tsx';
+import { batchPostRepayments } from './mifos-service.tsx';
+import { reconcilePayrollDeductions } from './reconciliation-service.tsx';
+import { createAuditLog } from './audit-service.tsx';
+
+const IMPORT_PREFIX = 'remittance_import:';
+const EXCEPTION_PREFIX = 'remittance_exception:';
+
+// UGX - rounding differences treated as an exact match
+const AMOUNT_TOLERANCE = 1;
+
+// Header aliases seen in employer and bank files (lower-cased, punctuation stripped)
+const HEADER_ALIASES: Record<'payroll_employee_id' | 'amount' | 'reference' | 'transaction_date', string[]> = {
+  payroll_employee_id: ['payrollemployeeid', 'employeeno', 'employeenumber', 'payrollno', 'payrollnumber', 'staffno', 'staffid'],
+  amount: ['amount', 'amountugx', 'deducted', 'deductionamount', 'amountdeducted', 'remitted'],
+  reference: ['reference', 'ref', 'deductionid', 'deductionreference'],
+  transaction_date: ['transactiondate', 'date', 'paymentdate', 'valuedate'],
+};
+
+export type RemittanceFileFormat = 'CSV' | 'XLSX';
+
+export type RemittanceMatchType = 'EXACT' | 'REFERENCE' | 'MERGED' | 'SHORT';
+
+export type RemittanceExceptionReason =
+  | 'UNPARSEABLE'
+  | 'UNKNOWN_EMPLOYEE'
+  | 'NO_OPEN_DEDUCTION'
+  | 'OVERPAYMENT';
+
+export interface RemittanceLine {
+  line_number: number;
+  payroll_employee_id: string;
+  amount: number;
+  reference: string | null;
+  transaction_date: string | null;
+  raw: string[];
+}
+
+export interface RemittanceAllocation {
+  deduction_id: string;
+  amount: number;
+}
+
+export interface RemittanceLineMatch {
+  line: RemittanceLine;
+  match_type: RemittanceMatchType | null;
+  allocations: RemittanceAllocation[];
+  shortfall: number;
+  exception_id: string | null;
+}
+
+export interface RemittanceException {
+  id: string;
+  import_id: string;
+  employer_id: string;
+  payroll_cycle: string;
+  line: RemittanceLine;
+  reason: RemittanceExceptionReason;
+  status: 'OPEN' | 'RESOLVED' | 'DISMISSED';
+  allocations: RemittanceAllocation[];
+  resolution_note: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export interface RemittanceImport {
+  id: string;
+  employer_id: string;
+  payroll_cycle: string;
+  file_name: string;
+  format: RemittanceFileFormat;
+  status: 'MATCHED' | 'POSTED';
+  total_lines: number;
+  total_amount: number;
+  matched_amount: number;
+  shortfall_amount: number;
+  exception_amount: number;
+  matches: RemittanceLineMatch[];
+  exception_ids: string[];
+  imported_at: string;
+  imported_by: string;
+  posted_at: string | null;
+}
+
+/**
+ * Parse a remittance file into lines (header row required)
+ */
+export function parseRemittanceFile(
+  content: string | Uint8Array,
+  format: RemittanceFileFormat
+): { lines: RemittanceLine[]; unparsed: { line_number: number; raw: string[]; error: string }[] } {
+  const table = format === 'XLSX' ? readXlsx(content) : readCsv(content);
+  if (table.length === 0) {
+    throw new Error('Remittance file is empty');
+  }
+
+  const header = table[0].map((h) => String(h).toLowerCase().replace(/[^a-z0-9]/g, ''));
+  const column = (field: keyof typeof HEADER_ALIASES) =>
+    header.findIndex((h) => HEADER_ALIASES[field].includes(h));
+
+  const payrollIdx = column('payroll_employee_id');
+  const amountIdx = column('amount');
+  if (payrollIdx === -1 || amountIdx === -1) {
+    throw new Error('Remittance file needs payroll number and amount columns');
+  }
+  const referenceIdx = column('reference');
+  const dateIdx = column('transaction_date');
+
+  const lines: RemittanceLine[] = [];
+  const unparsed: { line_number: number; raw: string[]; error: string }[] = [];
+
+  for (let i = 1; i < table.length; i++) {
+    const raw = table[i].map((v) => String(v ?? '').trim());
+    if (raw.every((v) => v === '')) continue;
+    if (raw[0].toUpperCase() === 'TRAILER') continue; // Our own export control record
+
+    const payrollEmployeeId = raw[payrollIdx];
+    const amount = Number((raw[amountIdx] || '').replace(/[,\s]/g, ''));
+    if (!payrollEmployeeId || !Number.isFinite(amount) || amount <= 0) {
+      unparsed.push({ line_number: i + 1, raw, error: 'Missing payroll number or invalid amount' });
+      continue;
+    }
+
+    lines.push({
+      line_number: i + 1,
+      payroll_employee_id: payrollEmployeeId,
+      amount,
+      reference: referenceIdx !== -1 && raw[referenceIdx] ? raw[referenceIdx] : null,
+      transaction_date: dateIdx !== -1 && raw[dateIdx] ? raw[dateIdx] : null,
+      raw,
+    });
+  }
+
+  return { lines, unparsed };
+}
+
+/**
+ * Match remittance lines to open deductions for the cycle
+ *
+ * Per employee, in order: deduction reference, exact amount, one line covering
+ * several deductions (merged), then a short payment allocated oldest first.
+ * Anything else is an exception.
+ */
+export function matchRemittanceLines(
+  lines: RemittanceLine[],
+  deductions: EmployerDeductionInstruction[],
+  knownEmployees: Set<string>
+): { matches: RemittanceLineMatch[]; exceptions: { line: RemittanceLine; reason: RemittanceExceptionReason }[] } {
+  const open = new Map<string, EmployerDeductionInstruction[]>();
+  for (const deduction of [...deductions].sort((a, b) => a.sent_at.localeCompare(b.sent_at))) {
+    const list = open.get(deduction.payroll_employee_id) || [];
+    list.push(deduction);
+    open.set(deduction.payroll_employee_id, list);
+  }
+
+  const matches: RemittanceLineMatch[] = [];
+  const exceptions: { line: RemittanceLine; reason: RemittanceExceptionReason }[] = [];
+  const take = (employeeId: string, taken: EmployerDeductionInstruction[]) =>
+    open.set(employeeId, (open.get(employeeId) || []).filter((d) => !taken.includes(d)));
+  const matched = (line: RemittanceLine, type: RemittanceMatchType, allocations: RemittanceAllocation[], shortfall = 0) =>
+    matches.push({ line, match_type: type, allocations, shortfall, exception_id: null });
+
+  // Exact and referenced lines first, so merged/short matching sees what is really left
+  const pending: RemittanceLine[] = [];
+  for (const line of lines) {
+    const candidates = open.get(line.payroll_employee_id) || [];
+
+    const referenced = line.reference ? candidates.find((d) => d.id === line.reference) : undefined;
+    if (referenced && line.amount <= referenced.amount + AMOUNT_TOLERANCE) {
+      take(line.payroll_employee_id, [referenced]);
+      matched(line, 'REFERENCE', [{ deduction_id: referenced.id, amount: line.amount }], Math.max(0, referenced.amount - line.amount));
+      continue;
+    }
+
+    const exact = candidates.find((d) => Math.abs(d.amount - line.amount) <= AMOUNT_TOLERANCE);
+    if (exact) {
+      take(line.payroll_employee_id, [exact]);
+      matched(line, 'EXACT', [{ deduction_id: exact.id, amount: line.amount }]);
+      continue;
+    }
+
+    pending.push(line);
+  }
+
+  for (const line of pending) {
+    const candidates = open.get(line.payroll_employee_id) || [];
+    if (candidates.length === 0) {
+      exceptions.push({
+        line,
+        reason: knownEmployees.has(line.payroll_employee_id) ? 'NO_OPEN_DEDUCTION' : 'UNKNOWN_EMPLOYEE',
+      });
+      continue;
+    }
+
+    const expected = candidates.reduce((sum, d) => sum + d.amount, 0);
+    if (line.amount > expected + AMOUNT_TOLERANCE) {
+      exceptions.push({ line, reason: 'OVERPAYMENT' });
+      continue;
+    }
+
+    // Allocate oldest first; a full cover of several deductions is a merged line
+    let remaining = line.amount;
+    const allocations: RemittanceAllocation[] = [];
+    const taken: EmployerDeductionInstruction[] = [];
+    for (const deduction of candidates) {
+      if (remaining <= 0) break;
+      const amount = Math.min(remaining, deduction.amount);
+      allocations.push({ deduction_id: deduction.id, amount });
+      taken.push(deduction);
+      remaining -= amount;
+    }
+    take(line.payroll_employee_id, taken);
+
+    const covered = taken.reduce((sum, d) => sum + d.amount, 0);
+    const shortfall = Math.max(0, covered - line.amount);
+    matched(line, shortfall <= AMOUNT_TOLERANCE && taken.length > 1 ? 'MERGED' : 'SHORT', allocations, shortfall);
+  }
+
+  return { matches, exceptions };
+}
+
+/**
+ * Import a remittance file: parse, match and queue exceptions (nothing is posted yet)
+ */
+export async function importRemittanceFile(
+  employerId: string,
+  payrollCycle: string,
+  file: { name: string; format: RemittanceFileFormat; content: string | Uint8Array },
+  actor: string
+): Promise<RemittanceImport> {
+  const { lines, unparsed } = parseRemittanceFile(file.content, file.format);
+  const deductions = await getDeductionsForCycle(employerId, payrollCycle);
+
+  // Distinguishes 'no open deduction' from a payroll number we have never seen
+  const knownEmployees = new Set<string>();
+  for (const employeeId of new Set(lines.map((l) => l.payroll_employee_id))) {
+    if (await getPolicyByPayrollId(employerId, employeeId)) knownEmployees.add(employeeId);
+  }
+
+  const { matches, exceptions } = matchRemittanceLines(lines, deductions, knownEmployees);
+
+  const importId = uuidv4();
+  const now = new Date().toISOString();
+  const exceptionIds: string[] = [];
+
+  const queued = [
+    ...exceptions,
+    ...unparsed.map((u) => ({
+      line: {
+        line_number: u.line_number,
+        payroll_employee_id: '',
+        amount: 0,
+        reference: null,
+        transaction_date: null,
+        raw: u.raw,
+      },
+      reason: 'UNPARSEABLE' as RemittanceExceptionReason,
+    })),
+  ];
+
+  for (const { line, reason } of queued) {
+    const exception: RemittanceException = {
+      id: uuidv4(),
+      import_id: importId,
+      employer_id: employerId,
+      payroll_cycle: payrollCycle,
+      line,
+      reason,
+      status: 'OPEN',
+      allocations: [],
+      resolution_note: null,
+      resolved_by: null,
+      resolved_at: null,
+      created_at: now,
+    };
+    await kv.set(`${EXCEPTION_PREFIX}${exception.id}`, JSON.stringify(exception));
+    exceptionIds.push(exception.id);
+
+    matches.push({ line, match_type: null, allocations: [], shortfall: 0, exception_id: exception.id });
+  }
+  matches.sort((a, b) => a.line.line_number - b.line.line_number);
+
+  const remittanceImport: RemittanceImport = {
+    id: importId,
+    employer_id: employerId,
+    payroll_cycle: payrollCycle,
+    file_name: file.name,
+    format: file.format,
+    status: 'MATCHED',
+    total_lines: lines.length + unparsed.length,
+    total_amount: lines.reduce((sum, l) => sum + l.amount, 0),
+    matched_amount: matches.reduce((sum, m) => sum + m.allocations.reduce((s, a) => s + a.amount, 0), 0),
+    shortfall_amount: matches.reduce((sum, m) => sum + m.shortfall, 0),
+    exception_amount: exceptions.reduce((sum, e) => sum + e.line.amount, 0),
+    matches,
+    exception_ids: exceptionIds,
+    imported_at: now,
+    imported_by: actor,
+    posted_at: null,
+  };
+
+  await kv.set(`${IMPORT_PREFIX}${importId}`, JSON.stringify(remittanceImport));
+
+  await createAuditLog({
+    entity_type: 'remittance_import',
+    entity_id: importId,
+    action: 'imported',
+    actor,
+    changes: {
+      employer_id: employerId,
+      payroll_cycle: payrollCycle,
+      file_name: file.name,
+      total_lines: remittanceImport.total_lines,
+      matched_amount: remittanceImport.matched_amount,
+      exceptions: exceptionIds.length,
+    },
+  });
+
+  return remittanceImport;
+}
+
+/**
+ * Post an import's matched allocations (exceptions stay queued)
+ */
+export async function postRemittanceImport(importId: string, actor: string): Promise<{
+  import: RemittanceImport;
+  posted: number;
+  failed: number;
+  mifos_posted: number;
+  mifos_failed: number;
+  reconciliation_status: string;
+}> {
+  const remittanceImport = await getRemittanceImport(importId);
+  if (!remittanceImport) {
+    throw new Error(`Remittance import ${importId} not found`);
+  }
+  if (remittanceImport.status === 'POSTED') {
+    throw new Error(`Remittance import ${importId} was already posted at ${remittanceImport.posted_at}`);
+  }
+
+  const allocations = remittanceImport.matches.flatMap((m) =>
+    m.allocations.map((a) => ({ ...a, transaction_date: m.line.transaction_date }))
+  );
+  const result = await postAllocations(
+    remittanceImport.employer_id,
+    remittanceImport.payroll_cycle,
+    allocations,
+    actor
+  );
+
+  remittanceImport.status = 'POSTED';
+  remittanceImport.posted_at = new Date().toISOString();
+  await kv.set(`${IMPORT_PREFIX}${importId}`, JSON.stringify(remittanceImport));
+
+  await createAuditLog({
+    entity_type: 'remittance_import',
+    entity_id: importId,
+    action: 'posted',
+    actor,
+    changes: {
+      posted: result.posted,
+      failed: result.failed,
+      open_exceptions: remittanceImport.exception_ids.length,
+    },
+  });
+
+  return { import: remittanceImport, ...result };
+}
+
+/**
+ * Resolve a queued exception by allocating it to deductions, or dismiss it
+ * `amount` is what the operator confirms the line paid; it is checked against
+ * the parsed line and caps the allocations (unparseable lines have no amount)
+ * Allocations post straight away if the import has already been posted
+ */
+export async function resolveRemittanceException(
+  exceptionId: string,
+  resolution:
+    | { action: 'ALLOCATE'; amount: number; allocations: RemittanceAllocation[]; note?: string }
+    | { action: 'DISMISS'; note: string },
+  actor: string
+): Promise<RemittanceException> {
+  const data = await kv.get(`${EXCEPTION_PREFIX}${exceptionId}`);
+  if (!data) {
+    throw new Error(`Remittance exception ${exceptionId} not found`);
+  }
+
+  const exception: RemittanceException = JSON.parse(data);
+  if (exception.status !== 'OPEN') {
+    throw new Error(`Remittance exception ${exceptionId} is already ${exception.status}`);
+  }
+
+  if (resolution.action === 'ALLOCATE') {
+    if (!resolution.allocations || resolution.allocations.length === 0) {
+      throw new Error('At least one allocation is required');
+    }
+    if (!Number.isFinite(resolution.amount) || resolution.amount <= 0) {
+      throw new Error('A positive resolution amount is required');
+    }
+    if (exception.line.amount > 0 && Math.abs(resolution.amount - exception.line.amount) > AMOUNT_TOLERANCE) {
+      throw new Error(`Resolution amount ${resolution.amount} does not match the line amount ${exception.line.amount}`);
+    }
+    if (resolution.allocations.some((a) => !Number.isFinite(a.amount) || a.amount <= 0)) {
+      throw new Error('Allocation amounts must be positive');
+    }
+    const allocated = resolution.allocations.reduce((sum, a) => sum + a.amount, 0);
+    if (allocated > resolution.amount + AMOUNT_TOLERANCE) {
+      throw new Error(`Allocations ${allocated} exceed the resolution amount ${resolution.amount}`);
+    }
+
+    const remittanceImport = await getRemittanceImport(exception.import_id);
+    if (remittanceImport && remittanceImport.status === 'POSTED') {
+      await postAllocations(
+        exception.employer_id,
+        exception.payroll_cycle,
+        resolution.allocations.map((a) => ({ ...a, transaction_date: exception.line.transaction_date })),
+        actor
+      );
+    } else if (remittanceImport) {
+      const match = remittanceImport.matches.find((m) => m.exception_id === exceptionId);
+      if (match) match.allocations = resolution.allocations;
+      remittanceImport.matched_amount += allocated;
+      await kv.set(`${IMPORT_PREFIX}${remittanceImport.id}`, JSON.stringify(remittanceImport));
+    }
+
+    exception.status = 'RESOLVED';
+    exception.allocations = resolution.allocations;
+  } else {
+    exception.status = 'DISMISSED';
+  }
+
+  exception.resolution_note = resolution.note || null;
+  exception.resolved_by = actor;
+  exception.resolved_at = new Date().toISOString();
+  await kv.set(`${EXCEPTION_PREFIX}${exceptionId}`, JSON.stringify(exception));
+
+  await createAuditLog({
+    entity_type: 'remittance_exception',
+    entity_id: exceptionId,
+    action: exception.status === 'RESOLVED' ? 'resolved' : 'dismissed',
+    actor,
+    changes: {
+      import_id: exception.import_id,
+      reason: exception.reason,
+      amount: resolution.action === 'ALLOCATE' ? resolution.amount : null,
+      allocations: exception.allocations,
+      note: exception.resolution_note,
+    },
+  });
+
+  return exception;
+}
+
+/**
+ * Get a remittance exception
+ */
+export async function getRemittanceException(exceptionId: string): Promise<RemittanceException | null> {
+  const data = await kv.get(`${EXCEPTION_PREFIX}${exceptionId}`);
+  return data ? JSON.parse(data) : null;
+}
+
+/**
+ * Get a remittance import
+ */
+export async function getRemittanceImport(importId: string): Promise<RemittanceImport | null> {
+  const data = await kv.get(`${IMPORT_PREFIX}${importId}`);
+  return data ? JSON.parse(data) : null;
+}
+
+/**
+ * Exceptions queue for an employer (open only unless a status is given)
+ */
+export async function getRemittanceExceptions(
+  employerId: string,
+  status: RemittanceException['status'] = 'OPEN'
+): Promise<RemittanceException[]> {
+  const values = await kv.getByPrefix(EXCEPTION_PREFIX);
+  return values
+    .map((v: string) => JSON.parse(v) as RemittanceException)
+    .filter((e: RemittanceException) => e.employer_id === employerId && e.status === status)
+    .sort((a: RemittanceException, b: RemittanceException) => a.created_at.localeCompare(b.created_at));
+}
+
+export interface RemittanceLineResult {
+  deduction_id: string;
+  amount: number;
+  success: boolean;
+  applied?: number; // Posted to the loan (and Mifos)
+  credited?: number; // Overpayment held as customer credit
+  allocations?: InstallmentPaymentResult['allocations'];
+  error?: string;
+}
+
+/**
+ * Apply remittance lines to their deductions: run the payment waterfall
+ * (or final-dues prepayment), mark executed and collect Mifos postings
+ * Only SENT or APPROVED deductions take a payment; other lines fail individually
+ */
+export async function applyRemittanceLines(
+  remittances: Array<{ deduction_id: string; amount: number; transaction_date?: string | null }>
+): Promise<{
+  results: RemittanceLineResult[];
+  mifosRepayments: Array<{ mifos_loan_id: string; amount: number; transaction_date: string }>;
+}> {
+  const results: RemittanceLineResult[] = [];
+  const mifosRepayments: Array<{ mifos_loan_id: string; amount: number; transaction_date: string }> = [];
+
+  for (const remittance of remittances) {
+    try {
+      const deductionData = await kv.get(`deduction:${remittance.deduction_id}`);
+      if (!deductionData) {
+        results.push({ ...remittance, success: false, error: 'Deduction not found' });
+        continue;
+      }
+
+      const deduction: EmployerDeductionInstruction = JSON.parse(deductionData);
+      if (deduction.status !== 'SENT' && deduction.status !== 'APPROVED') {
+        results.push({ ...remittance, success: false, error: `Deduction is ${deduction.status}` });
+        continue;
+      }
+
+      // Final-dues deductions (employee exit) settle across the whole contract
+      let payment: { applied: number; credited: number; allocations?: InstallmentPaymentResult['allocations'] };
+      if (deduction.deduction_type === 'FINAL_DUES') {
+        const prepayment = await applyPrepayment(
+          deduction.contract_id,
+          remittance.amount,
+          'employer',
+          { deduction_id: remittance.deduction_id, source: 'FINAL_DUES' }
+        );
+        payment = { applied: prepayment.amount_applied, credited: prepayment.overpaid_amount };
+        if (prepayment.overpaid_amount > 0) {
+          await holdCustomerCredit(
+            prepayment.contract.customer_id,
+            prepayment.overpaid_amount,
+            deduction.contract_id,
+            remittance.deduction_id
+          );
+        }
+      } else {
+        payment = await recordInstallmentPayment(
+          deduction.contract_id,
+          deduction.installment_id,
+          remittance.amount,
+          remittance.deduction_id
+        );
+      }
+
+      // Executed only once the payment is recorded, so a line that fails stays open;
+      // the copy read above keeps the amount the employer was asked to deduct
+      deduction.status = 'EXECUTED' as EmployerDeductionInstruction['status'];
+      deduction.executed_at = new Date().toISOString();
+      await kv.set(`deduction:${remittance.deduction_id}`, JSON.stringify(deduction));
+
+      // Only the amount applied to the loan goes to Mifos, so both ledgers agree
+      const contract = await getContract(deduction.contract_id);
+      if (contract && contract.mifos_loan_id && payment.applied > 0) {
+        mifosRepayments.push({
+          mifos_loan_id: contract.mifos_loan_id,
+          amount: payment.applied,
+          transaction_date: remittance.transaction_date || new Date().toISOString().split('T')[0],
+        });
+      }
+
+      results.push({ ...remittance, success: true, ...payment });
+    } catch (error) {
+      results.push({
+        ...remittance,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return { results, mifosRepayments };
+}
+
+async function postAllocations(
+  employerId: string,
+  payrollCycle: string,
+  allocations: Array<RemittanceAllocation & { transaction_date: string | null }>,
+  actor: string
+): Promise<{ posted: number; failed: number; mifos_posted: number; mifos_failed: number; reconciliation_status: string }> {
+  const { results, mifosRepayments } = await applyRemittanceLines(allocations);
+  const mifosResults = await batchPostRepayments(mifosRepayments);
+
+  // Remittance record accumulates across imports and resolved exceptions
+  const remittanceKey = `remittance:${employerId}:${payrollCycle}`;
+  const existing = await kv.get(remittanceKey);
+  const previous = existing ? JSON.parse(existing) : null;
+  const postedAmount = results.filter((r) => r.success).reduce((sum, r) => sum + r.amount, 0);
+  await kv.set(remittanceKey, JSON.stringify({
+    employer_id: employerId,
+    payroll_cycle: payrollCycle,
+    total_amount: (previous ? previous.total_amount : 0) + postedAmount,
+    remittances_count: (previous ? previous.remittances_count : 0) + results.filter((r) => r.success).length,
+    processed_at: new Date().toISOString(),
+    processed_by: actor,
+  }));
+
+  const reconciliation = await reconcilePayrollDeductions(employerId, payrollCycle);
+
+  return {
+    posted: results.filter((r) => r.success).length,
+    failed: results.filter((r) => !r.success).length,
+    mifos_posted: mifosResults.successful,
+    mifos_failed: mifosResults.failed,
+    reconciliation_status: reconciliation.status,
+  };
+}
+
+/**
+ * Read a CSV file into rows (also used by the salary update feed)
+ */
+export function readCsv(content: string | Uint8Array): string[][] {
+  const text = typeof content === 'string' ? content : new TextDecoder().decode(content);
+  const rows: string[][] = [];
+
+  // Quoted fields may contain commas ("1,200,000") and line breaks
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const endRow = () => {
+    row.push(field);
+    if (row.some((v) => v.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Read the first sheet of an XLSX file (base64 string or bytes) into rows
+ */
+export function readXlsx(content: string | Uint8Array): string[][] {
+  const workbook = typeof content === 'string'
+    ? XLSX.read(content, { type: 'base64' })
+    : XLSX.read(content, { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  return XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false, defval: '' }) as string[][];
+}
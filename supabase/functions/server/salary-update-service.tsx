@@ -0,0 +1,317 @@
+// Salary update service - payroll salary change feeds, limit recalculation and review of material drops
+
+import * as kv from './kv_store.tsx';
+import { v4 as uuidv4 } from 'npm:uuid';
+import type {
+  BNPLContract,
+  LimitRecalculation,
+  SalaryReview,
+  SalaryUpdateBatch,
+  SalaryUpdateLine,
+  SalaryUpdateResult,
+} from './types.tsx';
+import { BUSINESS_RULES } from './types.tsx';
+import { getContractsByPolicy, getInstallments } from './contract-service.tsx';
+import { getPolicy, getPolicyByPayrollId, updateNetSalary } from './policy-service.tsx';
+import type { CommittedObligations } from './policy-service.tsx';
+import { readCsv, readXlsx } from './remittance-import-service.tsx';
+import type { RemittanceFileFormat } from './remittance-import-service.tsx';
+import { isTerminalState } from './state-machine.tsx';
+import { createAuditLog } from './audit-service.tsx';
+
+const BATCH_PREFIX = 'salary_update:';
+const REVIEW_PREFIX = 'salary_review:';
+
+// Header aliases seen in employer payroll files (lower-cased, punctuation stripped)
+const HEADER_ALIASES: Record<'payroll_employee_id' | 'net_salary', string[]> = {
+  payroll_employee_id: ['payrollemployeeid', 'employeeno', 'employeenumber', 'payrollno', 'payrollnumber', 'staffno', 'staffid'],
+  net_salary: ['netsalary', 'netpay', 'netsalaryugx', 'netpayugx', 'salary', 'takehome'],
+};
+
+/**
+ * Parse a salary file into update lines (header row required)
+ * Unreadable rows come back as lines with a NaN salary and are reported INVALID
+ */
+export function parseSalaryFile(content: string | Uint8Array, format: RemittanceFileFormat): SalaryUpdateLine[] {
+  const table = format === 'XLSX' ? readXlsx(content) : readCsv(content);
+  if (table.length === 0) {
+    throw new Error('Salary file is empty');
+  }
+
+  const header = table[0].map((h) => String(h).toLowerCase().replace(/[^a-z0-9]/g, ''));
+  const column = (field: keyof typeof HEADER_ALIASES) =>
+    header.findIndex((h) => HEADER_ALIASES[field].includes(h));
+
+  const payrollIdx = column('payroll_employee_id');
+  const salaryIdx = column('net_salary');
+  if (payrollIdx === -1 || salaryIdx === -1) {
+    throw new Error('Salary file needs payroll number and net salary columns');
+  }
+
+  const lines: SalaryUpdateLine[] = [];
+  for (let i = 1; i < table.length; i++) {
+    const raw = table[i].map((v) => String(v ?? '').trim());
+    if (raw.every((v) => v === '')) continue;
+
+    lines.push({
+      line_number: i + 1,
+      payroll_employee_id: raw[payrollIdx] || '',
+      net_salary: raw[salaryIdx] ? Number(raw[salaryIdx].replace(/[,\s]/g, '')) : NaN,
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Installments and principal the policy's open and defaulted contracts still commit
+ * Counts what is outstanding, so partial refunds and prepayments free capacity:
+ * the largest unpaid installment is the monthly draw, and principal is the
+ * outstanding share of the contract's total payable
+ */
+export async function committedObligations(contracts: BNPLContract[]): Promise<CommittedObligations> {
+  const committed: CommittedObligations = { monthly_payment: 0, principal_by_tenor: { 1: 0, 2: 0, 3: 0 } };
+
+  for (const contract of contracts) {
+    // A defaulted balance is still owed and keeps counting against capacity
+    if (isTerminalState(contract.state) && contract.state !== 'DEFAULTED') continue;
+
+    const unpaid = (await getInstallments(contract.id))
+      .filter((i) => i.status !== 'PAID')
+      .map((i) => Math.max(0, i.amount_due - i.amount_paid));
+    const outstanding = unpaid.reduce((sum, amount) => sum + amount, 0);
+
+    committed.monthly_payment += unpaid.length > 0 ? Math.max(...unpaid) : 0;
+    committed.principal_by_tenor[contract.tenor_months as 1 | 2 | 3] +=
+      contract.total_payable > 0 ? contract.principal_amount * Math.min(1, outstanding / contract.total_payable) : 0;
+  }
+
+  return committed;
+}
+
+/**
+ * Apply a salary feed: only changed salaries are written; limits are
+ * recalculated and material drops (or salaries open contracts now exceed)
+ * are queued for review, which can roll the change back
+ */
+export async function applySalaryUpdates(
+  employerId: string,
+  lines: SalaryUpdateLine[],
+  source: SalaryUpdateBatch['source'],
+  actor: string,
+  fileName: string | null = null
+): Promise<SalaryUpdateBatch> {
+  const batchId = uuidv4();
+  const now = new Date().toISOString();
+  const results: SalaryUpdateResult[] = [];
+
+  for (const line of lines) {
+    const result: SalaryUpdateResult = {
+      payroll_employee_id: line.payroll_employee_id,
+      line_number: line.line_number ?? null,
+      policy_number: null,
+      outcome: 'INVALID',
+      previous_salary: null,
+      new_salary: Number.isFinite(line.net_salary) ? line.net_salary : null,
+      limits: [],
+      review_id: null,
+      error: null,
+    };
+    results.push(result);
+
+    try {
+      if (!line.payroll_employee_id || !Number.isFinite(line.net_salary) || line.net_salary < 0) {
+        result.error = 'Missing payroll number or invalid net salary';
+        continue;
+      }
+
+      const policy = await getPolicyByPayrollId(employerId, line.payroll_employee_id);
+      if (!policy) {
+        result.outcome = 'UNKNOWN_EMPLOYEE';
+        continue;
+      }
+      result.policy_number = policy.policy_number;
+      result.previous_salary = policy.net_salary;
+
+      if (policy.status !== 'ACTIVE') {
+        result.outcome = 'INACTIVE_POLICY';
+        continue;
+      }
+      if (policy.net_salary === line.net_salary) {
+        result.outcome = 'UNCHANGED';
+        continue;
+      }
+
+      const committed = await committedObligations(await getContractsByPolicy(policy.policy_number));
+      const { previous_salary, limits } = await updateNetSalary(policy.policy_number, line.net_salary, committed);
+      result.outcome = 'APPLIED';
+      result.limits = limits;
+
+      await createAuditLog({
+        entity_type: 'policy',
+        entity_id: policy.policy_number,
+        action: 'salary_updated',
+        actor,
+        changes: { batch_id: batchId, previous_salary, new_salary: line.net_salary, limits },
+      });
+
+      const dropRatio = previous_salary > 0 ? (previous_salary - line.net_salary) / previous_salary : 0;
+      const overCommitted = committed.monthly_payment > line.net_salary * BUSINESS_RULES.MAX_DEBT_SERVICE_RATIO;
+      if (dropRatio >= BUSINESS_RULES.MATERIAL_SALARY_DROP_RATIO || overCommitted) {
+        const review: SalaryReview = {
+          id: uuidv4(),
+          batch_id: batchId,
+          policy_number: policy.policy_number,
+          employer_id: employerId,
+          payroll_employee_id: line.payroll_employee_id,
+          previous_salary,
+          new_salary: line.net_salary,
+          drop_ratio: Math.round(dropRatio * 10000) / 10000,
+          committed_monthly_payment: Math.round(committed.monthly_payment),
+          over_committed: overCommitted,
+          status: 'OPEN',
+          resolution: null,
+          resolution_note: null,
+          resolved_by: null,
+          resolved_at: null,
+          created_at: now,
+        };
+        await kv.set(`${REVIEW_PREFIX}${review.id}`, JSON.stringify(review));
+        result.review_id = review.id;
+
+        await createAuditLog({
+          entity_type: 'salary_review',
+          entity_id: review.id,
+          action: 'flagged',
+          actor: 'system',
+          changes: { review },
+        });
+      }
+    } catch (error) {
+      result.outcome = 'INVALID';
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  const batch: SalaryUpdateBatch = {
+    id: batchId,
+    employer_id: employerId,
+    source,
+    file_name: fileName,
+    total_lines: lines.length,
+    applied: results.filter((r) => r.outcome === 'APPLIED').length,
+    unchanged: results.filter((r) => r.outcome === 'UNCHANGED').length,
+    failed: results.filter((r) => r.outcome !== 'APPLIED' && r.outcome !== 'UNCHANGED').length,
+    flagged: results.filter((r) => r.review_id).length,
+    results,
+    processed_at: now,
+    processed_by: actor,
+  };
+
+  await kv.set(`${BATCH_PREFIX}${batchId}`, JSON.stringify(batch));
+
+  await createAuditLog({
+    entity_type: 'salary_update',
+    entity_id: batchId,
+    action: 'processed',
+    actor,
+    changes: {
+      employer_id: employerId,
+      source,
+      file_name: fileName,
+      total_lines: batch.total_lines,
+      applied: batch.applied,
+      flagged: batch.flagged,
+    },
+  });
+
+  return batch;
+}
+
+/**
+ * Import a CSV/XLSX salary file and apply it
+ */
+export async function importSalaryFile(
+  employerId: string,
+  file: { name: string; format: RemittanceFileFormat; content: string | Uint8Array },
+  actor: string
+): Promise<SalaryUpdateBatch> {
+  const lines = parseSalaryFile(file.content, file.format);
+  return applySalaryUpdates(employerId, lines, 'PAYROLL_FILE', actor, file.name);
+}
+
+/**
+ * Get salary update batch by ID
+ */
+export async function getSalaryUpdateBatch(batchId: string): Promise<SalaryUpdateBatch | null> {
+  const data = await kv.get(`${BATCH_PREFIX}${batchId}`);
+  return data ? JSON.parse(data) : null;
+}
+
+/**
+ * Salary reviews, newest first
+ */
+export async function getSalaryReviews(
+  filter: { status?: SalaryReview['status']; employer_id?: string } = {}
+): Promise<SalaryReview[]> {
+  const rows = await kv.getByPrefix(REVIEW_PREFIX);
+  return rows
+    .map((row: string) => JSON.parse(row) as SalaryReview)
+    .filter((r) => (!filter.status || r.status === filter.status) && (!filter.employer_id || r.employer_id === filter.employer_id))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * Resolve a salary review. The new salary is live while the review is open;
+ * CONFIRM keeps it, ROLL_BACK restores the previous salary and its limits
+ * (refused if a later feed has changed the salary since)
+ */
+export async function resolveSalaryReview(
+  reviewId: string,
+  decision: NonNullable<SalaryReview['resolution']>,
+  note: string,
+  actor: string
+): Promise<SalaryReview> {
+  const data = await kv.get(`${REVIEW_PREFIX}${reviewId}`);
+  if (!data) {
+    throw new Error(`Salary review ${reviewId} not found`);
+  }
+
+  const review: SalaryReview = JSON.parse(data);
+  if (review.status === 'RESOLVED') {
+    return review;
+  }
+
+  let limits: LimitRecalculation[] = [];
+  if (decision === 'ROLL_BACK') {
+    const policy = await getPolicy(review.policy_number);
+    if (!policy) {
+      throw new Error(`Policy ${review.policy_number} not found`);
+    }
+    if (policy.net_salary !== review.new_salary) {
+      throw new Error(
+        `Salary for policy ${review.policy_number} has changed since the review (now ${policy.net_salary}); cannot roll back`
+      );
+    }
+
+    const committed = await committedObligations(await getContractsByPolicy(review.policy_number));
+    limits = (await updateNetSalary(review.policy_number, review.previous_salary, committed)).limits;
+  }
+
+  review.status = 'RESOLVED';
+  review.resolution = decision;
+  review.resolution_note = note;
+  review.resolved_by = actor;
+  review.resolved_at = new Date().toISOString();
+  await kv.set(`${REVIEW_PREFIX}${reviewId}`, JSON.stringify(review));
+
+  await createAuditLog({
+    entity_type: 'salary_review',
+    entity_id: reviewId,
+    action: decision === 'ROLL_BACK' ? 'rolled_back' : 'confirmed',
+    actor,
+    changes: { resolution_note: note, restored_salary: decision === 'ROLL_BACK' ? review.previous_salary : null, limits },
+  });
+
+  return review;
+}
@@ -1,49 +1,18 @@
 // Contract state machine with strict transition enforcement
+// Transition table, guards and hooks come from the shared lifecycle (../_shared/contract-lifecycle.ts)
 
 import { ContractState } from './types.tsx';
-
-// Valid state transitions
-const STATE_TRANSITIONS: Record<ContractState, ContractState[]> = {
-  [ContractState.PRE_APPROVED]: [
-    ContractState.DEDUCTION_REQUESTED,
-    ContractState.CANCELLED,
-  ],
-  [ContractState.DEDUCTION_REQUESTED]: [
-    ContractState.CUSTOMER_AUTHORIZED,
-    ContractState.CANCELLED,
-  ],
-  [ContractState.CUSTOMER_AUTHORIZED]: [
-    ContractState.ESCROW_HELD,
-    ContractState.CANCELLED,
-  ],
-  [ContractState.ESCROW_HELD]: [
-    ContractState.DISBURSED,
-    ContractState.DISPUTED,
-    ContractState.CANCELLED,
-  ],
-  [ContractState.DISBURSED]: [
-    ContractState.IN_REPAYMENT,
-    ContractState.DISPUTED,
-  ],
-  [ContractState.IN_REPAYMENT]: [
-    ContractState.CLOSED,
-    ContractState.DISPUTED,
-  ],
-  [ContractState.CLOSED]: [],
-  [ContractState.DISPUTED]: [
-    ContractState.IN_REPAYMENT,
-    ContractState.CANCELLED,
-  ],
-  [ContractState.CANCELLED]: [],
-};
+import * as lifecycle from '../_shared/contract-lifecycle.ts';
+import type { LifecycleBindings, TransitionContext } from '../_shared/contract-lifecycle.ts';
 
 export class StateMachineError extends Error {
   constructor(
     public currentState: ContractState,
     public attemptedState: ContractState,
+    reason?: string,
   ) {
     super(
-      `Invalid state transition: Cannot move from ${currentState} to ${attemptedState}`,
+      reason ?? `Invalid state transition: Cannot move from ${currentState} to ${attemptedState}`,
     );
     this.name = 'StateMachineError';
   }
@@ -53,27 +22,47 @@ export function validateStateTransition(
   currentState: ContractState,
   newState: ContractState,
 ): void {
-  const allowedTransitions = STATE_TRANSITIONS[currentState];
-
-  if (!allowedTransitions.includes(newState)) {
+  if (!lifecycle.canTransition(currentState, newState)) {
     throw new StateMachineError(currentState, newState);
   }
 }
 
 export function getNextStates(currentState: ContractState): ContractState[] {
-  return STATE_TRANSITIONS[currentState] || [];
+  return lifecycle.getNextStates(currentState) as ContractState[];
 }
 
 export function isTerminalState(state: ContractState): boolean {
-  return (
-    state === ContractState.CLOSED || state === ContractState.CANCELLED
-  );
+  return lifecycle.isTerminalState(state);
 }
 
 export function canTransitionTo(
   currentState: ContractState,
   targetState: ContractState,
 ): boolean {
-  const allowedTransitions = STATE_TRANSITIONS[currentState];
-  return allowedTransitions.includes(targetState);
+  return lifecycle.canTransition(currentState, targetState);
+}
+
+/**
+ * Validate a transition against the table and guards, then run its hooks
+ * Throws StateMachineError with the guard's reason when blocked
+ */
+export async function runTransition<C>(
+  bindings: LifecycleBindings<C>,
+  context: TransitionContext<C>,
+): Promise<void> {
+  const reason = lifecycle.checkTransition(bindings, context);
+  if (reason) {
+    throw new StateMachineError(context.from as ContractState, context.to as ContractState, reason);
+  }
+
+  for (const hook of lifecycle.getTransitionHooks(bindings, context.from, context.to)) {
+    await hook(context);
+  }
+}
+
+/**
+ * Map a stored state onto the unified lifecycle (legacy domain names included)
+ */
+export function normalizeContractState(state: string): ContractState | null {
+  return lifecycle.normalizeState(state) as ContractState | null;
 }
@@ -0,0 +1,267 @@
+// Employee termination service - exit workflow, final-dues recovery and direct collection
+
+import * as kv from './kv_store.tsx';
+import { v4 as uuidv4 } from 'npm:uuid';
+import type { BNPLContract, DirectCollectionCase, EmployeeExit, PolicyStatus } from './types.tsx';
+import { BUSINESS_RULES, ContractState } from './types.tsx';
+import {
+  getContractsByPolicy,
+  getSettlementQuote,
+  updateContractState,
+  cancelOpenDeductions,
+  createFinalDuesDeduction,
+  getDeductionsForCycle,
+  setCollectionTrack,
+} from './contract-service.tsx';
+import {
+  getPolicy,
+  getPolicyByPayrollId,
+  getCustomerByPolicy,
+  updatePolicyStatus,
+  freezeLimits,
+} from './policy-service.tsx';
+import { refundFunds } from './pesapal-service.tsx';
+import { createAuditLog } from './audit-service.tsx';
+
+const EXIT_PREFIX = 'exit:';
+const COLLECTION_PREFIX = 'collection:';
+
+// Not yet funded - cancelled outright on exit
+const UNFUNDED_STATES: string[] = [
+  ContractState.PRE_APPROVED,
+  ContractState.DEDUCTION_REQUESTED,
+  ContractState.CUSTOMER_AUTHORIZED,
+];
+
+// Funds held for an undelivered order - escrow refunded and the contract cancelled on exit
+const ESCROW_STATES: string[] = [ContractState.ESCROW_HELD];
+
+// Funded and owing - recovered from terminal dues, residual to direct collection
+// (a disputed contract is still owed unless the dispute is decided for the customer)
+const RECOVERABLE_STATES: string[] = [
+  ContractState.DISBURSED,
+  ContractState.IN_REPAYMENT,
+  ContractState.DEFAULTED,
+  ContractState.DISPUTED,
+];
+
+export interface ExitNotice {
+  exit_date: string;
+  terminal_dues: number; // Final pay owed to the employee
+  reason?: string;
+}
+
+/**
+ * Process an employee exit: stop installment deductions, raise a capped
+ * final-dues deduction, move any residual to direct collection, then
+ * terminate the policy and freeze its limits
+ */
+export async function processEmployeeExit(
+  policyNumber: string,
+  notice: ExitNotice,
+  source: EmployeeExit['source'],
+  actor: string
+): Promise<EmployeeExit> {
+  const policy = await getPolicy(policyNumber);
+  if (!policy) {
+    throw new Error(`Policy ${policyNumber} not found`);
+  }
+
+  const existing = await getEmployeeExit(policyNumber);
+  if (existing) {
+    throw new Error(`Exit already processed for policy ${policyNumber} on ${existing.processed_at}`);
+  }
+
+  const exitDate = new Date(notice.exit_date);
+  if (isNaN(exitDate.getTime())) {
+    throw new Error(`Invalid exit_date ${notice.exit_date}`);
+  }
+  if (!(notice.terminal_dues >= 0)) {
+    throw new Error('terminal_dues must be a non-negative number');
+  }
+
+  const reason = notice.reason || 'EMPLOYMENT_TERMINATED';
+
+  // Contracts are settled first and the policy terminated last, so a run that
+  // fails part-way leaves the policy active and the exit can be retried
+  const contracts = await getContractsByPolicy(policyNumber);
+
+  // Unfunded contracts are simply cancelled
+  const cancelledContracts: string[] = [];
+  for (const contract of contracts.filter((c) => UNFUNDED_STATES.includes(c.state))) {
+    await updateContractState(contract.id, ContractState.CANCELLED, actor, {
+      reason: 'Employee exit before disbursement',
+    });
+    cancelledContracts.push(contract.id);
+  }
+
+  // Nothing has reached the merchant yet, so the hold goes back rather than to collection
+  for (const contract of contracts.filter((c) => ESCROW_STATES.includes(c.state))) {
+    const refund = await refundFunds(contract.id, contract.principal_amount);
+    await cancelOpenDeductions(contract.id);
+    await updateContractState(contract.id, ContractState.CANCELLED, actor, {
+      reason: 'Employee exit before delivery',
+      pesapal_transaction_id: refund.id,
+    });
+    cancelledContracts.push(contract.id);
+  }
+
+  // Oldest contract first for the final deduction
+  const recoverable = contracts
+    .filter((c) => RECOVERABLE_STATES.includes(c.state))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  const balances: { contract: BNPLContract; outstanding: number }[] = [];
+  const cancelledDeductions: string[] = [];
+  for (const contract of recoverable) {
+    cancelledDeductions.push(...(await cancelOpenDeductions(contract.id)));
+    const quote = await getSettlementQuote(contract.id, exitDate);
+    balances.push({ contract, outstanding: quote.payoff_amount });
+  }
+
+  const totalOutstanding = balances.reduce((sum, b) => sum + b.outstanding, 0);
+  const cap = Math.floor(notice.terminal_dues * BUSINESS_RULES.MAX_TERMINAL_DUES_DEDUCTION_RATIO);
+  let available = Math.min(totalOutstanding, cap);
+
+  const payrollCycle = `${exitDate.getFullYear()}-${String(exitDate.getMonth() + 1).padStart(2, '0')}`;
+  // Final-dues deductions raised by an earlier run that failed part-way are reused
+  const raisedEarlier = (await getDeductionsForCycle(policy.employer_id, payrollCycle)).filter(
+    (d) => d.deduction_type === 'FINAL_DUES'
+  );
+  const finalDeductions: string[] = [];
+  const residualContracts: string[] = [];
+  let residual = 0;
+
+  for (const { contract, outstanding } of balances) {
+    const recovered = Math.min(available, outstanding);
+    available -= recovered;
+
+    if (recovered > 0) {
+      const deduction =
+        raisedEarlier.find((d) => d.contract_id === contract.id) ??
+        (await createFinalDuesDeduction(contract.id, recovered, payrollCycle));
+      finalDeductions.push(deduction.id);
+    }
+
+    if (outstanding - recovered > 0) {
+      residual += outstanding - recovered;
+      residualContracts.push(contract.id);
+      await setCollectionTrack(contract.id, 'DIRECT', actor, reason);
+    }
+  }
+
+  let directCollectionId: string | null = null;
+  if (residual > 0) {
+    const customer = await getCustomerByPolicy(policyNumber);
+    const now = new Date().toISOString();
+    const collectionCase: DirectCollectionCase = {
+      id: uuidv4(),
+      policy_number: policyNumber,
+      customer_id: customer ? customer.id : null,
+      contract_ids: residualContracts,
+      amount: residual,
+      reason,
+      status: 'OPEN',
+      created_at: now,
+      updated_at: now,
+    };
+    await kv.set(`${COLLECTION_PREFIX}${collectionCase.id}`, JSON.stringify(collectionCase));
+    await kv.set(`${COLLECTION_PREFIX}policy:${policyNumber}`, collectionCase.id);
+    directCollectionId = collectionCase.id;
+  }
+
+  await updatePolicyStatus(policyNumber, 'TERMINATED' as PolicyStatus);
+  await freezeLimits(policyNumber);
+
+  const exit: EmployeeExit = {
+    policy_number: policyNumber,
+    employer_id: policy.employer_id,
+    payroll_employee_id: policy.payroll_employee_id,
+    exit_date: exitDate.toISOString(),
+    reason,
+    source,
+    terminal_dues: notice.terminal_dues,
+    total_outstanding: totalOutstanding,
+    final_deduction_cap: cap,
+    final_deduction_amount: Math.min(totalOutstanding, cap),
+    final_deduction_ids: finalDeductions,
+    cancelled_deduction_ids: cancelledDeductions,
+    cancelled_contract_ids: cancelledContracts,
+    residual_amount: residual,
+    direct_collection_id: directCollectionId,
+    processed_at: new Date().toISOString(),
+    processed_by: actor,
+  };
+
+  await kv.set(`${EXIT_PREFIX}${policyNumber}`, JSON.stringify(exit));
+
+  await createAuditLog({
+    entity_type: 'policy',
+    entity_id: policyNumber,
+    action: 'employee_exit',
+    actor,
+    changes: {
+      source,
+      exit_date: exit.exit_date,
+      terminal_dues: exit.terminal_dues,
+      total_outstanding: totalOutstanding,
+      final_deduction_amount: exit.final_deduction_amount,
+      residual_amount: residual,
+      direct_collection_id: directCollectionId,
+    },
+  });
+
+  return exit;
+}
+
+/**
+ * Process an employer payroll exit file (leavers keyed by payroll employee id)
+ */
+export async function processPayrollExitFile(
+  employerId: string,
+  exits: Array<ExitNotice & { payroll_employee_id: string }>,
+  actor: string
+): Promise<{
+  successful: EmployeeExit[];
+  failed: Array<{ payroll_employee_id: string; error: string }>;
+}> {
+  const successful: EmployeeExit[] = [];
+  const failed: Array<{ payroll_employee_id: string; error: string }> = [];
+
+  for (const notice of exits) {
+    try {
+      const policy = await getPolicyByPayrollId(employerId, notice.payroll_employee_id);
+      if (!policy) {
+        throw new Error(`No policy for payroll employee ${notice.payroll_employee_id}`);
+      }
+
+      successful.push(await processEmployeeExit(policy.policy_number, notice, 'PAYROLL_FILE', actor));
+    } catch (error) {
+      failed.push({
+        payroll_employee_id: notice.payroll_employee_id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return { successful, failed };
+}
+
+/**
+ * Get a processed employee exit
+ */
+export async function getEmployeeExit(policyNumber: string): Promise<EmployeeExit | null> {
+  const data = await kv.get(`${EXIT_PREFIX}${policyNumber}`);
+  return data ? JSON.parse(data) : null;
+}
+
+/**
+ * Get the direct collection case opened for a policy
+ */
+export async function getDirectCollectionCase(policyNumber: string): Promise<DirectCollectionCase | null> {
+  const caseId = await kv.get(`${COLLECTION_PREFIX}policy:${policyNumber}`);
+  if (!caseId) return null;
+
+  const data = await kv.get(`${COLLECTION_PREFIX}${caseId}`);
+  return data ? JSON.parse(data) : null;
+}
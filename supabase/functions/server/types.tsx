@@ -1,5 +1,11 @@
 // Core domain types for BNPL platform
 
+import type { DelinquencyBucket } from '../_shared/delinquency.ts';
+import type { PenaltyChargeType } from '../_shared/penalties.ts';
+import type { VelocityDecline } from '../_shared/velocity.ts';
+import type { CRBConsentChannel, CRBOverallStatus, CRBRiskFlag, CRBRiskLevel } from '../_shared/crb.ts';
+import type { AdverseActionCode, DecisionFactors } from '../_shared/credit-decision.ts';
+
 export enum ContractState {
   PRE_APPROVED = 'PRE_APPROVED',
   DEDUCTION_REQUESTED = 'DEDUCTION_REQUESTED',
@@ -10,12 +16,15 @@ export enum ContractState {
   CLOSED = 'CLOSED',
   DISPUTED = 'DISPUTED',
   CANCELLED = 'CANCELLED',
+  REFUNDED = 'REFUNDED',
+  DEFAULTED = 'DEFAULTED',
 }
 
 export enum InstallmentStatus {
   PENDING = 'PENDING',
   SENT_TO_EMPLOYER = 'SENT_TO_EMPLOYER',
   DEDUCTED = 'DEDUCTED',
+  PARTIALLY_PAID = 'PARTIALLY_PAID',
   PAID = 'PAID',
   OVERDUE = 'OVERDUE',
 }
@@ -25,6 +34,8 @@ export enum DeductionStatus {
   APPROVED = 'APPROVED',
   EXECUTED = 'EXECUTED',
   FAILED = 'FAILED',
+  CANCELLED = 'CANCELLED',
+  ON_HOLD = 'ON_HOLD', // Paused while the contract is disputed
 }
 
 export enum PolicyStatus {
@@ -79,6 +90,7 @@ export interface BNPLLimit {
   max_amount: number;
   available_amount: number;
   last_calculated_at: string;
+  frozen_at?: string | null; // Set on employee exit - closures no longer release limit
 }
 
 export interface BNPLContract {
@@ -89,10 +101,12 @@ export interface BNPLContract {
   order_id: string;
   principal_amount: number;
   tenor_months: 1 | 2 | 3;
-  interest_rate: number; // 7%
-  operational_fee_rate: number; // 2%
-  collection_fee_rate: number; // 3%
-  total_fee_rate: number; // 12%
+  interest_rate: number; // Customer-borne monthly rates: 7% / 2% / 3% / 12% at standard pricing
+  operational_fee_rate: number;
+  collection_fee_rate: number;
+  total_fee_rate: number;
+  pricing_plan_id?: string; // Absent on contracts created before pricing plans
+  merchant_discount_rate?: number; // Monthly rate subsidised by the merchant, withheld at settlement
   total_payable: number;
   installment_amount: number;
   state: ContractState;
@@ -103,8 +117,36 @@ export interface BNPLContract {
   authorized_at: string | null;
   disbursed_at: string | null;
   closed_at: string | null;
+  past_due_amount?: number; // Set by the delinquency job
+  days_past_due?: number;
+  delinquency_bucket?: DelinquencyBucket;
+  defaulted_at?: string | null;
+  collection_track?: CollectionTrack; // PAYROLL unless moved to direct collection
+  credit_decision?: ContractCreditDecision; // Absent on contracts created before decisions were recorded
 }
 
+// Why an order was approved or declined - factor breakdown shared with the domain CreditEngine
+export interface ContractCreditDecision {
+  outcome: 'APPROVED' | 'DECLINED';
+  factors: DecisionFactors;
+  adverse_action_codes: AdverseActionCode[];
+  crb_check_id: string | null; // Latest CRB check on file when the order was decided
+  decided_at: string;
+}
+
+// A declined order has no contract, so its decision is kept on its own
+export interface DeclinedCreditDecision extends ContractCreditDecision {
+  id: string;
+  outcome: 'DECLINED';
+  policy_number: string;
+  customer_id: string;
+  merchant_id: string;
+  requested_amount: number;
+  tenor_months: 1 | 2 | 3;
+}
+
+export type CollectionTrack = 'PAYROLL' | 'DIRECT';
+
 export interface BNPLInstallment {
   id: string;
   contract_id: string;
@@ -115,6 +157,63 @@ export interface BNPLInstallment {
   status: InstallmentStatus;
   deduction_id: string | null;
   paid_at: string | null;
+  days_past_due?: number; // Set by the delinquency run; PARTIALLY_PAID installments can be past due too
+  charges?: InstallmentCharge[]; // Late penalties, kept separate from amount_due
+  allocations?: PaymentAllocation[]; // Waterfall breakdown of each payment received
+}
+
+// One payment's share of an installment, split by the payment waterfall
+export interface PaymentAllocation {
+  id: string;
+  payment_reference: string; // Deduction id or payment reference
+  amount: number;
+  penalties: number;
+  fees: number;
+  interest: number;
+  principal: number;
+  charge_ids: string[]; // Penalty charges (part-)paid by this allocation
+  allocated_at: string;
+}
+
+export interface CustomerCredit {
+  customer_id: string;
+  balance: number;
+  entries: Array<{
+    amount: number; // Positive when held, negative when applied
+    contract_id: string;
+    payment_reference: string;
+    created_at: string;
+  }>;
+  updated_at: string;
+}
+
+export type InstallmentChargeStatus = 'ACCRUED' | 'PAID' | 'WAIVED';
+
+export interface InstallmentCharge {
+  id: string;
+  type: PenaltyChargeType;
+  amount: number;
+  status: InstallmentChargeStatus;
+  accrued_on: string; // YYYY-MM-DD run date
+  accrued_from: string | null; // Penalty interest period
+  accrued_to: string | null;
+  amount_paid?: number; // Partial payments through the waterfall
+  mifos_charge_id: string | null;
+  waived_at: string | null;
+  waived_by: string | null;
+  waiver_reason: string | null;
+}
+
+export interface SettlementQuote {
+  contract_id: string;
+  as_of: string;
+  valid_until: string; // Penalties and the rebate move with the date
+  outstanding_amount: number; // Unpaid installments
+  interest_rebate: number; // Unearned interest for months not yet started
+  penalties_outstanding: number;
+  payoff_amount: number; // outstanding - rebate + penalties
+  elapsed_months: number;
+  unearned_months: number;
 }
 
 export interface EmployerDeductionInstruction {
@@ -128,6 +227,105 @@ export interface EmployerDeductionInstruction {
   status: DeductionStatus;
   sent_at: string;
   executed_at: string | null;
+  deduction_type?: DeductionType; // INSTALLMENT unless set
+}
+
+export type DeductionType = 'INSTALLMENT' | 'FINAL_DUES';
+
+export interface EmployeeExit {
+  policy_number: string;
+  employer_id: string;
+  payroll_employee_id: string;
+  exit_date: string;
+  reason: string;
+  source: 'EMPLOYER_API' | 'PAYROLL_FILE';
+  terminal_dues: number;
+  total_outstanding: number;
+  final_deduction_cap: number; // terminal_dues * MAX_TERMINAL_DUES_DEDUCTION_RATIO
+  final_deduction_amount: number;
+  final_deduction_ids: string[];
+  cancelled_deduction_ids: string[];
+  cancelled_contract_ids: string[];
+  residual_amount: number;
+  direct_collection_id: string | null;
+  processed_at: string;
+  processed_by: string;
+}
+
+export interface DirectCollectionCase {
+  id: string;
+  policy_number: string;
+  customer_id: string | null;
+  contract_ids: string[];
+  amount: number; // Residual after the final payroll deduction
+  reason: string;
+  status: 'OPEN' | 'SETTLED' | 'WRITTEN_OFF';
+  created_at: string;
+  updated_at: string;
+}
+
+// Payroll salary change feed (API or file), diff-applied to EmployerPolicy.net_salary
+export type SalaryUpdateOutcome = 'APPLIED' | 'UNCHANGED' | 'UNKNOWN_EMPLOYEE' | 'INACTIVE_POLICY' | 'INVALID';
+
+export interface SalaryUpdateLine {
+  payroll_employee_id: string;
+  net_salary: number;
+  line_number?: number; // File feeds only
+}
+
+export interface LimitRecalculation {
+  tenor_months: 1 | 2 | 3;
+  previous_max_amount: number;
+  max_amount: number;
+  previous_available_amount: number;
+  available_amount: number;
+  committed_amount: number; // Principal of open contracts on this tenor
+}
+
+export interface SalaryUpdateResult {
+  payroll_employee_id: string;
+  line_number: number | null;
+  policy_number: string | null;
+  outcome: SalaryUpdateOutcome;
+  previous_salary: number | null;
+  new_salary: number | null;
+  limits: LimitRecalculation[];
+  review_id: string | null; // Set when the change was flagged for review
+  error: string | null;
+}
+
+export interface SalaryUpdateBatch {
+  id: string;
+  employer_id: string;
+  source: 'EMPLOYER_API' | 'PAYROLL_FILE';
+  file_name: string | null;
+  total_lines: number;
+  applied: number;
+  unchanged: number;
+  failed: number;
+  flagged: number;
+  results: SalaryUpdateResult[];
+  processed_at: string;
+  processed_by: string;
+}
+
+export interface SalaryReview {
+  id: string;
+  batch_id: string;
+  policy_number: string;
+  employer_id: string;
+  payroll_employee_id: string;
+  previous_salary: number;
+  new_salary: number;
+  drop_ratio: number; // (previous - new) / previous
+  committed_monthly_payment: number; // Installments still owed on open contracts
+  over_committed: boolean; // Open contracts now exceed salary × MAX_DEBT_SERVICE_RATIO
+  status: 'OPEN' | 'RESOLVED';
+  resolution: 'CONFIRM' | 'ROLL_BACK' | null; // ROLL_BACK restored previous_salary
+  resolution_note: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
 }
 
 export interface Employer {
@@ -147,19 +345,54 @@ export interface Merchant {
   name: string;
   api_key_hash: string;
   webhook_url: string | null;
+  webhook_secret?: string | null; // HMAC signing key for outbound webhooks
   settlement_bank_account: string;
+  default_pricing_plan_id?: string | null; // Used when an order names no plan
+  daily_limit?: number | null; // UGX per rolling 24h; velocity policy default when unset
+  monthly_volume_limit?: number | null; // UGX per rolling 30 days
+  max_ticket_size?: number | null; // UGX per order
   status: 'ACTIVE' | 'SUSPENDED';
   created_at: string;
 }
 
+export type WebhookEventType =
+  | 'order.authorized'
+  | 'order.escrow_held'
+  | 'order.delivered'
+  | 'order.settled'
+  | 'order.refunded'
+  | 'order.disputed'
+  | 'order.dispute_resolved';
+
+export type WebhookDeliveryStatus = 'PENDING' | 'DELIVERED' | 'RETRYING' | 'DEAD_LETTER';
+
+export interface WebhookDelivery {
+  id: string;
+  merchant_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  url: string;
+  payload: string; // Exact signed body
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  last_response_status: number | null;
+  last_error: string | null;
+  replay_of: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
 export interface MerchantOrder {
   id: string;
   merchant_id: string;
   policy_number: string;
   amount: number;
   items: OrderItem[];
-  status: 'PENDING_AUTH' | 'AUTHORIZED' | 'DELIVERED' | 'REFUNDED' | 'CANCELLED';
+  status: 'PENDING_AUTH' | 'AUTHORIZED' | 'DELIVERED' | 'PARTIALLY_REFUNDED' | 'REFUNDED' | 'CANCELLED';
   contract_id: string | null;
+  pricing_plan_id?: string;
   created_at: string;
   authorized_at: string | null;
   delivered_at: string | null;
@@ -171,16 +404,19 @@ export interface OrderItem {
   quantity: number;
   unit_price: number;
   total_price: number;
+  refunded_quantity?: number;
 }
 
 export interface PesapalTransaction {
   id: string;
   contract_id: string;
   amount: number;
-  type: 'HOLD' | 'RELEASE' | 'REFUND';
+  type: 'HOLD' | 'RELEASE' | 'REFUND' | 'COLLECTION'; // COLLECTION: a customer payment applied to a contract
   status: 'PENDING' | 'SUCCESS' | 'FAILED';
   pesapal_tracking_id: string;
   merchant_reference: string;
+  merchant_discount_amount?: number; // Withheld from a release as the merchant's subsidy
+  clawback_recovered_amount?: number; // Withheld from a release towards the merchant's outstanding clawbacks
   created_at: string;
   completed_at: string | null;
 }
@@ -214,11 +450,193 @@ export interface AuditLog {
   entity_id: string;
   action: string;
   actor: string;
+  authenticated_as?: string; // API key principal of the request that caused the change
   changes: Record<string, unknown>;
   timestamp: string;
 }
 
-// Pricing constants (NON-NEGOTIABLE)
+export type ApiTenantType = 'MERCHANT' | 'EMPLOYER';
+
+export type ApiScope =
+  | 'orders:read'
+  | 'orders:write'
+  | 'refunds:write'
+  | 'disputes:write'
+  | 'webhooks:manage'
+  | 'deductions:read'
+  | 'deductions:write'
+  | 'remittance:write'
+  | 'employees:write'
+  | 'keys:manage';
+
+export interface ApiCredential {
+  id: string; // Key id, the public part of the key
+  tenant_type: ApiTenantType;
+  tenant_id: string;
+  label: string | null;
+  key_hash: string; // SHA-256 of the full key
+  scopes: ApiScope[];
+  status: 'ACTIVE' | 'REVOKED';
+  expires_at: string | null; // Set on rotation - old key keeps working until then
+  replaced_by: string | null;
+  created_at: string;
+  created_by: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export type DisputeReason =
+  | 'ITEM_NOT_RECEIVED'
+  | 'NOT_AS_DESCRIBED'
+  | 'DEFECTIVE'
+  | 'UNAUTHORIZED'
+  | 'DUPLICATE_CHARGE'
+  | 'OTHER';
+
+export type DisputeParty = 'CUSTOMER' | 'MERCHANT';
+
+// AWAITING_MERCHANT until the merchant submits evidence
+export type DisputeStatus = 'AWAITING_MERCHANT' | 'UNDER_REVIEW' | 'RESOLVED';
+
+// MERCHANT_LIABLE refunds in full, CUSTOMER_LIABLE resumes repayment,
+// SPLIT refunds part and re-amortizes the rest
+export type DisputeOutcome = 'MERCHANT_LIABLE' | 'CUSTOMER_LIABLE' | 'SPLIT';
+
+export type DisputeSlaTimer = 'MERCHANT_RESPONSE' | 'RESOLUTION';
+
+export interface DisputeEvidence {
+  id: string;
+  party: DisputeParty;
+  description: string;
+  attachments: string[]; // URLs or document references
+  submitted_by: string;
+  submitted_at: string;
+}
+
+export interface Dispute {
+  id: string;
+  contract_id: string;
+  order_id: string;
+  merchant_id: string;
+  policy_number: string;
+  reason: DisputeReason;
+  description: string;
+  raised_by: DisputeParty;
+  status: DisputeStatus;
+  disputed_from: ContractState; // State the contract was in when the dispute was raised
+  evidence: DisputeEvidence[];
+  held_deduction_ids: string[];
+  merchant_response_due_at: string;
+  resolution_due_at: string;
+  sla_breaches: DisputeSlaTimer[];
+  outcome: DisputeOutcome | null;
+  refund_amount: number | null; // Principal refunded by the merchant on resolution
+  resolution_notes: string | null;
+  pesapal_transaction_id: string | null;
+  clawback_id?: string | null; // Set when the merchant had already been paid
+  mifos_adjustment_id: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Money owed back by a merchant who was already paid, withheld from later escrow releases
+export interface MerchantClawback {
+  id: string;
+  merchant_id: string;
+  contract_id: string;
+  reason: 'REFUND' | 'DISPUTE_LOST' | 'FRAUD' | 'OTHER';
+  case_reference: string | null; // Dispute or fraud case id
+  amount: number;
+  recovered_amount: number;
+  status: 'OUTSTANDING' | 'PARTIALLY_RECOVERED' | 'RECOVERED';
+  recoveries: { release_transaction_id: string; amount: number; recovered_at: string }[];
+  created_at: string;
+  recovered_at: string | null;
+}
+
+// Order declined by velocity controls, raised to operations for review
+export interface VelocityAlert {
+  id: string;
+  merchant_id: string;
+  customer_phone: string;
+  device_id: string | null;
+  amount: number;
+  declines: VelocityDecline[];
+  status: 'OPEN' | 'ACKNOWLEDGED';
+  acknowledged_by: string | null;
+  acknowledged_at: string | null;
+  created_at: string;
+}
+
+// Customer's explicit authorisation to pull their CRB report
+export interface CRBConsent {
+  id: string;
+  national_id: string;
+  phone_number: string;
+  customer_id: string | null; // Null while onboarding, before the customer exists
+  channel: CRBConsentChannel;
+  consent_text: string;
+  granted_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+// One bureau pull - reused until expires_at, raw report kept for audit
+export interface CRBCheck {
+  id: string;
+  national_id: string;
+  phone_number: string;
+  customer_id: string | null;
+  consent_id: string;
+  provider: string;
+  report_reference: string;
+  score: number; // 0-1000
+  risk_level: CRBRiskLevel;
+  risk_flags: CRBRiskFlag[];
+  overall_status: CRBOverallStatus;
+  default_history_count: number;
+  active_loans_count: number;
+  total_outstanding_credit: number;
+  raw_response: Record<string, unknown>;
+  checked_at: string;
+  expires_at: string;
+}
+
+// Pricing plan - splits the monthly cost of credit between customer and
+// merchant. The total is always PRICING.TOTAL_MONTHLY_FEE; whatever the
+// customer does not pay is the merchant discount rate.
+export type PricingPlanStatus = 'ACTIVE' | 'INACTIVE';
+
+export interface PricingPlan {
+  id: string;
+  name: string;
+  campaign: string | null; // Promotional campaign the plan belongs to
+  merchant_ids: string[]; // Empty = open to every merchant
+  customer_fee_rate: number; // Monthly, 0 for a 0% offer
+  merchant_discount_rate: number; // Monthly, TOTAL_MONTHLY_FEE - customer_fee_rate
+  tenors: number[]; // Subset of BUSINESS_RULES.ALLOWED_TENORS
+  min_amount: number;
+  max_amount: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  status: PricingPlanStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+// Monthly rates an order is priced at under its plan
+export interface ContractPricing {
+  pricing_plan_id: string;
+  interest_rate: number;
+  operational_fee_rate: number;
+  collection_fee_rate: number;
+  total_fee_rate: number; // Customer-borne
+  merchant_discount_rate: number;
+}
+
+// Standard pricing - total monthly cost of credit (NON-NEGOTIABLE)
 export const PRICING = {
   INTEREST_RATE: 0.07, // 7%
   OPERATIONAL_FEE: 0.02, // 2%
@@ -226,6 +644,12 @@ export const PRICING = {
   TOTAL_MONTHLY_FEE: 0.12, // 12%
 };
 
+// Late penalties (late fee, penalty interest, caps) are configured at runtime
+// via penalty-service.tsx - defaults in _shared/penalties.ts
+
+// Order velocity limits are configured at runtime via velocity-service.tsx,
+// with per-merchant overrides on Merchant - defaults in _shared/velocity.ts
+
 // Business rules
 export const BUSINESS_RULES = {
   ALLOWED_TENORS: [1, 2, 3] as const,
@@ -234,4 +658,8 @@ export const BUSINESS_RULES = {
   USSD_PIN_TIMEOUT_SECONDS: 300, // 5 minutes
   MAX_PIN_ATTEMPTS: 3,
   PIN_LOCKOUT_DURATION_HOURS: 24,
+  MAX_TERMINAL_DUES_DEDUCTION_RATIO: 0.5, // Max 50% of terminal dues recoverable on exit
+  DISPUTE_MERCHANT_RESPONSE_DAYS: 7, // Merchant evidence due
+  DISPUTE_RESOLUTION_DAYS: 30, // Decision due
+  MATERIAL_SALARY_DROP_RATIO: 0.2, // Salary drops of 20%+ are flagged for review
 };
@@ -0,0 +1,292 @@
+// Velocity service - rolling-window order limits per merchant, customer phone and device, with operations alerts
+
+import * as kv from './kv_store.tsx';
+import { v4 as uuidv4 } from 'npm:uuid';
+import type { Merchant, VelocityAlert } from './types.tsx';
+import { createAuditLog } from './audit-service.tsx';
+import { checkVelocity, DEFAULT_VELOCITY_POLICY, VELOCITY_RETENTION_MS } from '../_shared/velocity.ts';
+import type { VelocityCheck, VelocityEvent, VelocityPolicy, VelocitySubject } from '../_shared/velocity.ts';
+
+const VELOCITY_PREFIX = 'velocity:';
+const POLICY_KEY = `${VELOCITY_PREFIX}policy`;
+const ALERT_PREFIX = 'velocity_alert:';
+const EVENT_PREFIX = 'velocity_event:';
+
+export interface VelocityOrder {
+  merchant: Merchant;
+  customer_phone: string;
+  device_id?: string | null;
+  amount: number;
+}
+
+// Outcome of a velocity check; an allowed order holds a reservation until it is released
+export interface VelocityReservation extends VelocityCheck {
+  reservation_id: string | null;
+  reserved_at: string | null;
+}
+
+interface StoredVelocityEvent {
+  id: string;
+  amount: number;
+  at: string;
+}
+
+/**
+ * Get velocity policy (defaults until configured)
+ */
+export async function getVelocityPolicy(): Promise<VelocityPolicy> {
+  const data = await kv.get(POLICY_KEY);
+  return data ? { ...DEFAULT_VELOCITY_POLICY, ...JSON.parse(data) } : DEFAULT_VELOCITY_POLICY;
+}
+
+/**
+ * Update velocity policy
+ */
+export async function updateVelocityPolicy(
+  updates: Partial<VelocityPolicy>,
+  actor: string
+): Promise<VelocityPolicy> {
+  const current = await getVelocityPolicy();
+  const provided = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+  const policy: VelocityPolicy = { ...current, ...provided };
+
+  for (const [field, value] of Object.entries(policy)) {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      throw new Error(`Invalid velocity policy: ${field} must be a positive number`);
+    }
+  }
+
+  await kv.set(POLICY_KEY, JSON.stringify(policy));
+
+  await createAuditLog({
+    entity_type: 'velocity_policy',
+    entity_id: 'default',
+    action: 'updated',
+    actor,
+    changes: { old_policy: current, new_policy: policy },
+  });
+
+  return policy;
+}
+
+/**
+ * Set a merchant's own limits (null falls back to the velocity policy)
+ */
+export async function updateMerchantLimits(
+  merchantId: string,
+  limits: Partial<Pick<Merchant, 'daily_limit' | 'monthly_volume_limit' | 'max_ticket_size'>>,
+  actor: string
+): Promise<Merchant> {
+  const data = await kv.get(`merchant:${merchantId}`);
+  if (!data) {
+    throw new Error(`Merchant ${merchantId} not found`);
+  }
+  const merchant: Merchant = JSON.parse(data);
+
+  const provided = Object.fromEntries(Object.entries(limits).filter(([, value]) => value !== undefined));
+  for (const [field, value] of Object.entries(provided)) {
+    if (value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value <= 0)) {
+      throw new Error(`Invalid merchant limit: ${field} must be a positive number or null`);
+    }
+  }
+
+  const previous = {
+    daily_limit: merchant.daily_limit ?? null,
+    monthly_volume_limit: merchant.monthly_volume_limit ?? null,
+    max_ticket_size: merchant.max_ticket_size ?? null,
+  };
+  Object.assign(merchant, provided);
+  await kv.set(`merchant:${merchantId}`, JSON.stringify(merchant));
+
+  await createAuditLog({
+    entity_type: 'merchant',
+    entity_id: merchantId,
+    action: 'limits_updated',
+    actor,
+    changes: { old_limits: previous, new_limits: provided },
+  });
+
+  return merchant;
+}
+
+/**
+ * Velocity policy with a merchant's own limits applied
+ */
+export function merchantVelocityPolicy(policy: VelocityPolicy, merchant: Merchant): VelocityPolicy {
+  return {
+    ...policy,
+    merchantDailyVolume: merchant.daily_limit ?? policy.merchantDailyVolume,
+    merchantMonthlyVolume: merchant.monthly_volume_limit ?? policy.merchantMonthlyVolume,
+    maxTicketSize: merchant.max_ticket_size ?? policy.maxTicketSize,
+  };
+}
+
+/**
+ * Reserve a new order against the rolling counters; breaches release the
+ * reservation and raise an operations alert
+ * The order's events are written before the counters are read, so two
+ * concurrent orders each see the other and cannot both slip under a limit
+ */
+export async function checkOrderVelocity(order: VelocityOrder, asOf: Date = new Date()): Promise<VelocityReservation> {
+  const policy = merchantVelocityPolicy(await getVelocityPolicy(), order.merchant);
+  const subjects = orderSubjects(order);
+  const reservationId = uuidv4();
+  const event: StoredVelocityEvent = { id: reservationId, amount: order.amount, at: asOf.toISOString() };
+
+  await kv.mset(
+    subjects.map(([subject, id]) => eventKey(subject, id, event)),
+    subjects.map(() => JSON.stringify(event))
+  );
+
+  const result = checkVelocity(
+    order.amount,
+    {
+      merchant: await getEvents('MERCHANT', order.merchant.id, asOf, reservationId),
+      customer: await getEvents('CUSTOMER', order.customer_phone, asOf, reservationId),
+      device: order.device_id ? await getEvents('DEVICE', order.device_id, asOf, reservationId) : [],
+    },
+    asOf,
+    policy
+  );
+
+  if (!result.allowed) {
+    await releaseOrderVelocity(order, { reservation_id: reservationId, reserved_at: event.at });
+    await raiseVelocityAlert(order, result);
+    return { ...result, reservation_id: null, reserved_at: null };
+  }
+
+  return { ...result, reservation_id: reservationId, reserved_at: event.at };
+}
+
+/**
+ * Release an accepted order's reservation when the order is not created after all
+ */
+export async function releaseOrderVelocity(
+  order: VelocityOrder,
+  reservation: { reservation_id: string | null; reserved_at: string | null }
+): Promise<void> {
+  if (!reservation.reservation_id || !reservation.reserved_at) return;
+
+  const event = { id: reservation.reservation_id, at: reservation.reserved_at };
+  await kv.mdel(orderSubjects(order).map(([subject, id]) => eventKey(subject, id, event)));
+}
+
+/**
+ * List velocity alerts, newest first
+ */
+export async function listVelocityAlerts(filters: {
+  status?: VelocityAlert['status'];
+  merchant_id?: string;
+} = {}): Promise<VelocityAlert[]> {
+  const alerts: VelocityAlert[] = (await kv.getByPrefix(ALERT_PREFIX)).map((data: string) => JSON.parse(data));
+
+  return alerts
+    .filter((a) => !filters.status || a.status === filters.status)
+    .filter((a) => !filters.merchant_id || a.merchant_id === filters.merchant_id)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * Acknowledge a velocity alert
+ */
+export async function acknowledgeVelocityAlert(alertId: string, actor: string): Promise<VelocityAlert> {
+  const data = await kv.get(`${ALERT_PREFIX}${alertId}`);
+  if (!data) {
+    throw new Error(`Velocity alert ${alertId} not found`);
+  }
+
+  const alert: VelocityAlert = JSON.parse(data);
+  if (alert.status === 'ACKNOWLEDGED') {
+    return alert;
+  }
+
+  alert.status = 'ACKNOWLEDGED';
+  alert.acknowledged_by = actor;
+  alert.acknowledged_at = new Date().toISOString();
+  await kv.set(`${ALERT_PREFIX}${alertId}`, JSON.stringify(alert));
+
+  await createAuditLog({
+    entity_type: 'velocity_alert',
+    entity_id: alertId,
+    action: 'acknowledged',
+    actor,
+    changes: { status: alert.status },
+  });
+
+  return alert;
+}
+
+async function raiseVelocityAlert(order: VelocityOrder, result: VelocityCheck): Promise<VelocityAlert> {
+  const alert: VelocityAlert = {
+    id: uuidv4(),
+    merchant_id: order.merchant.id,
+    customer_phone: order.customer_phone,
+    device_id: order.device_id ?? null,
+    amount: order.amount,
+    declines: result.declines,
+    status: 'OPEN',
+    acknowledged_by: null,
+    acknowledged_at: null,
+    created_at: new Date().toISOString(),
+  };
+
+  await kv.set(`${ALERT_PREFIX}${alert.id}`, JSON.stringify(alert));
+  console.warn(
+    `[VELOCITY] Order declined for merchant ${alert.merchant_id}: ${result.declines.map((d) => d.code).join(', ')}`
+  );
+
+  await createAuditLog({
+    entity_type: 'velocity_alert',
+    entity_id: alert.id,
+    action: 'raised',
+    actor: 'system',
+    changes: { alert },
+  });
+
+  return alert;
+}
+
+function orderSubjects(order: VelocityOrder): [VelocitySubject, string][] {
+  const subjects: [VelocitySubject, string][] = [
+    ['MERCHANT', order.merchant.id],
+    ['CUSTOMER', order.customer_phone],
+  ];
+  if (order.device_id) {
+    subjects.push(['DEVICE', order.device_id]);
+  }
+  return subjects;
+}
+
+// One row per event, so orders never read-modify-write a shared counter row
+function eventsPrefix(subject: VelocitySubject, id: string): string {
+  return `${EVENT_PREFIX}${subject.toLowerCase()}:${id}:`;
+}
+
+function eventKey(subject: VelocitySubject, id: string, event: { id: string; at: string }): string {
+  return `${eventsPrefix(subject, id)}${event.at}:${event.id}`;
+}
+
+/**
+ * Events counted against a subject, excluding the caller's own reservation;
+ * events past the longest window are deleted as they are read
+ */
+async function getEvents(
+  subject: VelocitySubject,
+  id: string,
+  asOf: Date,
+  excludeId: string
+): Promise<VelocityEvent[]> {
+  const stored: StoredVelocityEvent[] = (await kv.getByPrefix(eventsPrefix(subject, id))).map((data: string) =>
+    JSON.parse(data)
+  );
+  const from = asOf.getTime() - VELOCITY_RETENTION_MS;
+
+  const expired = stored.filter((e) => new Date(e.at).getTime() <= from);
+  if (expired.length > 0) {
+    await kv.mdel(expired.map((e) => eventKey(subject, id, e)));
+  }
+
+  return stored
+    .filter((e) => e.id !== excludeId && new Date(e.at).getTime() > from)
+    .map((e) => ({ amount: e.amount, at: new Date(e.at) }));
+}
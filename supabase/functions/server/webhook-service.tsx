@@ -0,0 +1,330 @@
+// Merchant webhook service - signed order event delivery with backoff retries and dead-letter store
+
+import * as kv from './kv_store.tsx';
+import { v4 as uuidv4 } from 'npm:uuid';
+import type { Merchant, WebhookDelivery, WebhookDeliveryStatus, WebhookEventType } from './types.tsx';
+import { createAuditLog } from './audit-service.tsx';
+import {
+  INDEX,
+  ALL_PARTITION,
+  addToIndexes,
+  removeFromIndexes,
+  clearIndex,
+  queryAllRecords,
+  parseRecords,
+} from './kv-index.tsx';
+import type { IndexEntry } from './kv-index.tsx';
+
+const DELIVERY_PREFIX = 'webhook:delivery:';
+const DEAD_LETTER_PREFIX = 'webhook:dead_letter:';
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_SECONDS = 60; // 1m, 2m, 4m ... ~2h between the last attempts
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Emit an order event to the merchant's webhook endpoint. The delivery is
+ * queued for the retry worker rather than sent inline, so order and contract
+ * flows never wait on merchant endpoints. Never throws.
+ */
+export async function emitOrderEvent(
+  merchantId: string,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<WebhookDelivery | null> {
+  try {
+    const merchant = await getMerchantRecord(merchantId);
+    if (!merchant || !merchant.webhook_url) return null;
+
+    const now = new Date().toISOString();
+    const eventId = uuidv4();
+    const delivery: WebhookDelivery = {
+      id: uuidv4(),
+      merchant_id: merchantId,
+      event_id: eventId,
+      event_type: type,
+      url: merchant.webhook_url,
+      payload: JSON.stringify({ id: eventId, type, created_at: now, data }),
+      status: 'PENDING',
+      attempts: 0,
+      next_attempt_at: now,
+      last_attempt_at: null,
+      last_response_status: null,
+      last_error: null,
+      replay_of: null,
+      created_at: now,
+      delivered_at: null,
+    };
+
+    await kv.set(`${DELIVERY_PREFIX}${merchantId}:${delivery.id}`, JSON.stringify(delivery));
+    await addToIndexes([dueIndexEntry(delivery)]);
+    return delivery;
+  } catch (error) {
+    console.error(`Error emitting ${type} webhook for merchant ${merchantId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Send queued deliveries and retry those whose backoff has elapsed (scheduled job)
+ */
+export async function retryDueDeliveries(asOf: Date = new Date()): Promise<{
+  attempted: number;
+  delivered: number;
+  dead_lettered: number;
+}> {
+  // Only queued deliveries and those waiting on a retry are indexed, by next_attempt_at
+  const due = (
+    await queryAllRecords<WebhookDelivery>(
+      [{ index: INDEX.WEBHOOK_DUE, partition: ALL_PARTITION }],
+      { order: 'asc', to: asOf.toISOString() }
+    )
+  ).filter((d) => d.status === 'PENDING' || d.status === 'RETRYING');
+
+  let delivered = 0;
+  let deadLettered = 0;
+  for (const delivery of due) {
+    const merchant = await getMerchantRecord(delivery.merchant_id);
+    const result = await attemptDelivery(delivery, merchant);
+    if (result.status === 'DELIVERED') delivered++;
+    if (result.status === 'DEAD_LETTER') deadLettered++;
+  }
+
+  return { attempted: due.length, delivered, dead_lettered: deadLettered };
+}
+
+/**
+ * Rebuild the retry-due index from stored deliveries
+ */
+export async function rebuildWebhookIndexes(): Promise<number> {
+  await clearIndex(INDEX.WEBHOOK_DUE);
+
+  const waiting = parseRecords<WebhookDelivery>(
+    await kv.getByPrefix(DELIVERY_PREFIX),
+    (value) => Boolean(value.id && value.merchant_id) && (value.status === 'PENDING' || value.status === 'RETRYING')
+  ).filter((d) => d.next_attempt_at !== null);
+  await addToIndexes(waiting.map(dueIndexEntry));
+
+  return waiting.length;
+}
+
+/**
+ * Replay a delivery as a new delivery of the same event (e.g. from the dead-letter store)
+ */
+export async function replayDelivery(
+  merchantId: string,
+  deliveryId: string,
+  actor: string
+): Promise<WebhookDelivery> {
+  const original = await getDelivery(merchantId, deliveryId);
+  if (!original) {
+    throw new Error(`Webhook delivery ${deliveryId} not found`);
+  }
+
+  const merchant = await getMerchantRecord(merchantId);
+  if (!merchant || !merchant.webhook_url) {
+    throw new Error(`Merchant ${merchantId} has no webhook URL configured`);
+  }
+
+  const now = new Date().toISOString();
+  const replay: WebhookDelivery = {
+    ...original,
+    id: uuidv4(),
+    url: merchant.webhook_url,
+    status: 'PENDING',
+    attempts: 0,
+    next_attempt_at: now,
+    last_attempt_at: null,
+    last_response_status: null,
+    last_error: null,
+    replay_of: original.id,
+    created_at: now,
+    delivered_at: null,
+  };
+
+  await createAuditLog({
+    entity_type: 'merchant',
+    entity_id: merchantId,
+    action: 'webhook_replayed',
+    actor,
+    changes: { delivery_id: original.id, replay_id: replay.id, event_id: original.event_id, event_type: original.event_type },
+  });
+
+  const result = await attemptDelivery(replay, merchant);
+
+  // A successful replay clears the dead letter
+  if (result.status === 'DELIVERED' && original.status === 'DEAD_LETTER') {
+    await kv.del(`${DEAD_LETTER_PREFIX}${merchantId}:${original.id}`);
+  }
+
+  return result;
+}
+
+/**
+ * Delivery log for a merchant (newest first)
+ */
+export async function getDeliveries(
+  merchantId: string,
+  filters: { status?: WebhookDeliveryStatus; event_type?: WebhookEventType; limit?: number } = {}
+): Promise<WebhookDelivery[]> {
+  const deliveries = (await kv.getByPrefix(`${DELIVERY_PREFIX}${merchantId}:`))
+    .map((v: string) => JSON.parse(v) as WebhookDelivery)
+    .filter((d: WebhookDelivery) =>
+      (!filters.status || d.status === filters.status) &&
+      (!filters.event_type || d.event_type === filters.event_type)
+    )
+    .sort((a: WebhookDelivery, b: WebhookDelivery) => b.created_at.localeCompare(a.created_at));
+
+  return filters.limit ? deliveries.slice(0, filters.limit) : deliveries;
+}
+
+/**
+ * Dead-lettered deliveries for a merchant
+ */
+export async function getDeadLetters(merchantId: string): Promise<WebhookDelivery[]> {
+  return (await kv.getByPrefix(`${DEAD_LETTER_PREFIX}${merchantId}:`))
+    .map((v: string) => JSON.parse(v) as WebhookDelivery)
+    .sort((a: WebhookDelivery, b: WebhookDelivery) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * Get a single delivery
+ */
+export async function getDelivery(merchantId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+  const data = await kv.get(`${DELIVERY_PREFIX}${merchantId}:${deliveryId}`);
+  return data ? JSON.parse(data) : null;
+}
+
+/**
+ * Generate (or rotate) a merchant's webhook signing secret
+ */
+export async function rotateWebhookSecret(merchantId: string, actor: string): Promise<string> {
+  const merchant = await getMerchantRecord(merchantId);
+  if (!merchant) {
+    throw new Error(`Merchant ${merchantId} not found`);
+  }
+
+  const rotated = Boolean(merchant.webhook_secret);
+  merchant.webhook_secret = generateSecret();
+  await kv.set(`merchant:${merchantId}`, JSON.stringify(merchant));
+
+  await createAuditLog({
+    entity_type: 'merchant',
+    entity_id: merchantId,
+    action: rotated ? 'webhook_secret_rotated' : 'webhook_secret_created',
+    actor,
+    changes: {},
+  });
+
+  return merchant.webhook_secret;
+}
+
+/**
+ * Signature header value: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+ */
+export async function signPayload(secret: string, payload: string, timestamp: number): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${payload}`));
+  const hex = Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+
+  return `t=${timestamp},v1=${hex}`;
+}
+
+async function attemptDelivery(delivery: WebhookDelivery, merchant: Merchant | null): Promise<WebhookDelivery> {
+  const now = new Date();
+  const previousDue =
+    delivery.next_attempt_at && (delivery.status === 'PENDING' || delivery.status === 'RETRYING')
+      ? dueIndexEntry(delivery)
+      : null;
+  delivery.attempts++;
+  delivery.last_attempt_at = now.toISOString();
+
+  try {
+    if (!merchant) {
+      throw new Error(`Merchant ${delivery.merchant_id} not found`);
+    }
+
+    // The merchant must create a secret first; until then the delivery waits in the retry queue
+    if (!merchant.webhook_secret) {
+      throw new Error(`Merchant ${merchant.id} has no webhook signing secret; create one before deliveries are sent`);
+    }
+
+    // Signed at send time so the timestamp reflects this attempt
+    const secret = merchant.webhook_secret;
+    const timestamp = Math.floor(now.getTime() / 1000);
+
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event_type,
+        'X-Webhook-Signature': await signPayload(secret, delivery.payload, timestamp),
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    delivery.last_response_status = response.status;
+    await response.body?.cancel();
+
+    if (!response.ok) {
+      throw new Error(`Endpoint responded ${response.status}`);
+    }
+
+    delivery.status = 'DELIVERED';
+    delivery.delivered_at = now.toISOString();
+    delivery.next_attempt_at = null;
+    delivery.last_error = null;
+  } catch (error) {
+    delivery.last_error = error instanceof Error ? error.message : 'Unknown error';
+
+    if (delivery.attempts >= MAX_ATTEMPTS) {
+      delivery.status = 'DEAD_LETTER';
+      delivery.next_attempt_at = null;
+      await kv.set(`${DEAD_LETTER_PREFIX}${delivery.merchant_id}:${delivery.id}`, JSON.stringify(delivery));
+      console.error(`Webhook ${delivery.id} (${delivery.event_type}) dead-lettered after ${delivery.attempts} attempts`);
+    } else {
+      const backoffSeconds = BASE_RETRY_SECONDS * 2 ** (delivery.attempts - 1);
+      delivery.status = 'RETRYING';
+      delivery.next_attempt_at = new Date(now.getTime() + backoffSeconds * 1000).toISOString();
+    }
+  }
+
+  await kv.set(`${DELIVERY_PREFIX}${delivery.merchant_id}:${delivery.id}`, JSON.stringify(delivery));
+
+  // Move the delivery to its new retry slot (or out of the index once settled)
+  if (previousDue) await removeFromIndexes([previousDue]);
+  if (delivery.status === 'RETRYING') await addToIndexes([dueIndexEntry(delivery)]);
+
+  return delivery;
+}
+
+function dueIndexEntry(delivery: WebhookDelivery): IndexEntry {
+  return {
+    index: INDEX.WEBHOOK_DUE,
+    partition: ALL_PARTITION,
+    sort: delivery.next_attempt_at as string,
+    id: delivery.id,
+    key: `${DELIVERY_PREFIX}${delivery.merchant_id}:${delivery.id}`,
+  };
+}
+
+async function getMerchantRecord(merchantId: string): Promise<Merchant | null> {
+  const data = await kv.get(`merchant:${merchantId}`);
+  return data ? JSON.parse(data) : null;
+}
+
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `whsec_${Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('')}`;
+}